@@ -2,85 +2,65 @@
 
 /**
  * Script to delete a specific lottery year from the database
- * Usage: npm run delete-year <year>
+ * Usage: npm run delete-year -- <year> [--override]
  * Example: npm run delete-year 2023
+ *
+ * Uses the configured storage backend (DATABASE_BACKEND / DATABASE_PATH). A finalized
+ * year is only deleted with --override, and its result is kept in the archive.
  */
 
-import { readFileSync, writeFileSync, existsSync } from 'fs';
-import { join } from 'path';
+import { pathToFileURL } from 'url';
+import { Database, LotteryFinalizedError } from '../src/lib/database';
+import type { DraftLottery } from '../src/types';
 
-const DB_PATH = join(process.cwd(), 'src', 'data', 'database.json');
+export async function deleteLotteryYear(year: number, override = false): Promise<void> {
+  console.log('\n🔍 Loading database...');
+  const lotteries = await Database.getAllLotteries();
 
-interface Database {
-  config: any;
-  lotteries: Array<{
-    id: string;
-    year: number;
-    date: string;
-    picks: any[];
-    config: any;
-  }>;
-}
+  console.log(`📊 Current lotteries: ${lotteries.length}`);
+  lotteries.forEach((lottery) => {
+    const finalized = lottery.finalized ? ', finalized' : '';
+    console.log(`   - Year ${lottery.year} (${lottery.picks.length} picks${finalized})`);
+  });
 
-export function loadDatabase(dbPath: string = DB_PATH): Database {
-  if (!existsSync(dbPath)) {
-    console.error('❌ Error: database.json not found at', dbPath);
+  if (!lotteries.some((lottery) => lottery.year === year)) {
+    console.error(`\n❌ Error: No lottery found for year ${year}`);
+    console.log('\nAvailable years:');
+    lotteries.forEach((lottery) => {
+      console.log(`   - ${lottery.year}`);
+    });
     process.exit(1);
   }
 
+  let removed: DraftLottery | undefined;
   try {
-    const data = readFileSync(dbPath, 'utf-8');
-    return JSON.parse(data);
+    removed = await Database.deleteLottery(year, override);
   } catch (error) {
-    console.error('❌ Error: Failed to parse database.json', error);
-    process.exit(1);
+    if (error instanceof LotteryFinalizedError) {
+      console.error(`\n❌ Error: The ${year} lottery is finalized`);
+      console.log('Re-run with --override to delete it anyway (the result is kept in the archive).');
+      process.exit(1);
+    }
+    throw error;
   }
-}
 
-export function saveDatabase(db: Database, dbPath: string = DB_PATH): void {
-  try {
-    writeFileSync(dbPath, JSON.stringify(db, null, 2), 'utf-8');
-    console.log('✅ Database saved successfully');
-  } catch (error) {
-    console.error('❌ Error: Failed to save database.json', error);
-    process.exit(1);
-  }
-}
-
-export function deleteLotteryYear(year: number, dbPath: string = DB_PATH): void {
-  console.log(`\n🔍 Loading database from ${dbPath}...`);
-  const db = loadDatabase(dbPath);
-
-  console.log(`📊 Current lotteries: ${db.lotteries.length}`);
-  db.lotteries.forEach((lottery) => {
-    console.log(`   - Year ${lottery.year} (${lottery.picks.length} picks)`);
-  });
-
-  // Find the lottery for the specified year
-  const lotteryIndex = db.lotteries.findIndex((lottery) => lottery.year === year);
-
-  if (lotteryIndex === -1) {
+  // Deleted by someone else in the meantime
+  if (!removed) {
     console.error(`\n❌ Error: No lottery found for year ${year}`);
-    console.log('\nAvailable years:');
-    db.lotteries.forEach((lottery) => {
-      console.log(`   - ${lottery.year}`);
-    });
     process.exit(1);
   }
 
-  // Remove the lottery
-  const removedLottery = db.lotteries.splice(lotteryIndex, 1)[0];
   console.log(`\n🗑️  Removed lottery for year ${year}`);
-  console.log(`   - ${removedLottery.picks.length} picks deleted`);
-  console.log(`   - Date: ${new Date(removedLottery.date).toLocaleDateString()}`);
-
-  // Save the updated database
-  console.log(`\n💾 Saving updated database...`);
-  saveDatabase(db, dbPath);
+  console.log(`   - ${removed.picks.length} picks deleted`);
+  console.log(`   - Date: ${new Date(removed.date).toLocaleDateString()}`);
+  if (removed.finalized) {
+    console.log('   - Finalized result archived');
+  }
 
+  const remaining = await Database.getAllLotteries();
   console.log(`\n✅ Successfully deleted lottery for year ${year}`);
-  console.log(`📊 Remaining lotteries: ${db.lotteries.length}`);
-  db.lotteries.forEach((lottery) => {
+  console.log(`📊 Remaining lotteries: ${remaining.length}`);
+  remaining.forEach((lottery) => {
     console.log(`   - Year ${lottery.year}`);
   });
 
@@ -88,15 +68,19 @@ export function deleteLotteryYear(year: number, dbPath: string = DB_PATH): void
 }
 
 // Main execution - only run if this file is executed directly
-if (require.main === module) {
-  const year = parseInt(process.argv[2]);
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  const args = process.argv.slice(2);
+  const year = parseInt(args.find((arg) => !arg.startsWith('--')) ?? '');
 
   if (!year || isNaN(year)) {
     console.error('❌ Error: Please provide a valid year');
-    console.log('\nUsage: npm run delete-year <year>');
+    console.log('\nUsage: npm run delete-year -- <year> [--override]');
     console.log('Example: npm run delete-year 2023');
     process.exit(1);
   }
 
-  deleteLotteryYear(year);
+  deleteLotteryYear(year, args.includes('--override')).catch((error) => {
+    console.error('❌ Error deleting lottery:', error.message);
+    process.exit(1);
+  });
 }
@@ -0,0 +1,76 @@
+#!/usr/bin/env tsx
+
+/**
+ * Script to save printable draft boards as standalone HTML files for archiving
+ * Usage: npm run export-board [year]... [--out <dir>]
+ * Example: npm run export-board -- 2024 2025 --out archive
+ *
+ * Without years every saved lottery is exported. Uploaded logos are embedded, so the
+ * files open anywhere without the app.
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import { pathToFileURL } from 'url';
+import { readTeamLogos } from '../src/lib/backup';
+import { Database } from '../src/lib/database';
+import { renderDraftBoardHtml } from '../src/lib/draft-board';
+
+export const DEFAULT_EXPORT_DIR = 'draft-boards';
+
+/**
+ * Writes draft-board-{year}.html into outDir for each year (all years when empty) and
+ * returns the files written. Unknown years are an error and nothing is written.
+ */
+export async function exportDraftBoards(
+  years: number[],
+  outDir: string = DEFAULT_EXPORT_DIR
+): Promise<string[]> {
+  const lotteries = await Database.getAllLotteries();
+  const selected =
+    years.length > 0 ? lotteries.filter((lottery) => years.includes(lottery.year)) : lotteries;
+
+  const missing = years.filter((year) => !lotteries.some((lottery) => lottery.year === year));
+  if (missing.length > 0) {
+    throw new Error(`No lottery found for ${missing.join(', ')}`);
+  }
+
+  await fs.mkdir(outDir, { recursive: true });
+
+  const files: string[] = [];
+  for (const lottery of [...selected].sort((a, b) => a.year - b.year)) {
+    const file = path.join(outDir, `draft-board-${lottery.year}.html`);
+    const logos = await readTeamLogos(lottery.config.teams);
+    await fs.writeFile(file, renderDraftBoardHtml(lottery, { logos }), 'utf-8');
+    files.push(file);
+  }
+
+  return files;
+}
+
+// Main execution - only run if this file is executed directly
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  const args = process.argv.slice(2);
+  const outIndex = args.indexOf('--out');
+  const outDir = outIndex === -1 ? DEFAULT_EXPORT_DIR : args[outIndex + 1];
+  const years = args
+    .filter((arg, index) => !arg.startsWith('--') && (outIndex === -1 || index !== outIndex + 1))
+    .map((arg) => parseInt(arg));
+
+  if (!outDir || years.some(isNaN)) {
+    console.error('❌ Usage: npm run export-board -- [year]... [--out <dir>]');
+    process.exit(1);
+  }
+
+  console.log(`\n🖨️  Exporting draft boards to ${outDir}...\n`);
+
+  exportDraftBoards(years, outDir)
+    .then((files) => {
+      files.forEach((file) => console.log(`   - ${file}`));
+      console.log(`\n✅ Exported ${files.length} draft boards`);
+    })
+    .catch((error) => {
+      console.error('❌ Error exporting draft boards:', error.message);
+      process.exit(1);
+    });
+}
@@ -0,0 +1,50 @@
+#!/usr/bin/env tsx
+
+/**
+ * Script to hash the commissioner password for COMMISSIONER_PASSWORD_HASH
+ * Usage: npm run hash-password [-- <password>]
+ * Example: npm run --silent hash-password > commissioner.hash
+ *
+ * Without an argument the password is read from the terminal, which keeps it out of
+ * the shell history.
+ */
+
+import { createInterface } from 'readline/promises';
+import { pathToFileURL } from 'url';
+import { hashPassword } from '../src/lib/auth';
+
+export const MIN_PASSWORD_LENGTH = 8;
+
+/**
+ * Hashes a password after checking its length
+ */
+export function createPasswordHash(password: string): string {
+  if (password.length < MIN_PASSWORD_LENGTH) {
+    throw new Error(`The password must be at least ${MIN_PASSWORD_LENGTH} characters`);
+  }
+  return hashPassword(password);
+}
+
+async function readPassword(): Promise<string> {
+  const prompt = createInterface({ input: process.stdin, output: process.stderr });
+  const password = await prompt.question('Commissioner password: ');
+  prompt.close();
+  return password;
+}
+
+// Main execution - only run if this file is executed directly
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  const [argument] = process.argv.slice(2);
+
+  (argument !== undefined ? Promise.resolve(argument) : readPassword())
+    .then((password) => {
+      // Only the hash goes to stdout, so it can be redirected into a file
+      console.log(createPasswordHash(password));
+      console.error('\n✅ Set COMMISSIONER_PASSWORD_HASH to the line above, or save it to a file');
+      console.error('   and point COMMISSIONER_PASSWORD_FILE at it');
+    })
+    .catch((error) => {
+      console.error('❌ Error hashing password:', error.message);
+      process.exit(1);
+    });
+}
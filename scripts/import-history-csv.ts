@@ -0,0 +1,166 @@
+#!/usr/bin/env tsx
+
+/**
+ * Script to import lotteries run before the app from a CSV file
+ * Usage: npm run import-csv -- <file.csv> [--team "Name=team-id"]... [--yes] [--override]
+ * Example: npm run import-csv -- paper-lotteries.csv --team "Lobos=team-3"
+ *
+ * The CSV needs a header row with year, round, pick, team and original position columns.
+ * Team names are matched to the current teams; close matches are suggested and only
+ * used once you confirm them (or pass --yes). --team picks the team for a name yourself.
+ */
+
+import { readFile } from 'fs/promises';
+import { createInterface } from 'readline/promises';
+import { pathToFileURL } from 'url';
+import { Database } from '../src/lib/database';
+import {
+  buildImportedLotteries,
+  matchTeamNames,
+  parseHistoryCsv,
+  type TeamMatch,
+} from '../src/lib/history-import';
+import type { FieldError } from '../src/lib/validation';
+import type { DraftLottery } from '../src/types';
+
+export interface HistoryImportPlan {
+  matches: TeamMatch[];
+  lotteries: DraftLottery[];
+  replacing: number[]; // Years that already have a saved lottery
+  errors: FieldError[];
+  warnings: string[];
+}
+
+/**
+ * Parses the CSV and builds the lotteries it would save, using the suggested team for
+ * every name not listed in teamIds. Nothing is saved.
+ */
+export async function planHistoryImport(
+  csv: string,
+  teamIds: Record<string, string> = {}
+): Promise<HistoryImportPlan> {
+  const { rows, errors } = parseHistoryCsv(csv);
+  if (errors.length > 0) {
+    return { matches: [], lotteries: [], replacing: [], errors, warnings: [] };
+  }
+
+  const config = await Database.getConfig();
+  const matches = matchTeamNames(rows.map((row) => row.teamName), config.teams);
+  const suggested = Object.fromEntries(
+    matches.filter((match) => match.teamId).map((match) => [match.name, match.teamId as string])
+  );
+
+  const result = buildImportedLotteries(rows, config, { ...suggested, ...teamIds });
+  const savedYears = new Set((await Database.getAllLotteries()).map((l) => l.year));
+
+  return {
+    matches,
+    ...result,
+    replacing: result.lotteries.map((l) => l.year).filter((year) => savedYears.has(year)),
+  };
+}
+
+/**
+ * Reads repeated --team "Name=team-id" arguments
+ */
+export function parseTeamArgs(args: string[]): Record<string, string> {
+  const teamIds: Record<string, string> = {};
+
+  args.forEach((arg, index) => {
+    if (arg !== '--team') return;
+
+    const value = args[index + 1] ?? '';
+    const separator = value.lastIndexOf('=');
+    if (separator > 0) {
+      teamIds[value.slice(0, separator).trim()] = value.slice(separator + 1).trim();
+    }
+  });
+
+  return teamIds;
+}
+
+export function printHistoryImportPlan(
+  plan: HistoryImportPlan,
+  teamIds: Record<string, string>
+): void {
+  console.log('👥 Team matches:');
+  plan.matches.forEach((match) => {
+    if (teamIds[match.name]) {
+      console.log(`   ✅ ${match.name} → ${teamIds[match.name]} (chosen)`);
+    } else if (match.exact) {
+      console.log(`   ✅ ${match.name} → ${match.teamId}`);
+    } else if (match.teamId) {
+      const similarity = Math.round(match.score * 100);
+      console.log(`   🔍 ${match.name} → ${match.teamId}? (${similarity}% similar)`);
+    } else {
+      console.log(`   ❌ ${match.name} → no close match`);
+    }
+  });
+
+  if (plan.errors.length > 0) {
+    console.log('\n❌ Problems:');
+    plan.errors.forEach((error) => console.log(`   - ${error.field}: ${error.message}`));
+  }
+
+  if (plan.lotteries.length > 0) {
+    console.log('\n📊 Lotteries to save:');
+    plan.lotteries.forEach((lottery) => {
+      const replacing = plan.replacing.includes(lottery.year) ? ' (replaces the saved result)' : '';
+      const size = `${lottery.config.numberOfRounds} rounds, ${lottery.picks.length} picks`;
+      console.log(`   - ${lottery.year}: ${size}${replacing}`);
+    });
+  }
+
+  if (plan.warnings.length > 0) {
+    console.log('\n⚠️  Outside the current lottery format (saved anyway):');
+    plan.warnings.forEach((warning) => console.log(`   - ${warning}`));
+  }
+}
+
+async function confirm(question: string): Promise<boolean> {
+  const prompt = createInterface({ input: process.stdin, output: process.stdout });
+  const answer = await prompt.question(`${question} (y/N) `);
+  prompt.close();
+  return answer.trim().toLowerCase().startsWith('y');
+}
+
+async function main(args: string[]) {
+  const file = args.find((arg, index) => !arg.startsWith('--') && args[index - 1] !== '--team');
+  if (!file) {
+    console.error('❌ Usage: npm run import-csv -- <file.csv> [--team "Name=team-id"]... [--yes]');
+    process.exit(1);
+  }
+
+  console.log(`\n📥 Reading ${file}...\n`);
+  const teamIds = parseTeamArgs(args);
+  const plan = await planHistoryImport(await readFile(file, 'utf-8'), teamIds);
+  printHistoryImportPlan(plan, teamIds);
+
+  if (plan.errors.length > 0) {
+    console.log('\nFix the problems above (--team "Name=team-id" chooses a team) and try again.');
+    process.exit(1);
+  }
+
+  // Suggested matches and replaced years are only used after a confirmation
+  if (!args.includes('--yes')) {
+    if (!process.stdin.isTTY) {
+      console.log('\nNothing saved. Re-run with --yes to save these lotteries.');
+      return;
+    }
+    if (!(await confirm(`\nSave ${plan.lotteries.length} imported lotteries?`))) {
+      console.log('Nothing saved.');
+      return;
+    }
+  }
+
+  await Database.saveLotteries(plan.lotteries, args.includes('--override'));
+  console.log(`\n✅ Imported ${plan.lotteries.length} lotteries`);
+}
+
+// Main execution - only run if this file is executed directly
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  main(process.argv.slice(2)).catch((error) => {
+    console.error('❌ Error importing lotteries:', error.message);
+    process.exit(1);
+  });
+}
@@ -0,0 +1,69 @@
+#!/usr/bin/env tsx
+
+/**
+ * Script to upgrade the database to the current schema version
+ * Usage: npm run migrate [-- --dry-run]
+ * Example: npm run migrate -- --dry-run
+ *
+ * Uses the storage backend selected by DATABASE_BACKEND and DATABASE_PATH. The app also
+ * upgrades older files in memory when it loads them; this saves the upgrade right away.
+ */
+
+import { pathToFileURL } from 'url';
+import { migrateDatabase, type MigrationResult } from '../src/lib/migrations';
+import { createStorage, type StorageAdapter } from '../src/lib/storage';
+
+export async function runMigrations(
+  storage: StorageAdapter,
+  dryRun = false
+): Promise<MigrationResult> {
+  if (!(await storage.exists())) {
+    throw new Error('No database found');
+  }
+
+  const result = migrateDatabase(await storage.read());
+
+  if (!dryRun && result.applied.length > 0) {
+    await storage.write(result.db);
+  }
+
+  return result;
+}
+
+export function printMigrationResult(result: MigrationResult, dryRun: boolean): void {
+  if (result.applied.length === 0) {
+    console.log(`✅ Database is already at schema version ${result.fromVersion}`);
+    return;
+  }
+
+  const toVersion = result.applied[result.applied.length - 1].version;
+  console.log(`📊 Schema version ${result.fromVersion} → ${toVersion}\n`);
+
+  result.applied.forEach((migration) => {
+    console.log(`${migration.version}. ${migration.description}`);
+    if (migration.changes.length === 0) {
+      console.log('   - No changes needed');
+    }
+    migration.changes.forEach((change) => console.log(`   - ${change}`));
+  });
+
+  console.log(
+    dryRun
+      ? '\n🔍 Dry run: nothing was written. Run without --dry-run to apply.'
+      : '\n✅ Database upgraded successfully'
+  );
+}
+
+// Main execution - only run if this file is executed directly
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  const dryRun = process.argv.includes('--dry-run');
+
+  console.log(`\n🔄 ${dryRun ? 'Checking' : 'Migrating'} database...\n`);
+
+  runMigrations(createStorage(), dryRun)
+    .then((result) => printMigrationResult(result, dryRun))
+    .catch((error) => {
+      console.error('❌ Error migrating database:', error.message);
+      process.exit(1);
+    });
+}
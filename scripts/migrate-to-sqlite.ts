@@ -0,0 +1,84 @@
+#!/usr/bin/env tsx
+
+/**
+ * Script to copy an existing database.json into a SQLite database
+ * Usage: npm run migrate-sqlite [json-path] [sqlite-path] [--force]
+ * Example: npm run migrate-sqlite -- src/data/database.json /var/lib/lottery/database.sqlite
+ *
+ * Afterwards start the app with DATABASE_BACKEND=sqlite and DATABASE_PATH=<sqlite-path>.
+ */
+
+import { pathToFileURL } from 'url';
+import { JsonStorage } from '../src/lib/json-storage';
+import { SqliteStorage } from '../src/lib/sqlite-storage';
+import { DEFAULT_JSON_PATH, DEFAULT_SQLITE_PATH } from '../src/lib/storage';
+
+export interface MigrationSummary {
+  teams: number;
+  lotteries: number;
+  picks: number;
+}
+
+export async function migrateToSqlite(
+  jsonPath: string = DEFAULT_JSON_PATH,
+  sqlitePath: string = DEFAULT_SQLITE_PATH,
+  force = false
+): Promise<MigrationSummary> {
+  const source = new JsonStorage(jsonPath);
+  if (!(await source.exists())) {
+    throw new Error(`No database found at ${jsonPath}`);
+  }
+
+  const target = new SqliteStorage(sqlitePath);
+  try {
+    if ((await target.exists()) && !force) {
+      throw new Error(`${sqlitePath} already has data; pass --force to overwrite it`);
+    }
+
+    const data = await source.read();
+    await target.write(data);
+
+    // Read everything back so a bad copy fails here rather than in the app
+    const copy = await target.read();
+    const count = (db: typeof data) => ({
+      teams: db.config.teams?.length ?? 0,
+      lotteries: db.lotteries.length,
+      picks: db.lotteries.reduce((sum, lottery) => sum + lottery.picks.length, 0),
+    });
+
+    const expected = count(data);
+    const actual = count(copy);
+    if (JSON.stringify(expected) !== JSON.stringify(actual)) {
+      throw new Error(
+        `Copy does not match: expected ${JSON.stringify(expected)}, got ${JSON.stringify(actual)}`
+      );
+    }
+
+    return actual;
+  } finally {
+    target.close();
+  }
+}
+
+// Main execution - only run if this file is executed directly
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  const args = process.argv.slice(2);
+  const force = args.includes('--force');
+  const [jsonPath, sqlitePath] = args.filter((arg) => arg !== '--force');
+
+  console.log(`\n🔍 Copying ${jsonPath ?? DEFAULT_JSON_PATH}`);
+  console.log(`   into ${sqlitePath ?? DEFAULT_SQLITE_PATH}...`);
+
+  migrateToSqlite(jsonPath, sqlitePath, force)
+    .then((summary) => {
+      console.log('\n✅ Migration complete');
+      console.log(`   - ${summary.teams} teams`);
+      console.log(`   - ${summary.lotteries} lotteries`);
+      console.log(`   - ${summary.picks} picks`);
+      console.log('\n🚀 Start the app with DATABASE_BACKEND=sqlite to use it');
+    })
+    .catch((error) => {
+      console.error('❌ Error migrating database:', error.message);
+      process.exit(1);
+    });
+}
@@ -9,30 +9,14 @@
  */
 
 import { Database } from '../src/lib/database';
-import fs from 'fs/promises';
-import path from 'path';
-
-const DB_PATH = path.join(process.cwd(), 'src', 'data', 'database.json');
 
 async function resetDatabase() {
   console.log('🔄 Resetting database...\n');
 
   try {
-    // Check if database exists
-    try {
-      await fs.access(DB_PATH);
-      console.log('📁 Found existing database.json');
-
-      // Delete the existing database
-      await fs.unlink(DB_PATH);
-      console.log('🗑️  Deleted existing database');
-    } catch {
-      console.log('📁 No existing database found');
-    }
-
-    // Initialize with default configuration
-    console.log('\n💾 Creating database with default configuration...');
-    await Database.initialize();
+    // Overwrite whatever the configured storage backend holds
+    console.log('💾 Writing default configuration...');
+    await Database.reset();
 
     console.log('✅ Database reset successfully!');
     console.log('\n📊 Default configuration includes:');
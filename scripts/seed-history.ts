@@ -4,14 +4,14 @@
  */
 
 import { Database } from '../src/lib/database';
-import { runCompleteLottery } from '../src/lib/lottery';
-import type { DraftConfig } from '../src/types';
+import { setNumberOfTeams } from '../src/lib/league';
+import { runSeededLottery } from '../src/lib/lottery';
 
 async function seedHistory() {
   console.log('🌱 Seeding lottery history...\n');
 
   // Get current config
-  const config = await Database.getConfig();
+  let config = await Database.getConfig();
 
   // Ensure we have teams configured
   if (config.teams.length === 0) {
@@ -28,6 +28,8 @@ async function seedHistory() {
       { id: 'team-9', name: 'Emerald Knights', logoUrl: 'https://via.placeholder.com/100/27AE60/FFFFFF?text=EK', logoType: 'url' },
       { id: 'team-10', name: 'Dynasty Dragons', logoUrl: 'https://via.placeholder.com/100/8E44AD/FFFFFF?text=DD', logoType: 'url' },
     ];
+    // Fill or trim the sample teams to the configured league size
+    config = setNumberOfTeams(config, config.numberOfTeams);
     await Database.updateConfig(config);
   }
 
@@ -39,7 +41,7 @@ async function seedHistory() {
     console.log(`📅 Generating lottery for ${year}...`);
 
     // Randomize the initial order for each year to simulate different seasons
-    const initialOrder = Array.from({ length: 10 }, (_, i) => i + 1);
+    const initialOrder = Array.from({ length: config.numberOfTeams }, (_, i) => i + 1);
 
     // Shuffle for variety (except first year which uses standard order)
     if (year !== years[0]) {
@@ -50,16 +52,11 @@ async function seedHistory() {
     }
 
     // Run the lottery
-    const picks = runCompleteLottery(config, initialOrder);
-
-    // Create lottery record
     const lottery = {
-      id: `lottery-${year}`,
-      year: year,
+      ...runSeededLottery({ ...config, currentYear: year }, initialOrder),
       date: new Date(year, 5, 15, 19, 0, 0).toISOString(), // June 15 at 7 PM
-      picks: picks,
-      config: { ...config },
     };
+    const picks = lottery.picks;
 
     // Save to database
     await Database.saveLottery(lottery);
@@ -0,0 +1,62 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { exportDraftBoards } from '../export-draft-board';
+import { Database } from '../../src/lib/database';
+import type { DraftLottery } from '../../src/types';
+
+vi.mock('../../src/lib/database', () => ({
+  Database: {
+    getAllLotteries: vi.fn(),
+  },
+}));
+
+describe('[UNIT] export-draft-board script', () => {
+  let dir: string;
+
+  const lottery = (year: number): DraftLottery => ({
+    id: `lottery-${year}`,
+    year,
+    date: `${year}-06-15T12:00:00.000Z`,
+    picks: [{ round: 1, pickNumber: 1, teamId: 'team-1', originalPosition: 1, movement: 0 }],
+    config: {
+      numberOfTeams: 1,
+      numberOfRounds: 1,
+      teams: [{ id: 'team-1', name: 'Knockout Kings', logoUrl: '', logoType: 'url' }],
+      weightedSystem: [],
+      pickDelaySeconds: 3,
+      currentYear: year,
+    },
+  });
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'lottery-boards-'));
+    vi.mocked(Database.getAllLotteries).mockResolvedValue([lottery(2025), lottery(2024)]);
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('should write one HTML file per year, oldest first', async () => {
+    const files = await exportDraftBoards([], dir);
+
+    expect(files.map((file) => path.basename(file))).toEqual([
+      'draft-board-2024.html',
+      'draft-board-2025.html',
+    ]);
+    expect(await fs.readFile(files[0], 'utf-8')).toContain('2024 Draft Board');
+  });
+
+  it('should only export the requested years', async () => {
+    const files = await exportDraftBoards([2025], dir);
+
+    expect(files).toEqual([path.join(dir, 'draft-board-2025.html')]);
+  });
+
+  it('should fail without writing anything for an unknown year', async () => {
+    await expect(exportDraftBoards([2025, 1999], dir)).rejects.toThrow('No lottery found for 1999');
+    expect(await fs.readdir(dir)).toEqual([]);
+  });
+});
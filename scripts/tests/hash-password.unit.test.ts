@@ -0,0 +1,17 @@
+import { describe, it, expect } from 'vitest';
+import { MIN_PASSWORD_LENGTH, createPasswordHash } from '../hash-password';
+import { verifyPassword } from '../../src/lib/auth';
+
+describe('[UNIT] hash-password script', () => {
+  it('should hash a password the app can verify', () => {
+    const passwordHash = createPasswordHash('draft-night');
+
+    expect(verifyPassword('draft-night', passwordHash)).toBe(true);
+  });
+
+  it('should refuse short passwords', () => {
+    expect(() => createPasswordHash('x'.repeat(MIN_PASSWORD_LENGTH - 1))).toThrow(
+      `at least ${MIN_PASSWORD_LENGTH} characters`
+    );
+  });
+});
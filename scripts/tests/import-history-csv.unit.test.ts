@@ -0,0 +1,83 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { parseTeamArgs, planHistoryImport } from '../import-history-csv';
+import { Database } from '../../src/lib/database';
+import type { DraftConfig, DraftLottery } from '../../src/types';
+
+vi.mock('../../src/lib/database', () => ({
+  Database: {
+    getConfig: vi.fn(),
+    getAllLotteries: vi.fn(),
+    saveLotteries: vi.fn(),
+  },
+}));
+
+describe('[UNIT] import-history-csv script', () => {
+  const config: DraftConfig = {
+    numberOfTeams: 4,
+    numberOfRounds: 1,
+    teams: [
+      { id: 'team-1', name: 'Knockout Kings', logoUrl: '', logoType: 'url' },
+      { id: 'team-2', name: 'Operation BlackRhino', logoUrl: '', logoType: 'url' },
+      { id: 'team-3', name: 'Loco Lobos', logoUrl: '', logoType: 'url' },
+      { id: 'team-4', name: 'Buck Hunters', logoUrl: '', logoType: 'url' },
+    ],
+    weightedSystem: [
+      { position: 4, percentage: 40.0 },
+      { position: 3, percentage: 30.0 },
+      { position: 2, percentage: 20.0 },
+      { position: 1, percentage: 10.0 },
+    ],
+    pickDelaySeconds: 3,
+    currentYear: 2025,
+    initialOrder: [1, 2, 3, 4],
+    lotteryFormat: { type: 'bounded-movement', maxMovement: 2 },
+    roundOrderMode: 'independent',
+  };
+
+  const csv = [
+    'Year,Round,Pick,Team,Original Position',
+    '2019,1,1,Knockout Kings,1',
+    '2019,1,2,Rhino,2',
+    '2019,1,3,Lobos,3',
+    '2019,1,4,Buck Hunters,4',
+  ].join('\n');
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(Database.getConfig).mockResolvedValue(config);
+    vi.mocked(Database.getAllLotteries).mockResolvedValue([{ year: 2019 } as DraftLottery]);
+  });
+
+  it('should plan the lotteries using suggested teams without saving', async () => {
+    const plan = await planHistoryImport(csv);
+
+    expect(plan.errors).toEqual([]);
+    expect(plan.replacing).toEqual([2019]);
+    expect(plan.lotteries[0].picks.map((pick) => pick.teamId)).toEqual([
+      'team-1',
+      'team-2',
+      'team-3',
+      'team-4',
+    ]);
+    expect(Database.saveLotteries).not.toHaveBeenCalled();
+  });
+
+  it('should let chosen teams override the suggestions', async () => {
+    const plan = await planHistoryImport(csv, { Rhino: 'team-3', Lobos: 'team-2' });
+
+    expect(plan.lotteries[0].picks[1]).toMatchObject({ teamId: 'team-3', movement: 0 });
+  });
+
+  it('should report CSV problems without reading the database', async () => {
+    const plan = await planHistoryImport('Year,Round\n2019,1');
+
+    expect(plan.errors.map((error) => error.message)).toContain('Missing column: team');
+    expect(Database.getConfig).not.toHaveBeenCalled();
+  });
+
+  it('should read repeated --team arguments', () => {
+    expect(
+      parseTeamArgs(['file.csv', '--team', 'Lobos=team-3', '--team', 'A=B Team=team-1', '--yes'])
+    ).toEqual({ Lobos: 'team-3', 'A=B Team': 'team-1' });
+  });
+});
@@ -0,0 +1,77 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { printMigrationResult, runMigrations } from '../migrate-database';
+import { CURRENT_SCHEMA_VERSION } from '../../src/lib/migrations';
+import type { StorageAdapter } from '../../src/lib/storage';
+import type { DatabaseSchema, DraftConfig } from '../../src/types';
+
+describe('[UNIT] migrate-database script', () => {
+  const legacyDatabase: DatabaseSchema = {
+    config: {
+      numberOfTeams: 2,
+      numberOfRounds: 1,
+      teams: [],
+      weightedSystem: [],
+      pickDelaySeconds: 3,
+      currentYear: 2023,
+    } as DraftConfig,
+    lotteries: [],
+  };
+
+  let stored: DatabaseSchema | undefined;
+  const storage: StorageAdapter = {
+    exists: async () => stored !== undefined,
+    read: async () => structuredClone(stored as DatabaseSchema),
+    write: vi.fn(async (data: DatabaseSchema) => {
+      stored = data;
+    }),
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    stored = structuredClone(legacyDatabase);
+  });
+
+  it('should upgrade and save an older database', async () => {
+    const result = await runMigrations(storage);
+
+    expect(result.fromVersion).toBe(0);
+    expect(storage.write).toHaveBeenCalledTimes(1);
+    expect(stored?.schemaVersion).toBe(CURRENT_SCHEMA_VERSION);
+    expect(stored?.config.initialOrder).toEqual([1, 2]);
+  });
+
+  it('should report changes without writing on a dry run', async () => {
+    const result = await runMigrations(storage, true);
+
+    expect(result.applied.length).toBeGreaterThan(0);
+    expect(storage.write).not.toHaveBeenCalled();
+    expect(stored).toEqual(legacyDatabase);
+  });
+
+  it('should not write a database that is already current', async () => {
+    stored = { ...legacyDatabase, schemaVersion: CURRENT_SCHEMA_VERSION };
+
+    const result = await runMigrations(storage);
+
+    expect(result.applied).toEqual([]);
+    expect(storage.write).not.toHaveBeenCalled();
+  });
+
+  it('should fail when there is no database', async () => {
+    stored = undefined;
+
+    await expect(runMigrations(storage)).rejects.toThrow('No database found');
+  });
+
+  it('should print each change and say when nothing was written', async () => {
+    const result = await runMigrations(storage, true);
+
+    printMigrationResult(result, true);
+
+    const output = vi.mocked(console.log).mock.calls.map((call) => call[0]).join('\n');
+    expect(output).toContain(`Schema version 0 → ${CURRENT_SCHEMA_VERSION}`);
+    expect(output).toContain('config.initialOrder: set to 1..2');
+    expect(output).toContain('Dry run: nothing was written');
+  });
+});
@@ -0,0 +1,76 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { migrateToSqlite } from '../migrate-to-sqlite';
+import { SqliteStorage } from '../../src/lib/sqlite-storage';
+
+describe('[UNIT] migrate-to-sqlite script', () => {
+  let dir: string;
+  let jsonPath: string;
+  let sqlitePath: string;
+
+  const database = {
+    config: {
+      numberOfTeams: 2,
+      numberOfRounds: 1,
+      teams: [
+        { id: 'team-1', name: 'Team 1', logoUrl: '', logoType: 'url' },
+        { id: 'team-2', name: 'Team 2', logoUrl: '', logoType: 'url' },
+      ],
+      weightedSystem: [],
+      pickDelaySeconds: 3,
+      currentYear: 2025,
+    },
+    lotteries: [
+      {
+        id: 'lottery-2025',
+        year: 2025,
+        date: '2025-06-15T23:00:00.000Z',
+        picks: [
+          { round: 1, pickNumber: 1, teamId: 'team-2', originalPosition: 2, movement: -1 },
+          { round: 1, pickNumber: 2, teamId: 'team-1', originalPosition: 1, movement: 1 },
+        ],
+        config: {},
+      },
+    ],
+  };
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'lottery-migrate-'));
+    jsonPath = path.join(dir, 'database.json');
+    sqlitePath = path.join(dir, 'database.sqlite');
+    await fs.writeFile(jsonPath, JSON.stringify(database));
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('should copy the JSON database into SQLite', async () => {
+    const summary = await migrateToSqlite(jsonPath, sqlitePath);
+
+    expect(summary).toEqual({ teams: 2, lotteries: 1, picks: 2 });
+
+    const storage = new SqliteStorage(sqlitePath);
+    expect(await storage.read()).toEqual(database);
+    storage.close();
+  });
+
+  it('should refuse to overwrite an existing SQLite database without force', async () => {
+    await migrateToSqlite(jsonPath, sqlitePath);
+
+    await expect(migrateToSqlite(jsonPath, sqlitePath)).rejects.toThrow('pass --force');
+    await expect(migrateToSqlite(jsonPath, sqlitePath, true)).resolves.toEqual({
+      teams: 2,
+      lotteries: 1,
+      picks: 2,
+    });
+  });
+
+  it('should fail when there is no JSON database', async () => {
+    await expect(migrateToSqlite(path.join(dir, 'missing.json'), sqlitePath)).rejects.toThrow(
+      'No database found'
+    );
+  });
+});
@@ -0,0 +1,8 @@
+/// <reference types="astro/client" />
+
+declare namespace App {
+  interface Locals {
+    role: import('./lib/auth').Role;
+    authEnabled: boolean; // False when no commissioner password is set
+  }
+}
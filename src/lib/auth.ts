@@ -0,0 +1,148 @@
+import { createHash, createHmac, randomBytes, scryptSync, timingSafeEqual } from 'crypto';
+import fs from 'fs/promises';
+
+/**
+ * Who is making a request:
+ * - commissioner: logged in, or calling with an API token; may change anything
+ * - owner: everyone else; read-only
+ */
+export type Role = 'commissioner' | 'owner';
+
+export const SESSION_COOKIE = 'lottery_session';
+export const SESSION_MAX_AGE_SECONDS = 7 * 24 * 60 * 60;
+
+const PASSWORD_HASH_PREFIX = 'scrypt';
+const API_TOKEN_PREFIX = 'ddl_';
+
+/**
+ * Hashes a password for COMMISSIONER_PASSWORD_HASH as "scrypt:<salt>:<hash>". Colons
+ * rather than the usual dollar signs, which shells and .env files would expand.
+ */
+export function hashPassword(
+  password: string,
+  salt: string = randomBytes(16).toString('hex')
+): string {
+  const hash = scryptSync(password, salt, 64).toString('hex');
+  return `${PASSWORD_HASH_PREFIX}:${salt}:${hash}`;
+}
+
+export function verifyPassword(password: string, passwordHash: string): boolean {
+  const [prefix, salt, hash] = passwordHash.split(':');
+  if (prefix !== PASSWORD_HASH_PREFIX || !salt || !hash) {
+    return false;
+  }
+
+  const expected = Buffer.from(hash, 'hex');
+  const actual = scryptSync(password, salt, expected.length);
+  return expected.length > 0 && timingSafeEqual(actual, expected);
+}
+
+/**
+ * The commissioner password hash, from COMMISSIONER_PASSWORD_HASH or the file named by
+ * COMMISSIONER_PASSWORD_FILE. Without either, login is turned off and every request is
+ * treated as the commissioner.
+ */
+export async function getPasswordHash(
+  env: Record<string, string | undefined> = process.env
+): Promise<string | undefined> {
+  if (env.COMMISSIONER_PASSWORD_HASH) {
+    return env.COMMISSIONER_PASSWORD_HASH.trim();
+  }
+  if (env.COMMISSIONER_PASSWORD_FILE) {
+    return (await fs.readFile(env.COMMISSIONER_PASSWORD_FILE, 'utf-8')).trim() || undefined;
+  }
+  return undefined;
+}
+
+// Sessions are signed with the password hash, so changing the password logs everyone out
+function signSession(expiresAt: number, passwordHash: string): string {
+  return createHmac('sha256', passwordHash).update(`session:${expiresAt}`).digest('hex');
+}
+
+/**
+ * Creates the value of the session cookie: its expiry time and a signature
+ */
+export function createSessionToken(passwordHash: string, now: number = Date.now()): string {
+  const expiresAt = now + SESSION_MAX_AGE_SECONDS * 1000;
+  return `${expiresAt}.${signSession(expiresAt, passwordHash)}`;
+}
+
+export function verifySessionToken(
+  token: string,
+  passwordHash: string,
+  now: number = Date.now()
+): boolean {
+  const [expires, signature] = token.split('.');
+  const expiresAt = Number(expires);
+  if (!Number.isInteger(expiresAt) || expiresAt <= now || !signature) {
+    return false;
+  }
+
+  const expected = Buffer.from(signSession(expiresAt, passwordHash), 'hex');
+  const actual = Buffer.from(signature, 'hex');
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+/**
+ * Creates a new API token. It is only shown once; store hashApiToken(token) instead.
+ */
+export function generateApiToken(): string {
+  return `${API_TOKEN_PREFIX}${randomBytes(24).toString('base64url')}`;
+}
+
+export function hashApiToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * Reads the token from an "Authorization: Bearer <token>" header
+ */
+export function getBearerToken(request: Request): string | undefined {
+  const match = /^Bearer\s+(\S+)$/i.exec(request.headers.get('Authorization') ?? '');
+  return match?.[1];
+}
+
+/**
+ * The path as the router matches it: percent-decoded the way Astro does with decodeURI,
+ * with repeated and trailing slashes removed. Undefined when it can't be decoded.
+ */
+export function normalizePathname(pathname: string): string | undefined {
+  try {
+    return decodeURI(pathname).replace(/\/{2,}/g, '/').replace(/\/+$/, '') || '/';
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Whether a request needs the commissioner: every API call that changes data, API
+ * token management, the live session and the export (both hold picks not yet
+ * revealed), and the configuration page. Logging in and out is open to all. A path
+ * that can't be decoded is refused rather than guessed at.
+ */
+export function requiresCommissioner(method: string, pathname: string): boolean {
+  const path = normalizePathname(pathname);
+  if (path === undefined) {
+    return true;
+  }
+
+  if (path === '/api/auth/login' || path === '/api/auth/logout') {
+    return false;
+  }
+  if (path.startsWith('/api/auth/tokens') || path === '/config' || path.startsWith('/config/')) {
+    return true;
+  }
+  if (path === '/api/lottery/session' || path === '/api/export') {
+    return true;
+  }
+  return path.startsWith('/api/') && !['GET', 'HEAD', 'OPTIONS'].includes(method.toUpperCase());
+}
+
+/**
+ * Only same-site paths are followed after logging in, never another host
+ */
+export function safeRedirectPath(path: string | null | undefined): string {
+  return path && path.startsWith('/') && !path.startsWith('//') && !path.includes('\\')
+    ? path
+    : '/';
+}
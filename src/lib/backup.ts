@@ -0,0 +1,402 @@
+import fs from 'fs/promises';
+import path from 'path';
+import type { DatabaseSchema, DraftConfig, DraftLottery, Team } from '../types';
+import { diffConfigs, type ConfigChange } from './config-history';
+import { CURRENT_SCHEMA_VERSION, migrateDatabase } from './migrations';
+import { validateDraftConfig, validateDraftLottery, type FieldError } from './validation';
+
+/**
+ * Identifies a backup bundle and the version of its layout (not the schema version
+ * of the data inside it)
+ */
+export const BACKUP_FORMAT = 'dynasty-draft-lottery-backup';
+export const BACKUP_VERSION = 1;
+
+/**
+ * Directory uploaded logos are served from; their logoUrl is a path under it
+ */
+export const DEFAULT_PUBLIC_DIR = path.resolve(process.cwd(), 'public');
+
+const LOGO_MIME_TYPES: Record<string, string> = {
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.svg': 'image/svg+xml',
+  '.webp': 'image/webp',
+};
+
+/**
+ * The whole database in one file, with uploaded logos embedded as data URLs keyed by
+ * the logoUrl the teams use
+ */
+export interface BackupBundle {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  exportedAt: string;
+  schemaVersion: number;
+  data: DatabaseSchema;
+  logos: Record<string, string>;
+}
+
+/**
+ * How imported lotteries are combined with the current ones:
+ * - merge: years in the backup replace the same years here, other years are kept
+ * - replace: the lotteries become exactly those in the backup
+ * Everything else (config, history, trades) always comes from the backup.
+ */
+export type ImportMode = 'merge' | 'replace';
+
+export interface ImportPreview {
+  mode: ImportMode;
+  configChanges: ConfigChange[];
+  lotteries: {
+    added: number[];
+    replaced: number[];
+    unchanged: number[];
+    kept: number[]; // Only here, kept by a merge
+    removed: number[]; // Only here, dropped by a replace
+    finalized: number[]; // Finalized years here that the import replaces or removes
+  };
+  trades: number; // Trades in the backup
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Every config stored in the database: the current one, the ones saved with
+ * lotteries and the config history
+ */
+function getAllConfigs(db: DatabaseSchema): DraftConfig[] {
+  return [
+    db.config,
+    ...db.lotteries.map((lottery) => lottery.config),
+    ...(db.supersededLotteries ?? []).map((lottery) => lottery.config),
+    ...(db.pendingLottery ? [db.pendingLottery.config] : []),
+    ...(db.configHistory ?? []).map((revision) => revision.config),
+  ];
+}
+
+function isUploadedLogoFile(team: Team): boolean {
+  return team.logoType === 'upload' && team.logoUrl !== '' && !team.logoUrl.startsWith('data:');
+}
+
+/**
+ * Reads the uploaded logo files of these teams as data URLs, keyed by logoUrl. Missing
+ * files and paths outside the public directory are skipped.
+ */
+export async function readTeamLogos(
+  teams: Team[],
+  publicDir: string = DEFAULT_PUBLIC_DIR
+): Promise<Record<string, string>> {
+  const logoUrls = new Set(teams.filter(isUploadedLogoFile).map((team) => team.logoUrl));
+  const logos: Record<string, string> = {};
+
+  for (const logoUrl of logoUrls) {
+    const filePath = path.resolve(publicDir, `.${path.posix.normalize(`/${logoUrl}`)}`);
+    if (!filePath.startsWith(publicDir + path.sep)) continue;
+
+    try {
+      const contents = await fs.readFile(filePath);
+      const mimeType =
+        LOGO_MIME_TYPES[path.extname(filePath).toLowerCase()] ?? 'application/octet-stream';
+      logos[logoUrl] = `data:${mimeType};base64,${contents.toString('base64')}`;
+    } catch {
+      // The team keeps its logoUrl; there is just nothing to embed
+    }
+  }
+
+  return logos;
+}
+
+/**
+ * Reads every uploaded logo file the database refers to as a data URL
+ */
+export async function readUploadedLogos(
+  db: DatabaseSchema,
+  publicDir: string = DEFAULT_PUBLIC_DIR
+): Promise<Record<string, string>> {
+  return readTeamLogos(getAllConfigs(db).flatMap((config) => config.teams), publicDir);
+}
+
+export function createBackup(db: DatabaseSchema, logos: Record<string, string>): BackupBundle {
+  return {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    exportedAt: new Date().toISOString(),
+    schemaVersion: db.schemaVersion ?? 0,
+    data: db,
+    logos,
+  };
+}
+
+/**
+ * Points uploaded logos at their embedded copies, so imported teams show their logos
+ * even on a host that never had the files
+ */
+function embedLogos(db: DatabaseSchema, logos: Record<string, string>): void {
+  getAllConfigs(db).forEach((config) =>
+    config.teams.forEach((team) => {
+      if (team.logoType === 'upload' && logos[team.logoUrl]) {
+        team.logoUrl = logos[team.logoUrl];
+      }
+    })
+  );
+}
+
+// validateDraftLottery reports fields relative to the lottery, e.g. "picks[3].round"
+function validateLottery(lottery: unknown, field: string): FieldError[] {
+  return validateDraftLottery(lottery).map((error) => ({
+    field: error.field === 'lottery' ? field : `${field}.${error.field}`,
+    message: error.message,
+  }));
+}
+
+function validateLotteries(value: unknown, field: string): FieldError[] {
+  if (!Array.isArray(value)) {
+    return [{ field, message: 'Must be a list of lotteries' }];
+  }
+
+  return value.flatMap((lottery, index) => validateLottery(lottery, `${field}[${index}]`));
+}
+
+function isDateString(value: unknown): boolean {
+  return typeof value === 'string' && !isNaN(Date.parse(value));
+}
+
+// Checks every entry of an optional list; a missing list is fine
+function validateList(
+  value: unknown,
+  field: string,
+  validateEntry: (entry: Record<string, unknown>, field: string) => FieldError[]
+): FieldError[] {
+  if (value === undefined) return [];
+  if (!Array.isArray(value)) {
+    return [{ field, message: 'Must be a list' }];
+  }
+
+  return value.flatMap((entry, index) =>
+    isObject(entry)
+      ? validateEntry(entry, `${field}[${index}]`)
+      : [{ field: `${field}[${index}]`, message: 'Must be an object' }]
+  );
+}
+
+/**
+ * Checks the year and round of a traded pick and that its team fields name teams of
+ * the imported config. Teams are only checked when the config itself is valid.
+ */
+function validatePickFields(
+  entry: Record<string, unknown>,
+  field: string,
+  teamKeys: string[],
+  teamIds: Set<string> | undefined
+): FieldError[] {
+  const errors: FieldError[] = [];
+
+  if (!Number.isInteger(entry.year)) {
+    errors.push({ field: `${field}.year`, message: 'Year must be a whole number' });
+  }
+  if (!Number.isInteger(entry.round) || (entry.round as number) < 1) {
+    errors.push({ field: `${field}.round`, message: 'Round must be a whole number from 1' });
+  }
+  teamKeys.forEach((key) => {
+    const teamId = entry[key];
+    if (typeof teamId !== 'string' || teamId === '') {
+      errors.push({ field: `${field}.${key}`, message: 'Team ID is required' });
+    } else if (teamIds && !teamIds.has(teamId)) {
+      errors.push({ field: `${field}.${key}`, message: `Unknown team: ${teamId}` });
+    }
+  });
+
+  return errors;
+}
+
+function validateTrade(
+  trade: Record<string, unknown>,
+  field: string,
+  teamIds: Set<string> | undefined
+): FieldError[] {
+  const errors: FieldError[] = [];
+
+  if (typeof trade.id !== 'string' || trade.id === '') {
+    errors.push({ field: `${field}.id`, message: 'Trade ID is required' });
+  }
+  errors.push(
+    ...validatePickFields(trade, field, ['originalTeamId', 'fromTeamId', 'toTeamId'], teamIds)
+  );
+  if (!isDateString(trade.date)) {
+    errors.push({ field: `${field}.date`, message: 'Date must be an ISO date string' });
+  }
+  if (trade.note !== undefined && typeof trade.note !== 'string') {
+    errors.push({ field: `${field}.note`, message: 'note must be text' });
+  }
+  if (trade.reversedAt !== undefined && !isDateString(trade.reversedAt)) {
+    errors.push({ field: `${field}.reversedAt`, message: 'Date must be an ISO date string' });
+  }
+
+  return errors;
+}
+
+function validateConfigRevision(revision: Record<string, unknown>, field: string): FieldError[] {
+  const errors: FieldError[] = [];
+
+  if (!Number.isInteger(revision.version) || (revision.version as number) < 1) {
+    errors.push({ field: `${field}.version`, message: 'Version must be a whole number from 1' });
+  }
+  if (!isDateString(revision.savedAt)) {
+    errors.push({ field: `${field}.savedAt`, message: 'Date must be an ISO date string' });
+  }
+  for (const key of ['author', 'comment']) {
+    if (revision[key] !== undefined && typeof revision[key] !== 'string') {
+      errors.push({ field: `${field}.${key}`, message: `${key} must be text` });
+    }
+  }
+  errors.push(...validateDraftConfig(revision.config, `${field}.config`));
+
+  return errors;
+}
+
+function validateBackupData(data: Record<string, unknown>): FieldError[] {
+  const configErrors = validateDraftConfig(data.config, 'data.config');
+  const errors: FieldError[] = [
+    ...configErrors,
+    ...validateLotteries(data.lotteries, 'data.lotteries'),
+  ];
+
+  if (data.supersededLotteries !== undefined) {
+    errors.push(...validateLotteries(data.supersededLotteries, 'data.supersededLotteries'));
+  }
+  if (data.pendingLottery !== undefined) {
+    errors.push(...validateLottery(data.pendingLottery, 'data.pendingLottery'));
+  }
+
+  const teamIds =
+    configErrors.length === 0
+      ? new Set((data.config as DraftConfig).teams.map((team) => team.id))
+      : undefined;
+  errors.push(
+    ...validateList(data.pickOwnership, 'data.pickOwnership', (entry, field) =>
+      validatePickFields(entry, field, ['originalTeamId', 'ownerTeamId'], teamIds)
+    ),
+    ...validateList(data.trades, 'data.trades', (trade, field) =>
+      validateTrade(trade, field, teamIds)
+    ),
+    ...validateList(data.configHistory, 'data.configHistory', validateConfigRevision)
+  );
+
+  if (errors.length === 0) {
+    const years = new Set<number>();
+    (data.lotteries as DraftLottery[]).forEach((lottery, index) => {
+      if (years.has(lottery.year)) {
+        errors.push({
+          field: `data.lotteries[${index}].year`,
+          message: `Duplicate year: ${lottery.year}`,
+        });
+      }
+      years.add(lottery.year);
+    });
+  }
+
+  return errors;
+}
+
+/**
+ * Checks a backup bundle and returns its data upgraded to the current schema, with
+ * uploaded logos embedded. Data is only returned when there are no errors.
+ */
+export function parseBackup(bundle: unknown): { data?: DatabaseSchema; errors: FieldError[] } {
+  if (!isObject(bundle) || bundle.format !== BACKUP_FORMAT) {
+    return { errors: [{ field: 'format', message: 'Not a draft lottery backup file' }] };
+  }
+  if (!Number.isInteger(bundle.version) || (bundle.version as number) > BACKUP_VERSION) {
+    return {
+      errors: [
+        { field: 'version', message: `Backup version must be at most ${BACKUP_VERSION}` },
+      ],
+    };
+  }
+  if (!isObject(bundle.data)) {
+    return { errors: [{ field: 'data', message: 'Backup has no database' }] };
+  }
+
+  const schemaVersion = bundle.data.schemaVersion ?? 0;
+  if (!Number.isInteger(schemaVersion) || (schemaVersion as number) > CURRENT_SCHEMA_VERSION) {
+    return {
+      errors: [
+        {
+          field: 'data.schemaVersion',
+          message: `Schema version must be at most ${CURRENT_SCHEMA_VERSION}`,
+        },
+      ],
+    };
+  }
+
+  const logos = bundle.logos ?? {};
+  const isDataUrl = (logo: unknown) => typeof logo === 'string' && logo.startsWith('data:');
+  if (!isObject(logos) || !Object.values(logos).every(isDataUrl)) {
+    return { errors: [{ field: 'logos', message: 'Logos must map logo URLs to data URLs' }] };
+  }
+
+  const errors = validateBackupData(bundle.data);
+  if (errors.length > 0) {
+    return { errors };
+  }
+
+  const { db } = migrateDatabase(structuredClone(bundle.data) as unknown as DatabaseSchema);
+  embedLogos(db, logos as Record<string, string>);
+  return { data: db, errors: [] };
+}
+
+function sameLottery(a: DraftLottery, b: DraftLottery): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * Describes what importing a backup would change, without changing anything
+ */
+export function previewImport(
+  current: DatabaseSchema,
+  incoming: DatabaseSchema,
+  mode: ImportMode
+): ImportPreview {
+  const currentByYear = new Map(current.lotteries.map((lottery) => [lottery.year, lottery]));
+  const incomingYears = new Set(incoming.lotteries.map((lottery) => lottery.year));
+  const byYear = (a: number, b: number) => a - b;
+
+  const added: number[] = [];
+  const replaced: number[] = [];
+  const unchanged: number[] = [];
+  incoming.lotteries.forEach((lottery) => {
+    const existing = currentByYear.get(lottery.year);
+    if (!existing) {
+      added.push(lottery.year);
+    } else if (sameLottery(existing, lottery)) {
+      unchanged.push(lottery.year);
+    } else {
+      replaced.push(lottery.year);
+    }
+  });
+
+  const onlyHere = current.lotteries
+    .map((lottery) => lottery.year)
+    .filter((year) => !incomingYears.has(year));
+  const removed = mode === 'replace' ? onlyHere : [];
+  const finalized = [...replaced, ...removed].filter((year) => currentByYear.get(year)?.finalized);
+
+  return {
+    mode,
+    configChanges: diffConfigs(current.config, incoming.config),
+    lotteries: {
+      added: added.sort(byYear),
+      replaced: replaced.sort(byYear),
+      unchanged: unchanged.sort(byYear),
+      kept: mode === 'merge' ? onlyHere.sort(byYear) : [],
+      removed: removed.sort(byYear),
+      finalized: finalized.sort(byYear),
+    },
+    trades: incoming.trades?.length ?? 0,
+  };
+}
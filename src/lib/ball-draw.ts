@@ -0,0 +1,160 @@
+import type { WeightedOdds } from '../types';
+import type { RandomSource } from './rng';
+
+/**
+ * Number of balls in the machine and balls drawn per combination (NBA-style 14 choose 4)
+ */
+export const BALL_COUNT = 14;
+export const BALLS_DRAWN = 4;
+
+/**
+ * Combinations handed out to teams; the remaining one (of 1001) is unassigned and redrawn
+ */
+export const ASSIGNED_COMBINATIONS = 1000;
+
+/**
+ * Maximum number of combinations drawn for a single pick before giving up on the machine
+ */
+const MAX_DRAWS_PER_PICK = 10000;
+
+function binomial(n: number, k: number): number {
+  if (k < 0 || k > n) return 0;
+  let result = 1;
+  for (let i = 1; i <= k; i++) {
+    result = (result * (n - k + i)) / i;
+  }
+  return Math.round(result);
+}
+
+export const TOTAL_COMBINATIONS = binomial(BALL_COUNT, BALLS_DRAWN);
+
+/**
+ * Maps a set of drawn balls (numbered 1..BALL_COUNT, any order) to a unique index
+ * in 0..TOTAL_COMBINATIONS - 1, using the combinatorial number system
+ */
+export function getCombinationIndex(balls: number[]): number {
+  return [...balls]
+    .sort((a, b) => a - b)
+    .reduce((index, ball, i) => index + binomial(ball - 1, i + 1), 0);
+}
+
+/**
+ * Draws BALLS_DRAWN distinct balls from the machine
+ */
+export function drawBalls(rng: RandomSource): number[] {
+  const machine = Array.from({ length: BALL_COUNT }, (_, i) => i + 1);
+  const drawn: number[] = [];
+
+  for (let i = 0; i < BALLS_DRAWN; i++) {
+    const [ball] = machine.splice(Math.floor(rng() * machine.length), 1);
+    drawn.push(ball);
+  }
+
+  return drawn;
+}
+
+/**
+ * Splits the assigned combinations between positions in proportion to their percentage,
+ * using largest remainders so the counts add up exactly. Worst positions get the lowest
+ * combination indexes; the leftover combination belongs to nobody.
+ * Returns the owning position for every combination index (null = redraw).
+ */
+export function assignCombinations(weightedSystem: WeightedOdds[]): (number | null)[] {
+  const totalPercentage = weightedSystem.reduce(
+    (sum, odds) => sum + Math.max(0, odds.percentage),
+    0
+  );
+  const owners: (number | null)[] = new Array(TOTAL_COMBINATIONS).fill(null);
+
+  if (!(totalPercentage > 0)) {
+    return owners;
+  }
+
+  const shares = [...weightedSystem]
+    .sort((a, b) => b.position - a.position)
+    .map((odds) => {
+      const exact = (Math.max(0, odds.percentage) / totalPercentage) * ASSIGNED_COMBINATIONS;
+      return { position: odds.position, count: Math.floor(exact), remainder: exact % 1 };
+    });
+
+  let leftover = ASSIGNED_COMBINATIONS - shares.reduce((sum, share) => sum + share.count, 0);
+  [...shares]
+    .sort((a, b) => b.remainder - a.remainder)
+    .forEach((share) => {
+      if (leftover > 0) {
+        share.count++;
+        leftover--;
+      }
+    });
+
+  let index = 0;
+  shares.forEach((share) => {
+    for (let i = 0; i < share.count; i++) {
+      owners[index++] = share.position;
+    }
+  });
+
+  return owners;
+}
+
+/**
+ * Runs the machine for a full round: each pick draws combinations until one belongs to
+ * an eligible team that has not picked yet.
+ *
+ * With maxMovement set, a team is only eligible for picks within that many spots of its
+ * original position, and a team whose last allowed pick comes up takes it without a draw.
+ * That keeps every result within the limit while the draws still decide everything else.
+ *
+ * Returns the original position that takes each pick, in pick order.
+ */
+export function drawPickOrder(
+  weightedSystem: WeightedOdds[],
+  totalTeams: number,
+  rng: RandomSource,
+  maxMovement?: number
+): number[] {
+  const owners = assignCombinations(weightedSystem);
+  const combinationsByPosition = new Map<number, number>();
+  owners.forEach((position) => {
+    if (position !== null) {
+      combinationsByPosition.set(position, (combinationsByPosition.get(position) ?? 0) + 1);
+    }
+  });
+
+  const remaining = new Set(Array.from({ length: totalTeams }, (_, i) => i + 1));
+  const order: number[] = [];
+
+  for (let pickNumber = 1; pickNumber <= totalTeams; pickNumber++) {
+    const eligible = [...remaining].filter(
+      (position) => maxMovement === undefined || Math.abs(position - pickNumber) <= maxMovement
+    );
+    const forced =
+      maxMovement === undefined
+        ? undefined
+        : eligible.find((position) => position + maxMovement === pickNumber);
+
+    let selected: number | undefined = forced ?? (eligible.length === 1 ? eligible[0] : undefined);
+
+    if (selected === undefined) {
+      const eligibleCombinations = eligible.reduce(
+        (sum, position) => sum + (combinationsByPosition.get(position) ?? 0),
+        0
+      );
+
+      for (let draw = 0; eligibleCombinations > 0 && draw < MAX_DRAWS_PER_PICK; draw++) {
+        const owner = owners[getCombinationIndex(drawBalls(rng))];
+        if (owner !== null && eligible.includes(owner)) {
+          selected = owner;
+          break;
+        }
+      }
+    }
+
+    // No eligible team holds a combination: fall back to the best original position
+    const position = selected ?? Math.min(...eligible);
+    remaining.delete(position);
+    order.push(position);
+  }
+
+  return order;
+}
@@ -0,0 +1,43 @@
+import type { DraftConfig } from '../types';
+
+/**
+ * A single setting that differs between two config versions. Fields use the same
+ * paths as validation errors, e.g. "teams[2].name" or "weightedSystem[0].percentage".
+ */
+export interface ConfigChange {
+  field: string;
+  before?: unknown; // undefined = not set in the older version
+  after?: unknown; // undefined = not set in the newer version
+}
+
+/**
+ * Flattens a value into field path → leaf value pairs
+ */
+function flatten(value: unknown, path: string, fields: Map<string, unknown>): void {
+  if (Array.isArray(value)) {
+    value.forEach((item, index) => flatten(item, `${path}[${index}]`, fields));
+  } else if (value !== null && typeof value === 'object') {
+    Object.entries(value).forEach(([key, item]) =>
+      flatten(item, path ? `${path}.${key}` : key, fields)
+    );
+  } else if (value !== undefined) {
+    fields.set(path, value);
+  }
+}
+
+/**
+ * Lists every setting that differs between two configs, in the order the fields
+ * appear in the older config followed by fields only the newer one has
+ */
+export function diffConfigs(before: DraftConfig, after: DraftConfig): ConfigChange[] {
+  const beforeFields = new Map<string, unknown>();
+  const afterFields = new Map<string, unknown>();
+  flatten(before, '', beforeFields);
+  flatten(after, '', afterFields);
+
+  const fields = [...new Set([...beforeFields.keys(), ...afterFields.keys()])];
+
+  return fields
+    .filter((field) => beforeFields.get(field) !== afterFields.get(field))
+    .map((field) => ({ field, before: beforeFields.get(field), after: afterFields.get(field) }));
+}
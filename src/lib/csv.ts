@@ -0,0 +1,111 @@
+import type { DraftLottery } from '../types';
+
+/**
+ * Columns of the lottery results export, one row per pick
+ */
+export const LOTTERY_CSV_COLUMNS = [
+  'Year',
+  'Round',
+  'Pick',
+  'Overall Pick',
+  'Team',
+  'Owner',
+  'Original Position',
+  'Movement',
+];
+
+/**
+ * Quotes a field when it contains a delimiter, quote or line break. Text starting with
+ * a formula character is prefixed with an apostrophe so spreadsheets don't evaluate it.
+ */
+function escapeCsvField(value: string | number): string {
+  if (typeof value === 'number') {
+    return String(value);
+  }
+
+  const text = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Formats rows as RFC 4180 CSV with CRLF line endings
+ */
+export function toCsv(rows: (string | number)[][]): string {
+  return rows.map((row) => row.map(escapeCsvField).join(',')).join('\r\n') + '\r\n';
+}
+
+/**
+ * Parses RFC 4180 CSV: quoted fields may contain delimiters, doubled quotes and line
+ * breaks. Accepts CRLF or LF line endings and a leading byte order mark; blank lines
+ * are skipped.
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  const input = text.replace(/^\uFEFF/, '');
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter((cells) => cells.some((cell) => cell.trim() !== ''));
+}
+
+/**
+ * One row per pick, oldest year first, then by round and pick number. Owner is only
+ * filled in for traded picks.
+ */
+export function lotteriesToCsv(lotteries: DraftLottery[]): string {
+  const rows = [...lotteries]
+    .sort((a, b) => a.year - b.year)
+    .flatMap((lottery) => {
+      const teamName = (teamId: string) =>
+        lottery.config.teams.find((team) => team.id === teamId)?.name ?? teamId;
+
+      return [...lottery.picks]
+        .sort((a, b) => a.round - b.round || a.pickNumber - b.pickNumber)
+        .map((pick) => [
+          lottery.year,
+          pick.round,
+          pick.pickNumber,
+          (pick.round - 1) * lottery.config.numberOfTeams + pick.pickNumber,
+          teamName(pick.teamId),
+          pick.ownerTeamId ? teamName(pick.ownerTeamId) : '',
+          pick.originalPosition,
+          pick.movement,
+        ]);
+    });
+
+  return toCsv([LOTTERY_CSV_COLUMNS, ...rows]);
+}
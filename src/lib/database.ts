@@ -1,8 +1,28 @@
-import type { DatabaseSchema, DraftConfig, DraftLottery } from '../types';
-import fs from 'fs/promises';
-import path from 'path';
-
-const DB_PATH = path.join(process.cwd(), 'src', 'data', 'database.json');
+import type {
+  ApiToken,
+  ConfigRevision,
+  DatabaseSchema,
+  DraftConfig,
+  DraftLottery,
+  LiveSession,
+  PickOwnership,
+  PickTrade,
+  Team,
+} from '../types';
+import { previewImport, type ImportMode, type ImportPreview } from './backup';
+import { diffConfigs } from './config-history';
+import {
+  addTeam,
+  createTeam,
+  DEFAULT_WEIGHTED_ODDS,
+  MAX_TEAMS,
+  MIN_TEAMS,
+  removeTeam,
+} from './league';
+import { CURRENT_SCHEMA_VERSION, migrateDatabase } from './migrations';
+import { setPickOwner, validateTrade, validateTradeReversal } from './ownership';
+import { createStorage, type StorageAdapter } from './storage';
+import { validateDraftConfig, validateTeam, type FieldError } from './validation';
 
 const defaultConfig: DraftConfig = {
   numberOfTeams: 10,
@@ -19,46 +39,82 @@ const defaultConfig: DraftConfig = {
     { id: 'team-9', name: 'Evil Engineers', logoUrl: 'https://www47.myfantasyleague.com/fflnetdynamic2022/72440_franchise_icon0009.jpg', logoType: 'url' },
     { id: 'team-10', name: 'Guardians', logoUrl: 'https://www47.myfantasyleague.com/fflnetdynamic2024/58890_franchise_icon0010.png', logoType: 'url' },
   ],
-  weightedSystem: [
-    { position: 10, percentage: 25.0 }, // Worst team: 25%
-    { position: 9, percentage: 18.8 },
-    { position: 8, percentage: 14.1 },
-    { position: 7, percentage: 10.5 },
-    { position: 6, percentage: 7.9 },
-    { position: 5, percentage: 6.2 },
-    { position: 4, percentage: 6.2 },
-    { position: 3, percentage: 4.7 },
-    { position: 2, percentage: 3.5 },
-    { position: 1, percentage: 3.1 }, // Champion: 3.1%
-  ],
+  weightedSystem: DEFAULT_WEIGHTED_ODDS,
   pickDelaySeconds: 3,
   currentYear: new Date().getFullYear(),
 };
 
 const defaultDatabase: DatabaseSchema = {
+  schemaVersion: CURRENT_SCHEMA_VERSION,
   config: defaultConfig,
   lotteries: [],
 };
 
+/**
+ * Thrown when saving over a finalized lottery year without the override flag
+ */
+export class LotteryFinalizedError extends Error {
+  constructor(public readonly year: number) {
+    super(`The ${year} lottery is finalized`);
+    this.name = 'LotteryFinalizedError';
+  }
+}
+
+// A team change the current league doesn't allow, with the fields at fault if any
+export class ConfigRejectedError extends Error {
+  constructor(
+    message: string,
+    public readonly errors: FieldError[] = []
+  ) {
+    super(message);
+    this.name = 'ConfigRejectedError';
+  }
+}
+
+// A trade or reversal the current pick ownership doesn't allow
+export class TradeRejectedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TradeRejectedError';
+  }
+}
+
 export class Database {
-  private static async ensureDbExists(): Promise<void> {
-    try {
-      await fs.access(DB_PATH);
-    } catch {
-      // Database doesn't exist, create it
-      await fs.mkdir(path.dirname(DB_PATH), { recursive: true });
-      await fs.writeFile(DB_PATH, JSON.stringify(defaultDatabase, null, 2));
-    }
+  // Tail of the queue of mutations; each one waits for the previous to finish
+  private static lock: Promise<unknown> = Promise.resolve();
+
+  // Chosen from the environment on first use (see createStorage)
+  private static storage: StorageAdapter | undefined;
+
+  private static getStorage(): StorageAdapter {
+    this.storage ??= createStorage();
+    return this.storage;
   }
 
+  /**
+   * Older files are upgraded in memory; the next write saves them at the current version.
+   * Before the first write there is nothing stored yet and the defaults are returned,
+   * so reads never write and only locked mutations create the database.
+   */
   private static async read(): Promise<DatabaseSchema> {
-    await this.ensureDbExists();
-    const data = await fs.readFile(DB_PATH, 'utf-8');
-    return JSON.parse(data);
+    if (!(await this.getStorage().exists())) {
+      return structuredClone(defaultDatabase);
+    }
+    return migrateDatabase(await this.getStorage().read()).db;
   }
 
   private static async write(data: DatabaseSchema): Promise<void> {
-    await fs.writeFile(DB_PATH, JSON.stringify(data, null, 2));
+    await this.getStorage().write(data);
+  }
+
+  /**
+   * Runs a read-modify-write after every mutation queued before it, so concurrent
+   * requests in this process cannot overwrite each other's changes
+   */
+  private static withLock<T>(mutation: () => Promise<T>): Promise<T> {
+    const result = this.lock.then(mutation);
+    this.lock = result.catch(() => undefined);
+    return result;
   }
 
   // Config methods
@@ -67,10 +123,132 @@ export class Database {
     return db.config;
   }
 
-  static async updateConfig(config: DraftConfig): Promise<void> {
-    const db = await this.read();
+  static async updateConfig(
+    config: DraftConfig,
+    details: Pick<ConfigRevision, 'author' | 'comment'> = {}
+  ): Promise<void> {
+    return this.withLock(async () => {
+      const db = await this.read();
+
+      // Saving the same settings again, e.g. before every draw, adds no revision
+      if (diffConfigs(db.config, config).length === 0) {
+        return;
+      }
+
+      this.applyConfig(db, config, details);
+      await this.write(db);
+    });
+  }
+
+  /**
+   * Adds a team to the league. The team's id and the resized config are worked out
+   * inside the lock, so two adds at once can't take the same id or lose a resize.
+   */
+  static async addTeam(details: Partial<Pick<Team, 'name' | 'logoUrl'>> = {}): Promise<DraftConfig> {
+    return this.withLock(async () => {
+      const db = await this.read();
+      if (db.config.teams.length >= MAX_TEAMS) {
+        throw new ConfigRejectedError(`A league can have at most ${MAX_TEAMS} teams`);
+      }
+
+      const team = { ...createTeam(db.config.teams), ...details };
+      const errors = validateTeam(team);
+      if (errors.length > 0) {
+        throw new ConfigRejectedError('Invalid team', errors);
+      }
+
+      const config = this.checkConfig(addTeam(db.config, team));
+      this.applyConfig(db, config, { comment: `Added ${team.name}` });
+      await this.write(db);
+      return config;
+    });
+  }
+
+  // Returns undefined for an unknown team; like addTeam, resized inside the lock
+  static async removeTeam(teamId: string): Promise<DraftConfig | undefined> {
+    return this.withLock(async () => {
+      const db = await this.read();
+      const team = db.config.teams.find((t) => t.id === teamId);
+      if (!team) {
+        return undefined;
+      }
+      if (db.config.teams.length <= MIN_TEAMS) {
+        throw new ConfigRejectedError(`A league needs at least ${MIN_TEAMS} teams`);
+      }
+
+      const config = this.checkConfig(removeTeam(db.config, teamId));
+      this.applyConfig(db, config, { comment: `Removed ${team.name}` });
+      await this.write(db);
+      return config;
+    });
+  }
+
+  // The resized config is saved only if it is still a valid league
+  private static checkConfig(config: DraftConfig): DraftConfig {
+    const errors = validateDraftConfig(config);
+    if (errors.length > 0) {
+      throw new ConfigRejectedError('Invalid config', errors);
+    }
+    return config;
+  }
+
+  private static applyConfig(
+    db: DatabaseSchema,
+    config: DraftConfig,
+    details: Pick<ConfigRevision, 'author' | 'comment'>
+  ): void {
+    // Keep the settings from before revision history existed as the first version
+    if (!db.configHistory?.length && db.config) {
+      this.recordConfigRevision(db, db.config, { comment: 'Config before revision history' });
+    }
+
     db.config = config;
-    await this.write(db);
+    this.recordConfigRevision(db, config, details);
+  }
+
+  private static recordConfigRevision(
+    db: DatabaseSchema,
+    config: DraftConfig,
+    details: Pick<ConfigRevision, 'author' | 'comment'>
+  ): ConfigRevision {
+    const history = db.configHistory ?? [];
+    const revision: ConfigRevision = {
+      version: (history[history.length - 1]?.version ?? 0) + 1,
+      savedAt: new Date().toISOString(),
+      author: details.author?.trim() || undefined,
+      comment: details.comment?.trim() || undefined,
+      config,
+    };
+
+    db.configHistory = [...history, revision];
+    return revision;
+  }
+
+  static async getConfigHistory(): Promise<ConfigRevision[]> {
+    const db = await this.read();
+    return [...(db.configHistory ?? [])].reverse(); // Most recent first
+  }
+
+  // Make an earlier version current again, recorded as a new version
+  static async restoreConfigRevision(
+    version: number,
+    details: Pick<ConfigRevision, 'author' | 'comment'> = {}
+  ): Promise<ConfigRevision | undefined> {
+    return this.withLock(async () => {
+      const db = await this.read();
+      const revision = db.configHistory?.find((r) => r.version === version);
+      if (!revision) {
+        return undefined;
+      }
+
+      db.config = revision.config;
+      const restored = this.recordConfigRevision(db, revision.config, {
+        author: details.author,
+        comment: details.comment?.trim() || `Restored version ${version}`,
+      });
+      await this.write(db);
+      return restored;
+    });
   }
 
   // Lottery methods
@@ -84,26 +262,397 @@ export class Database {
     return db.lotteries.find((lottery) => lottery.year === year);
   }
 
-  static async saveLottery(lottery: DraftLottery): Promise<void> {
-    const db = await this.read();
+  static async saveLottery(lottery: DraftLottery, override = false): Promise<void> {
+    return this.withLock(async () => {
+      const db = await this.read();
+      this.replaceLottery(db, lottery, override);
+      await this.write(db);
+    });
+  }
+
+  // Saves several years at once; nothing is saved if any of them is refused
+  static async saveLotteries(lotteries: DraftLottery[], override = false): Promise<void> {
+    return this.withLock(async () => {
+      const db = await this.read();
+      lotteries.forEach((lottery) => this.replaceLottery(db, lottery, override));
+      await this.write(db);
+    });
+  }
 
-    // Remove existing lottery for the same year if exists
-    db.lotteries = db.lotteries.filter((l) => l.year !== lottery.year);
+  /**
+   * Puts a lottery in place of any existing one for the same year. A finalized year
+   * is only replaced with the override flag, and the replaced record is archived.
+   */
+  private static replaceLottery(db: DatabaseSchema, lottery: DraftLottery, override: boolean): void {
+    const existing = db.lotteries.find((l) => l.year === lottery.year);
+
+    if (existing) {
+      if (existing.finalized && !override) {
+        throw new LotteryFinalizedError(lottery.year);
+      }
+
+      db.supersededLotteries = [
+        ...(db.supersededLotteries ?? []),
+        { ...existing, supersededAt: new Date().toISOString() },
+      ];
+      db.lotteries = db.lotteries.filter((l) => l.year !== lottery.year);
+    }
 
-    // Add new lottery
     db.lotteries.push(lottery);
+  }
 
-    await this.write(db);
+  static async finalizeLottery(year: number): Promise<DraftLottery | undefined> {
+    return this.withLock(async () => {
+      const db = await this.read();
+      const lottery = db.lotteries.find((l) => l.year === year);
+      if (!lottery) {
+        return undefined;
+      }
+
+      if (!lottery.finalized) {
+        lottery.finalized = true;
+        lottery.finalizedAt = new Date().toISOString();
+        await this.write(db);
+      }
+
+      return lottery;
+    });
   }
 
-  static async deleteLottery(year: number): Promise<void> {
+  static async getSupersededLotteries(year?: number): Promise<DraftLottery[]> {
     const db = await this.read();
-    db.lotteries = db.lotteries.filter((l) => l.year !== year);
-    await this.write(db);
+    const revisions = db.supersededLotteries ?? [];
+    return year === undefined ? revisions : revisions.filter((l) => l.year === year);
   }
 
-  // Initialize database with default values
+  // Pending lottery methods (drawn on the server, awaiting confirmation)
+  static async getPendingLottery(): Promise<DraftLottery | undefined> {
+    const db = await this.read();
+    return db.pendingLottery;
+  }
+
+  // A new draw also starts a new live session with nothing revealed
+  static async savePendingLottery(lottery: DraftLottery): Promise<void> {
+    return this.withLock(async () => {
+      const db = await this.read();
+      const now = new Date().toISOString();
+      db.pendingLottery = lottery;
+      db.liveSession = { lotteryId: lottery.id, revealed: [], startedAt: now, updatedAt: now };
+      await this.write(db);
+    });
+  }
+
+  /**
+   * The pending lottery with its reveal progress. A session left over from another
+   * draw is ignored, so the progress always refers to the stored picks.
+   */
+  static async getLiveSession(): Promise<
+    { lottery: DraftLottery; session: LiveSession } | undefined
+  > {
+    const db = await this.read();
+    const lottery = db.pendingLottery;
+    if (!lottery) {
+      return undefined;
+    }
+
+    const session =
+      db.liveSession?.lotteryId === lottery.id
+        ? db.liveSession
+        : { lotteryId: lottery.id, revealed: [], startedAt: lottery.date, updatedAt: lottery.date };
+    return { lottery, session };
+  }
+
+  /**
+   * Records that a pick of the pending lottery was revealed. Returns undefined when
+   * lotteryId is not the pending lottery or it has no such pick.
+   */
+  static async recordReveal(
+    lotteryId: string,
+    round: number,
+    pickNumber: number
+  ): Promise<LiveSession | undefined> {
+    return this.recordReveals(lotteryId, [{ round, pickNumber }]);
+  }
+
+  // Several reveals in one write, e.g. rounds revealed at once. Nothing is saved unless
+  // every pick is in the lottery.
+  static async recordReveals(
+    lotteryId: string,
+    picks: LiveSession['revealed']
+  ): Promise<LiveSession | undefined> {
+    return this.withLock(async () => {
+      const db = await this.read();
+      const lottery = db.pendingLottery;
+      const exists = picks.every((ref) =>
+        lottery?.picks.some((p) => p.round === ref.round && p.pickNumber === ref.pickNumber)
+      );
+      if (!lottery || lottery.id !== lotteryId || !exists) {
+        return undefined;
+      }
+
+      const now = new Date().toISOString();
+      const session: LiveSession =
+        db.liveSession?.lotteryId === lotteryId
+          ? db.liveSession
+          : { lotteryId, revealed: [], startedAt: now, updatedAt: now };
+
+      // Revealing a pick again, e.g. a retried request, changes nothing
+      for (const { round, pickNumber } of picks) {
+        if (!session.revealed.some((p) => p.round === round && p.pickNumber === pickNumber)) {
+          session.revealed.push({ round, pickNumber });
+        }
+      }
+      session.updatedAt = now;
+
+      db.liveSession = session;
+      await this.write(db);
+      return session;
+    });
+  }
+
+  // Throws away the pending lottery and its progress; returns false when there was none
+  static async discardPendingLottery(): Promise<boolean> {
+    return this.withLock(async () => {
+      const db = await this.read();
+      if (!db.pendingLottery) {
+        return false;
+      }
+
+      delete db.pendingLottery;
+      delete db.liveSession;
+      await this.write(db);
+      return true;
+    });
+  }
+
+  // Confirming makes the pending draw the official, finalized result for its year
+  static async confirmPendingLottery(override = false): Promise<DraftLottery | undefined> {
+    return this.withLock(async () => {
+      const db = await this.read();
+      const pending = db.pendingLottery;
+      if (!pending) {
+        return undefined;
+      }
+
+      const lottery: DraftLottery = {
+        ...pending,
+        finalized: true,
+        finalizedAt: new Date().toISOString(),
+      };
+      this.replaceLottery(db, lottery, override);
+      delete db.pendingLottery;
+      delete db.liveSession;
+
+      await this.write(db);
+      return lottery;
+    });
+  }
+
+  /**
+   * Removes the lottery for a year and returns it. A finalized year is only removed
+   * with the override flag, and the removed record is archived.
+   */
+  static async deleteLottery(year: number, override = false): Promise<DraftLottery | undefined> {
+    return this.withLock(async () => {
+      const db = await this.read();
+      const existing = db.lotteries.find((l) => l.year === year);
+
+      if (existing?.finalized) {
+        if (!override) {
+          throw new LotteryFinalizedError(year);
+        }
+
+        db.supersededLotteries = [
+          ...(db.supersededLotteries ?? []),
+          { ...existing, supersededAt: new Date().toISOString() },
+        ];
+      }
+
+      db.lotteries = db.lotteries.filter((l) => l.year !== year);
+      await this.write(db);
+      return existing;
+    });
+  }
+
+  // Pick ownership methods (ledger of traded picks)
+  static async getPickOwnership(year?: number): Promise<PickOwnership[]> {
+    const db = await this.read();
+    const ledger = db.pickOwnership ?? [];
+    return year === undefined ? ledger : ledger.filter((entry) => entry.year === year);
+  }
+
+  // Trade methods (each trade also moves the pick in the ownership ledger)
+  static async getTrades(year?: number): Promise<PickTrade[]> {
+    const db = await this.read();
+    const trades = db.trades ?? [];
+    return year === undefined ? trades : trades.filter((trade) => trade.year === year);
+  }
+
+  static async getTradeById(id: string): Promise<PickTrade | undefined> {
+    const db = await this.read();
+    return (db.trades ?? []).find((trade) => trade.id === id);
+  }
+
+  /**
+   * Logs a trade and moves the pick. It is checked against the ownership inside the
+   * lock, so two requests can't both trade away the same pick.
+   */
+  static async saveTrade(trade: PickTrade): Promise<void> {
+    return this.withLock(async () => {
+      const db = await this.read();
+      const error = validateTrade(trade, db.config, db.pickOwnership ?? []);
+      if (error) {
+        throw new TradeRejectedError(error);
+      }
+
+      db.trades = [...(db.trades ?? []), trade];
+      db.pickOwnership = setPickOwner(db.pickOwnership ?? [], {
+        year: trade.year,
+        round: trade.round,
+        originalTeamId: trade.originalTeamId,
+        ownerTeamId: trade.toTeamId,
+      });
+      await this.write(db);
+    });
+  }
+
+  // Returns undefined for an unknown trade; like saveTrade, checked inside the lock
+  static async reverseTrade(id: string, reversedAt: string): Promise<PickTrade | undefined> {
+    return this.withLock(async () => {
+      const db = await this.read();
+      const trade = (db.trades ?? []).find((t) => t.id === id);
+      if (!trade) {
+        return undefined;
+      }
+
+      const error = validateTradeReversal(trade, db.pickOwnership ?? []);
+      if (error) {
+        throw new TradeRejectedError(error);
+      }
+
+      trade.reversedAt = reversedAt;
+      db.pickOwnership = setPickOwner(db.pickOwnership ?? [], {
+        year: trade.year,
+        round: trade.round,
+        originalTeamId: trade.originalTeamId,
+        ownerTeamId: trade.fromTeamId,
+      });
+
+      await this.write(db);
+      return trade;
+    });
+  }
+
+  // API tokens (see auth.ts); only their hashes are stored
+  static async getApiTokens(): Promise<ApiToken[]> {
+    const db = await this.read();
+    return db.apiTokens ?? [];
+  }
+
+  static async findApiToken(tokenHash: string): Promise<ApiToken | undefined> {
+    const db = await this.read();
+    return (db.apiTokens ?? []).find((token) => token.tokenHash === tokenHash);
+  }
+
+  static async saveApiToken(token: ApiToken): Promise<void> {
+    return this.withLock(async () => {
+      const db = await this.read();
+      db.apiTokens = [...(db.apiTokens ?? []), token];
+      await this.write(db);
+    });
+  }
+
+  // Returns false when there is no token with this ID
+  static async deleteApiToken(id: string): Promise<boolean> {
+    return this.withLock(async () => {
+      const db = await this.read();
+      const tokens = db.apiTokens ?? [];
+      if (!tokens.some((token) => token.id === id)) {
+        return false;
+      }
+
+      db.apiTokens = tokens.filter((token) => token.id !== id);
+      await this.write(db);
+      return true;
+    });
+  }
+
+  // Backup and restore (see backup.ts for the bundle format). API tokens and the live
+  // session stay on this host: they are left out of exports and kept through imports.
+  static async exportData(): Promise<DatabaseSchema> {
+    const { apiTokens, liveSession, ...data } = await this.read();
+    return data;
+  }
+
+  static async getImportPreview(data: DatabaseSchema, mode: ImportMode): Promise<ImportPreview> {
+    return previewImport(await this.read(), data, mode);
+  }
+
+  /**
+   * Restores data parsed from a backup. Replacing or removing a finalized year needs
+   * the override flag. A merge archives the lotteries it replaces, like saveLottery.
+   */
+  static async importData(
+    data: DatabaseSchema,
+    mode: ImportMode,
+    override = false
+  ): Promise<ImportPreview> {
+    return this.withLock(async () => {
+      const db = await this.read();
+      const preview = previewImport(db, data, mode);
+
+      if (preview.lotteries.finalized.length > 0 && !override) {
+        throw new LotteryFinalizedError(preview.lotteries.finalized[0]);
+      }
+
+      // The live session only survives if it still belongs to the pending lottery
+      const { apiTokens, liveSession, ...imported } = data;
+      const keepSession = db.liveSession && db.liveSession.lotteryId === data.pendingLottery?.id;
+      const local: Partial<DatabaseSchema> = {
+        ...(db.apiTokens && { apiTokens: db.apiTokens }),
+        ...(keepSession && { liveSession: db.liveSession }),
+      };
+      if (mode === 'replace') {
+        await this.write({ ...imported, ...local });
+        return preview;
+      }
+
+      const archived = new Set(
+        (db.supersededLotteries ?? []).map((lottery) => `${lottery.id}@${lottery.supersededAt}`)
+      );
+      const merged: DatabaseSchema = {
+        ...imported,
+        ...local,
+        lotteries: db.lotteries,
+        supersededLotteries: [
+          ...(db.supersededLotteries ?? []),
+          ...(data.supersededLotteries ?? []).filter(
+            (lottery) => !archived.has(`${lottery.id}@${lottery.supersededAt}`)
+          ),
+        ],
+      };
+
+      const changedYears = new Set([...preview.lotteries.added, ...preview.lotteries.replaced]);
+      data.lotteries
+        .filter((lottery) => changedYears.has(lottery.year))
+        .forEach((lottery) => this.replaceLottery(merged, lottery, true));
+
+      await this.write(merged);
+      return preview;
+    });
+  }
+
+  // Creates the database with the defaults if nothing is stored yet
   static async initialize(): Promise<void> {
-    await this.ensureDbExists();
+    return this.withLock(async () => {
+      if (!(await this.getStorage().exists())) {
+        await this.write(defaultDatabase);
+      }
+    });
+  }
+
+  // Replace everything with the default config and no lotteries
+  static async reset(): Promise<void> {
+    return this.withLock(() => this.write(defaultDatabase));
   }
 }
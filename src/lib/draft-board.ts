@@ -0,0 +1,206 @@
+import type { DraftLottery, Team } from '../types';
+
+/**
+ * League name shown at the top of the printed board
+ */
+export const LEAGUE_TITLE = 'Fantasy Football Draft Lottery';
+
+export interface DraftBoardPick {
+  round: number;
+  pickNumber: number;
+  overallPick: number;
+  team: Team; // Team making the pick: the owner of a traded pick
+  via?: Team; // Original team of a traded pick
+  originalPosition: number;
+  movement: number;
+}
+
+export interface DraftBoardRound {
+  round: number;
+  picks: DraftBoardPick[];
+}
+
+/**
+ * Lays out a lottery's picks as a board: one entry per round, picks in draft order,
+ * numbered overall across rounds
+ */
+export function buildDraftBoard(lottery: DraftLottery): DraftBoardRound[] {
+  const findTeam = (teamId: string): Team =>
+    lottery.config.teams.find((team) => team.id === teamId) ?? {
+      id: teamId,
+      name: teamId,
+      logoUrl: '',
+      logoType: 'url',
+    };
+
+  const rounds = [...new Set(lottery.picks.map((pick) => pick.round))].sort((a, b) => a - b);
+
+  return rounds.map((round) => ({
+    round,
+    picks: lottery.picks
+      .filter((pick) => pick.round === round)
+      .sort((a, b) => a.pickNumber - b.pickNumber)
+      .map((pick) => ({
+        round,
+        pickNumber: pick.pickNumber,
+        overallPick: (round - 1) * lottery.config.numberOfTeams + pick.pickNumber,
+        team: findTeam(pick.ownerTeamId ?? pick.teamId),
+        via: pick.ownerTeamId ? findTeam(pick.teamId) : undefined,
+        originalPosition: pick.originalPosition,
+        movement: pick.movement,
+      })),
+  }));
+}
+
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function renderLogo(team: Team, logos: Record<string, string>): string {
+  const src = logos[team.logoUrl] ?? team.logoUrl;
+  if (!src) {
+    const initials = escapeHtml(team.name.substring(0, 2).toUpperCase());
+    return `<div class="logo placeholder">${initials}</div>`;
+  }
+  return `<img class="logo" src="${escapeHtml(src)}" alt="${escapeHtml(team.name)}" />`;
+}
+
+function renderMovement(movement: number): string {
+  if (movement === 0) return '<span class="movement">Stayed</span>';
+  const spots = `${Math.abs(movement)} ${Math.abs(movement) === 1 ? 'spot' : 'spots'}`;
+  return movement < 0
+    ? `<span class="movement up">▲ ${spots}</span>`
+    : `<span class="movement down">▼ ${spots}</span>`;
+}
+
+function renderPick(pick: DraftBoardPick, logos: Record<string, string>): string {
+  return `
+        <div class="pick">
+          <div class="pick-number">
+            <span class="overall">#${pick.overallPick}</span>
+            <span>${pick.round}.${String(pick.pickNumber).padStart(2, '0')}</span>
+          </div>
+          ${renderLogo(pick.team, logos)}
+          <div class="team">${escapeHtml(pick.team.name)}</div>
+          ${pick.via ? `<div class="via">via ${escapeHtml(pick.via.name)}</div>` : ''}
+          <div class="details">
+            Orig. ${pick.originalPosition} · ${renderMovement(pick.movement)}
+          </div>
+        </div>`;
+}
+
+// Spread the picks of a round over rows of similar length, at most 6 per row
+function boardColumns(numberOfPicks: number): number {
+  return Math.ceil(numberOfPicks / Math.ceil(numberOfPicks / 6));
+}
+
+function renderRound(round: DraftBoardRound, logos: Record<string, string>): string {
+  return `
+    <section class="round">
+      <h3>Round ${round.round}</h3>
+      <div class="grid" style="--columns: ${boardColumns(round.picks.length)}">${round.picks
+        .map((pick) => renderPick(pick, logos))
+        .join('')}
+      </div>
+    </section>`;
+}
+
+const BOARD_STYLES = `
+    * { box-sizing: border-box; }
+    body { margin: 0; padding: 2rem; font-family: system-ui, sans-serif; color: #111; }
+    header { border-bottom: 3px solid #111; margin-bottom: 1.5rem; padding-bottom: 0.75rem; }
+    header h1 { margin: 0; font-size: 1rem; text-transform: uppercase; color: #555; }
+    header h2 { margin: 0.25rem 0; font-size: 2rem; }
+    header p { margin: 0; color: #555; }
+    .toolbar { margin-bottom: 1.5rem; display: flex; gap: 0.75rem; }
+    .toolbar a, .toolbar button {
+      font: inherit; padding: 0.4rem 0.9rem; border: 1px solid #111; border-radius: 4px;
+      background: #fff; color: #111; text-decoration: none; cursor: pointer;
+    }
+    .round { margin-bottom: 2rem; }
+    .round h3 { margin: 0 0 0.75rem; font-size: 1.4rem; }
+    .grid { display: grid; grid-template-columns: repeat(var(--columns), 1fr); gap: 0.5rem; }
+    .pick { border: 1px solid #999; border-radius: 6px; padding: 0.6rem; text-align: center; }
+    .pick { break-inside: avoid; }
+    .pick-number { display: flex; justify-content: space-between; font-size: 0.8rem; }
+    .pick-number { color: #555; margin-bottom: 0.4rem; }
+    .pick-number .overall { font-size: 1.1rem; font-weight: 700; color: #111; }
+    .logo { display: block; width: 100%; height: 3rem; object-fit: contain; margin-bottom: 0.4rem; }
+    .logo.placeholder {
+      display: flex; align-items: center; justify-content: center; background: #eee;
+      font-weight: 700;
+    }
+    .team { font-weight: 600; }
+    .via { font-size: 0.8rem; font-style: italic; color: #555; }
+    .details { font-size: 0.75rem; color: #555; margin-top: 0.3rem; }
+    .movement.up { color: #15803d; }
+    .movement.down { color: #b91c1c; }
+    footer { margin-top: 1rem; font-size: 0.75rem; color: #777; }
+    @page { size: landscape; margin: 1.2cm; }
+    @media print {
+      body { padding: 0; }
+      .toolbar { display: none; }
+      .round + .round { break-before: page; }
+      .pick { -webkit-print-color-adjust: exact; print-color-adjust: exact; }
+    }`;
+
+export interface DraftBoardOptions {
+  logos?: Record<string, string>; // Logo to show for a logoUrl, e.g. an embedded data URL
+  links?: { label: string; href: string }[]; // Shown next to the Print button, not printed
+  generatedAt?: string;
+}
+
+/**
+ * Renders a lottery as a standalone, print-ready HTML document with every round on its
+ * own page. It has no outside stylesheets or scripts, so a saved copy can be archived
+ * as is.
+ */
+export function renderDraftBoardHtml(
+  lottery: DraftLottery,
+  options: DraftBoardOptions = {}
+): string {
+  const logos = options.logos ?? {};
+  const links = (options.links ?? [])
+    .map((link) => `<a href="${escapeHtml(link.href)}">${escapeHtml(link.label)}</a>`)
+    .join('');
+  const generatedAt = options.generatedAt ?? new Date().toISOString();
+  const rounds = buildDraftBoard(lottery);
+  const date = new Date(lottery.date).toLocaleDateString('en-US', { dateStyle: 'long' });
+  const summary = [
+    `${lottery.config.numberOfTeams} teams`,
+    `${rounds.length} ${rounds.length === 1 ? 'round' : 'rounds'}`,
+    `Lottery held ${date}`,
+    lottery.finalized ? 'Finalized' : 'Not finalized',
+    ...(lottery.imported ? ['Imported'] : []),
+  ].join(' · ');
+
+  return `<!doctype html>
+<html lang="en">
+  <head>
+    <meta charset="UTF-8" />
+    <meta name="viewport" content="width=device-width" />
+    <title>${lottery.year} Draft Board - ${LEAGUE_TITLE}</title>
+    <style>${BOARD_STYLES}
+    </style>
+  </head>
+  <body>
+    <header>
+      <h1>${LEAGUE_TITLE}</h1>
+      <h2>${lottery.year} Draft Board</h2>
+      <p>${summary}</p>
+    </header>
+    <div class="toolbar">
+      <button type="button" onclick="window.print()">Print</button>
+      ${links}
+    </div>
+    ${rounds.map((round) => renderRound(round, logos)).join('')}
+    <footer>Generated ${escapeHtml(generatedAt)}</footer>
+  </body>
+</html>
+`;
+}
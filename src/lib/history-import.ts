@@ -0,0 +1,310 @@
+import type { DraftConfig, DraftLottery, DraftPick, Team } from '../types';
+import { parseCsv } from './csv';
+import { removeTeam } from './league';
+import { validateDraftResults } from './lottery';
+import { validateDraftLottery, validateLotteryStructure, type FieldError } from './validation';
+
+/**
+ * A pick read from a CSV of past lotteries. Line is the 1-based line in the file.
+ */
+export interface HistoryCsvRow {
+  line: number;
+  year: number;
+  round: number;
+  pickNumber: number;
+  teamName: string;
+  originalPosition: number;
+  date?: string;
+}
+
+/**
+ * The closest team for a name in the CSV. Only exact matches are used without
+ * confirmation; anything else is a suggestion.
+ */
+export interface TeamMatch {
+  name: string;
+  teamId?: string; // Undefined when no team is close enough
+  score: number; // 0..1, 1 = same name once case and punctuation are ignored
+  exact: boolean;
+}
+
+/**
+ * Lowest similarity at which a team is suggested for a name
+ */
+export const FUZZY_MATCH_THRESHOLD = 0.6;
+
+type HistoryColumn = Exclude<keyof HistoryCsvRow, 'line'>;
+
+// Header names accepted for each column, compared after normalizeName
+const COLUMN_NAMES: Record<HistoryColumn, string[]> = {
+  year: ['year', 'season'],
+  round: ['round', 'rd'],
+  pickNumber: ['pick', 'pick number', 'pick no', 'pick #'],
+  teamName: ['team', 'team name'],
+  originalPosition: ['original position', 'orig pos', 'original', 'position'],
+  date: ['date', 'lottery date'],
+};
+
+const REQUIRED_COLUMNS: HistoryColumn[] = [
+  'year',
+  'round',
+  'pickNumber',
+  'teamName',
+  'originalPosition',
+];
+
+/**
+ * Lowercases a name and drops accents and punctuation, e.g. "Loco Lobos!" → "loco lobos"
+ */
+function normalizeName(name: string): string {
+  return name
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9#]+/g, ' ')
+    .trim();
+}
+
+function levenshtein(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+
+  return previous[b.length];
+}
+
+/**
+ * Similarity of two normalized names: the best of their edit distance, the share of
+ * words they have in common and whether one is part of the other, so typos, dropped
+ * words and nicknames all score well
+ */
+function nameSimilarity(a: string, b: string): number {
+  if (a === b) return 1;
+  if (!a || !b) return 0;
+
+  const edit = 1 - levenshtein(a, b) / Math.max(a.length, b.length);
+
+  const wordsA = new Set(a.split(' '));
+  const wordsB = new Set(b.split(' '));
+  const shared = [...wordsA].filter((word) => wordsB.has(word)).length;
+  const words = shared / Math.max(wordsA.size, wordsB.size);
+  // One name is part of the other, e.g. "Lobos" for "Loco Lobos" or "Rhino" for "BlackRhino"
+  const [shorter, longer] = a.length <= b.length ? [a, b] : [b, a];
+  const isPart =
+    shared === Math.min(wordsA.size, wordsB.size) ||
+    (shorter.length >= 3 && longer.includes(shorter));
+  const contained = isPart ? 0.8 : 0;
+
+  return Math.max(edit, words, contained);
+}
+
+/**
+ * Finds the closest team for every distinct name, by team name or team ID
+ */
+export function matchTeamNames(names: string[], teams: Team[]): TeamMatch[] {
+  return [...new Set(names)].map((name) => {
+    const normalized = normalizeName(name);
+    let best: TeamMatch = { name, score: 0, exact: false };
+
+    for (const team of teams) {
+      const score = Math.max(
+        nameSimilarity(normalized, normalizeName(team.name)),
+        normalized === normalizeName(team.id) ? 1 : 0
+      );
+      if (score > best.score) {
+        best = { name, teamId: team.id, score, exact: score === 1 };
+      }
+    }
+
+    return best.score >= FUZZY_MATCH_THRESHOLD ? best : { name, score: best.score, exact: false };
+  });
+}
+
+function columnLabel(column: HistoryColumn): string {
+  const name = COLUMN_NAMES[column][0];
+  return name.charAt(0).toUpperCase() + name.slice(1);
+}
+
+function parseWholeNumber(value: string | undefined): number {
+  return /^\s*\d+\s*$/.test(value ?? '') ? parseInt(value as string) : NaN;
+}
+
+/**
+ * Reads picks from CSV text with a header row. Columns are found by name in any
+ * order, so files exported by the app (which have extra columns) work too.
+ */
+export function parseHistoryCsv(text: string): { rows: HistoryCsvRow[]; errors: FieldError[] } {
+  const [header, ...lines] = parseCsv(text);
+  if (!header) {
+    return { rows: [], errors: [{ field: 'csv', message: 'The file is empty' }] };
+  }
+
+  const headerNames = header.map(normalizeName);
+  const columns = Object.fromEntries(
+    (Object.keys(COLUMN_NAMES) as HistoryColumn[]).map((column) => [
+      column,
+      headerNames.findIndex((name) => COLUMN_NAMES[column].includes(name)),
+    ])
+  ) as Record<HistoryColumn, number>;
+
+  const missing = REQUIRED_COLUMNS.filter((column) => columns[column] === -1);
+  if (missing.length > 0) {
+    return {
+      rows: [],
+      errors: missing.map((column) => ({
+        field: 'header',
+        message: `Missing column: ${COLUMN_NAMES[column][0]}`,
+      })),
+    };
+  }
+
+  const rows: HistoryCsvRow[] = [];
+  const errors: FieldError[] = [];
+
+  lines.forEach((cells, index) => {
+    const line = index + 2; // Line 1 is the header
+    const row: HistoryCsvRow = {
+      line,
+      year: parseWholeNumber(cells[columns.year]),
+      round: parseWholeNumber(cells[columns.round]),
+      pickNumber: parseWholeNumber(cells[columns.pickNumber]),
+      teamName: (cells[columns.teamName] ?? '').trim(),
+      originalPosition: parseWholeNumber(cells[columns.originalPosition]),
+      date: columns.date === -1 ? undefined : cells[columns.date]?.trim() || undefined,
+    };
+
+    const rowErrors: FieldError[] = [];
+    for (const column of ['year', 'round', 'pickNumber', 'originalPosition'] as const) {
+      if (isNaN(row[column]) || row[column] < 1) {
+        rowErrors.push({
+          field: `line ${line}`,
+          message: `${columnLabel(column)} must be a whole number`,
+        });
+      }
+    }
+    if (!row.teamName) {
+      rowErrors.push({ field: `line ${line}`, message: 'Team is required' });
+    }
+    if (row.date !== undefined && isNaN(Date.parse(row.date))) {
+      rowErrors.push({ field: `line ${line}`, message: `Invalid date: ${row.date}` });
+    }
+
+    if (rowErrors.length > 0) {
+      errors.push(...rowErrors);
+    } else {
+      rows.push(row);
+    }
+  });
+
+  if (rows.length === 0 && errors.length === 0) {
+    errors.push({ field: 'csv', message: 'The file has no picks' });
+  }
+
+  return { rows, errors };
+}
+
+/**
+ * Builds one lottery per year from CSV rows. teamIds maps every team name in the CSV
+ * to a confirmed team ID.
+ *
+ * Each year gets a copy of the current config narrowed to the teams that appear in it,
+ * and the initial order implied by round 1. Picks must form a consistent draft order
+ * (errors); breaking the current lottery format's rules is only reported (warnings),
+ * since years run before the app may have used other rules.
+ */
+export function buildImportedLotteries(
+  rows: HistoryCsvRow[],
+  config: DraftConfig,
+  teamIds: Record<string, string>,
+  importedAt: string = new Date().toISOString()
+): { lotteries: DraftLottery[]; errors: FieldError[]; warnings: string[] } {
+  const errors: FieldError[] = [];
+  const warnings: string[] = [];
+  const lotteries: DraftLottery[] = [];
+
+  const unmatched = [...new Set(rows.map((row) => row.teamName))].filter((name) => !teamIds[name]);
+  if (unmatched.length > 0) {
+    return {
+      lotteries,
+      warnings,
+      errors: unmatched.map((name) => ({
+        field: 'teams',
+        message: `No team chosen for "${name}"`,
+      })),
+    };
+  }
+
+  const years = [...new Set(rows.map((row) => row.year))].sort((a, b) => a - b);
+
+  for (const year of years) {
+    const yearRows = rows.filter((row) => row.year === year);
+    const picks: DraftPick[] = yearRows.map((row) => ({
+      round: row.round,
+      pickNumber: row.pickNumber,
+      teamId: teamIds[row.teamName],
+      originalPosition: row.originalPosition,
+      movement: row.pickNumber - row.originalPosition,
+    }));
+
+    const yearTeamIds = new Set(picks.map((pick) => pick.teamId));
+    const yearConfig = config.teams
+      .filter((team) => !yearTeamIds.has(team.id))
+      .reduce((narrowed, team) => removeTeam(narrowed, team.id), config);
+    const teams = yearConfig.teams;
+
+    // Team number (1-based index in teams) at each original position of round 1
+    const roundOne = picks
+      .filter((pick) => pick.round === 1)
+      .sort((a, b) => a.originalPosition - b.originalPosition);
+    const initialOrder =
+      roundOne.length === teams.length
+        ? roundOne.map((pick) => teams.findIndex((team) => team.id === pick.teamId) + 1)
+        : undefined;
+
+    const lottery: DraftLottery = {
+      id: `lottery-${year}`,
+      year,
+      date: new Date(yearRows.find((row) => row.date)?.date ?? `${year}-01-01`).toISOString(),
+      picks,
+      config: {
+        ...yearConfig,
+        numberOfRounds: Math.max(...picks.map((pick) => pick.round)),
+        initialOrder,
+        currentYear: year,
+      },
+      initialOrder,
+      finalized: true,
+      finalizedAt: importedAt,
+      imported: true,
+    };
+
+    const shapeErrors = validateDraftLottery(lottery);
+    const yearErrors = shapeErrors.length > 0 ? shapeErrors : validateLotteryStructure(lottery);
+    if (yearErrors.length > 0) {
+      errors.push(
+        ...yearErrors.map((error) => ({
+          field: `lotteries[${year}].${error.field}`,
+          message: error.message,
+        }))
+      );
+      continue;
+    }
+
+    validateDraftResults(picks, lottery.config).errors.forEach((message) =>
+      warnings.push(`${year}: ${message}`)
+    );
+    lotteries.push(lottery);
+  }
+
+  return { lotteries, errors, warnings };
+}
@@ -0,0 +1,74 @@
+import type { DatabaseSchema } from '../types';
+import type { StorageAdapter } from './storage';
+import { randomUUID } from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+
+/**
+ * Parses the database file, returning undefined when it is not valid database JSON
+ */
+function parseDatabase(data: string): DatabaseSchema | undefined {
+  try {
+    const db = JSON.parse(data);
+    return db && typeof db === 'object' && Array.isArray(db.lotteries) ? db : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Keeps the database in a single JSON file, with a copy of the last successful write
+ * alongside it as a backup
+ */
+export class JsonStorage implements StorageAdapter {
+  private readonly backupPath: string;
+
+  constructor(private readonly filePath: string) {
+    this.backupPath = `${filePath}.bak`;
+  }
+
+  async exists(): Promise<boolean> {
+    try {
+      await fs.access(this.filePath);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  // Falls back to the backup when the file is corrupt, e.g. after a crash mid-write
+  async read(): Promise<DatabaseSchema> {
+    const db = parseDatabase(await fs.readFile(this.filePath, 'utf-8'));
+    if (db) {
+      return db;
+    }
+
+    console.warn(`${this.filePath} is corrupt, falling back to the last good backup`);
+    const backup = await fs
+      .readFile(this.backupPath, 'utf-8')
+      .then(parseDatabase, () => undefined);
+    if (!backup) {
+      throw new Error(`${this.filePath} is corrupt and no valid backup exists`);
+    }
+
+    return backup;
+  }
+
+  /**
+   * Writes to a temp file and renames it over the database, so readers never see a
+   * partial file. Each write has its own temp file, so writers in other processes
+   * (the scripts, a second server) can't rename one away from under each other.
+   */
+  async write(data: DatabaseSchema): Promise<void> {
+    const tempPath = `${this.filePath}.${randomUUID()}.tmp`;
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    try {
+      await fs.writeFile(tempPath, JSON.stringify(data, null, 2));
+      await fs.rename(tempPath, this.filePath);
+    } catch (error) {
+      await fs.unlink(tempPath).catch(() => undefined);
+      throw error;
+    }
+    await fs.copyFile(this.filePath, this.backupPath);
+  }
+}
@@ -0,0 +1,192 @@
+import type { DraftConfig, Team, WeightedOdds } from '../types';
+
+/**
+ * Supported league sizes
+ */
+export const MIN_TEAMS = 4;
+export const MAX_TEAMS = 32;
+
+/**
+ * Default odds for a 10-team league. Other league sizes interpolate this curve.
+ */
+export const DEFAULT_WEIGHTED_ODDS: WeightedOdds[] = [
+  { position: 10, percentage: 25.0 }, // Worst team: 25%
+  { position: 9, percentage: 18.8 },
+  { position: 8, percentage: 14.1 },
+  { position: 7, percentage: 10.5 },
+  { position: 6, percentage: 7.9 },
+  { position: 5, percentage: 6.2 },
+  { position: 4, percentage: 6.2 },
+  { position: 3, percentage: 4.7 },
+  { position: 2, percentage: 3.5 },
+  { position: 1, percentage: 3.1 }, // Champion: 3.1%
+];
+
+/**
+ * Rounds percentages to one decimal place so they still total exactly 100,
+ * using largest remainders
+ */
+function roundToTotal(percentages: number[]): number[] {
+  const total = percentages.reduce((sum, percentage) => sum + percentage, 0);
+  const tenths = percentages.map((percentage) =>
+    total > 0 ? (percentage / total) * 1000 : 1000 / percentages.length
+  );
+  const rounded = tenths.map(Math.floor);
+
+  let leftover = 1000 - rounded.reduce((sum, value) => sum + value, 0);
+  tenths
+    .map((value, index) => ({ index, remainder: value - Math.floor(value) }))
+    .sort((a, b) => b.remainder - a.remainder)
+    .forEach(({ index }) => {
+      if (leftover > 0) {
+        rounded[index]++;
+        leftover--;
+      }
+    });
+
+  return rounded.map((value) => value / 10);
+}
+
+/**
+ * Fits an odds table to a new league size by linearly interpolating its curve from
+ * champion to worst team, then rescaling to 100%. The table is returned unchanged
+ * when the size already matches.
+ */
+export function resizeWeightedOdds(
+  weightedSystem: WeightedOdds[],
+  numberOfTeams: number
+): WeightedOdds[] {
+  const table = weightedSystem.length >= 2 ? weightedSystem : DEFAULT_WEIGHTED_ODDS;
+
+  if (table.length === numberOfTeams) {
+    return table.map((odds) => ({ ...odds }));
+  }
+
+  const source = [...table].sort((a, b) => a.position - b.position);
+
+  const percentages = Array.from({ length: numberOfTeams }, (_, i) => {
+    const x = numberOfTeams === 1 ? 0 : (i * (source.length - 1)) / (numberOfTeams - 1);
+    const lower = Math.floor(x);
+    const upper = Math.min(lower + 1, source.length - 1);
+    const fraction = x - lower;
+    return source[lower].percentage * (1 - fraction) + source[upper].percentage * fraction;
+  });
+
+  return roundToTotal(percentages)
+    .map((percentage, i) => ({ position: i + 1, percentage }))
+    .reverse(); // Worst team first, like the default table
+}
+
+/**
+ * Generates a fresh odds table for a league size from the default curve
+ */
+export function generateWeightedOdds(numberOfTeams: number): WeightedOdds[] {
+  return resizeWeightedOdds(DEFAULT_WEIGHTED_ODDS, numberOfTeams);
+}
+
+/**
+ * Creates a placeholder team with an id not used by any existing team
+ */
+export function createTeam(existingTeams: Team[]): Team {
+  const ids = new Set(existingTeams.map((team) => team.id));
+  let number = existingTeams.length + 1;
+  while (ids.has(`team-${number}`)) {
+    number++;
+  }
+
+  return {
+    id: `team-${number}`,
+    name: `Team ${number}`,
+    logoUrl: '',
+    logoType: 'url',
+  };
+}
+
+/**
+ * Keeps format settings that depend on the league size within range
+ */
+function fitLotteryFormat(config: DraftConfig, numberOfTeams: number): DraftConfig['lotteryFormat'] {
+  const format = config.lotteryFormat;
+  const maxMovement = (movement: number) => Math.min(movement, numberOfTeams - 1);
+
+  switch (format?.type) {
+    case 'bounded-movement':
+      return { ...format, maxMovement: maxMovement(format.maxMovement) };
+    case 'ball-draw':
+      return format.maxMovement === undefined
+        ? format
+        : { ...format, maxMovement: maxMovement(format.maxMovement) };
+    case 'top-picks-draw':
+      return { ...format, lotteryPicks: Math.min(format.lotteryPicks, numberOfTeams) };
+    case 'non-playoff':
+      return {
+        ...format,
+        playoffTeams: Math.min(format.playoffTeams, numberOfTeams - 1),
+        maxMovement: maxMovement(format.maxMovement),
+      };
+    default:
+      return format;
+  }
+}
+
+/**
+ * Adds a team to the league. The new team starts at the worst position of the
+ * saved initial order and the odds table is interpolated to the new size.
+ */
+export function addTeam(config: DraftConfig, team: Team = createTeam(config.teams)): DraftConfig {
+  const numberOfTeams = config.teams.length + 1;
+
+  return {
+    ...config,
+    numberOfTeams,
+    teams: [...config.teams, team],
+    weightedSystem: resizeWeightedOdds(config.weightedSystem, numberOfTeams),
+    initialOrder: config.initialOrder ? [...config.initialOrder, numberOfTeams] : undefined,
+  };
+}
+
+/**
+ * Removes a team from the league. Remaining teams keep their relative initial order
+ * and the odds table is interpolated to the new size.
+ */
+export function removeTeam(config: DraftConfig, teamId: string): DraftConfig {
+  const teamNumber = config.teams.findIndex((team) => team.id === teamId) + 1;
+  if (teamNumber === 0) {
+    return config;
+  }
+
+  const numberOfTeams = config.teams.length - 1;
+
+  return {
+    ...config,
+    numberOfTeams,
+    teams: config.teams.filter((team) => team.id !== teamId),
+    weightedSystem: resizeWeightedOdds(config.weightedSystem, numberOfTeams),
+    initialOrder: config.initialOrder
+      ?.filter((number) => number !== teamNumber)
+      .map((number) => (number > teamNumber ? number - 1 : number)),
+    lotteryFormat: fitLotteryFormat(config, numberOfTeams),
+  };
+}
+
+/**
+ * Grows or shrinks the league to the given size by adding placeholder teams or
+ * removing teams from the end of the list
+ */
+export function setNumberOfTeams(config: DraftConfig, numberOfTeams: number): DraftConfig {
+  let result = config;
+
+  while (result.teams.length < numberOfTeams) {
+    result = addTeam(result);
+  }
+  while (result.teams.length > numberOfTeams) {
+    result = removeTeam(result, result.teams[result.teams.length - 1].id);
+  }
+
+  // Interpolate once from the original table rather than once per added or removed team
+  return {
+    ...result,
+    numberOfTeams,
+    weightedSystem: resizeWeightedOdds(config.weightedSystem, numberOfTeams),
+  };
+}
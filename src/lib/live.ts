@@ -0,0 +1,173 @@
+import type { DraftConfig, DraftLottery, DraftPick, LiveSession } from '../types';
+
+/**
+ * What spectators know about the lottery being revealed. Only picks the commissioner
+ * has already revealed are included, never the rest of the draw.
+ */
+export interface LiveState {
+  lotteryId?: string;
+  year?: number;
+  config?: DraftConfig;
+  reveals: DraftPick[]; // In the order they were revealed
+  complete: boolean;
+}
+
+/**
+ * Events sent to watchers. "state" is the snapshot a watcher gets on connecting, so
+ * late joiners catch up on every reveal made so far. "reveals" carries picks revealed
+ * at once, e.g. rounds that aren't animated.
+ */
+export type LiveEvent =
+  | { type: 'state'; state: LiveState }
+  | { type: 'start'; state: LiveState }
+  | { type: 'reveal'; pick: DraftPick }
+  | { type: 'reveals'; picks: DraftPick[] }
+  | { type: 'complete'; year: number };
+
+export type LiveListener = (event: LiveEvent) => void;
+
+/**
+ * Relays the commissioner's reveals to everyone watching. Progress is saved with the
+ * live session in the database; this keeps a copy in memory for the open streams.
+ */
+export class LiveBroadcast {
+  private state: LiveState = { reveals: [], complete: false };
+  private listeners = new Set<LiveListener>();
+
+  getState(): LiveState {
+    return { ...this.state, reveals: [...this.state.reveals] };
+  }
+
+  subscribe(listener: LiveListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  get watcherCount(): number {
+    return this.listeners.size;
+  }
+
+  // A new draw replaces whatever was being revealed before. Reveals are passed when
+  // picking a lottery back up from its saved session.
+  start(lottery: DraftLottery, reveals: DraftPick[] = []): void {
+    this.state = {
+      lotteryId: lottery.id,
+      year: lottery.year,
+      config: lottery.config,
+      reveals: [...reveals],
+      complete: false,
+    };
+    this.emit({ type: 'start', state: this.getState() });
+  }
+
+  // The lottery was discarded; watchers go back to waiting
+  reset(): void {
+    this.state = { reveals: [], complete: false };
+    this.emit({ type: 'state', state: this.getState() });
+  }
+
+  /**
+   * Records a reveal and sends it to watchers. Returns false when the pick was already
+   * revealed, e.g. a retried request, so nothing is sent twice.
+   */
+  reveal(pick: DraftPick): boolean {
+    const revealed = this.state.reveals.some(
+      (r) => r.round === pick.round && r.pickNumber === pick.pickNumber
+    );
+    if (revealed) {
+      return false;
+    }
+
+    this.state.reveals.push(pick);
+    this.emit({ type: 'reveal', pick });
+    return true;
+  }
+
+  // Records several reveals and sends them as one event; returns the picks that were new
+  revealAll(picks: DraftPick[]): DraftPick[] {
+    const added = picks.filter(
+      (pick) =>
+        !this.state.reveals.some((r) => r.round === pick.round && r.pickNumber === pick.pickNumber)
+    );
+    if (added.length > 0) {
+      this.state.reveals.push(...added);
+      this.emit({ type: 'reveals', picks: added });
+    }
+    return added;
+  }
+
+  complete(year: number): void {
+    this.state.complete = true;
+    this.emit({ type: 'complete', year });
+  }
+
+  private emit(event: LiveEvent): void {
+    for (const listener of this.listeners) {
+      try {
+        listener(event);
+      } catch (error) {
+        // A watcher that went away is dropped rather than failing the reveal
+        this.listeners.delete(listener);
+      }
+    }
+  }
+}
+
+export const liveBroadcast = new LiveBroadcast();
+
+// After a restart the in-memory state is empty; pick the lottery back up from its session
+export function resumeBroadcast(lottery: DraftLottery, session: LiveSession): void {
+  if (liveBroadcast.getState().lotteryId !== lottery.id) {
+    liveBroadcast.start(lottery, getRevealedPicks(lottery, session));
+  }
+}
+
+/**
+ * Formats an event for a text/event-stream response
+ */
+export function formatServerSentEvent(event: LiveEvent): string {
+  return `event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`;
+}
+
+/**
+ * The saved reveals of a session as picks of its lottery, in the order they were made
+ */
+export function getRevealedPicks(lottery: DraftLottery, session: LiveSession): DraftPick[] {
+  return session.revealed.flatMap(
+    (ref) =>
+      lottery.picks.find((p) => p.round === ref.round && p.pickNumber === ref.pickNumber) ?? []
+  );
+}
+
+/**
+ * Where to resume revealing: the first round with picks left and how many of its picks
+ * are already revealed. Once everything is revealed, complete is set and the cursor
+ * stays on the last round.
+ */
+export interface RevealCursor {
+  round: number;
+  revealedInRound: number;
+  complete: boolean;
+}
+
+export function getRevealCursor(lottery: DraftLottery, session: LiveSession): RevealCursor {
+  const revealed = getRevealedPicks(lottery, session);
+  const rounds = [...new Set(lottery.picks.map((pick) => pick.round))].sort((a, b) => a - b);
+
+  for (const round of rounds) {
+    const total = lottery.picks.filter((pick) => pick.round === round).length;
+    const revealedInRound = revealed.filter((pick) => pick.round === round).length;
+    if (revealedInRound < total) {
+      return { round, revealedInRound, complete: false };
+    }
+  }
+
+  const lastRound = rounds[rounds.length - 1] ?? 1;
+  return {
+    round: lastRound,
+    revealedInRound: lottery.picks.filter((pick) => pick.round === lastRound).length,
+    complete: true,
+  };
+}
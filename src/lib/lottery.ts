@@ -1,37 +1,126 @@
-import type { DraftConfig, DraftPick, WeightedOdds } from '../types';
+import type {
+  DraftConfig,
+  DraftLottery,
+  DraftPick,
+  LotteryFormatConfig,
+  RoundOrderMode,
+  WeightedOdds,
+} from '../types';
+import {
+  createSeededRng,
+  generateSeed,
+  pickWeightedIndex,
+  shuffle,
+  type RandomSource,
+} from './rng';
+import { drawPickOrder } from './ball-draw';
 
 /**
- * Maximum number of spots a team can move up or down in the draft
+ * Version of the draw algorithm. Bump whenever a change would make the same seed
+ * produce different picks, so historical lotteries are never replayed with the wrong code.
+ */
+export const LOTTERY_ALGORITHM_VERSION = '2';
+
+/**
+ * Maximum number of spots a team can move up or down in the draft (default format)
  */
 const MAX_MOVEMENT = 2;
 
 /**
- * Calculates the valid range for a team's final position based on the 2-spot rule
+ * Format used when a config does not choose one: the original 2-spot rule
+ */
+export const DEFAULT_LOTTERY_FORMAT: LotteryFormatConfig = {
+  type: 'bounded-movement',
+  maxMovement: MAX_MOVEMENT,
+};
+
+export interface DraftValidation {
+  valid: boolean;
+  errors: string[];
+}
+
+/**
+ * A lottery format decides how a round is drawn and which results are legal
  */
-export function getValidPositionRange(originalPosition: number, totalTeams: number): {
+export interface LotteryFormat {
+  runRound(
+    config: DraftConfig,
+    roundNumber: number,
+    initialOrder: number[],
+    rng: RandomSource
+  ): DraftPick[];
+  validate(picks: DraftPick[], config: DraftConfig): DraftValidation;
+}
+
+/**
+ * Calculates the valid range for a team's final position based on the movement rule
+ */
+export function getValidPositionRange(
+  originalPosition: number,
+  totalTeams: number,
+  maxMovement: number = MAX_MOVEMENT
+): {
   min: number;
   max: number;
 } {
   return {
-    min: Math.max(1, originalPosition - MAX_MOVEMENT),
-    max: Math.min(totalTeams, originalPosition + MAX_MOVEMENT),
+    min: Math.max(1, originalPosition - maxMovement),
+    max: Math.min(totalTeams, originalPosition + maxMovement),
   };
 }
 
 /**
- * Validates that a draft result respects the 2-spot movement constraint
+ * Validates that a draft result respects the movement constraint.
+ * With a config, the picks are checked against the rules of the config's lottery format;
+ * without one, the default 2-spot rule applies.
  */
-export function validateDraftResults(picks: DraftPick[]): {
-  valid: boolean;
-  errors: string[];
-} {
+export function validateDraftResults(picks: DraftPick[], config?: DraftConfig): DraftValidation {
+  if (!config) {
+    return validateMovement(picks, MAX_MOVEMENT);
+  }
+
+  const mode = config.roundOrderMode ?? 'independent';
+  const format = getLotteryFormat(config.lotteryFormat);
+
+  if (mode === 'independent') {
+    return format.validate(picks, config);
+  }
+
+  // Only round 1 is drawn; later rounds must follow the round order mode exactly
+  const roundOnePicks = picks.filter((pick) => pick.round === 1);
+  const errors = [...format.validate(roundOnePicks, config).errors];
+
+  groupByRound(picks).forEach((roundPicks, round) => {
+    if (round === 1) return;
+
+    const expected = deriveRoundPicks(roundOnePicks, round, mode, config.numberOfTeams);
+    const actual = [...roundPicks].sort((a, b) => a.pickNumber - b.pickNumber);
+    const matches =
+      expected.length === actual.length &&
+      expected.every(
+        (pick, index) =>
+          pick.pickNumber === actual[index].pickNumber && pick.teamId === actual[index].teamId
+      );
+
+    if (!matches) {
+      errors.push(`Round ${round} does not follow the ${ROUND_ORDER_MODE_LABELS[mode]} order`);
+    }
+  });
+
+  return {
+    valid: errors.length === 0,
+    errors,
+  };
+}
+
+function validateMovement(picks: DraftPick[], maxMovement: number): DraftValidation {
   const errors: string[] = [];
 
   picks.forEach((pick) => {
     const movement = Math.abs(pick.movement);
-    if (movement > MAX_MOVEMENT) {
+    if (movement > maxMovement) {
       errors.push(
-        `Team at original position ${pick.originalPosition} moved ${movement} spots (max allowed: ${MAX_MOVEMENT})`
+        `Team at original position ${pick.originalPosition} moved ${movement} spots (max allowed: ${maxMovement})`
       );
     }
   });
@@ -49,10 +138,12 @@ export function validateDraftResults(picks: DraftPick[]): {
 export function weightedRandomSelection(
   availablePositions: number[],
   weightedSystem: WeightedOdds[],
-  originalPosition: number
+  originalPosition: number,
+  rng: RandomSource = Math.random,
+  maxMovement: number = MAX_MOVEMENT
 ): number {
-  // Get valid positions for this team (within 2 spots)
-  const validRange = getValidPositionRange(originalPosition, weightedSystem.length);
+  // Get valid positions for this team (within the movement limit)
+  const validRange = getValidPositionRange(originalPosition, weightedSystem.length, maxMovement);
   const validPositions = availablePositions.filter(
     (pos) => pos >= validRange.min && pos <= validRange.max
   );
@@ -84,8 +175,8 @@ export function weightedRandomSelection(
       // Moving up - increase weight
       weight *= 1 + movement * 0.2;
     } else if (movement < 0) {
-      // Moving down - decrease weight
-      weight *= 1 - Math.abs(movement) * 0.2;
+      // Moving down - decrease weight (never below zero for large movement limits)
+      weight *= Math.max(0, 1 - Math.abs(movement) * 0.2);
     }
 
     return { position: pos, weight };
@@ -99,7 +190,7 @@ export function weightedRandomSelection(
   }));
 
   // Random selection
-  const random = Math.random();
+  const random = rng();
   let cumulative = 0;
 
   for (const prob of normalizedProbs) {
@@ -114,17 +205,68 @@ export function weightedRandomSelection(
 }
 
 /**
- * Runs the draft lottery for a single round using a constraint-satisfaction algorithm
- * that guarantees the 2-spot movement constraint is respected
+ * Runs the draft lottery for a single round using the config's lottery format
  */
 export function runLotteryRound(
   config: DraftConfig,
   roundNumber: number,
+  initialOrder: number[],
+  rng: RandomSource = Math.random
+): DraftPick[] {
+  return getLotteryFormat(config.lotteryFormat).runRound(config, roundNumber, initialOrder, rng);
+}
+
+/**
+ * Lists the teams in a round with their original positions.
+ * initialOrder[i] is the team number (1-based index into config.teams) at position i + 1.
+ */
+function getRoundTeams(
+  config: DraftConfig,
   initialOrder: number[]
+): { originalPosition: number; teamId: string }[] {
+  return initialOrder.map((teamNumber, index) => ({
+    originalPosition: index + 1,
+    teamId: config.teams[teamNumber - 1].id,
+  }));
+}
+
+function createPick(
+  roundNumber: number,
+  pickNumber: number,
+  team: { originalPosition: number; teamId: string }
+): DraftPick {
+  return {
+    round: roundNumber,
+    pickNumber,
+    teamId: team.teamId,
+    originalPosition: team.originalPosition,
+    movement: pickNumber - team.originalPosition,
+  };
+}
+
+/**
+ * Draws a round using a constraint-satisfaction algorithm that guarantees no team
+ * moves more than maxMovement spots. Teams before firstLotteryPosition keep their pick.
+ */
+function runBoundedMovementRound(
+  config: DraftConfig,
+  roundNumber: number,
+  initialOrder: number[],
+  rng: RandomSource,
+  maxMovement: number,
+  firstLotteryPosition: number = 1
 ): DraftPick[] {
   const MAX_ATTEMPTS = 1000;
   let attempt = 0;
 
+  // Create list of teams with their original positions
+  const teams = getRoundTeams(config, initialOrder);
+  const fixedPicks = teams
+    .filter((team) => team.originalPosition < firstLotteryPosition)
+    .map((team) => createPick(roundNumber, team.originalPosition, team));
+  const lotteryTeams = teams.filter((team) => team.originalPosition >= firstLotteryPosition);
+  const lotteryPositions = lotteryTeams.map((team) => team.originalPosition);
+
   while (attempt < MAX_ATTEMPTS) {
     attempt++;
 
@@ -132,24 +274,19 @@ export function runLotteryRound(
       const picks: DraftPick[] = [];
       const assignedPositions = new Set<number>();
 
-      // Create list of teams with their original positions
-      const teams = initialOrder.map((originalPosition) => ({
-        originalPosition,
-        teamId: config.teams[originalPosition - 1].id,
-      }));
-
       // Shuffle teams randomly to vary the processing order
-      const shuffledTeams = [...teams].sort(() => Math.random() - 0.5);
+      const shuffledTeams = shuffle(lotteryTeams, rng);
 
       // Process teams in random order
       for (const team of shuffledTeams) {
-        const availablePositions = Array.from(
-          { length: config.numberOfTeams },
-          (_, i) => i + 1
-        ).filter((pos) => !assignedPositions.has(pos));
+        const availablePositions = lotteryPositions.filter((pos) => !assignedPositions.has(pos));
 
-        // Get valid positions within 2-spot range
-        const validRange = getValidPositionRange(team.originalPosition, config.numberOfTeams);
+        // Get valid positions within the movement range
+        const validRange = getValidPositionRange(
+          team.originalPosition,
+          config.numberOfTeams,
+          maxMovement
+        );
         const validPositions = availablePositions.filter(
           (pos) => pos >= validRange.min && pos <= validRange.max
         );
@@ -163,28 +300,21 @@ export function runLotteryRound(
         const selectedPosition = weightedRandomSelection(
           availablePositions,
           config.weightedSystem,
-          team.originalPosition
+          team.originalPosition,
+          rng,
+          maxMovement
         );
 
         assignedPositions.add(selectedPosition);
-
-        const movement = selectedPosition - team.originalPosition;
-
-        picks.push({
-          round: roundNumber,
-          pickNumber: selectedPosition,
-          teamId: team.teamId,
-          originalPosition: team.originalPosition,
-          movement,
-        });
+        picks.push(createPick(roundNumber, selectedPosition, team));
       }
 
-      // Validate all picks respect the 2-spot constraint
-      const allValid = picks.every((pick) => Math.abs(pick.movement) <= MAX_MOVEMENT);
+      // Validate all picks respect the movement constraint
+      const allValid = picks.every((pick) => Math.abs(pick.movement) <= maxMovement);
 
       if (allValid) {
         // Sort picks by pick number and return
-        return picks.sort((a, b) => a.pickNumber - b.pickNumber);
+        return [...fixedPicks, ...picks].sort((a, b) => a.pickNumber - b.pickNumber);
       }
     } catch (error) {
       // Continue to next attempt
@@ -192,19 +322,268 @@ export function runLotteryRound(
   }
 
   // If we couldn't generate a valid lottery after MAX_ATTEMPTS, fall back to no movement
-  return initialOrder.map((originalPosition) => ({
-    round: roundNumber,
-    pickNumber: originalPosition,
-    teamId: config.teams[originalPosition - 1].id,
-    originalPosition,
-    movement: 0,
-  })).sort((a, b) => a.pickNumber - b.pickNumber);
+  return teams.map((team) => createPick(roundNumber, team.originalPosition, team));
+}
+
+/**
+ * Draws the first lotteryPicks picks one at a time, weighted by each remaining team's
+ * share of the balls; everyone else then picks in their original order
+ */
+function runTopPicksDrawRound(
+  config: DraftConfig,
+  roundNumber: number,
+  initialOrder: number[],
+  rng: RandomSource,
+  lotteryPicks: number
+): DraftPick[] {
+  const remaining = getRoundTeams(config, initialOrder);
+  const picks: DraftPick[] = [];
+  const drawnPicks = Math.min(lotteryPicks, remaining.length);
+
+  for (let pickNumber = 1; pickNumber <= drawnPicks; pickNumber++) {
+    const weights = remaining.map((team) => {
+      const teamOdds = config.weightedSystem.find(
+        (odds) => odds.position === team.originalPosition
+      );
+      if (!teamOdds) {
+        throw new Error(`No weighted odds found for position ${team.originalPosition}`);
+      }
+      return teamOdds.percentage;
+    });
+
+    const [team] = remaining.splice(pickWeightedIndex(weights, rng), 1);
+    picks.push(createPick(roundNumber, pickNumber, team));
+  }
+
+  remaining.forEach((team) => {
+    picks.push(createPick(roundNumber, picks.length + 1, team));
+  });
+
+  return picks;
+}
+
+/**
+ * Draws every pick from the 14-ball machine, optionally guarded by a movement limit
+ */
+function runBallDrawRound(
+  config: DraftConfig,
+  roundNumber: number,
+  initialOrder: number[],
+  rng: RandomSource,
+  maxMovement?: number
+): DraftPick[] {
+  const teams = getRoundTeams(config, initialOrder);
+  const order = drawPickOrder(config.weightedSystem, teams.length, rng, maxMovement);
+
+  return order.map((originalPosition, index) =>
+    createPick(roundNumber, index + 1, teams[originalPosition - 1])
+  );
+}
+
+/**
+ * Checks that the picks after the drawn ones follow the original order, which also
+ * means no team dropped more spots than there are drawn picks
+ */
+function validateTopPicksDraw(
+  picks: DraftPick[],
+  lotteryPicks: number
+): DraftValidation {
+  const errors = [...validateMovementDown(picks, lotteryPicks).errors];
+
+  groupByRound(picks).forEach((roundPicks, round) => {
+    const undrawn = roundPicks
+      .filter((pick) => pick.pickNumber > lotteryPicks)
+      .sort((a, b) => a.pickNumber - b.pickNumber);
+
+    for (let i = 1; i < undrawn.length; i++) {
+      if (undrawn[i].originalPosition < undrawn[i - 1].originalPosition) {
+        errors.push(
+          `Round ${round} pick ${undrawn[i].pickNumber} is out of original order after the ${lotteryPicks} drawn picks`
+        );
+      }
+    }
+  });
+
+  return {
+    valid: errors.length === 0,
+    errors,
+  };
+}
+
+function validateMovementDown(picks: DraftPick[], maxDrop: number): DraftValidation {
+  const errors: string[] = [];
+
+  picks.forEach((pick) => {
+    if (pick.movement > maxDrop) {
+      errors.push(
+        `Team at original position ${pick.originalPosition} dropped ${pick.movement} spots (max allowed: ${maxDrop})`
+      );
+    }
+  });
+
+  return {
+    valid: errors.length === 0,
+    errors,
+  };
+}
+
+/**
+ * Checks that playoff teams kept their picks and lottery teams stayed within the
+ * movement limit and below the playoff picks
+ */
+function validateNonPlayoffLottery(
+  picks: DraftPick[],
+  playoffTeams: number,
+  maxMovement: number
+): DraftValidation {
+  const errors = [...validateMovement(picks, maxMovement).errors];
+
+  picks.forEach((pick) => {
+    if (pick.originalPosition <= playoffTeams && pick.movement !== 0) {
+      errors.push(
+        `Playoff team at original position ${pick.originalPosition} moved ${Math.abs(pick.movement)} spots`
+      );
+    } else if (pick.originalPosition > playoffTeams && pick.pickNumber <= playoffTeams) {
+      errors.push(
+        `Non-playoff team at original position ${pick.originalPosition} took playoff pick ${pick.pickNumber}`
+      );
+    }
+  });
+
+  return {
+    valid: errors.length === 0,
+    errors,
+  };
+}
+
+function groupByRound(picks: DraftPick[]): Map<number, DraftPick[]> {
+  const rounds = new Map<number, DraftPick[]>();
+  picks.forEach((pick) => {
+    rounds.set(pick.round, [...(rounds.get(pick.round) ?? []), pick]);
+  });
+  return rounds;
+}
+
+/**
+ * Resolves a config's format settings to the strategy that runs and validates it
+ */
+export function getLotteryFormat(
+  format: LotteryFormatConfig = DEFAULT_LOTTERY_FORMAT
+): LotteryFormat {
+  switch (format.type) {
+    case 'bounded-movement':
+      return {
+        runRound: (config, roundNumber, initialOrder, rng) =>
+          runBoundedMovementRound(config, roundNumber, initialOrder, rng, format.maxMovement),
+        validate: (picks) => validateMovement(picks, format.maxMovement),
+      };
+    case 'top-picks-draw':
+      return {
+        runRound: (config, roundNumber, initialOrder, rng) =>
+          runTopPicksDrawRound(config, roundNumber, initialOrder, rng, format.lotteryPicks),
+        validate: (picks) => validateTopPicksDraw(picks, format.lotteryPicks),
+      };
+    case 'ball-draw':
+      return {
+        runRound: (config, roundNumber, initialOrder, rng) =>
+          runBallDrawRound(config, roundNumber, initialOrder, rng, format.maxMovement),
+        validate: (picks) =>
+          format.maxMovement === undefined
+            ? { valid: true, errors: [] }
+            : validateMovement(picks, format.maxMovement),
+      };
+    case 'reverse-standings':
+      return {
+        runRound: (config, roundNumber, initialOrder) =>
+          getRoundTeams(config, initialOrder).map((team) =>
+            createPick(roundNumber, team.originalPosition, team)
+          ),
+        validate: (picks) => validateMovement(picks, 0),
+      };
+    case 'non-playoff':
+      return {
+        runRound: (config, roundNumber, initialOrder, rng) =>
+          runBoundedMovementRound(
+            config,
+            roundNumber,
+            initialOrder,
+            rng,
+            format.maxMovement,
+            format.playoffTeams + 1
+          ),
+        validate: (picks) =>
+          validateNonPlayoffLottery(picks, format.playoffTeams, format.maxMovement),
+      };
+    default:
+      throw new Error(`Unknown lottery format: ${(format as { type: string }).type}`);
+  }
+}
+
+/**
+ * Display names for the round order modes
+ */
+export const ROUND_ORDER_MODE_LABELS: Record<RoundOrderMode, string> = {
+  independent: 'Independent lottery every round',
+  linear: 'Linear',
+  snake: 'Snake',
+  'third-round-reversal': 'Third-round reversal',
+};
+
+/**
+ * Whether a round picks in the reverse of the round 1 order
+ */
+export function isRoundReversed(round: number, mode: RoundOrderMode): boolean {
+  switch (mode) {
+    case 'snake':
+      return round % 2 === 0;
+    case 'third-round-reversal':
+      // Rounds 2 and 3 both reverse, then the snake continues from round 3
+      return round === 2 || (round >= 3 && round % 2 === 1);
+    default:
+      return false;
+  }
 }
 
 /**
- * Runs the complete draft lottery for all rounds
+ * Derives a later round's picks from the round 1 lottery result.
+ * In a reversed round each team's original position is mirrored too, so movement
+ * still describes how far the lottery moved the team.
  */
-export function runCompleteLottery(config: DraftConfig, initialOrder: number[]): DraftPick[] {
+export function deriveRoundPicks(
+  roundOnePicks: DraftPick[],
+  round: number,
+  mode: RoundOrderMode,
+  totalTeams: number
+): DraftPick[] {
+  const reversed = isRoundReversed(round, mode);
+
+  return roundOnePicks
+    .map((pick) => {
+      const pickNumber = reversed ? totalTeams + 1 - pick.pickNumber : pick.pickNumber;
+      const originalPosition = reversed
+        ? totalTeams + 1 - pick.originalPosition
+        : pick.originalPosition;
+
+      return {
+        ...pick,
+        round,
+        pickNumber,
+        originalPosition,
+        movement: pickNumber - originalPosition,
+      };
+    })
+    .sort((a, b) => a.pickNumber - b.pickNumber);
+}
+
+/**
+ * Runs the complete draft lottery for all rounds. In the independent mode every round
+ * is drawn; otherwise round 1 is drawn and later rounds follow the round order mode.
+ */
+export function runCompleteLottery(
+  config: DraftConfig,
+  initialOrder: number[],
+  rng: RandomSource = Math.random
+): DraftPick[] {
   if (initialOrder.length !== config.numberOfTeams) {
     throw new Error(
       `Initial order length (${initialOrder.length}) must match number of teams (${config.numberOfTeams})`
@@ -212,12 +591,20 @@ export function runCompleteLottery(config: DraftConfig, initialOrder: number[]):
   }
 
   const allPicks: DraftPick[] = [];
+  const mode = config.roundOrderMode ?? 'independent';
+  let roundOnePicks: DraftPick[] = [];
 
   for (let round = 1; round <= config.numberOfRounds; round++) {
-    const roundPicks = runLotteryRound(config, round, initialOrder);
+    if (mode !== 'independent' && round > 1) {
+      allPicks.push(...deriveRoundPicks(roundOnePicks, round, mode, config.numberOfTeams));
+      continue;
+    }
+
+    const roundPicks = runLotteryRound(config, round, initialOrder, rng);
+    roundOnePicks = roundPicks;
 
     // Validate round picks
-    const validation = validateDraftResults(roundPicks);
+    const validation = validateDraftResults(roundPicks, config);
     if (!validation.valid) {
       throw new Error(`Invalid lottery results for round ${round}: ${validation.errors.join(', ')}`);
     }
@@ -227,3 +614,75 @@ export function runCompleteLottery(config: DraftConfig, initialOrder: number[]):
 
   return allPicks;
 }
+
+/**
+ * Runs the complete lottery with a fresh (or given) seed and packages it as a lottery
+ * record for the config's current year, ready to be stored
+ */
+export function runSeededLottery(
+  config: DraftConfig,
+  initialOrder: number[],
+  seed: string = generateSeed()
+): DraftLottery {
+  return {
+    // Every draw gets its own id, so reveals for an earlier draw of the year are refused
+    id: `lottery-${config.currentYear}-${globalThis.crypto.randomUUID()}`,
+    year: config.currentYear,
+    date: new Date().toISOString(),
+    picks: runCompleteLottery(config, initialOrder, createSeededRng(seed)),
+    config,
+    initialOrder,
+    seed,
+    algorithmVersion: LOTTERY_ALGORITHM_VERSION,
+  };
+}
+
+/**
+ * Re-runs a saved lottery with its recorded seed and checks that it reproduces
+ * exactly the same picks
+ */
+export function verifyLottery(lottery: DraftLottery): {
+  valid: boolean;
+  errors: string[];
+} {
+  const errors: string[] = [];
+
+  if (!lottery.seed || !lottery.initialOrder) {
+    errors.push('Lottery was not recorded with a seed and initial order');
+  } else if (lottery.algorithmVersion !== LOTTERY_ALGORITHM_VERSION) {
+    errors.push(
+      `Lottery was drawn with algorithm version ${lottery.algorithmVersion ?? 'unknown'} (current: ${LOTTERY_ALGORITHM_VERSION})`
+    );
+  } else {
+    const replayed = runCompleteLottery(
+      lottery.config,
+      lottery.initialOrder,
+      createSeededRng(lottery.seed)
+    );
+
+    if (replayed.length !== lottery.picks.length) {
+      errors.push(`Expected ${lottery.picks.length} picks but the replay produced ${replayed.length}`);
+    }
+
+    replayed.forEach((pick, index) => {
+      const saved = lottery.picks[index];
+      if (
+        saved &&
+        (saved.round !== pick.round ||
+          saved.pickNumber !== pick.pickNumber ||
+          saved.teamId !== pick.teamId ||
+          saved.originalPosition !== pick.originalPosition ||
+          saved.movement !== pick.movement)
+      ) {
+        errors.push(
+          `Round ${pick.round} pick ${pick.pickNumber}: saved team ${saved.teamId} but replay drew ${pick.teamId}`
+        );
+      }
+    });
+  }
+
+  return {
+    valid: errors.length === 0,
+    errors,
+  };
+}
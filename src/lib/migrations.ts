@@ -0,0 +1,115 @@
+import type { DatabaseSchema, DraftConfig, DraftLottery } from '../types';
+import { DEFAULT_LOTTERY_FORMAT } from './lottery';
+
+/**
+ * An upgrade from the previous schema version. up() changes the database in place
+ * and describes every change it made, so a dry run can report them.
+ */
+export interface Migration {
+  version: number; // Schema version the database is at after this migration
+  description: string;
+  up(db: DatabaseSchema): string[];
+}
+
+export interface MigrationResult {
+  db: DatabaseSchema;
+  fromVersion: number;
+  applied: { version: number; description: string; changes: string[] }[];
+}
+
+/**
+ * Fills in settings that later releases added to DraftConfig, using the values the app
+ * assumed while they were missing
+ */
+function fillConfigDefaults(config: DraftConfig, field: string): string[] {
+  const changes: string[] = [];
+
+  if (!config.initialOrder && Number.isInteger(config.numberOfTeams)) {
+    config.initialOrder = Array.from({ length: config.numberOfTeams }, (_, i) => i + 1);
+    changes.push(`${field}.initialOrder: set to 1..${config.numberOfTeams}`);
+  }
+  if (!config.lotteryFormat) {
+    config.lotteryFormat = { ...DEFAULT_LOTTERY_FORMAT };
+    changes.push(`${field}.lotteryFormat: set to ${DEFAULT_LOTTERY_FORMAT.type}`);
+  }
+  if (!config.roundOrderMode) {
+    config.roundOrderMode = 'independent';
+    changes.push(`${field}.roundOrderMode: set to independent`);
+  }
+
+  return changes;
+}
+
+/**
+ * Every migration, oldest first. Append new ones with the next version number;
+ * never change one that has shipped.
+ */
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'Fill in config settings added after the first release',
+    up: (db) => fillConfigDefaults(db.config, 'config'),
+  },
+  {
+    version: 2,
+    description: 'Record the lottery format and round order on saved lotteries',
+    up: (db) => {
+      // Lotteries saved before these settings existed were drawn with the defaults
+      const lotteries: [DraftLottery, string][] = [
+        ...db.lotteries.map((l): [DraftLottery, string] => [l, `lotteries[${l.year}]`]),
+        ...(db.supersededLotteries ?? []).map((l, i): [DraftLottery, string] => [
+          l,
+          `supersededLotteries[${i}]`,
+        ]),
+        ...(db.pendingLottery ? [[db.pendingLottery, 'pendingLottery'] as [DraftLottery, string]] : []),
+      ];
+
+      return lotteries.flatMap(([lottery, field]) => {
+        const config = lottery.config;
+        const changes: string[] = [];
+
+        if (!config.lotteryFormat) {
+          config.lotteryFormat = { ...DEFAULT_LOTTERY_FORMAT };
+          changes.push(`${field}.config.lotteryFormat: set to ${DEFAULT_LOTTERY_FORMAT.type}`);
+        }
+        if (!config.roundOrderMode) {
+          config.roundOrderMode = 'independent';
+          changes.push(`${field}.config.roundOrderMode: set to independent`);
+        }
+
+        return changes;
+      });
+    },
+  },
+];
+
+export const CURRENT_SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+/**
+ * Upgrades a database to the current schema version. Files without a schemaVersion
+ * are treated as version 0. The input is left untouched.
+ */
+export function migrateDatabase(data: DatabaseSchema): MigrationResult {
+  const fromVersion = data.schemaVersion ?? 0;
+
+  if (fromVersion > CURRENT_SCHEMA_VERSION) {
+    throw new Error(
+      `Database schema version ${fromVersion} is newer than this app supports (${CURRENT_SCHEMA_VERSION})`
+    );
+  }
+
+  if (fromVersion === CURRENT_SCHEMA_VERSION) {
+    return { db: data, fromVersion, applied: [] };
+  }
+
+  const db = structuredClone(data);
+  const applied = MIGRATIONS.filter((migration) => migration.version > fromVersion).map(
+    (migration) => {
+      const changes = migration.up(db);
+      db.schemaVersion = migration.version;
+      return { version: migration.version, description: migration.description, changes };
+    }
+  );
+
+  return { db, fromVersion, applied };
+}
@@ -0,0 +1,118 @@
+import type { DraftConfig, DraftPick, PickOwnership, PickTrade } from '../types';
+
+/**
+ * Whether a ledger entry is for the given (year, round, original team) pick
+ */
+function isSamePick(
+  entry: PickOwnership,
+  year: number,
+  round: number,
+  originalTeamId: string
+): boolean {
+  return entry.year === year && entry.round === round && entry.originalTeamId === originalTeamId;
+}
+
+/**
+ * Returns the team that owns a pick; picks without a ledger entry belong to their original team
+ */
+export function getPickOwner(
+  ledger: PickOwnership[],
+  year: number,
+  round: number,
+  originalTeamId: string
+): string {
+  const entry = ledger.find((e) => isSamePick(e, year, round, originalTeamId));
+  return entry?.ownerTeamId ?? originalTeamId;
+}
+
+/**
+ * Returns a new ledger with the owner of a pick set. A pick handed back to its
+ * original team has no entry.
+ */
+export function setPickOwner(ledger: PickOwnership[], ownership: PickOwnership): PickOwnership[] {
+  const result = ledger.filter(
+    (e) => !isSamePick(e, ownership.year, ownership.round, ownership.originalTeamId)
+  );
+
+  if (ownership.ownerTeamId !== ownership.originalTeamId) {
+    result.push(ownership);
+  }
+
+  return result;
+}
+
+/**
+ * Records the current owner on every traded pick of a lottery year.
+ * The draw itself is untouched: teamId stays the original team whose slot was drawn.
+ */
+export function applyPickOwnership(
+  picks: DraftPick[],
+  ledger: PickOwnership[],
+  year: number
+): DraftPick[] {
+  return picks.map((pick) => {
+    const ownerTeamId = getPickOwner(ledger, year, pick.round, pick.teamId);
+    return { ...pick, ownerTeamId: ownerTeamId === pick.teamId ? undefined : ownerTeamId };
+  });
+}
+
+/**
+ * Team that makes the pick: the owner when traded, otherwise the original team
+ */
+export function getPickingTeamId(pick: DraftPick): string {
+  return pick.ownerTeamId ?? pick.teamId;
+}
+
+/**
+ * Checks a new trade against the league and the current ledger.
+ * Returns an error message, or undefined when the trade is valid.
+ */
+export function validateTrade(
+  trade: Pick<PickTrade, 'year' | 'round' | 'originalTeamId' | 'fromTeamId' | 'toTeamId'>,
+  config: DraftConfig,
+  ledger: PickOwnership[]
+): string | undefined {
+  const teamIds = config.teams.map((team) => team.id);
+
+  if (!Number.isInteger(trade.year)) {
+    return 'Invalid year';
+  }
+  if (!Number.isInteger(trade.round) || trade.round < 1 || trade.round > config.numberOfRounds) {
+    return `Round must be between 1 and ${config.numberOfRounds}`;
+  }
+  for (const teamId of [trade.originalTeamId, trade.fromTeamId, trade.toTeamId]) {
+    if (!teamIds.includes(teamId)) {
+      return `Unknown team: ${teamId}`;
+    }
+  }
+  if (trade.fromTeamId === trade.toTeamId) {
+    return 'A team cannot trade a pick to itself';
+  }
+
+  const owner = getPickOwner(ledger, trade.year, trade.round, trade.originalTeamId);
+  if (owner !== trade.fromTeamId) {
+    return `${trade.fromTeamId} does not own the ${trade.year} round ${trade.round} pick of ${trade.originalTeamId}`;
+  }
+
+  return undefined;
+}
+
+/**
+ * Checks that a trade can still be undone: it must not be reversed already, and the
+ * pick must not have moved on from the receiving team since
+ */
+export function validateTradeReversal(
+  trade: PickTrade,
+  ledger: PickOwnership[]
+): string | undefined {
+  if (trade.reversedAt) {
+    return 'Trade has already been reversed';
+  }
+
+  const owner = getPickOwner(ledger, trade.year, trade.round, trade.originalTeamId);
+  if (owner !== trade.toTeamId) {
+    return 'Pick has been traded again since; reverse the later trade first';
+  }
+
+  return undefined;
+}
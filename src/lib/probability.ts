@@ -0,0 +1,289 @@
+import type { DraftConfig, PickProbabilityMatrix, WeightedOdds } from '../types';
+import { DEFAULT_LOTTERY_FORMAT, getValidPositionRange, runLotteryRound } from './lottery';
+import { createSeededRng } from './rng';
+
+/**
+ * Largest league size for which the exact calculation is used, at the default max
+ * movement of 2. The exact state space grows combinatorially and the calculation runs
+ * inside the request, so bigger leagues use Monte Carlo.
+ */
+export const MAX_EXACT_TEAMS = 10;
+
+/**
+ * Default number of simulated rounds for the Monte Carlo estimate
+ */
+export const DEFAULT_ITERATIONS = 50000;
+
+/**
+ * Upper bound on simulated picks (rounds × teams) for one Monte Carlo estimate, which
+ * also runs inside the request
+ */
+const MAX_SIMULATED_PICKS = 500000;
+
+/**
+ * The exact calculation was asked for a config it doesn't support
+ */
+export class ExactProbabilitiesUnavailableError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ExactProbabilitiesUnavailableError';
+  }
+}
+
+/**
+ * Largest league size for the exact calculation with a given max movement; wider
+ * movement means more reachable states per team
+ */
+export function getMaxExactTeams(maxMovement: number): number {
+  return Math.max(MAX_EXACT_TEAMS - 1, MAX_EXACT_TEAMS + 2 - maxMovement);
+}
+
+/**
+ * Most Monte Carlo iterations allowed for a league size
+ */
+export function getMaxIterations(numberOfTeams: number): number {
+  return Math.max(1000, Math.floor(MAX_SIMULATED_PICKS / numberOfTeams));
+}
+
+/**
+ * Number of restarts runLotteryRound attempts before falling back to no movement
+ */
+const MAX_ATTEMPTS = 1000;
+
+export interface ProbabilityOptions {
+  method?: 'auto' | 'exact' | 'monte-carlo';
+  iterations?: number;
+  seed?: string;
+}
+
+/**
+ * Selection probabilities for a team picking among its valid positions, mirroring
+ * the weights used by weightedRandomSelection
+ */
+function getSelectionProbabilities(
+  validPositions: number[],
+  teamOdds: WeightedOdds,
+  originalPosition: number
+): number[] {
+  if (validPositions.length === 1) {
+    return [1];
+  }
+
+  const weights = validPositions.map((pos) => {
+    const movement = originalPosition - pos; // Positive = moving up
+    let weight = teamOdds.percentage;
+
+    if (movement > 0) {
+      weight *= 1 + movement * 0.2;
+    } else if (movement < 0) {
+      weight *= Math.max(0, 1 - Math.abs(movement) * 0.2);
+    }
+
+    return weight;
+  });
+
+  const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+
+  // weightedRandomSelection falls back to the first valid position when all weights are zero
+  if (!(totalWeight > 0)) {
+    return validPositions.map((_, index) => (index === 0 ? 1 : 0));
+  }
+
+  return weights.map((weight) => weight / totalWeight);
+}
+
+/**
+ * Computes the exact original-position × final-pick probability matrix for a round.
+ *
+ * runLotteryRound processes teams in a uniformly random order, lets each pick a
+ * weighted slot within its movement range and restarts whenever a team is left with
+ * no valid slot. That is a Markov chain over (teams processed, slots assigned), so the
+ * result is the distribution over successful paths, mixed with the no-movement
+ * fallback used after MAX_ATTEMPTS failures.
+ */
+export function computeExactProbabilities(config: DraftConfig): number[][] {
+  const n = config.numberOfTeams;
+  const format = config.lotteryFormat ?? DEFAULT_LOTTERY_FORMAT;
+  if (format.type !== 'bounded-movement') {
+    throw new ExactProbabilitiesUnavailableError(
+      'Exact probabilities are only available for the bounded-movement format'
+    );
+  }
+
+  const maxTeams = getMaxExactTeams(format.maxMovement);
+  if (n > maxTeams) {
+    throw new ExactProbabilitiesUnavailableError(
+      `Exact probabilities are only available for up to ${maxTeams} teams ` +
+        `with a max movement of ${format.maxMovement} (got ${n})`
+    );
+  }
+
+  const full = 2 ** n - 1;
+
+  const odds = Array.from({ length: n }, (_, i) => {
+    const teamOdds = config.weightedSystem.find((o) => o.position === i + 1);
+    if (!teamOdds) {
+      throw new Error(`No weighted odds found for position ${i + 1}`);
+    }
+    return teamOdds;
+  });
+
+  const ranges = Array.from({ length: n }, (_, i) =>
+    getValidPositionRange(i + 1, n, format.maxMovement)
+  );
+
+  // Transitions available from a state: team t takes slot pos with probability p
+  function getTransitions(processed: number, assigned: number) {
+    const remaining = n - popCount(processed);
+    const transitions: { team: number; pos: number; probability: number }[] = [];
+
+    for (let team = 0; team < n; team++) {
+      if (processed & (1 << team)) continue;
+
+      const validPositions: number[] = [];
+      for (let pos = ranges[team].min; pos <= ranges[team].max; pos++) {
+        if (!(assigned & (1 << (pos - 1)))) {
+          validPositions.push(pos);
+        }
+      }
+
+      // A team with no valid slot ends this attempt in failure
+      if (validPositions.length === 0) continue;
+
+      const probabilities = getSelectionProbabilities(validPositions, odds[team], team + 1);
+      validPositions.forEach((pos, index) => {
+        transitions.push({ team, pos, probability: probabilities[index] / remaining });
+      });
+    }
+
+    return transitions;
+  }
+
+  const key = (processed: number, assigned: number) => processed * (full + 1) + assigned;
+
+  // Probability of finishing the attempt successfully from each state
+  const successMemo = new Map<number, number>();
+  function successProbability(processed: number, assigned: number): number {
+    if (processed === full) return 1;
+
+    const stateKey = key(processed, assigned);
+    const cached = successMemo.get(stateKey);
+    if (cached !== undefined) return cached;
+
+    let total = 0;
+    for (const t of getTransitions(processed, assigned)) {
+      const next = successProbability(processed | (1 << t.team), assigned | (1 << (t.pos - 1)));
+      total += t.probability * next;
+    }
+
+    successMemo.set(stateKey, total);
+    return total;
+  }
+
+  const overallSuccess = successProbability(0, 0);
+  const matrix = Array.from({ length: n }, () => new Array<number>(n).fill(0));
+
+  // Forward pass, one layer per processed team, accumulating successful transitions
+  let layer = new Map<number, { processed: number; assigned: number; probability: number }>();
+  layer.set(0, { processed: 0, assigned: 0, probability: 1 });
+
+  for (let step = 0; step < n; step++) {
+    const nextLayer = new Map<number, { processed: number; assigned: number; probability: number }>();
+
+    for (const state of layer.values()) {
+      for (const t of getTransitions(state.processed, state.assigned)) {
+        const processed = state.processed | (1 << t.team);
+        const assigned = state.assigned | (1 << (t.pos - 1));
+        const reach = state.probability * t.probability;
+
+        matrix[t.team][t.pos - 1] += reach * successProbability(processed, assigned);
+
+        const nextKey = key(processed, assigned);
+        const existing = nextLayer.get(nextKey);
+        if (existing) {
+          existing.probability += reach;
+        } else {
+          nextLayer.set(nextKey, { processed, assigned, probability: reach });
+        }
+      }
+    }
+
+    layer = nextLayer;
+  }
+
+  // Condition on success, then mix in the no-movement fallback
+  const fallbackProbability = Math.pow(1 - overallSuccess, MAX_ATTEMPTS);
+
+  return matrix.map((row, team) =>
+    row.map((probability, pos) => {
+      const conditional = overallSuccess > 0 ? probability / overallSuccess : 0;
+      return (1 - fallbackProbability) * conditional + (team === pos ? fallbackProbability : 0);
+    })
+  );
+}
+
+/**
+ * Estimates the original-position × final-pick probability matrix by running many
+ * seeded lottery rounds
+ */
+export function estimateProbabilities(
+  config: DraftConfig,
+  iterations: number = DEFAULT_ITERATIONS,
+  seed: string = 'probability-estimate'
+): number[][] {
+  const n = config.numberOfTeams;
+  const counts = Array.from({ length: n }, () => new Array<number>(n).fill(0));
+  const initialOrder = Array.from({ length: n }, (_, i) => i + 1);
+  const rng = createSeededRng(seed);
+
+  for (let i = 0; i < iterations; i++) {
+    for (const pick of runLotteryRound(config, 1, initialOrder, rng)) {
+      counts[pick.originalPosition - 1][pick.pickNumber - 1]++;
+    }
+  }
+
+  return counts.map((row) => row.map((count) => count / iterations));
+}
+
+/**
+ * Computes the probability matrix for a config, exactly when the league is small
+ * enough and uses the bounded-movement format, and via Monte Carlo otherwise
+ */
+export function calculatePickProbabilities(
+  config: DraftConfig,
+  options: ProbabilityOptions = {}
+): PickProbabilityMatrix {
+  const method = options.method ?? 'auto';
+  const format = config.lotteryFormat ?? DEFAULT_LOTTERY_FORMAT;
+  const useExact =
+    method === 'exact' ||
+    (method === 'auto' &&
+      format.type === 'bounded-movement' &&
+      config.numberOfTeams <= getMaxExactTeams(format.maxMovement));
+
+  if (useExact) {
+    return {
+      method: 'exact',
+      probabilities: computeExactProbabilities(config),
+    };
+  }
+
+  const iterations = Math.min(
+    options.iterations ?? DEFAULT_ITERATIONS,
+    getMaxIterations(config.numberOfTeams)
+  );
+  return {
+    method: 'monte-carlo',
+    iterations,
+    probabilities: estimateProbabilities(config, iterations, options.seed),
+  };
+}
+
+function popCount(value: number): number {
+  let count = 0;
+  while (value) {
+    value &= value - 1;
+    count++;
+  }
+  return count;
+}
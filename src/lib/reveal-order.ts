@@ -0,0 +1,59 @@
+import type { DraftLottery, DraftPick, RevealOrder } from '../types';
+import { createSeededRng, shuffle } from './rng';
+
+/**
+ * Display names for the reveal orders
+ */
+export const REVEAL_ORDER_LABELS: Record<RevealOrder, string> = {
+  'first-to-last': 'First pick to last',
+  'last-to-first': 'Last pick to first (countdown)',
+  random: 'Random',
+  'by-team': 'By team, worst original position first',
+};
+
+function orderRound(picks: DraftPick[], order: RevealOrder, seed: string): DraftPick[] {
+  switch (order) {
+    case 'last-to-first':
+      return [...picks].reverse();
+    case 'random':
+      return shuffle(picks, createSeededRng(seed));
+    case 'by-team':
+      return [...picks].sort((a, b) => b.originalPosition - a.originalPosition);
+    default:
+      return picks;
+  }
+}
+
+/**
+ * The rounds of a lottery that are revealed card by card. The others are revealed at
+ * once as a summary, so a long draft doesn't flip every card of every round.
+ */
+export function getAnimatedRounds(lottery: DraftLottery): number[] {
+  const rounds = [...new Set(lottery.picks.map((pick) => pick.round))].sort((a, b) => a - b);
+  const animated = lottery.config.animatedRounds;
+  return animated ? rounds.filter((round) => animated.includes(round)) : rounds;
+}
+
+/**
+ * Every pick of a lottery in the order it is revealed: round by round, each round in
+ * the configured reveal order. With the head-to-head reveal, picks 2 and 1 are held
+ * back to end the round, in that order. A random order is derived from the lottery's
+ * seed, so a resumed lottery carries on in the same order.
+ */
+export function getRevealSequence(lottery: DraftLottery): DraftPick[] {
+  const order = lottery.config.revealOrder ?? 'first-to-last';
+  const rounds = [...new Set(lottery.picks.map((pick) => pick.round))].sort((a, b) => a - b);
+
+  return rounds.flatMap((round) => {
+    const picks = lottery.picks
+      .filter((pick) => pick.round === round)
+      .sort((a, b) => a.pickNumber - b.pickNumber);
+    const sequence = orderRound(picks, order, `${lottery.seed ?? lottery.id}:reveal:${round}`);
+
+    if (!lottery.config.headToHeadReveal || picks.length < 2) {
+      return sequence;
+    }
+    const finale = [picks[1], picks[0]];
+    return [...sequence.filter((pick) => !finale.includes(pick)), ...finale];
+  });
+}
@@ -0,0 +1,79 @@
+/**
+ * A source of uniformly distributed numbers in [0, 1), compatible with Math.random
+ */
+export type RandomSource = () => number;
+
+/**
+ * Hashes a seed string into a 32-bit integer (FNV-1a)
+ */
+function hashSeed(seed: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < seed.length; i++) {
+    hash ^= seed.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Creates a deterministic random source (mulberry32) from a seed string.
+ * The same seed always produces the same sequence of numbers.
+ */
+export function createSeededRng(seed: string): RandomSource {
+  let state = hashSeed(seed);
+
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Generates a new random seed as a 32-character hex string
+ */
+export function generateSeed(): string {
+  const bytes = new Uint8Array(16);
+  globalThis.crypto.getRandomValues(bytes);
+  return Array.from(bytes, (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Returns a shuffled copy of the given items using an unbiased Fisher-Yates shuffle
+ */
+export function shuffle<T>(items: T[], rng: RandomSource = Math.random): T[] {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(rng() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+}
+
+/**
+ * Picks an index with probability proportional to its weight.
+ * Falls back to a uniform pick when no weight is positive.
+ */
+export function pickWeightedIndex(weights: number[], rng: RandomSource = Math.random): number {
+  const totalWeight = weights.reduce((sum, weight) => sum + Math.max(0, weight), 0);
+
+  if (!(totalWeight > 0)) {
+    return Math.floor(rng() * weights.length);
+  }
+
+  let remaining = rng() * totalWeight;
+  for (let i = 0; i < weights.length; i++) {
+    remaining -= Math.max(0, weights[i]);
+    if (remaining < 0) {
+      return i;
+    }
+  }
+
+  // Floating point rounding: return the last index with a positive weight
+  for (let i = weights.length - 1; i >= 0; i--) {
+    if (weights[i] > 0) return i;
+  }
+  return weights.length - 1;
+}
@@ -0,0 +1,281 @@
+import type BetterSqlite3 from 'better-sqlite3';
+import type { DatabaseSchema, DraftConfig, DraftLottery, DraftPick, Team } from '../types';
+import type { StorageAdapter } from './storage';
+import fs from 'fs/promises';
+import path from 'path';
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS config (
+    id INTEGER PRIMARY KEY CHECK (id = 1),
+    settings TEXT NOT NULL -- DraftConfig without its teams, as JSON
+  );
+
+  CREATE TABLE IF NOT EXISTS teams (
+    position INTEGER PRIMARY KEY, -- Index in config.teams
+    id TEXT NOT NULL UNIQUE,
+    name TEXT NOT NULL,
+    logo_url TEXT NOT NULL,
+    logo_type TEXT NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS lotteries (
+    row_id INTEGER PRIMARY KEY AUTOINCREMENT,
+    status TEXT NOT NULL CHECK (status IN ('saved', 'pending', 'superseded')),
+    id TEXT NOT NULL,
+    year INTEGER NOT NULL,
+    date TEXT NOT NULL,
+    config TEXT NOT NULL, -- Config snapshot the draw used, as JSON
+    initial_order TEXT,
+    seed TEXT,
+    algorithm_version TEXT,
+    finalized INTEGER,
+    finalized_at TEXT,
+    superseded_at TEXT,
+    imported INTEGER
+  );
+
+  CREATE UNIQUE INDEX IF NOT EXISTS lotteries_saved_year ON lotteries (year) WHERE status = 'saved';
+
+  CREATE TABLE IF NOT EXISTS picks (
+    lottery_row_id INTEGER NOT NULL REFERENCES lotteries (row_id) ON DELETE CASCADE,
+    round INTEGER NOT NULL,
+    pick_number INTEGER NOT NULL,
+    team_id TEXT NOT NULL,
+    owner_team_id TEXT,
+    original_position INTEGER NOT NULL,
+    movement INTEGER NOT NULL,
+    PRIMARY KEY (lottery_row_id, round, pick_number)
+  );
+
+  -- Every other top-level field of the database (trades, pick ownership, config history...)
+  CREATE TABLE IF NOT EXISTS documents (
+    key TEXT PRIMARY KEY,
+    data TEXT NOT NULL
+  );
+`;
+
+/**
+ * Columns added to existing tables after the first release, added to older files on open
+ */
+const ADDED_COLUMNS: { table: string; column: string; definition: string }[] = [
+  { table: 'lotteries', column: 'imported', definition: 'INTEGER' },
+];
+
+type LotteryStatus = 'saved' | 'pending' | 'superseded';
+
+interface LotteryRow {
+  row_id: number;
+  status: LotteryStatus;
+  id: string;
+  year: number;
+  date: string;
+  config: string;
+  initial_order: string | null;
+  seed: string | null;
+  algorithm_version: string | null;
+  finalized: number | null;
+  finalized_at: string | null;
+  superseded_at: string | null;
+  imported: number | null;
+}
+
+interface PickRow {
+  lottery_row_id: number;
+  round: number;
+  pick_number: number;
+  team_id: string;
+  owner_team_id: string | null;
+  original_position: number;
+  movement: number;
+}
+
+interface TeamRow {
+  id: string;
+  name: string;
+  logo_url: string;
+  logo_type: Team['logoType'];
+}
+
+/**
+ * Drops keys whose value is null, so optional fields read back as missing
+ */
+function withoutNulls<T extends object>(value: T): T {
+  return Object.fromEntries(Object.entries(value).filter(([, v]) => v !== null)) as T;
+}
+
+/**
+ * Keeps the database in an embedded SQLite file. Every write replaces the stored
+ * document in one transaction, so a failed write leaves the previous data in place.
+ */
+export class SqliteStorage implements StorageAdapter {
+  private db: BetterSqlite3.Database | undefined;
+
+  constructor(private readonly filePath: string) {}
+
+  // The native module is only loaded when the SQLite backend is actually used
+  private async open(): Promise<BetterSqlite3.Database> {
+    if (!this.db) {
+      const { default: Sqlite } = await import('better-sqlite3');
+      await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+
+      this.db = new Sqlite(this.filePath);
+      this.db.pragma('journal_mode = WAL');
+      this.db.pragma('foreign_keys = ON');
+      this.db.exec(SCHEMA);
+
+      for (const { table, column, definition } of ADDED_COLUMNS) {
+        const columns = this.db.prepare(`PRAGMA table_info(${table})`).all() as { name: string }[];
+        if (!columns.some((existing) => existing.name === column)) {
+          this.db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+        }
+      }
+    }
+
+    return this.db;
+  }
+
+  async exists(): Promise<boolean> {
+    const db = await this.open();
+    return db.prepare('SELECT 1 FROM config WHERE id = 1').get() !== undefined;
+  }
+
+  async read(): Promise<DatabaseSchema> {
+    const db = await this.open();
+
+    const configRow = db.prepare('SELECT settings FROM config WHERE id = 1').get() as
+      | { settings: string }
+      | undefined;
+    if (!configRow) {
+      throw new Error(`${this.filePath} has no config; the database was never initialized`);
+    }
+
+    const teams = (
+      db.prepare('SELECT id, name, logo_url, logo_type FROM teams ORDER BY position').all() as TeamRow[]
+    ).map((row) => ({ id: row.id, name: row.name, logoUrl: row.logo_url, logoType: row.logo_type }));
+
+    const picksByLottery = new Map<number, DraftPick[]>();
+    for (const row of db.prepare('SELECT * FROM picks ORDER BY rowid').all() as PickRow[]) {
+      const picks = picksByLottery.get(row.lottery_row_id) ?? [];
+      picks.push(
+        withoutNulls({
+          round: row.round,
+          pickNumber: row.pick_number,
+          teamId: row.team_id,
+          ownerTeamId: row.owner_team_id,
+          originalPosition: row.original_position,
+          movement: row.movement,
+        }) as DraftPick
+      );
+      picksByLottery.set(row.lottery_row_id, picks);
+    }
+
+    const lotteries: Record<LotteryStatus, DraftLottery[]> = { saved: [], pending: [], superseded: [] };
+    for (const row of db.prepare('SELECT * FROM lotteries ORDER BY row_id').all() as LotteryRow[]) {
+      lotteries[row.status].push(
+        withoutNulls({
+          id: row.id,
+          year: row.year,
+          date: row.date,
+          picks: picksByLottery.get(row.row_id) ?? [],
+          config: JSON.parse(row.config),
+          initialOrder: row.initial_order === null ? null : JSON.parse(row.initial_order),
+          seed: row.seed,
+          algorithmVersion: row.algorithm_version,
+          finalized: row.finalized === null ? null : row.finalized === 1,
+          finalizedAt: row.finalized_at,
+          supersededAt: row.superseded_at,
+          imported: row.imported === null ? null : row.imported === 1,
+        }) as DraftLottery
+      );
+    }
+
+    const documents = Object.fromEntries(
+      (db.prepare('SELECT key, data FROM documents').all() as { key: string; data: string }[]).map(
+        (row) => [row.key, JSON.parse(row.data)]
+      )
+    );
+
+    return {
+      ...documents,
+      config: { ...JSON.parse(configRow.settings), teams } as DraftConfig,
+      lotteries: lotteries.saved,
+      ...(lotteries.pending.length > 0 && { pendingLottery: lotteries.pending[0] }),
+      ...(lotteries.superseded.length > 0 && { supersededLotteries: lotteries.superseded }),
+    };
+  }
+
+  async write(data: DatabaseSchema): Promise<void> {
+    const db = await this.open();
+    const { config, lotteries, pendingLottery, supersededLotteries, ...documents } = data;
+    const { teams = [], ...settings } = config;
+
+    const insertTeam = db.prepare(
+      'INSERT INTO teams (position, id, name, logo_url, logo_type) VALUES (?, ?, ?, ?, ?)'
+    );
+    const insertLottery = db.prepare(`
+      INSERT INTO lotteries (
+        status, id, year, date, config, initial_order, seed, algorithm_version,
+        finalized, finalized_at, superseded_at, imported
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+    const insertPick = db.prepare(`
+      INSERT INTO picks (
+        lottery_row_id, round, pick_number, team_id, owner_team_id, original_position, movement
+      ) VALUES (?, ?, ?, ?, ?, ?, ?)
+    `);
+    const insertDocument = db.prepare('INSERT INTO documents (key, data) VALUES (?, ?)');
+
+    const saveLottery = (lottery: DraftLottery, status: LotteryStatus) => {
+      const { lastInsertRowid } = insertLottery.run(
+        status,
+        lottery.id,
+        lottery.year,
+        lottery.date,
+        JSON.stringify(lottery.config),
+        lottery.initialOrder ? JSON.stringify(lottery.initialOrder) : null,
+        lottery.seed ?? null,
+        lottery.algorithmVersion ?? null,
+        lottery.finalized === undefined ? null : Number(lottery.finalized),
+        lottery.finalizedAt ?? null,
+        lottery.supersededAt ?? null,
+        lottery.imported === undefined ? null : Number(lottery.imported)
+      );
+
+      lottery.picks.forEach((pick) =>
+        insertPick.run(
+          lastInsertRowid,
+          pick.round,
+          pick.pickNumber,
+          pick.teamId,
+          pick.ownerTeamId ?? null,
+          pick.originalPosition,
+          pick.movement
+        )
+      );
+    };
+
+    db.transaction(() => {
+      db.exec('DELETE FROM picks; DELETE FROM lotteries; DELETE FROM teams; DELETE FROM documents;');
+
+      db.prepare('INSERT OR REPLACE INTO config (id, settings) VALUES (1, ?)').run(
+        JSON.stringify(settings)
+      );
+      teams.forEach((team, position) =>
+        insertTeam.run(position, team.id, team.name, team.logoUrl, team.logoType)
+      );
+
+      lotteries.forEach((lottery) => saveLottery(lottery, 'saved'));
+      if (pendingLottery) saveLottery(pendingLottery, 'pending');
+      supersededLotteries?.forEach((lottery) => saveLottery(lottery, 'superseded'));
+
+      Object.entries(documents).forEach(([key, value]) => {
+        if (value !== undefined) insertDocument.run(key, JSON.stringify(value));
+      });
+    })();
+  }
+
+  close(): void {
+    this.db?.close();
+    this.db = undefined;
+  }
+}
@@ -0,0 +1,39 @@
+import path from 'path';
+import type { DatabaseSchema } from '../types';
+import { JsonStorage } from './json-storage';
+import { SqliteStorage } from './sqlite-storage';
+
+/**
+ * Where the database is kept. The Database class reads and writes whole documents
+ * through an adapter and keeps all the lottery logic itself.
+ */
+export interface StorageAdapter {
+  exists(): Promise<boolean>;
+  read(): Promise<DatabaseSchema>;
+  write(data: DatabaseSchema): Promise<void>;
+}
+
+export type StorageBackend = 'json' | 'sqlite';
+
+export const DEFAULT_JSON_PATH = path.join(process.cwd(), 'src', 'data', 'database.json');
+export const DEFAULT_SQLITE_PATH = path.join(process.cwd(), 'src', 'data', 'database.sqlite');
+
+/**
+ * Creates the adapter selected by DATABASE_BACKEND ("json" by default, or "sqlite"),
+ * stored at DATABASE_PATH. Without a path the file goes under src/data in the working
+ * directory, so set DATABASE_PATH when running the built server from elsewhere.
+ */
+export function createStorage(
+  env: Record<string, string | undefined> = process.env
+): StorageAdapter {
+  const backend = env.DATABASE_BACKEND || 'json';
+
+  switch (backend) {
+    case 'json':
+      return new JsonStorage(path.resolve(env.DATABASE_PATH || DEFAULT_JSON_PATH));
+    case 'sqlite':
+      return new SqliteStorage(path.resolve(env.DATABASE_PATH || DEFAULT_SQLITE_PATH));
+    default:
+      throw new Error(`Unknown DATABASE_BACKEND "${backend}" (expected json or sqlite)`);
+  }
+}
@@ -0,0 +1,161 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { POST as LOGIN } from '../../pages/api/auth/login';
+import { POST as LOGOUT } from '../../pages/api/auth/logout';
+import { GET as SESSION } from '../../pages/api/auth/session';
+import { GET as LIST_TOKENS, POST as CREATE_TOKEN } from '../../pages/api/auth/tokens';
+import { DELETE as REVOKE_TOKEN } from '../../pages/api/auth/tokens/[id]';
+import { Database } from '../database';
+import { SESSION_COOKIE, hashApiToken, hashPassword, verifySessionToken } from '../auth';
+import type { ApiToken } from '../../types';
+
+// Mock the Database module
+vi.mock('../database', () => ({
+  Database: {
+    getApiTokens: vi.fn(),
+    saveApiToken: vi.fn(),
+    deleteApiToken: vi.fn(),
+  },
+}));
+
+const passwordHash = hashPassword('draft-night', 'salt');
+
+function jsonRequest(path: string, body: unknown) {
+  const cookies = { set: vi.fn(), delete: vi.fn() };
+  return {
+    context: {
+      request: new Request(`http://localhost${path}`, {
+        method: 'POST',
+        body: JSON.stringify(body),
+      }),
+      url: new URL(`http://localhost${path}`),
+      cookies,
+    } as any,
+    cookies,
+  };
+}
+
+describe('[API] POST /api/auth/login', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.stubEnv('COMMISSIONER_PASSWORD_HASH', passwordHash);
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('should set a session cookie for the right password', async () => {
+    const { context, cookies } = jsonRequest('/api/auth/login', { password: 'draft-night' });
+
+    const response = await LOGIN(context);
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ role: 'commissioner' });
+
+    const [name, value, options] = cookies.set.mock.calls[0];
+    expect(name).toBe(SESSION_COOKIE);
+    expect(verifySessionToken(value, passwordHash)).toBe(true);
+    expect(options).toMatchObject({ httpOnly: true, sameSite: 'strict', path: '/' });
+  });
+
+  it('should return 401 for a wrong or missing password', async () => {
+    const wrong = jsonRequest('/api/auth/login', { password: 'draft-day' });
+    const missing = jsonRequest('/api/auth/login', {});
+
+    expect((await LOGIN(wrong.context)).status).toBe(401);
+    expect((await LOGIN(missing.context)).status).toBe(401);
+    expect(wrong.cookies.set).not.toHaveBeenCalled();
+  });
+
+  it('should return 400 when no password is set', async () => {
+    vi.stubEnv('COMMISSIONER_PASSWORD_HASH', '');
+    const { context } = jsonRequest('/api/auth/login', { password: 'draft-night' });
+
+    const response = await LOGIN(context);
+
+    expect(response.status).toBe(400);
+    expect((await response.json()).error).toBe('Commissioner login is not set up');
+  });
+});
+
+describe('[API] Auth Session', () => {
+  it('should clear the session cookie on logout', async () => {
+    const { context, cookies } = jsonRequest('/api/auth/logout', {});
+
+    const response = await LOGOUT(context);
+
+    expect(response.status).toBe(200);
+    expect(cookies.delete).toHaveBeenCalledWith(SESSION_COOKIE, { path: '/' });
+  });
+
+  it('should report the role worked out by the middleware', async () => {
+    const response = await SESSION({ locals: { role: 'owner', authEnabled: true } } as any);
+
+    expect(await response.json()).toEqual({ role: 'owner', authEnabled: true });
+  });
+});
+
+describe('[API] /api/auth/tokens', () => {
+  const stored: ApiToken = {
+    id: 'token-1',
+    name: 'Nightly backup',
+    tokenHash: 'abc123',
+    createdAt: '2025-06-15T12:00:00.000Z',
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should list tokens without their hashes', async () => {
+    vi.mocked(Database.getApiTokens).mockResolvedValue([stored]);
+
+    const response = await LIST_TOKENS({} as any);
+
+    expect(await response.json()).toEqual([
+      { id: 'token-1', name: 'Nightly backup', createdAt: '2025-06-15T12:00:00.000Z' },
+    ]);
+  });
+
+  it('should create a token, return it once and store only its hash', async () => {
+    vi.mocked(Database.saveApiToken).mockResolvedValue(undefined);
+    const { context } = jsonRequest('/api/auth/tokens', { name: '  Nightly backup ' });
+
+    const response = await CREATE_TOKEN(context);
+    const data = await response.json();
+
+    expect(response.status).toBe(201);
+    expect(data.name).toBe('Nightly backup');
+    expect(data.tokenHash).toBeUndefined();
+
+    const saved = vi.mocked(Database.saveApiToken).mock.calls[0][0];
+    expect(saved.tokenHash).toBe(hashApiToken(data.token));
+    expect(saved.id).toBe(data.id);
+  });
+
+  it('should require a token name', async () => {
+    const { context } = jsonRequest('/api/auth/tokens', { name: ' ' });
+
+    const response = await CREATE_TOKEN(context);
+
+    expect(response.status).toBe(400);
+    expect(Database.saveApiToken).not.toHaveBeenCalled();
+  });
+
+  it('should revoke a token and return 404 for unknown ones', async () => {
+    vi.mocked(Database.deleteApiToken).mockResolvedValueOnce(true).mockResolvedValueOnce(false);
+
+    expect((await REVOKE_TOKEN({ params: { id: 'token-1' } } as any)).status).toBe(200);
+    expect((await REVOKE_TOKEN({ params: { id: 'token-9' } } as any)).status).toBe(404);
+    expect(Database.deleteApiToken).toHaveBeenCalledWith('token-1');
+  });
+
+  it('should return 500 when the database fails', async () => {
+    vi.mocked(Database.getApiTokens).mockRejectedValue(new Error('Database error'));
+
+    const response = await LIST_TOKENS({} as any);
+
+    expect(response.status).toBe(500);
+    expect((await response.json()).error).toBe('Failed to fetch API tokens');
+  });
+});
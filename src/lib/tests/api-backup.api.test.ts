@@ -0,0 +1,190 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { GET as EXPORT } from '../../pages/api/export';
+import { POST as IMPORT } from '../../pages/api/import';
+import { Database, LotteryFinalizedError } from '../database';
+import { BACKUP_FORMAT, BACKUP_VERSION, type ImportPreview } from '../backup';
+import { liveBroadcast } from '../live';
+import { CURRENT_SCHEMA_VERSION } from '../migrations';
+import type { DatabaseSchema, DraftConfig } from '../../types';
+
+// Mock the Database module, keeping the real error class for instanceof checks
+vi.mock('../database', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../database')>()),
+  Database: {
+    exportData: vi.fn(),
+    getImportPreview: vi.fn(),
+    importData: vi.fn(),
+  },
+}));
+
+const config: DraftConfig = {
+  numberOfTeams: 4,
+  numberOfRounds: 1,
+  teams: [
+    { id: 'team-1', name: 'Team 1', logoUrl: '', logoType: 'url' },
+    { id: 'team-2', name: 'Team 2', logoUrl: '', logoType: 'url' },
+    { id: 'team-3', name: 'Team 3', logoUrl: '', logoType: 'url' },
+    { id: 'team-4', name: 'Team 4', logoUrl: '', logoType: 'url' },
+  ],
+  weightedSystem: [
+    { position: 4, percentage: 40.0 },
+    { position: 3, percentage: 30.0 },
+    { position: 2, percentage: 20.0 },
+    { position: 1, percentage: 10.0 },
+  ],
+  pickDelaySeconds: 3,
+  currentYear: 2025,
+  initialOrder: [1, 2, 3, 4],
+  lotteryFormat: { type: 'bounded-movement', maxMovement: 2 },
+  roundOrderMode: 'independent',
+};
+
+const database: DatabaseSchema = {
+  schemaVersion: CURRENT_SCHEMA_VERSION,
+  config,
+  lotteries: [],
+};
+
+const preview: ImportPreview = {
+  mode: 'merge',
+  configChanges: [],
+  lotteries: { added: [], replaced: [], unchanged: [], kept: [], removed: [], finalized: [] },
+  trades: 0,
+};
+
+function importRequest(query: string, body: unknown) {
+  return {
+    request: new Request('http://localhost/api/import', {
+      method: 'POST',
+      body: JSON.stringify(body),
+    }),
+    url: new URL(`http://localhost/api/import${query}`),
+  } as any;
+}
+
+const bundle = {
+  format: BACKUP_FORMAT,
+  version: BACKUP_VERSION,
+  exportedAt: '2025-07-01T00:00:00.000Z',
+  schemaVersion: CURRENT_SCHEMA_VERSION,
+  data: database,
+  logos: {},
+};
+
+describe('[API] GET /api/export', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should download the database as a backup bundle', async () => {
+    vi.mocked(Database.exportData).mockResolvedValue(database);
+
+    const response = await EXPORT({} as any);
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('Content-Disposition')).toMatch(
+      /^attachment; filename="draft-lottery-backup-\d{4}-\d{2}-\d{2}\.json"$/
+    );
+    expect(data).toMatchObject({
+      format: BACKUP_FORMAT,
+      version: BACKUP_VERSION,
+      schemaVersion: CURRENT_SCHEMA_VERSION,
+      data: database,
+      logos: {},
+    });
+  });
+
+  it('should return 500 when the database cannot be read', async () => {
+    vi.mocked(Database.exportData).mockRejectedValue(new Error('Read failed'));
+
+    const response = await EXPORT({} as any);
+
+    expect(response.status).toBe(500);
+    expect(await response.json()).toEqual({ error: 'Failed to export database' });
+  });
+});
+
+describe('[API] POST /api/import', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should preview the import without changing anything', async () => {
+    vi.mocked(Database.getImportPreview).mockResolvedValue(preview);
+
+    const response = await IMPORT(importRequest('?preview=true', bundle));
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ imported: false, preview });
+    expect(Database.getImportPreview).toHaveBeenCalledWith(database, 'merge');
+    expect(Database.importData).not.toHaveBeenCalled();
+  });
+
+  it('should import with the requested mode and override flag', async () => {
+    vi.mocked(Database.importData).mockResolvedValue({ ...preview, mode: 'replace' });
+
+    const response = await IMPORT(importRequest('?mode=replace&override=true', bundle));
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data.imported).toBe(true);
+    expect(Database.importData).toHaveBeenCalledWith(database, 'replace', true);
+  });
+
+  it('should stop broadcasting a lottery the backup does not have in progress', async () => {
+    vi.mocked(Database.importData).mockResolvedValue(preview);
+    liveBroadcast.start({
+      id: 'lottery-2025-local',
+      year: 2025,
+      date: '2025-06-15T23:00:00.000Z',
+      picks: [],
+      config,
+    });
+
+    await IMPORT(importRequest('', bundle));
+
+    expect(liveBroadcast.getState().lotteryId).toBeUndefined();
+  });
+
+  it('should return 400 for an unknown mode', async () => {
+    const response = await IMPORT(importRequest('?mode=append', bundle));
+
+    expect(response.status).toBe(400);
+    expect(Database.importData).not.toHaveBeenCalled();
+  });
+
+  it('should return 400 with field errors for an invalid backup', async () => {
+    const response = await IMPORT(
+      importRequest('', { ...bundle, data: { ...database, lotteries: 'none' } })
+    );
+    const data = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(data.error).toBe('Invalid backup');
+    expect(data.errors).toEqual([
+      { field: 'data.lotteries', message: 'Must be a list of lotteries' },
+    ]);
+  });
+
+  it('should return 409 when the import would replace a finalized year', async () => {
+    vi.mocked(Database.importData).mockRejectedValue(new LotteryFinalizedError(2024));
+
+    const response = await IMPORT(importRequest('', bundle));
+
+    expect(response.status).toBe(409);
+    expect(await response.json()).toEqual({
+      error: 'The 2024 lottery is finalized',
+      finalized: true,
+    });
+  });
+
+  it('should return 500 when the import fails', async () => {
+    vi.mocked(Database.importData).mockRejectedValue(new Error('Write failed'));
+
+    const response = await IMPORT(importRequest('', bundle));
+
+    expect(response.status).toBe(500);
+    expect(await response.json()).toEqual({ error: 'Failed to import database' });
+  });
+});
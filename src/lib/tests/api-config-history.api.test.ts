@@ -0,0 +1,115 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { GET } from '../../pages/api/config/history';
+import { POST as RESTORE } from '../../pages/api/config/history/[version]/restore';
+import { Database } from '../database';
+import type { ConfigRevision, DraftConfig } from '../../types';
+
+// Mock the Database module
+vi.mock('../database', () => ({
+  Database: {
+    getConfigHistory: vi.fn(),
+    restoreConfigRevision: vi.fn(),
+  },
+}));
+
+const config: DraftConfig = {
+  numberOfTeams: 4,
+  numberOfRounds: 2,
+  teams: [],
+  weightedSystem: [],
+  pickDelaySeconds: 3,
+  currentYear: 2025,
+};
+
+const revision: ConfigRevision = {
+  version: 3,
+  savedAt: '2025-06-01T12:00:00.000Z',
+  comment: 'Restored version 1',
+  config,
+};
+
+describe('[API] GET /api/config/history', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should return the saved config versions', async () => {
+    vi.mocked(Database.getConfigHistory).mockResolvedValue([revision]);
+
+    const response = await GET({} as any);
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data).toEqual([revision]);
+  });
+
+  it('should return 500 on database error', async () => {
+    vi.mocked(Database.getConfigHistory).mockRejectedValue(new Error('Read failed'));
+
+    const response = await GET({} as any);
+    const data = await response.json();
+
+    expect(response.status).toBe(500);
+    expect(data).toEqual({ error: 'Failed to fetch config history' });
+  });
+});
+
+describe('[API] POST /api/config/history/[version]/restore', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should restore the version with the given author', async () => {
+    vi.mocked(Database.restoreConfigRevision).mockResolvedValue(revision);
+
+    const request = { json: vi.fn().mockResolvedValue({ author: 'Sam' }) };
+    const response = await RESTORE({ params: { version: '1' }, request } as any);
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data).toEqual(revision);
+    expect(Database.restoreConfigRevision).toHaveBeenCalledWith(1, {
+      author: 'Sam',
+      comment: undefined,
+    });
+  });
+
+  it('should restore without a request body', async () => {
+    vi.mocked(Database.restoreConfigRevision).mockResolvedValue(revision);
+
+    const request = { json: vi.fn().mockRejectedValue(new SyntaxError('Unexpected end of JSON')) };
+    const response = await RESTORE({ params: { version: '1' }, request } as any);
+
+    expect(response.status).toBe(200);
+  });
+
+  it('should return 400 for an invalid version', async () => {
+    const request = { json: vi.fn().mockResolvedValue({}) };
+    const response = await RESTORE({ params: { version: 'latest' }, request } as any);
+
+    expect(response.status).toBe(400);
+    expect(Database.restoreConfigRevision).not.toHaveBeenCalled();
+  });
+
+  it('should return 404 for an unknown version', async () => {
+    vi.mocked(Database.restoreConfigRevision).mockResolvedValue(undefined);
+
+    const request = { json: vi.fn().mockResolvedValue({}) };
+    const response = await RESTORE({ params: { version: '99' }, request } as any);
+    const data = await response.json();
+
+    expect(response.status).toBe(404);
+    expect(data).toEqual({ error: 'Config version not found' });
+  });
+
+  it('should return 500 when restoring fails', async () => {
+    vi.mocked(Database.restoreConfigRevision).mockRejectedValue(new Error('Write failed'));
+
+    const request = { json: vi.fn().mockResolvedValue({}) };
+    const response = await RESTORE({ params: { version: '1' }, request } as any);
+    const data = await response.json();
+
+    expect(response.status).toBe(500);
+    expect(data).toEqual({ error: 'Failed to restore config' });
+  });
+});
@@ -0,0 +1,128 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { POST } from '../../pages/api/config/teams';
+import { DELETE } from '../../pages/api/config/teams/[id]';
+import { ConfigRejectedError, Database } from '../database';
+import { addTeam, generateWeightedOdds, removeTeam } from '../league';
+import type { DraftConfig } from '../../types';
+
+// Mock the Database module, keeping its error classes
+vi.mock('../database', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../database')>()),
+  Database: {
+    addTeam: vi.fn(),
+    removeTeam: vi.fn(),
+  },
+}));
+
+const makeConfig = (numberOfTeams: number): DraftConfig => ({
+  numberOfTeams,
+  numberOfRounds: 3,
+  teams: Array.from({ length: numberOfTeams }, (_, i) => ({
+    id: `team-${i + 1}`,
+    name: `Team ${i + 1}`,
+    logoUrl: '',
+    logoType: 'url' as const,
+  })),
+  weightedSystem: generateWeightedOdds(numberOfTeams),
+  pickDelaySeconds: 3,
+  currentYear: 2025,
+});
+
+describe('[API] POST /api/config/teams', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should add a named team and return the resized config', async () => {
+    const updated = addTeam(makeConfig(10), {
+      id: 'team-11',
+      name: 'Expansion Club',
+      logoUrl: '',
+      logoType: 'url',
+    });
+    vi.mocked(Database.addTeam).mockResolvedValue(updated);
+
+    const request = { json: vi.fn().mockResolvedValue({ name: '  Expansion Club ' }) };
+    const response = await POST({ request } as any);
+    const data: DraftConfig = await response.json();
+
+    expect(response.status).toBe(201);
+    expect(data).toEqual(updated);
+    expect(Database.addTeam).toHaveBeenCalledWith({ name: 'Expansion Club' });
+  });
+
+  it('should return 400 when the team is refused', async () => {
+    vi.mocked(Database.addTeam).mockRejectedValue(
+      new ConfigRejectedError('A league can have at most 32 teams')
+    );
+
+    const request = { json: vi.fn().mockResolvedValue(null) };
+    const response = await POST({ request } as any);
+    const data = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(data).toEqual({ error: 'A league can have at most 32 teams', errors: [] });
+    expect(Database.addTeam).toHaveBeenCalledWith({});
+  });
+
+  it('should return 500 on database error', async () => {
+    vi.mocked(Database.addTeam).mockRejectedValue(new Error('Read failed'));
+
+    const request = { json: vi.fn().mockResolvedValue({}) };
+    const response = await POST({ request } as any);
+    const data = await response.json();
+
+    expect(response.status).toBe(500);
+    expect(data).toEqual({ error: 'Failed to add team' });
+  });
+});
+
+describe('[API] DELETE /api/config/teams/[id]', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should remove the team and return the resized config', async () => {
+    const updated = removeTeam(makeConfig(12), 'team-3');
+    vi.mocked(Database.removeTeam).mockResolvedValue(updated);
+
+    const response = await DELETE({ params: { id: 'team-3' } } as any);
+    const data: DraftConfig = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data).toEqual(updated);
+    expect(Database.removeTeam).toHaveBeenCalledWith('team-3');
+  });
+
+  it('should return the field errors of a config the resize would leave invalid', async () => {
+    const errors = [{ field: 'pickDelaySeconds', message: 'Pick delay must be a positive number' }];
+    vi.mocked(Database.removeTeam).mockRejectedValue(
+      new ConfigRejectedError('Invalid config', errors)
+    );
+
+    const response = await DELETE({ params: { id: 'team-3' } } as any);
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toEqual({ error: 'Invalid config', errors });
+  });
+
+  it('should return 404 for an unknown team', async () => {
+    vi.mocked(Database.removeTeam).mockResolvedValue(undefined);
+
+    const response = await DELETE({ params: { id: 'team-99' } } as any);
+
+    expect(response.status).toBe(404);
+  });
+
+  it('should return 400 when the team is refused', async () => {
+    vi.mocked(Database.removeTeam).mockRejectedValue(
+      new ConfigRejectedError('A league needs at least 4 teams')
+    );
+
+    const response = await DELETE({ params: { id: 'team-1' } } as any);
+    const data = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(data.error).toBe('A league needs at least 4 teams');
+  });
+});
@@ -105,6 +105,8 @@ describe('[API] GET /api/config', () => {
 });
 
 describe('[API] POST /api/config', () => {
+  const url = new URL('http://localhost/api/config');
+
   const updatedConfig: DraftConfig = {
     numberOfTeams: 10,
     numberOfRounds: 3,
@@ -115,6 +117,12 @@ describe('[API] POST /api/config', () => {
         logoUrl: 'https://example.com/new-logo1.png',
         logoType: 'url',
       },
+      ...Array.from({ length: 9 }, (_, i) => ({
+        id: `team-${i + 2}`,
+        name: `Team ${i + 2}`,
+        logoUrl: '',
+        logoType: 'url' as const,
+      })),
     ],
     weightedSystem: [
       { position: 10, percentage: 30.0 },
@@ -143,16 +151,38 @@ describe('[API] POST /api/config', () => {
       json: vi.fn().mockResolvedValue(updatedConfig),
     };
 
-    const response = await POST({ request: mockRequest } as any);
+    const response = await POST({ request: mockRequest, url } as any);
     const data = await response.json();
 
     expect(response.status).toBe(200);
     expect(response.headers.get('Content-Type')).toBe('application/json');
     expect(data).toEqual({ success: true });
-    expect(Database.updateConfig).toHaveBeenCalledWith(updatedConfig);
+    expect(Database.updateConfig).toHaveBeenCalledWith(updatedConfig, {
+      author: undefined,
+      comment: undefined,
+    });
     expect(mockRequest.json).toHaveBeenCalledTimes(1);
   });
 
+  it('should record the author and comment with the revision', async () => {
+    vi.mocked(Database.updateConfig).mockResolvedValue(undefined);
+
+    const mockRequest = {
+      json: vi.fn().mockResolvedValue(updatedConfig),
+    };
+
+    const response = await POST({
+      request: mockRequest,
+      url: new URL('http://localhost/api/config?author=Sam&comment=Flatter%20odds'),
+    } as any);
+
+    expect(response.status).toBe(200);
+    expect(Database.updateConfig).toHaveBeenCalledWith(updatedConfig, {
+      author: 'Sam',
+      comment: 'Flatter odds',
+    });
+  });
+
   it('should return 500 when database update fails', async () => {
     vi.mocked(Database.updateConfig).mockRejectedValue(new Error('Update failed'));
 
@@ -160,7 +190,7 @@ describe('[API] POST /api/config', () => {
       json: vi.fn().mockResolvedValue(updatedConfig),
     };
 
-    const response = await POST({ request: mockRequest } as any);
+    const response = await POST({ request: mockRequest, url } as any);
     const data = await response.json();
 
     expect(response.status).toBe(500);
@@ -172,7 +202,7 @@ describe('[API] POST /api/config', () => {
       json: vi.fn().mockRejectedValue(new Error('Invalid JSON')),
     };
 
-    const response = await POST({ request: mockRequest } as any);
+    const response = await POST({ request: mockRequest, url } as any);
     const data = await response.json();
 
     expect(response.status).toBe(500);
@@ -188,12 +218,15 @@ describe('[API] POST /api/config', () => {
       json: vi.fn().mockResolvedValue(configWithOneRound),
     };
 
-    const response = await POST({ request: mockRequest } as any);
+    const response = await POST({ request: mockRequest, url } as any);
     const data = await response.json();
 
     expect(response.status).toBe(200);
     expect(data).toEqual({ success: true });
-    expect(Database.updateConfig).toHaveBeenCalledWith(configWithOneRound);
+    expect(Database.updateConfig).toHaveBeenCalledWith(configWithOneRound, {
+      author: undefined,
+      comment: undefined,
+    });
   });
 
   it('should handle config with different pick delay', async () => {
@@ -204,11 +237,14 @@ describe('[API] POST /api/config', () => {
       json: vi.fn().mockResolvedValue(configWithLongerDelay),
     };
 
-    const response = await POST({ request: mockRequest } as any);
+    const response = await POST({ request: mockRequest, url } as any);
     const data = await response.json();
 
     expect(response.status).toBe(200);
-    expect(Database.updateConfig).toHaveBeenCalledWith(configWithLongerDelay);
+    expect(Database.updateConfig).toHaveBeenCalledWith(configWithLongerDelay, {
+      author: undefined,
+      comment: undefined,
+    });
   });
 
   it('should handle config with initial order', async () => {
@@ -222,11 +258,55 @@ describe('[API] POST /api/config', () => {
       json: vi.fn().mockResolvedValue(configWithInitialOrder),
     };
 
-    const response = await POST({ request: mockRequest } as any);
+    const response = await POST({ request: mockRequest, url } as any);
     const data = await response.json();
 
     expect(response.status).toBe(200);
-    expect(Database.updateConfig).toHaveBeenCalledWith(configWithInitialOrder);
+    expect(Database.updateConfig).toHaveBeenCalledWith(configWithInitialOrder, {
+      author: undefined,
+      comment: undefined,
+    });
+  });
+
+  it('should return 400 with field errors for an invalid config', async () => {
+    const mockRequest = {
+      json: vi.fn().mockResolvedValue({
+        ...updatedConfig,
+        teams: updatedConfig.teams.slice(0, 9),
+        initialOrder: [1, 1, 3, 4, 5, 6, 7, 8, 9, 10],
+      }),
+    };
+
+    const response = await POST({ request: mockRequest, url } as any);
+    const data = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(data.error).toBe('Invalid config');
+    expect(data.errors).toEqual([
+      { field: 'teams', message: 'Expected 10 teams but got 9' },
+      {
+        field: 'initialOrder',
+        message: 'Initial order must list each team number from 1 to 10 once',
+      },
+    ]);
+    expect(Database.updateConfig).not.toHaveBeenCalled();
+  });
+
+  it('should reject odds that do not total 100%', async () => {
+    const mockRequest = {
+      json: vi.fn().mockResolvedValue({
+        ...updatedConfig,
+        weightedSystem: updatedConfig.weightedSystem.map((odds) => ({ ...odds, percentage: 5 })),
+      }),
+    };
+
+    const response = await POST({ request: mockRequest, url } as any);
+    const data = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(data.errors).toEqual([
+      { field: 'weightedSystem', message: 'Odds must total 100% (currently 50.0%)' },
+    ]);
   });
 
   it('should have correct content-type header on success', async () => {
@@ -236,7 +316,7 @@ describe('[API] POST /api/config', () => {
       json: vi.fn().mockResolvedValue(updatedConfig),
     };
 
-    const response = await POST({ request: mockRequest } as any);
+    const response = await POST({ request: mockRequest, url } as any);
 
     expect(response.headers.get('Content-Type')).toBe('application/json');
   });
@@ -248,7 +328,7 @@ describe('[API] POST /api/config', () => {
       json: vi.fn().mockResolvedValue(updatedConfig),
     };
 
-    const response = await POST({ request: mockRequest } as any);
+    const response = await POST({ request: mockRequest, url } as any);
 
     expect(response.headers.get('Content-Type')).toBe('application/json');
   });
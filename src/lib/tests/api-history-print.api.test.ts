@@ -0,0 +1,81 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { GET } from '../../pages/history/[year]/print';
+import { Database } from '../database';
+import type { DraftLottery } from '../../types';
+
+// Mock the Database module
+vi.mock('../database', () => ({
+  Database: {
+    getLotteryByYear: vi.fn(),
+  },
+}));
+
+const lottery: DraftLottery = {
+  id: 'lottery-2025',
+  year: 2025,
+  date: '2025-06-15T12:00:00.000Z',
+  picks: [{ round: 1, pickNumber: 1, teamId: 'team-1', originalPosition: 1, movement: 0 }],
+  config: {
+    numberOfTeams: 1,
+    numberOfRounds: 1,
+    teams: [{ id: 'team-1', name: 'Knockout Kings', logoUrl: '', logoType: 'url' }],
+    weightedSystem: [],
+    pickDelaySeconds: 3,
+    currentYear: 2025,
+  },
+};
+
+function printRequest(year: string, query = '') {
+  return {
+    params: { year },
+    url: new URL(`http://localhost/history/${year}/print${query}`),
+  } as any;
+}
+
+describe('[API] GET /history/[year]/print', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should render the draft board with download and back links', async () => {
+    vi.mocked(Database.getLotteryByYear).mockResolvedValue(lottery);
+
+    const response = await GET(printRequest('2025'));
+    const html = await response.text();
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('Content-Type')).toBe('text/html; charset=utf-8');
+    expect(response.headers.get('Content-Disposition')).toBeNull();
+    expect(html).toContain('2025 Draft Board');
+    expect(html).toContain('href="/history/2025/print?download=true"');
+  });
+
+  it('should download a standalone copy without the app links', async () => {
+    vi.mocked(Database.getLotteryByYear).mockResolvedValue(lottery);
+
+    const response = await GET(printRequest('2025', '?download=true'));
+    const html = await response.text();
+
+    expect(response.headers.get('Content-Disposition')).toBe(
+      'attachment; filename="draft-board-2025.html"'
+    );
+    expect(html).toContain('Knockout Kings');
+    expect(html).not.toContain('Back to History');
+  });
+
+  it('should return 400 for an invalid year and 404 for a missing lottery', async () => {
+    vi.mocked(Database.getLotteryByYear).mockResolvedValue(undefined);
+
+    expect((await GET(printRequest('abc'))).status).toBe(400);
+    expect((await GET(printRequest('1999'))).status).toBe(404);
+  });
+
+  it('should return 500 when the database fails', async () => {
+    vi.mocked(Database.getLotteryByYear).mockRejectedValue(new Error('Database error'));
+
+    const response = await GET(printRequest('2025'));
+
+    expect(response.status).toBe(500);
+    expect(await response.text()).toBe('Failed to render draft board');
+  });
+});
@@ -0,0 +1,97 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { GET as GET_YEAR_CSV } from '../../pages/api/lottery/[year].csv';
+import { GET as GET_ALL_CSV } from '../../pages/api/lottery.csv';
+import { Database } from '../database';
+import type { DraftConfig, DraftLottery } from '../../types';
+
+// Mock the Database module
+vi.mock('../database', () => ({
+  Database: {
+    getLotteryByYear: vi.fn(),
+    getAllLotteries: vi.fn(),
+  },
+}));
+
+const lottery = (year: number): DraftLottery => ({
+  id: `lottery-${year}`,
+  year,
+  date: `${year}-06-15T23:00:00.000Z`,
+  picks: [{ round: 1, pickNumber: 1, teamId: 'team-1', originalPosition: 2, movement: -1 }],
+  config: {
+    numberOfTeams: 2,
+    teams: [{ id: 'team-1', name: 'Knockout Kings', logoUrl: '', logoType: 'url' }],
+  } as DraftConfig,
+});
+
+describe('[API] GET /api/lottery/[year].csv', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should download the picks for the year as CSV', async () => {
+    vi.mocked(Database.getLotteryByYear).mockResolvedValue(lottery(2025));
+
+    const response = await GET_YEAR_CSV({ params: { year: '2025' } } as any);
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('Content-Type')).toBe('text/csv; charset=utf-8');
+    expect(response.headers.get('Content-Disposition')).toBe(
+      'attachment; filename="draft-lottery-2025.csv"'
+    );
+    expect(await response.text()).toContain('2025,1,1,1,Knockout Kings,,2,-1');
+    expect(Database.getLotteryByYear).toHaveBeenCalledWith(2025);
+  });
+
+  it('should return 400 for an invalid year', async () => {
+    const response = await GET_YEAR_CSV({ params: { year: 'abc' } } as any);
+
+    expect(response.status).toBe(400);
+    expect(Database.getLotteryByYear).not.toHaveBeenCalled();
+  });
+
+  it('should return 404 when the year has no lottery', async () => {
+    vi.mocked(Database.getLotteryByYear).mockResolvedValue(undefined);
+
+    const response = await GET_YEAR_CSV({ params: { year: '2030' } } as any);
+
+    expect(response.status).toBe(404);
+    expect(await response.json()).toEqual({ error: 'Lottery not found' });
+  });
+
+  it('should return 500 when the database fails', async () => {
+    vi.mocked(Database.getLotteryByYear).mockRejectedValue(new Error('Read failed'));
+
+    const response = await GET_YEAR_CSV({ params: { year: '2025' } } as any);
+
+    expect(response.status).toBe(500);
+    expect(await response.json()).toEqual({ error: 'Failed to export lottery' });
+  });
+});
+
+describe('[API] GET /api/lottery.csv', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should download every year in one CSV', async () => {
+    vi.mocked(Database.getAllLotteries).mockResolvedValue([lottery(2025), lottery(2024)]);
+
+    const response = await GET_ALL_CSV({} as any);
+    const rows = (await response.text()).trim().split('\r\n');
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('Content-Disposition')).toBe(
+      'attachment; filename="draft-lottery-all-years.csv"'
+    );
+    expect(rows.map((row) => row.split(',')[0])).toEqual(['Year', '2024', '2025']);
+  });
+
+  it('should return 500 when the database fails', async () => {
+    vi.mocked(Database.getAllLotteries).mockRejectedValue(new Error('Read failed'));
+
+    const response = await GET_ALL_CSV({} as any);
+
+    expect(response.status).toBe(500);
+    expect(await response.json()).toEqual({ error: 'Failed to export lotteries' });
+  });
+});
@@ -0,0 +1,100 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { POST as FINALIZE } from '../../pages/api/lottery/[year]/finalize';
+import { GET as REVISIONS } from '../../pages/api/lottery/[year]/revisions';
+import { Database } from '../database';
+import type { DraftConfig, DraftLottery } from '../../types';
+
+// Mock the Database module
+vi.mock('../database', () => ({
+  Database: {
+    finalizeLottery: vi.fn(),
+    getSupersededLotteries: vi.fn(),
+  },
+}));
+
+const lottery: DraftLottery = {
+  id: 'lottery-2025',
+  year: 2025,
+  date: '2025-06-15T23:00:00.000Z',
+  picks: [],
+  config: {} as DraftConfig,
+};
+
+describe('[API] POST /api/lottery/[year]/finalize', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should finalize the lottery for the year', async () => {
+    const finalized = { ...lottery, finalized: true, finalizedAt: '2025-06-16T00:00:00.000Z' };
+    vi.mocked(Database.finalizeLottery).mockResolvedValue(finalized);
+
+    const response = await FINALIZE({ params: { year: '2025' } } as any);
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data).toEqual(finalized);
+    expect(Database.finalizeLottery).toHaveBeenCalledWith(2025);
+  });
+
+  it('should return 400 for an invalid year', async () => {
+    const response = await FINALIZE({ params: { year: 'abc' } } as any);
+
+    expect(response.status).toBe(400);
+    expect(Database.finalizeLottery).not.toHaveBeenCalled();
+  });
+
+  it('should return 404 when the year has no lottery', async () => {
+    vi.mocked(Database.finalizeLottery).mockResolvedValue(undefined);
+
+    const response = await FINALIZE({ params: { year: '2030' } } as any);
+    const data = await response.json();
+
+    expect(response.status).toBe(404);
+    expect(data).toEqual({ error: 'Lottery not found' });
+  });
+
+  it('should return 500 when finalizing fails', async () => {
+    vi.mocked(Database.finalizeLottery).mockRejectedValue(new Error('Write failed'));
+
+    const response = await FINALIZE({ params: { year: '2025' } } as any);
+    const data = await response.json();
+
+    expect(response.status).toBe(500);
+    expect(data).toEqual({ error: 'Failed to finalize lottery' });
+  });
+});
+
+describe('[API] GET /api/lottery/[year]/revisions', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should return the superseded revisions for the year', async () => {
+    const revisions = [{ ...lottery, supersededAt: '2025-06-20T00:00:00.000Z' }];
+    vi.mocked(Database.getSupersededLotteries).mockResolvedValue(revisions);
+
+    const response = await REVISIONS({ params: { year: '2025' } } as any);
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data).toEqual(revisions);
+    expect(Database.getSupersededLotteries).toHaveBeenCalledWith(2025);
+  });
+
+  it('should return 400 for an invalid year', async () => {
+    const response = await REVISIONS({ params: { year: 'abc' } } as any);
+
+    expect(response.status).toBe(400);
+  });
+
+  it('should return 500 when reading revisions fails', async () => {
+    vi.mocked(Database.getSupersededLotteries).mockRejectedValue(new Error('Read failed'));
+
+    const response = await REVISIONS({ params: { year: '2025' } } as any);
+    const data = await response.json();
+
+    expect(response.status).toBe(500);
+    expect(data).toEqual({ error: 'Failed to fetch lottery revisions' });
+  });
+});
@@ -0,0 +1,140 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { POST } from '../../pages/api/lottery/import';
+import { Database, LotteryFinalizedError } from '../database';
+import type { DraftConfig, DraftLottery } from '../../types';
+
+// Mock the Database module, keeping the real error class for instanceof checks
+vi.mock('../database', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../database')>()),
+  Database: {
+    getConfig: vi.fn(),
+    getAllLotteries: vi.fn(),
+    saveLotteries: vi.fn(),
+  },
+}));
+
+const config: DraftConfig = {
+  numberOfTeams: 4,
+  numberOfRounds: 1,
+  teams: [
+    { id: 'team-1', name: 'Knockout Kings', logoUrl: '', logoType: 'url' },
+    { id: 'team-2', name: 'Operation BlackRhino', logoUrl: '', logoType: 'url' },
+    { id: 'team-3', name: 'Loco Lobos', logoUrl: '', logoType: 'url' },
+    { id: 'team-4', name: 'Buck Hunters', logoUrl: '', logoType: 'url' },
+  ],
+  weightedSystem: [
+    { position: 4, percentage: 40.0 },
+    { position: 3, percentage: 30.0 },
+    { position: 2, percentage: 20.0 },
+    { position: 1, percentage: 10.0 },
+  ],
+  pickDelaySeconds: 3,
+  currentYear: 2025,
+  initialOrder: [1, 2, 3, 4],
+  lotteryFormat: { type: 'bounded-movement', maxMovement: 2 },
+  roundOrderMode: 'independent',
+};
+
+// "Lobos" is only a suggestion for Loco Lobos; the other names match exactly
+const csv = [
+  'Year,Round,Pick,Team,Original Position',
+  '2019,1,1,Operation BlackRhino,2',
+  '2019,1,2,Knockout Kings,1',
+  '2019,1,3,Lobos,3',
+  '2019,1,4,Buck Hunters,4',
+].join('\n');
+
+function importRequest(query: string, body: unknown) {
+  return {
+    request: new Request('http://localhost/api/lottery/import', {
+      method: 'POST',
+      body: JSON.stringify(body),
+    }),
+    url: new URL(`http://localhost/api/lottery/import${query}`),
+  } as any;
+}
+
+describe('[API] POST /api/lottery/import', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(Database.getConfig).mockResolvedValue(config);
+    vi.mocked(Database.getAllLotteries).mockResolvedValue([
+      { year: 2019, finalized: true } as DraftLottery,
+    ]);
+    vi.mocked(Database.saveLotteries).mockResolvedValue(undefined);
+  });
+
+  it('should preview the matches and years without saving', async () => {
+    const response = await POST(importRequest('?preview=true', { csv }));
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data.imported).toBe(false);
+    expect(data.years).toEqual([2019]);
+    expect(data.replacing).toEqual([2019]);
+    expect(data.errors).toEqual([]);
+    expect(data.matches[2]).toMatchObject({ name: 'Lobos', teamId: 'team-3', exact: false });
+    expect(Database.saveLotteries).not.toHaveBeenCalled();
+  });
+
+  it('should save the lotteries flagged as imported once every name has a team', async () => {
+    const response = await POST(importRequest('', { csv, teams: { Lobos: 'team-3' } }));
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data).toEqual({ imported: true, years: [2019], warnings: [] });
+
+    const [lotteries, override] = vi.mocked(Database.saveLotteries).mock.calls[0];
+    expect(override).toBe(false);
+    expect(lotteries[0]).toMatchObject({ year: 2019, imported: true, finalized: true });
+    expect(lotteries[0].picks[2]).toMatchObject({ teamId: 'team-3', movement: 0 });
+  });
+
+  it('should not use suggested teams that were not confirmed', async () => {
+    const response = await POST(importRequest('', { csv }));
+    const data = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(data.error).toBe('Invalid lotteries');
+    expect(data.errors).toEqual([{ field: 'teams', message: 'No team chosen for "Lobos"' }]);
+    expect(Database.saveLotteries).not.toHaveBeenCalled();
+  });
+
+  it('should return 400 for a missing or unreadable CSV', async () => {
+    const missing = await POST(importRequest('', {}));
+    expect(missing.status).toBe(400);
+    expect((await missing.json()).error).toBe('CSV text is required');
+
+    const invalid = await POST(importRequest('', { csv: 'Year,Team\n2019,Lobos' }));
+    const data = await invalid.json();
+    expect(invalid.status).toBe(400);
+    expect(data.error).toBe('Invalid CSV');
+    expect(data.errors[0]).toEqual({ field: 'header', message: 'Missing column: round' });
+  });
+
+  it('should return 409 when a finalized year would be replaced', async () => {
+    vi.mocked(Database.saveLotteries).mockRejectedValue(new LotteryFinalizedError(2019));
+
+    const response = await POST(importRequest('', { csv, teams: { Lobos: 'team-3' } }));
+    const data = await response.json();
+
+    expect(response.status).toBe(409);
+    expect(data.finalized).toBe(true);
+  });
+
+  it('should pass ?override=true through to the database', async () => {
+    await POST(importRequest('?override=true', { csv, teams: { Lobos: 'team-3' } }));
+
+    expect(vi.mocked(Database.saveLotteries).mock.calls[0][1]).toBe(true);
+  });
+
+  it('should return 500 when saving fails', async () => {
+    vi.mocked(Database.saveLotteries).mockRejectedValue(new Error('Disk full'));
+
+    const response = await POST(importRequest('', { csv, teams: { Lobos: 'team-3' } }));
+    const data = await response.json();
+
+    expect(response.status).toBe(500);
+    expect(data.error).toBe('Failed to import lotteries');
+  });
+});
@@ -1,9 +1,13 @@
 import { describe, it, expect, beforeEach, vi } from 'vitest';
 import { GET, POST } from '../../pages/api/lottery';
-import { Database } from '../database';
+import { Database, LotteryFinalizedError } from '../database';
+import { generateWeightedOdds } from '../league';
+import { runSeededLottery } from '../lottery';
+import type { DraftConfig, DraftPick } from '../../types';
 
 // Mock the Database module
-vi.mock('../database', () => ({
+vi.mock('../database', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../database')>()),
   Database: {
     getAllLotteries: vi.fn(),
     saveLottery: vi.fn(),
@@ -74,27 +78,26 @@ describe('[API] GET /api/lottery', () => {
 });
 
 describe('[API] POST /api/lottery', () => {
+  const mockConfig: DraftConfig = {
+    numberOfTeams: 10,
+    numberOfRounds: 5,
+    teams: Array.from({ length: 10 }, (_, i) => ({
+      id: `team-${i + 1}`,
+      name: `Team ${i + 1}`,
+      logoUrl: '',
+      logoType: 'url',
+    })),
+    weightedSystem: generateWeightedOdds(10),
+    pickDelaySeconds: 3,
+    currentYear: 2025,
+  };
   const mockLottery = {
-    id: 'lottery-2025',
-    year: 2025,
+    ...runSeededLottery(
+      mockConfig,
+      Array.from({ length: 10 }, (_, i) => i + 1),
+      'api-lottery-list'
+    ),
     date: new Date().toISOString(),
-    picks: [
-      {
-        round: 1,
-        pickNumber: 1,
-        teamId: 'team-1',
-        originalPosition: 1,
-        movement: 0,
-      },
-    ],
-    config: {
-      numberOfTeams: 10,
-      numberOfRounds: 5,
-      teams: [],
-      weightedSystem: [],
-      pickDelaySeconds: 3,
-      currentYear: 2025,
-    },
   };
 
   beforeEach(() => {
@@ -108,16 +111,46 @@ describe('[API] POST /api/lottery', () => {
       json: vi.fn().mockResolvedValue(mockLottery),
     };
 
-    const response = await POST({ request: mockRequest } as any);
+    const response = await POST({ request: mockRequest, url: new URL('http://localhost/api/lottery') } as any);
     const data = await response.json();
 
     expect(response.status).toBe(200);
     expect(response.headers.get('Content-Type')).toBe('application/json');
     expect(data).toEqual({ success: true });
-    expect(Database.saveLottery).toHaveBeenCalledWith(mockLottery);
+    expect(Database.saveLottery).toHaveBeenCalledWith(mockLottery, false);
     expect(mockRequest.json).toHaveBeenCalledTimes(1);
   });
 
+  it('should return 409 when the year is finalized', async () => {
+    vi.mocked(Database.saveLottery).mockRejectedValue(new LotteryFinalizedError(2025));
+
+    const mockRequest = {
+      json: vi.fn().mockResolvedValue(mockLottery),
+    };
+
+    const response = await POST({ request: mockRequest, url: new URL('http://localhost/api/lottery') } as any);
+    const data = await response.json();
+
+    expect(response.status).toBe(409);
+    expect(data).toEqual({ error: 'The 2025 lottery is finalized', finalized: true });
+  });
+
+  it('should pass the override flag through to the database', async () => {
+    vi.mocked(Database.saveLottery).mockResolvedValue(undefined);
+
+    const mockRequest = {
+      json: vi.fn().mockResolvedValue(mockLottery),
+    };
+
+    const response = await POST({
+      request: mockRequest,
+      url: new URL('http://localhost/api/lottery?override=true'),
+    } as any);
+
+    expect(response.status).toBe(200);
+    expect(Database.saveLottery).toHaveBeenCalledWith(mockLottery, true);
+  });
+
   it('should return 500 when database save fails', async () => {
     vi.mocked(Database.saveLottery).mockRejectedValue(new Error('Save failed'));
 
@@ -125,7 +158,7 @@ describe('[API] POST /api/lottery', () => {
       json: vi.fn().mockResolvedValue(mockLottery),
     };
 
-    const response = await POST({ request: mockRequest } as any);
+    const response = await POST({ request: mockRequest, url: new URL('http://localhost/api/lottery') } as any);
     const data = await response.json();
 
     expect(response.status).toBe(500);
@@ -137,7 +170,7 @@ describe('[API] POST /api/lottery', () => {
       json: vi.fn().mockRejectedValue(new Error('Invalid JSON')),
     };
 
-    const response = await POST({ request: mockRequest } as any);
+    const response = await POST({ request: mockRequest, url: new URL('http://localhost/api/lottery') } as any);
     const data = await response.json();
 
     expect(response.status).toBe(500);
@@ -145,20 +178,92 @@ describe('[API] POST /api/lottery', () => {
     expect(Database.saveLottery).not.toHaveBeenCalled();
   });
 
-  it('should handle empty picks array', async () => {
-    vi.mocked(Database.saveLottery).mockResolvedValue(undefined);
+  it('should return 400 with field errors for an invalid lottery', async () => {
+    const mockRequest = {
+      json: vi.fn().mockResolvedValue({ ...mockLottery, year: 'next year' }),
+    };
 
+    const response = await POST({ request: mockRequest, url: new URL('http://localhost/api/lottery') } as any);
+    const data = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(data).toEqual({
+      error: 'Invalid lottery',
+      errors: [{ field: 'year', message: 'Year must be a whole number' }],
+    });
+    expect(Database.saveLottery).not.toHaveBeenCalled();
+  });
+
+  it('should reject a lottery without picks', async () => {
     const lotteryWithNoPicks = { ...mockLottery, picks: [] };
     const mockRequest = {
       json: vi.fn().mockResolvedValue(lotteryWithNoPicks),
     };
 
-    const response = await POST({ request: mockRequest } as any);
+    const response = await POST({ request: mockRequest, url: new URL('http://localhost/api/lottery') } as any);
     const data = await response.json();
 
-    expect(response.status).toBe(200);
-    expect(data).toEqual({ success: true });
-    expect(Database.saveLottery).toHaveBeenCalledWith(lotteryWithNoPicks);
+    expect(response.status).toBe(422);
+    expect(data.error).toBe('Lottery results failed validation');
+    expect(data.errors).toContainEqual({ field: 'picks', message: 'Round 1 has no picks' });
+    expect(Database.saveLottery).not.toHaveBeenCalled();
+  });
+
+  it('should return 422 when movement does not match the pick', async () => {
+    const picks: DraftPick[] = mockLottery.picks.map((pick, index) =>
+      index === 0 ? { ...pick, movement: pick.movement + 1 } : pick
+    );
+    const mockRequest = {
+      json: vi.fn().mockResolvedValue({ ...mockLottery, picks }),
+    };
+
+    const response = await POST({ request: mockRequest, url: new URL('http://localhost/api/lottery') } as any);
+    const data = await response.json();
+
+    expect(response.status).toBe(422);
+    expect(data.errors.map((error: { field: string }) => error.field)).toEqual([
+      'picks[0].movement',
+    ]);
+  });
+
+  it('should return 422 when a round is not a permutation', async () => {
+    const picks = mockLottery.picks.filter(
+      (pick) => !(pick.round === 2 && pick.pickNumber === 10)
+    );
+    const mockRequest = {
+      json: vi.fn().mockResolvedValue({ ...mockLottery, picks }),
+    };
+
+    const response = await POST({ request: mockRequest, url: new URL('http://localhost/api/lottery') } as any);
+    const data = await response.json();
+
+    expect(response.status).toBe(422);
+    expect(data.errors).toContainEqual({
+      field: 'picks',
+      message: 'Round 2 pick numbers must be 1 to 10, each once',
+    });
+  });
+
+  it('should accept snake and third-round-reversal lotteries', async () => {
+    vi.mocked(Database.saveLottery).mockResolvedValue(undefined);
+    const initialOrder = [3, 1, 4, 10, 5, 9, 2, 6, 8, 7];
+
+    for (const roundOrderMode of ['snake', 'third-round-reversal'] as const) {
+      const lottery = runSeededLottery(
+        { ...mockConfig, roundOrderMode, initialOrder },
+        initialOrder,
+        `api-lottery-list-${roundOrderMode}`
+      );
+      const mockRequest = {
+        json: vi.fn().mockResolvedValue(lottery),
+      };
+
+      const response = await POST({ request: mockRequest, url: new URL('http://localhost/api/lottery') } as any);
+      const data = await response.json();
+
+      expect(data).toEqual({ success: true });
+      expect(response.status).toBe(200);
+    }
   });
 
   it('should have correct content-type header on success', async () => {
@@ -168,7 +273,7 @@ describe('[API] POST /api/lottery', () => {
       json: vi.fn().mockResolvedValue(mockLottery),
     };
 
-    const response = await POST({ request: mockRequest } as any);
+    const response = await POST({ request: mockRequest, url: new URL('http://localhost/api/lottery') } as any);
 
     expect(response.headers.get('Content-Type')).toBe('application/json');
   });
@@ -180,7 +285,7 @@ describe('[API] POST /api/lottery', () => {
       json: vi.fn().mockResolvedValue(mockLottery),
     };
 
-    const response = await POST({ request: mockRequest } as any);
+    const response = await POST({ request: mockRequest, url: new URL('http://localhost/api/lottery') } as any);
 
     expect(response.headers.get('Content-Type')).toBe('application/json');
   });
@@ -0,0 +1,287 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { GET, POST } from '../../pages/api/lottery/live';
+import { Database } from '../database';
+import { liveBroadcast } from '../live';
+import type { DraftConfig, DraftLottery, LiveSession } from '../../types';
+
+// Mock the Database module
+vi.mock('../database', () => ({
+  Database: {
+    getPendingLottery: vi.fn(),
+    getLiveSession: vi.fn(),
+    recordReveal: vi.fn(),
+  },
+}));
+
+const mockConfig: DraftConfig = {
+  numberOfTeams: 4,
+  numberOfRounds: 1,
+  teams: [
+    { id: 'team-1', name: 'Team 1', logoUrl: '', logoType: 'url' },
+    { id: 'team-2', name: 'Team 2', logoUrl: '', logoType: 'url' },
+    { id: 'team-3', name: 'Team 3', logoUrl: '', logoType: 'url' },
+    { id: 'team-4', name: 'Team 4', logoUrl: '', logoType: 'url' },
+  ],
+  weightedSystem: [
+    { position: 4, percentage: 40.0 },
+    { position: 3, percentage: 30.0 },
+    { position: 2, percentage: 20.0 },
+    { position: 1, percentage: 10.0 },
+  ],
+  pickDelaySeconds: 3,
+  currentYear: 2025,
+};
+
+const pending: DraftLottery = {
+  id: 'lottery-2025',
+  year: 2025,
+  date: '2025-06-15T12:00:00.000Z',
+  picks: [
+    { round: 1, pickNumber: 1, teamId: 'team-4', originalPosition: 4, movement: -3 },
+    { round: 1, pickNumber: 2, teamId: 'team-3', originalPosition: 3, movement: -1 },
+    { round: 1, pickNumber: 3, teamId: 'team-1', originalPosition: 1, movement: 2 },
+    { round: 1, pickNumber: 4, teamId: 'team-2', originalPosition: 2, movement: 2 },
+  ],
+  config: mockConfig,
+};
+
+function session(revealed: LiveSession['revealed']): LiveSession {
+  return {
+    lotteryId: 'lottery-2025',
+    revealed,
+    startedAt: '2025-06-15T12:00:00.000Z',
+    updatedAt: '2025-06-15T12:05:00.000Z',
+  };
+}
+
+function watchRequest() {
+  return { request: new Request('http://localhost/api/lottery/live') } as any;
+}
+
+function pickBody(round: number, pickNumber: number, lotteryId = 'lottery-2025') {
+  return { lotteryId, round, pickNumber };
+}
+
+function revealRequest(body: unknown) {
+  return {
+    request: new Request('http://localhost/api/lottery/live', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    }),
+  } as any;
+}
+
+async function readEvent(reader: ReadableStreamDefaultReader<Uint8Array>) {
+  const { value } = await reader.read();
+  const text = new TextDecoder().decode(value);
+  const [eventLine, dataLine] = text.split('\n');
+  return { name: eventLine.replace('event: ', ''), data: JSON.parse(dataLine.slice(6)) };
+}
+
+describe('[API] GET /api/lottery/live', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    liveBroadcast.start(pending);
+    vi.mocked(Database.getLiveSession).mockResolvedValue(undefined);
+  });
+
+  it('should open an event stream', async () => {
+    const response = await GET(watchRequest());
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('Content-Type')).toBe('text/event-stream');
+    expect(response.headers.get('Cache-Control')).toBe('no-cache');
+    await response.body?.cancel();
+  });
+
+  it('should catch late joiners up on the reveals so far', async () => {
+    liveBroadcast.reveal(pending.picks[0]);
+    liveBroadcast.reveal(pending.picks[1]);
+
+    const response = await GET(watchRequest());
+    const reader = response.body!.getReader();
+    const event = await readEvent(reader);
+
+    expect(event.name).toBe('state');
+    expect(event.data.state.lotteryId).toBe('lottery-2025');
+    expect(event.data.state.reveals).toEqual([pending.picks[0], pending.picks[1]]);
+    await reader.cancel();
+  });
+
+  it('should restore the reveals from the saved session after a restart', async () => {
+    liveBroadcast.reset();
+    vi.mocked(Database.getLiveSession).mockResolvedValue({
+      lottery: pending,
+      session: session([
+        { round: 1, pickNumber: 1 },
+        { round: 1, pickNumber: 2 },
+      ]),
+    });
+
+    const response = await GET(watchRequest());
+    const reader = response.body!.getReader();
+    const event = await readEvent(reader);
+
+    expect(event.data.state.lotteryId).toBe('lottery-2025');
+    expect(event.data.state.reveals).toEqual([pending.picks[0], pending.picks[1]]);
+    await reader.cancel();
+  });
+
+  it('should still stream when the saved session cannot be read', async () => {
+    vi.mocked(Database.getLiveSession).mockRejectedValue(new Error('Read failed'));
+
+    const response = await GET(watchRequest());
+
+    expect(response.status).toBe(200);
+    await response.body?.cancel();
+  });
+
+  it('should relay reveals as they happen', async () => {
+    const response = await GET(watchRequest());
+    const reader = response.body!.getReader();
+    await readEvent(reader);
+
+    liveBroadcast.reveal(pending.picks[0]);
+    const event = await readEvent(reader);
+
+    expect(event).toEqual({ name: 'reveal', data: { type: 'reveal', pick: pending.picks[0] } });
+    await reader.cancel();
+  });
+
+  it('should stop sending once the watcher disconnects', async () => {
+    const before = liveBroadcast.watcherCount;
+    const response = await GET(watchRequest());
+    const reader = response.body!.getReader();
+    await readEvent(reader);
+    expect(liveBroadcast.watcherCount).toBe(before + 1);
+
+    await reader.cancel();
+
+    expect(liveBroadcast.watcherCount).toBe(before);
+  });
+});
+
+describe('[API] POST /api/lottery/live', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    liveBroadcast.start(pending);
+    vi.mocked(Database.getPendingLottery).mockResolvedValue(pending);
+    vi.mocked(Database.recordReveal).mockImplementation(async (lotteryId, round, pickNumber) =>
+      session([{ round, pickNumber }])
+    );
+  });
+
+  it('should save the reveal to the live session', async () => {
+    await POST(revealRequest(pickBody(1, 2)));
+
+    expect(Database.recordReveal).toHaveBeenCalledWith('lottery-2025', 1, 2);
+  });
+
+  it('should broadcast the pick from the pending lottery', async () => {
+    const listener = vi.fn();
+    const unsubscribe = liveBroadcast.subscribe(listener);
+
+    const response = await POST(revealRequest(pickBody(1, 1)));
+    const data = await response.json();
+    unsubscribe();
+
+    expect(response.status).toBe(200);
+    expect(data.revealed).toBe(1);
+    expect(listener).toHaveBeenCalledWith({ type: 'reveal', pick: pending.picks[0] });
+  });
+
+  it('should not broadcast the same pick twice', async () => {
+    await POST(revealRequest(pickBody(1, 1)));
+    const listener = vi.fn();
+    const unsubscribe = liveBroadcast.subscribe(listener);
+
+    const response = await POST(revealRequest(pickBody(1, 1)));
+    unsubscribe();
+
+    expect(response.status).toBe(200);
+    expect(listener).not.toHaveBeenCalled();
+    expect(liveBroadcast.getState().reveals).toEqual([pending.picks[0]]);
+  });
+
+  it('should pick the lottery back up from its session after a server restart', async () => {
+    liveBroadcast.start({ ...pending, id: 'lottery-older' });
+    vi.mocked(Database.recordReveal).mockResolvedValue(
+      session([
+        { round: 1, pickNumber: 1 },
+        { round: 1, pickNumber: 2 },
+      ])
+    );
+
+    const response = await POST(revealRequest(pickBody(1, 2)));
+    const data = await response.json();
+
+    expect(data.revealed).toBe(2);
+    expect(liveBroadcast.getState().lotteryId).toBe('lottery-2025');
+    expect(liveBroadcast.getState().reveals).toEqual([pending.picks[0], pending.picks[1]]);
+  });
+
+  it('should return 409 when the lottery was replaced while saving the reveal', async () => {
+    vi.mocked(Database.recordReveal).mockResolvedValue(undefined);
+
+    const response = await POST(revealRequest(pickBody(1, 1)));
+
+    expect(response.status).toBe(409);
+    expect(liveBroadcast.getState().reveals).toEqual([]);
+  });
+
+  it('should return 400 without a lottery id, round and pick number', async () => {
+    const response = await POST(revealRequest({ round: 1 }));
+    const data = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(data.error).toBe('lotteryId, round and pickNumber are required');
+  });
+
+  it('should return 400 for a pick the lottery does not have', async () => {
+    const response = await POST(revealRequest(pickBody(2, 1)));
+    const data = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(data.error).toBe('No pick 2.1 in this lottery');
+    expect(Database.recordReveal).not.toHaveBeenCalled();
+  });
+
+  it('should return 404 when no lottery is in progress', async () => {
+    vi.mocked(Database.getPendingLottery).mockResolvedValue(undefined);
+
+    const response = await POST(revealRequest(pickBody(1, 1)));
+
+    expect(response.status).toBe(404);
+  });
+
+  it('should return 409 for a different lottery than the one in progress', async () => {
+    const response = await POST(revealRequest(pickBody(1, 1, 'lottery-2024')));
+    const data = await response.json();
+
+    expect(response.status).toBe(409);
+    expect(data.error).toBe('A different lottery is in progress');
+  });
+
+  it('should refuse reveals from a tab still showing an earlier draw of the year', async () => {
+    const redraw = { ...pending, id: 'lottery-2025-redraw' };
+    vi.mocked(Database.getPendingLottery).mockResolvedValue(redraw);
+    liveBroadcast.start(redraw);
+
+    const response = await POST(revealRequest(pickBody(1, 1)));
+
+    expect(response.status).toBe(409);
+    expect(Database.recordReveal).not.toHaveBeenCalled();
+    expect(liveBroadcast.getState().reveals).toEqual([]);
+  });
+
+  it('should return 500 when the pending lottery cannot be read', async () => {
+    vi.mocked(Database.getPendingLottery).mockRejectedValue(new Error('Read failed'));
+
+    const response = await POST(revealRequest(pickBody(1, 1)));
+    const data = await response.json();
+
+    expect(response.status).toBe(500);
+    expect(data).toEqual({ error: 'Failed to broadcast reveal' });
+  });
+});
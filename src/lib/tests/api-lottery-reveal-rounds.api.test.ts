@@ -0,0 +1,177 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { POST } from '../../pages/api/lottery/reveal-rounds';
+import { Database } from '../database';
+import { liveBroadcast } from '../live';
+import type { DraftConfig, DraftLottery, LiveSession } from '../../types';
+
+// Mock the Database module
+vi.mock('../database', () => ({
+  Database: {
+    getPendingLottery: vi.fn(),
+    recordReveals: vi.fn(),
+  },
+}));
+
+const mockConfig: DraftConfig = {
+  numberOfTeams: 2,
+  numberOfRounds: 3,
+  teams: [
+    { id: 'team-1', name: 'Team 1', logoUrl: '', logoType: 'url' },
+    { id: 'team-2', name: 'Team 2', logoUrl: '', logoType: 'url' },
+  ],
+  weightedSystem: [
+    { position: 2, percentage: 60.0 },
+    { position: 1, percentage: 40.0 },
+  ],
+  pickDelaySeconds: 3,
+  currentYear: 2025,
+  animatedRounds: [1],
+};
+
+const pending: DraftLottery = {
+  id: 'lottery-2025',
+  year: 2025,
+  date: '2025-06-15T12:00:00.000Z',
+  picks: [
+    { round: 1, pickNumber: 1, teamId: 'team-2', originalPosition: 2, movement: -1 },
+    { round: 1, pickNumber: 2, teamId: 'team-1', originalPosition: 1, movement: 1 },
+    { round: 2, pickNumber: 2, teamId: 'team-2', originalPosition: 2, movement: 0 },
+    { round: 2, pickNumber: 1, teamId: 'team-1', originalPosition: 1, movement: 0 },
+    { round: 3, pickNumber: 1, teamId: 'team-2', originalPosition: 2, movement: -1 },
+    { round: 3, pickNumber: 2, teamId: 'team-1', originalPosition: 1, movement: 1 },
+  ],
+  config: mockConfig,
+};
+
+function session(revealed: LiveSession['revealed']): LiveSession {
+  return {
+    lotteryId: 'lottery-2025',
+    revealed,
+    startedAt: '2025-06-15T12:00:00.000Z',
+    updatedAt: '2025-06-15T12:05:00.000Z',
+  };
+}
+
+function roundsRequest(body: unknown) {
+  return {
+    request: new Request('http://localhost/api/lottery/reveal-rounds', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    }),
+  } as any;
+}
+
+describe('[API] POST /api/lottery/reveal-rounds', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    liveBroadcast.start(pending);
+    vi.mocked(Database.getPendingLottery).mockResolvedValue(pending);
+    vi.mocked(Database.recordReveals).mockImplementation(async (lotteryId, picks) =>
+      session(picks)
+    );
+  });
+
+  it('should save every pick of the rounds to the live session', async () => {
+    const response = await POST(roundsRequest({ lotteryId: 'lottery-2025', rounds: [3, 2] }));
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data.revealed).toBe(4);
+    expect(Database.recordReveals).toHaveBeenCalledWith('lottery-2025', [
+      { round: 2, pickNumber: 1 },
+      { round: 2, pickNumber: 2 },
+      { round: 3, pickNumber: 1 },
+      { round: 3, pickNumber: 2 },
+    ]);
+  });
+
+  it('should send the picks to watchers in one event', async () => {
+    const listener = vi.fn();
+    const unsubscribe = liveBroadcast.subscribe(listener);
+
+    await POST(roundsRequest({ lotteryId: 'lottery-2025', rounds: [2] }));
+    unsubscribe();
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledWith({
+      type: 'reveals',
+      picks: [pending.picks[3], pending.picks[2]],
+    });
+  });
+
+  it('should leave picks that were already revealed as they are', async () => {
+    liveBroadcast.reveal(pending.picks[0]);
+    const listener = vi.fn();
+    const unsubscribe = liveBroadcast.subscribe(listener);
+
+    await POST(roundsRequest({ lotteryId: 'lottery-2025', rounds: [1] }));
+    unsubscribe();
+
+    expect(listener).toHaveBeenCalledWith({ type: 'reveals', picks: [pending.picks[1]] });
+    expect(liveBroadcast.getState().reveals).toEqual([pending.picks[0], pending.picks[1]]);
+  });
+
+  it('should pick the lottery back up from its session after a server restart', async () => {
+    liveBroadcast.reset();
+
+    await POST(roundsRequest({ lotteryId: 'lottery-2025', rounds: [1] }));
+
+    expect(liveBroadcast.getState().lotteryId).toBe('lottery-2025');
+    expect(liveBroadcast.getState().reveals).toEqual([pending.picks[0], pending.picks[1]]);
+  });
+
+  it('should return 400 without a lottery id and rounds', async () => {
+    for (const body of [{ rounds: [1] }, { lotteryId: 'lottery-2025', rounds: [] }]) {
+      const response = await POST(roundsRequest(body));
+      const data = await response.json();
+
+      expect(response.status).toBe(400);
+      expect(data.error).toBe('lotteryId and rounds are required');
+    }
+  });
+
+  it('should return 400 for a round the lottery does not have', async () => {
+    const response = await POST(roundsRequest({ lotteryId: 'lottery-2025', rounds: [2, 4] }));
+    const data = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(data.error).toBe('No round 4 in this lottery');
+    expect(Database.recordReveals).not.toHaveBeenCalled();
+  });
+
+  it('should return 404 when no lottery is in progress', async () => {
+    vi.mocked(Database.getPendingLottery).mockResolvedValue(undefined);
+
+    const response = await POST(roundsRequest({ lotteryId: 'lottery-2025', rounds: [1] }));
+
+    expect(response.status).toBe(404);
+  });
+
+  it('should return 409 for a different lottery than the one in progress', async () => {
+    const response = await POST(roundsRequest({ lotteryId: 'lottery-2024', rounds: [1] }));
+    const data = await response.json();
+
+    expect(response.status).toBe(409);
+    expect(data.error).toBe('A different lottery is in progress');
+  });
+
+  it('should return 409 when the lottery was replaced while saving the reveals', async () => {
+    vi.mocked(Database.recordReveals).mockResolvedValue(undefined);
+
+    const response = await POST(roundsRequest({ lotteryId: 'lottery-2025', rounds: [1] }));
+
+    expect(response.status).toBe(409);
+    expect(liveBroadcast.getState().reveals).toEqual([]);
+  });
+
+  it('should return 500 when the pending lottery cannot be read', async () => {
+    vi.mocked(Database.getPendingLottery).mockRejectedValue(new Error('Read failed'));
+
+    const response = await POST(roundsRequest({ lotteryId: 'lottery-2025', rounds: [1] }));
+    const data = await response.json();
+
+    expect(response.status).toBe(500);
+    expect(data).toEqual({ error: 'Failed to reveal rounds' });
+  });
+});
@@ -0,0 +1,225 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { POST as RUN } from '../../pages/api/lottery/run';
+import { POST as CONFIRM } from '../../pages/api/lottery/confirm';
+import { Database, LotteryFinalizedError } from '../database';
+import { LOTTERY_ALGORITHM_VERSION, verifyLottery } from '../lottery';
+import type { DraftConfig, DraftLottery, DraftPick } from '../../types';
+
+// Mock the Database module
+vi.mock('../database', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../database')>()),
+  Database: {
+    getConfig: vi.fn(),
+    savePendingLottery: vi.fn(),
+    confirmPendingLottery: vi.fn(),
+    getPickOwnership: vi.fn(),
+  },
+}));
+
+const mockConfig: DraftConfig = {
+  numberOfTeams: 4,
+  numberOfRounds: 2,
+  teams: [
+    { id: 'team-1', name: 'Team 1', logoUrl: '', logoType: 'url' },
+    { id: 'team-2', name: 'Team 2', logoUrl: '', logoType: 'url' },
+    { id: 'team-3', name: 'Team 3', logoUrl: '', logoType: 'url' },
+    { id: 'team-4', name: 'Team 4', logoUrl: '', logoType: 'url' },
+  ],
+  weightedSystem: [
+    { position: 4, percentage: 40.0 },
+    { position: 3, percentage: 30.0 },
+    { position: 2, percentage: 20.0 },
+    { position: 1, percentage: 10.0 },
+  ],
+  pickDelaySeconds: 3,
+  currentYear: 2025,
+  initialOrder: [2, 1, 4, 3],
+};
+
+describe('[API] POST /api/lottery/run', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(Database.getPickOwnership).mockResolvedValue([]);
+  });
+
+  it('should draw from the saved initial order and store a pending lottery', async () => {
+    vi.mocked(Database.getConfig).mockResolvedValue(mockConfig);
+    vi.mocked(Database.savePendingLottery).mockResolvedValue(undefined);
+
+    const response = await RUN({} as any);
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(Database.savePendingLottery).toHaveBeenCalledTimes(1);
+
+    const pending = vi.mocked(Database.savePendingLottery).mock.calls[0][0] as DraftLottery;
+    expect(pending.year).toBe(2025);
+    expect(pending.initialOrder).toEqual([2, 1, 4, 3]);
+    expect(pending.algorithmVersion).toBe(LOTTERY_ALGORITHM_VERSION);
+    expect(pending.seed).toBeTruthy();
+    expect(verifyLottery(pending).valid).toBe(true);
+
+    expect(data).toEqual({
+      id: pending.id,
+      year: 2025,
+      reveal: pending.picks,
+      headToHead: false,
+      animatedRounds: [1, 2],
+    });
+  });
+
+  it('should give traded picks to their owners without changing the draw', async () => {
+    vi.mocked(Database.getConfig).mockResolvedValue(mockConfig);
+    vi.mocked(Database.savePendingLottery).mockResolvedValue(undefined);
+    vi.mocked(Database.getPickOwnership).mockResolvedValue([
+      { year: 2025, round: 2, originalTeamId: 'team-4', ownerTeamId: 'team-1' },
+    ]);
+
+    await RUN({} as any);
+
+    const pending = vi.mocked(Database.savePendingLottery).mock.calls[0][0] as DraftLottery;
+    const traded = pending.picks.find((pick) => pick.round === 2 && pick.teamId === 'team-4');
+    const untraded = pending.picks.find((pick) => pick.round === 1 && pick.teamId === 'team-4');
+
+    expect(Database.getPickOwnership).toHaveBeenCalledWith(2025);
+    expect(traded?.ownerTeamId).toBe('team-1');
+    expect(untraded?.ownerTeamId).toBeUndefined();
+    expect(verifyLottery(pending).valid).toBe(true);
+  });
+
+  it('should send the picks in the configured reveal order', async () => {
+    vi.mocked(Database.getConfig).mockResolvedValue({
+      ...mockConfig,
+      revealOrder: 'last-to-first',
+      headToHeadReveal: true,
+    });
+    vi.mocked(Database.savePendingLottery).mockResolvedValue(undefined);
+
+    const response = await RUN({} as any);
+    const data = await response.json();
+
+    expect(data.headToHead).toBe(true);
+    expect(data.reveal.map((pick: DraftPick) => `${pick.round}.${pick.pickNumber}`)).toEqual([
+      '1.4',
+      '1.3',
+      '1.2',
+      '1.1',
+      '2.4',
+      '2.3',
+      '2.2',
+      '2.1',
+    ]);
+  });
+
+  it('should send the rounds that are revealed card by card', async () => {
+    vi.mocked(Database.getConfig).mockResolvedValue({ ...mockConfig, animatedRounds: [1] });
+    vi.mocked(Database.savePendingLottery).mockResolvedValue(undefined);
+
+    const response = await RUN({} as any);
+    const data = await response.json();
+
+    expect(data.animatedRounds).toEqual([1]);
+    expect(data.reveal).toHaveLength(8);
+  });
+
+  it('should not expose the seed to the browser', async () => {
+    vi.mocked(Database.getConfig).mockResolvedValue(mockConfig);
+    vi.mocked(Database.savePendingLottery).mockResolvedValue(undefined);
+
+    const response = await RUN({} as any);
+    const data = await response.json();
+
+    expect(data).not.toHaveProperty('seed');
+  });
+
+  it('should fall back to the default order when none is saved', async () => {
+    vi.mocked(Database.getConfig).mockResolvedValue({ ...mockConfig, initialOrder: undefined });
+    vi.mocked(Database.savePendingLottery).mockResolvedValue(undefined);
+
+    await RUN({} as any);
+
+    const pending = vi.mocked(Database.savePendingLottery).mock.calls[0][0] as DraftLottery;
+    expect(pending.initialOrder).toEqual([1, 2, 3, 4]);
+  });
+
+  it('should return 500 when the draw cannot be stored', async () => {
+    vi.mocked(Database.getConfig).mockResolvedValue(mockConfig);
+    vi.mocked(Database.savePendingLottery).mockRejectedValue(new Error('Write failed'));
+
+    const response = await RUN({} as any);
+    const data = await response.json();
+
+    expect(response.status).toBe(500);
+    expect(data).toEqual({ error: 'Failed to run lottery' });
+  });
+});
+
+describe('[API] POST /api/lottery/confirm', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should confirm the pending lottery', async () => {
+    vi.mocked(Database.confirmPendingLottery).mockResolvedValue({
+      id: 'lottery-2025',
+      year: 2025,
+      date: '2025-06-15T23:00:00.000Z',
+      picks: [],
+      config: mockConfig,
+    });
+
+    const response = await CONFIRM({ url: new URL('http://localhost/api/lottery/confirm') } as any);
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data).toEqual({ success: true, year: 2025 });
+  });
+
+  it('should return 404 when there is nothing to confirm', async () => {
+    vi.mocked(Database.confirmPendingLottery).mockResolvedValue(undefined);
+
+    const response = await CONFIRM({ url: new URL('http://localhost/api/lottery/confirm') } as any);
+    const data = await response.json();
+
+    expect(response.status).toBe(404);
+    expect(data).toEqual({ error: 'No pending lottery to confirm' });
+  });
+
+  it('should return 409 when the year is already finalized', async () => {
+    vi.mocked(Database.confirmPendingLottery).mockRejectedValue(new LotteryFinalizedError(2025));
+
+    const response = await CONFIRM({ url: new URL('http://localhost/api/lottery/confirm') } as any);
+    const data = await response.json();
+
+    expect(response.status).toBe(409);
+    expect(data).toEqual({ error: 'The 2025 lottery is finalized', finalized: true });
+    expect(Database.confirmPendingLottery).toHaveBeenCalledWith(false);
+  });
+
+  it('should confirm over a finalized year with the override flag', async () => {
+    vi.mocked(Database.confirmPendingLottery).mockResolvedValue({
+      id: 'lottery-2025',
+      year: 2025,
+      date: '2025-06-15T23:00:00.000Z',
+      picks: [],
+      config: mockConfig,
+    });
+
+    const response = await CONFIRM({
+      url: new URL('http://localhost/api/lottery/confirm?override=true'),
+    } as any);
+
+    expect(response.status).toBe(200);
+    expect(Database.confirmPendingLottery).toHaveBeenCalledWith(true);
+  });
+
+  it('should return 500 when confirming fails', async () => {
+    vi.mocked(Database.confirmPendingLottery).mockRejectedValue(new Error('Write failed'));
+
+    const response = await CONFIRM({ url: new URL('http://localhost/api/lottery/confirm') } as any);
+    const data = await response.json();
+
+    expect(response.status).toBe(500);
+    expect(data).toEqual({ error: 'Failed to confirm lottery' });
+  });
+});
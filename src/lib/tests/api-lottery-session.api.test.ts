@@ -0,0 +1,169 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { DELETE, GET } from '../../pages/api/lottery/session';
+import { Database } from '../database';
+import { liveBroadcast } from '../live';
+import type { DraftConfig, DraftLottery, LiveSession } from '../../types';
+
+// Mock the Database module
+vi.mock('../database', () => ({
+  Database: {
+    getLiveSession: vi.fn(),
+    discardPendingLottery: vi.fn(),
+  },
+}));
+
+const mockConfig: DraftConfig = {
+  numberOfTeams: 2,
+  numberOfRounds: 2,
+  teams: [
+    { id: 'team-1', name: 'Team 1', logoUrl: '', logoType: 'url' },
+    { id: 'team-2', name: 'Team 2', logoUrl: '', logoType: 'url' },
+  ],
+  weightedSystem: [
+    { position: 2, percentage: 60.0 },
+    { position: 1, percentage: 40.0 },
+  ],
+  pickDelaySeconds: 3,
+  currentYear: 2025,
+};
+
+const pending: DraftLottery = {
+  id: 'lottery-2025',
+  year: 2025,
+  date: '2025-06-15T12:00:00.000Z',
+  picks: [
+    { round: 1, pickNumber: 1, teamId: 'team-2', originalPosition: 2, movement: -1 },
+    { round: 1, pickNumber: 2, teamId: 'team-1', originalPosition: 1, movement: 1 },
+    { round: 2, pickNumber: 1, teamId: 'team-1', originalPosition: 1, movement: 0 },
+    { round: 2, pickNumber: 2, teamId: 'team-2', originalPosition: 2, movement: 0 },
+  ],
+  config: mockConfig,
+  seed: 'secret-seed',
+};
+
+const session: LiveSession = {
+  lotteryId: 'lottery-2025',
+  revealed: [
+    { round: 1, pickNumber: 1 },
+    { round: 1, pickNumber: 2 },
+    { round: 2, pickNumber: 1 },
+  ],
+  startedAt: '2025-06-15T12:00:00.000Z',
+  updatedAt: '2025-06-15T12:05:00.000Z',
+};
+
+describe('[API] GET /api/lottery/session', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should return the draw with the saved round and pick to resume at', async () => {
+    vi.mocked(Database.getLiveSession).mockResolvedValue({ lottery: pending, session });
+
+    const response = await GET({} as any);
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data).toEqual({
+      id: 'lottery-2025',
+      year: 2025,
+      reveal: pending.picks,
+      headToHead: false,
+      animatedRounds: [1, 2],
+      revealed: session.revealed,
+      cursor: { round: 2, revealedInRound: 1, complete: false },
+      startedAt: session.startedAt,
+      updatedAt: session.updatedAt,
+    });
+  });
+
+  it('should send the picks in the order they are revealed', async () => {
+    vi.mocked(Database.getLiveSession).mockResolvedValue({
+      lottery: { ...pending, config: { ...mockConfig, revealOrder: 'last-to-first' } },
+      session,
+    });
+
+    const response = await GET({} as any);
+    const data = await response.json();
+
+    const [first, second, third, fourth] = pending.picks;
+    expect(data.reveal).toEqual([second, first, fourth, third]);
+  });
+
+  it('should send the rounds the lottery animates', async () => {
+    vi.mocked(Database.getLiveSession).mockResolvedValue({
+      lottery: { ...pending, config: { ...mockConfig, animatedRounds: [2] } },
+      session,
+    });
+
+    const response = await GET({} as any);
+    const data = await response.json();
+
+    expect(data.animatedRounds).toEqual([2]);
+  });
+
+  it('should not expose the seed', async () => {
+    vi.mocked(Database.getLiveSession).mockResolvedValue({ lottery: pending, session });
+
+    const response = await GET({} as any);
+    const data = await response.json();
+
+    expect(data).not.toHaveProperty('seed');
+  });
+
+  it('should return 404 when no lottery is in progress', async () => {
+    vi.mocked(Database.getLiveSession).mockResolvedValue(undefined);
+
+    const response = await GET({} as any);
+    const data = await response.json();
+
+    expect(response.status).toBe(404);
+    expect(data).toEqual({ error: 'No lottery in progress' });
+  });
+
+  it('should return 500 when the session cannot be read', async () => {
+    vi.mocked(Database.getLiveSession).mockRejectedValue(new Error('Read failed'));
+
+    const response = await GET({} as any);
+    const data = await response.json();
+
+    expect(response.status).toBe(500);
+    expect(data).toEqual({ error: 'Failed to fetch live session' });
+  });
+});
+
+describe('[API] DELETE /api/lottery/session', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should discard the lottery and send watchers back to waiting', async () => {
+    vi.mocked(Database.discardPendingLottery).mockResolvedValue(true);
+    liveBroadcast.start(pending, [pending.picks[0]]);
+
+    const response = await DELETE({} as any);
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data).toEqual({ success: true });
+    expect(liveBroadcast.getState()).toEqual({ reveals: [], complete: false });
+  });
+
+  it('should return 404 when there is nothing to discard', async () => {
+    vi.mocked(Database.discardPendingLottery).mockResolvedValue(false);
+
+    const response = await DELETE({} as any);
+
+    expect(response.status).toBe(404);
+  });
+
+  it('should return 500 when the lottery cannot be discarded', async () => {
+    vi.mocked(Database.discardPendingLottery).mockRejectedValue(new Error('Write failed'));
+
+    const response = await DELETE({} as any);
+    const data = await response.json();
+
+    expect(response.status).toBe(500);
+    expect(data).toEqual({ error: 'Failed to discard lottery' });
+  });
+});
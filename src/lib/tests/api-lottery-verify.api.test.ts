@@ -0,0 +1,111 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { GET } from '../../pages/api/lottery/[year]/verify';
+import { Database } from '../database';
+import { LOTTERY_ALGORITHM_VERSION, runCompleteLottery } from '../lottery';
+import { createSeededRng } from '../rng';
+import type { DraftConfig, DraftLottery } from '../../types';
+
+// Mock the Database module
+vi.mock('../database', () => ({
+  Database: {
+    getLotteryByYear: vi.fn(),
+  },
+}));
+
+describe('[API] GET /api/lottery/[year]/verify', () => {
+  const config: DraftConfig = {
+    numberOfTeams: 4,
+    numberOfRounds: 2,
+    teams: [
+      { id: 'team-1', name: 'Team 1', logoUrl: '', logoType: 'url' },
+      { id: 'team-2', name: 'Team 2', logoUrl: '', logoType: 'url' },
+      { id: 'team-3', name: 'Team 3', logoUrl: '', logoType: 'url' },
+      { id: 'team-4', name: 'Team 4', logoUrl: '', logoType: 'url' },
+    ],
+    weightedSystem: [
+      { position: 4, percentage: 40.0 },
+      { position: 3, percentage: 30.0 },
+      { position: 2, percentage: 20.0 },
+      { position: 1, percentage: 10.0 },
+    ],
+    pickDelaySeconds: 3,
+    currentYear: 2024,
+  };
+
+  const initialOrder = [1, 2, 3, 4];
+
+  const mockLottery: DraftLottery = {
+    id: 'lottery-2024',
+    year: 2024,
+    date: '2024-06-15T23:00:00.000Z',
+    picks: runCompleteLottery(config, initialOrder, createSeededRng('api-seed')),
+    config,
+    initialOrder,
+    seed: 'api-seed',
+    algorithmVersion: LOTTERY_ALGORITHM_VERSION,
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should confirm a lottery that reproduces from its seed', async () => {
+    vi.mocked(Database.getLotteryByYear).mockResolvedValue(mockLottery);
+
+    const response = await GET({ params: { year: '2024' } } as any);
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data).toEqual({
+      year: 2024,
+      seed: 'api-seed',
+      algorithmVersion: LOTTERY_ALGORITHM_VERSION,
+      valid: true,
+      errors: [],
+    });
+  });
+
+  it('should report a mismatch when picks were altered', async () => {
+    const tampered = {
+      ...mockLottery,
+      picks: mockLottery.picks.map((pick, index) =>
+        index === 0 ? { ...pick, teamId: 'team-99' } : pick
+      ),
+    };
+    vi.mocked(Database.getLotteryByYear).mockResolvedValue(tampered);
+
+    const response = await GET({ params: { year: '2024' } } as any);
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data.valid).toBe(false);
+    expect(data.errors).toHaveLength(1);
+  });
+
+  it('should return 400 for invalid year format', async () => {
+    const response = await GET({ params: { year: 'invalid' } } as any);
+
+    expect(response.status).toBe(400);
+    expect(Database.getLotteryByYear).not.toHaveBeenCalled();
+  });
+
+  it('should return 404 when lottery not found', async () => {
+    vi.mocked(Database.getLotteryByYear).mockResolvedValue(undefined);
+
+    const response = await GET({ params: { year: '2099' } } as any);
+    const data = await response.json();
+
+    expect(response.status).toBe(404);
+    expect(data).toEqual({ error: 'Lottery not found' });
+  });
+
+  it('should return 500 when database throws error', async () => {
+    vi.mocked(Database.getLotteryByYear).mockRejectedValue(new Error('Database error'));
+
+    const response = await GET({ params: { year: '2024' } } as any);
+    const data = await response.json();
+
+    expect(response.status).toBe(500);
+    expect(data).toEqual({ error: 'Failed to verify lottery' });
+  });
+});
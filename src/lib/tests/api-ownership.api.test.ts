@@ -0,0 +1,53 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { GET } from '../../pages/api/ownership';
+import { Database } from '../database';
+import type { PickOwnership } from '../../types';
+
+// Mock the Database module
+vi.mock('../database', () => ({
+  Database: {
+    getPickOwnership: vi.fn(),
+  },
+}));
+
+const trade: PickOwnership = {
+  year: 2025,
+  round: 1,
+  originalTeamId: 'team-1',
+  ownerTeamId: 'team-2',
+};
+
+describe('[API] GET /api/ownership', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should return the ledger for a year', async () => {
+    vi.mocked(Database.getPickOwnership).mockResolvedValue([trade]);
+
+    const response = await GET({ url: new URL('http://localhost/api/ownership?year=2025') } as any);
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data).toEqual([trade]);
+    expect(Database.getPickOwnership).toHaveBeenCalledWith(2025);
+  });
+
+  it('should return every year without a year parameter', async () => {
+    vi.mocked(Database.getPickOwnership).mockResolvedValue([]);
+
+    await GET({ url: new URL('http://localhost/api/ownership') } as any);
+
+    expect(Database.getPickOwnership).toHaveBeenCalledWith(undefined);
+  });
+
+  it('should return 500 on database error', async () => {
+    vi.mocked(Database.getPickOwnership).mockRejectedValue(new Error('Read failed'));
+
+    const response = await GET({ url: new URL('http://localhost/api/ownership') } as any);
+    const data = await response.json();
+
+    expect(response.status).toBe(500);
+    expect(data).toEqual({ error: 'Failed to fetch pick ownership' });
+  });
+});
@@ -0,0 +1,126 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { GET, POST } from '../../pages/api/probabilities';
+import { Database } from '../database';
+import type { DraftConfig } from '../../types';
+
+// Mock the Database module
+vi.mock('../database', () => ({
+  Database: {
+    getConfig: vi.fn(),
+  },
+}));
+
+const mockConfig: DraftConfig = {
+  numberOfTeams: 4,
+  numberOfRounds: 1,
+  teams: [
+    { id: 'team-1', name: 'Team 1', logoUrl: '', logoType: 'url' },
+    { id: 'team-2', name: 'Team 2', logoUrl: '', logoType: 'url' },
+    { id: 'team-3', name: 'Team 3', logoUrl: '', logoType: 'url' },
+    { id: 'team-4', name: 'Team 4', logoUrl: '', logoType: 'url' },
+  ],
+  weightedSystem: [
+    { position: 4, percentage: 40.0 },
+    { position: 3, percentage: 30.0 },
+    { position: 2, percentage: 20.0 },
+    { position: 1, percentage: 10.0 },
+  ],
+  pickDelaySeconds: 3,
+  currentYear: 2024,
+};
+
+describe('[API] GET /api/probabilities', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should return the exact matrix for the saved config', async () => {
+    vi.mocked(Database.getConfig).mockResolvedValue(mockConfig);
+
+    const response = await GET({ url: new URL('http://localhost/api/probabilities') } as any);
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data.method).toBe('exact');
+    expect(data.probabilities).toHaveLength(4);
+  });
+
+  it('should run a Monte Carlo estimate when requested', async () => {
+    vi.mocked(Database.getConfig).mockResolvedValue(mockConfig);
+
+    const response = await GET({
+      url: new URL('http://localhost/api/probabilities?method=monte-carlo&iterations=2000'),
+    } as any);
+    const data = await response.json();
+
+    expect(data.method).toBe('monte-carlo');
+    expect(data.iterations).toBe(2000);
+  });
+
+  it('should return 500 when the config cannot be loaded', async () => {
+    vi.mocked(Database.getConfig).mockRejectedValue(new Error('Database error'));
+
+    const response = await GET({ url: new URL('http://localhost/api/probabilities') } as any);
+    const data = await response.json();
+
+    expect(response.status).toBe(500);
+    expect(data).toEqual({ error: 'Failed to calculate probabilities' });
+  });
+});
+
+describe('[API] POST /api/probabilities', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should calculate the matrix for a proposed config without saving it', async () => {
+    const mockRequest = {
+      json: vi.fn().mockResolvedValue(mockConfig),
+    };
+
+    const response = await POST({
+      request: mockRequest,
+      url: new URL('http://localhost/api/probabilities'),
+    } as any);
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data.method).toBe('exact');
+    expect(Database.getConfig).not.toHaveBeenCalled();
+  });
+
+  it('should return 400 with field errors for an invalid config', async () => {
+    const mockRequest = {
+      json: vi.fn().mockResolvedValue({ ...mockConfig, weightedSystem: [] }),
+    };
+
+    const response = await POST({
+      request: mockRequest,
+      url: new URL('http://localhost/api/probabilities'),
+    } as any);
+    const data = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(data.errors).toContainEqual({
+      field: 'weightedSystem',
+      message: `Expected odds for ${mockConfig.numberOfTeams} positions`,
+    });
+  });
+
+  it('should return 400 when the exact method is requested for another format', async () => {
+    const mockRequest = {
+      json: vi.fn().mockResolvedValue({ ...mockConfig, lotteryFormat: { type: 'ball-draw' } }),
+    };
+
+    const response = await POST({
+      request: mockRequest,
+      url: new URL('http://localhost/api/probabilities?method=exact'),
+    } as any);
+    const data = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(data.error).toBe(
+      'Exact probabilities are only available for the bounded-movement format'
+    );
+  });
+});
@@ -0,0 +1,160 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { GET, POST } from '../../pages/api/trades';
+import { POST as REVERSE } from '../../pages/api/trades/[id]/reverse';
+import { Database, TradeRejectedError } from '../database';
+import type { PickTrade } from '../../types';
+
+// Mock the Database module; trades are checked against the ownership by Database itself
+vi.mock('../database', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../database')>()),
+  Database: {
+    getTrades: vi.fn(),
+    saveTrade: vi.fn(),
+    reverseTrade: vi.fn(),
+  },
+}));
+
+const trade: PickTrade = {
+  id: 'trade-1',
+  year: 2025,
+  round: 1,
+  originalTeamId: 'team-1',
+  fromTeamId: 'team-1',
+  toTeamId: 'team-2',
+  date: '2025-03-01T12:00:00.000Z',
+};
+
+describe('[API] GET /api/trades', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should list the trades for a year', async () => {
+    vi.mocked(Database.getTrades).mockResolvedValue([trade]);
+
+    const response = await GET({ url: new URL('http://localhost/api/trades?year=2025') } as any);
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data).toEqual([trade]);
+    expect(Database.getTrades).toHaveBeenCalledWith(2025);
+  });
+
+  it('should return 500 on database error', async () => {
+    vi.mocked(Database.getTrades).mockRejectedValue(new Error('Read failed'));
+
+    const response = await GET({ url: new URL('http://localhost/api/trades') } as any);
+    const data = await response.json();
+
+    expect(response.status).toBe(500);
+    expect(data).toEqual({ error: 'Failed to fetch trades' });
+  });
+});
+
+describe('[API] POST /api/trades', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should create a timestamped trade with a note', async () => {
+    vi.mocked(Database.saveTrade).mockResolvedValue(undefined);
+
+    const request = {
+      json: vi.fn().mockResolvedValue({
+        year: 2025,
+        round: 1,
+        originalTeamId: 'team-1',
+        fromTeamId: 'team-1',
+        toTeamId: 'team-2',
+        note: '  For a 2026 second  ',
+      }),
+    };
+    const response = await POST({ request } as any);
+    const data = await response.json();
+
+    expect(response.status).toBe(201);
+    expect(data.id).toMatch(/^trade-/);
+    expect(data.note).toBe('For a 2026 second');
+    expect(new Date(data.date).toISOString()).toBe(data.date);
+    expect(Database.saveTrade).toHaveBeenCalledWith(data);
+  });
+
+  it('should reject a sender that does not own the pick', async () => {
+    vi.mocked(Database.saveTrade).mockRejectedValue(
+      new TradeRejectedError('team-1 does not own the 2025 round 1 pick of team-1')
+    );
+
+    const request = {
+      json: vi.fn().mockResolvedValue({
+        year: 2025,
+        round: 1,
+        originalTeamId: 'team-1',
+        fromTeamId: 'team-1',
+        toTeamId: 'team-2',
+      }),
+    };
+    const response = await POST({ request } as any);
+    const data = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(data.error).toContain('does not own');
+  });
+
+  it('should return 400 for a body that is not an object', async () => {
+    for (const body of [null, [trade], 'trade']) {
+      const request = { json: vi.fn().mockResolvedValue(body) };
+      const response = await POST({ request } as any);
+      const data = await response.json();
+
+      expect(response.status).toBe(400);
+      expect(data.error).toBe('Trade must be an object');
+    }
+    expect(Database.saveTrade).not.toHaveBeenCalled();
+  });
+
+  it('should return 500 on database error', async () => {
+    vi.mocked(Database.saveTrade).mockRejectedValue(new Error('Write failed'));
+
+    const request = { json: vi.fn().mockResolvedValue({ ...trade, id: undefined }) };
+    const response = await POST({ request } as any);
+
+    expect(response.status).toBe(500);
+  });
+});
+
+describe('[API] POST /api/trades/[id]/reverse', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should reverse a trade while the receiver owns the pick', async () => {
+    vi.mocked(Database.reverseTrade).mockResolvedValue({ ...trade, reversedAt: '2025-03-02' });
+
+    const response = await REVERSE({ params: { id: 'trade-1' } } as any);
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data.reversedAt).toBe('2025-03-02');
+    expect(Database.reverseTrade).toHaveBeenCalledWith('trade-1', expect.any(String));
+  });
+
+  it('should return 404 for an unknown trade', async () => {
+    vi.mocked(Database.reverseTrade).mockResolvedValue(undefined);
+
+    const response = await REVERSE({ params: { id: 'missing' } } as any);
+
+    expect(response.status).toBe(404);
+  });
+
+  it('should return 409 when the pick was traded on since', async () => {
+    vi.mocked(Database.reverseTrade).mockRejectedValue(
+      new TradeRejectedError('Pick has been traded again since; reverse the later trade first')
+    );
+
+    const response = await REVERSE({ params: { id: 'trade-1' } } as any);
+    const data = await response.json();
+
+    expect(response.status).toBe(409);
+    expect(data.error).toContain('traded again');
+  });
+});
@@ -0,0 +1,162 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import {
+  SESSION_MAX_AGE_SECONDS,
+  createSessionToken,
+  generateApiToken,
+  getBearerToken,
+  getPasswordHash,
+  hashApiToken,
+  hashPassword,
+  requiresCommissioner,
+  safeRedirectPath,
+  verifyPassword,
+  verifySessionToken,
+} from '../auth';
+
+describe('[UNIT] Auth - Passwords', () => {
+  const passwordHash = hashPassword('draft-night', 'salt');
+
+  it('should verify the password a hash was made from', () => {
+    expect(passwordHash.startsWith('scrypt:salt:')).toBe(true);
+    expect(verifyPassword('draft-night', passwordHash)).toBe(true);
+    expect(verifyPassword('draft-day', passwordHash)).toBe(false);
+  });
+
+  it('should use a random salt by default', () => {
+    expect(hashPassword('draft-night')).not.toBe(hashPassword('draft-night'));
+  });
+
+  it('should reject malformed hashes', () => {
+    expect(verifyPassword('draft-night', 'draft-night')).toBe(false);
+    expect(verifyPassword('draft-night', 'scrypt:salt:')).toBe(false);
+    expect(verifyPassword('draft-night', 'bcrypt:salt:abcd')).toBe(false);
+  });
+});
+
+describe('[UNIT] Auth - Password Settings', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'lottery-auth-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('should read the hash from the environment or a file', async () => {
+    const file = path.join(dir, 'commissioner.hash');
+    await fs.writeFile(file, 'scrypt:from:file\n');
+
+    expect(await getPasswordHash({ COMMISSIONER_PASSWORD_HASH: ' scrypt:from:env ' })).toBe(
+      'scrypt:from:env'
+    );
+    expect(await getPasswordHash({ COMMISSIONER_PASSWORD_FILE: file })).toBe('scrypt:from:file');
+  });
+
+  it('should turn login off when no password is set', async () => {
+    expect(await getPasswordHash({})).toBeUndefined();
+  });
+});
+
+describe('[UNIT] Auth - Sessions', () => {
+  const passwordHash = hashPassword('draft-night', 'salt');
+  const now = Date.parse('2025-06-15T12:00:00.000Z');
+
+  it('should accept a session until it expires', () => {
+    const token = createSessionToken(passwordHash, now);
+
+    expect(verifySessionToken(token, passwordHash, now + 1000)).toBe(true);
+    expect(verifySessionToken(token, passwordHash, now + SESSION_MAX_AGE_SECONDS * 1000)).toBe(
+      false
+    );
+  });
+
+  it('should reject tampered sessions and sessions from an earlier password', () => {
+    const token = createSessionToken(passwordHash, now);
+    const [, signature] = token.split('.');
+    const extended = `${now + SESSION_MAX_AGE_SECONDS * 2000}.${signature}`;
+
+    expect(verifySessionToken(extended, passwordHash, now)).toBe(false);
+    expect(verifySessionToken('garbage', passwordHash, now)).toBe(false);
+    expect(verifySessionToken(token, hashPassword('new-password', 'salt'), now)).toBe(false);
+  });
+});
+
+describe('[UNIT] Auth - API Tokens', () => {
+  it('should generate distinct tokens and hash them consistently', () => {
+    const token = generateApiToken();
+
+    expect(token).toMatch(/^ddl_[A-Za-z0-9_-]{32}$/);
+    expect(generateApiToken()).not.toBe(token);
+    expect(hashApiToken(token)).toBe(hashApiToken(token));
+    expect(hashApiToken(token)).not.toContain(token);
+  });
+
+  it('should read bearer tokens from the Authorization header', () => {
+    const request = (authorization?: string) =>
+      new Request('http://localhost/api/config', {
+        headers: authorization ? { Authorization: authorization } : {},
+      });
+
+    expect(getBearerToken(request('Bearer ddl_abc'))).toBe('ddl_abc');
+    expect(getBearerToken(request('bearer ddl_abc'))).toBe('ddl_abc');
+    expect(getBearerToken(request('Basic abc'))).toBeUndefined();
+    expect(getBearerToken(request())).toBeUndefined();
+  });
+});
+
+describe('[UNIT] Auth - Access Rules', () => {
+  it('should protect every API call that changes data', () => {
+    expect(requiresCommissioner('POST', '/api/config')).toBe(true);
+    expect(requiresCommissioner('POST', '/api/lottery')).toBe(true);
+    expect(requiresCommissioner('DELETE', '/api/config/teams/team-1')).toBe(true);
+    expect(requiresCommissioner('PUT', '/api/lottery/2025/')).toBe(true);
+  });
+
+  it('should leave reads, history and logging in open', () => {
+    expect(requiresCommissioner('GET', '/api/config')).toBe(false);
+    expect(requiresCommissioner('GET', '/api/lottery/2025')).toBe(false);
+    expect(requiresCommissioner('GET', '/history')).toBe(false);
+    expect(requiresCommissioner('GET', '/')).toBe(false);
+    expect(requiresCommissioner('POST', '/api/auth/login')).toBe(false);
+    expect(requiresCommissioner('POST', '/api/auth/logout')).toBe(false);
+  });
+
+  it('should protect the configuration page and API token management', () => {
+    expect(requiresCommissioner('GET', '/config')).toBe(true);
+    expect(requiresCommissioner('GET', '/config/')).toBe(true);
+    expect(requiresCommissioner('GET', '/api/auth/tokens')).toBe(true);
+    expect(requiresCommissioner('GET', '/configuration-guide')).toBe(false);
+  });
+
+  it('should keep the live session, with its unrevealed picks, from owners', () => {
+    expect(requiresCommissioner('GET', '/api/lottery/session')).toBe(true);
+    expect(requiresCommissioner('GET', '/api/lottery/live')).toBe(false);
+    expect(requiresCommissioner('POST', '/api/lottery/live')).toBe(true);
+  });
+
+  it('should keep the export, with the lottery in progress, from owners', () => {
+    expect(requiresCommissioner('GET', '/api/export')).toBe(true);
+    expect(requiresCommissioner('GET', '/api/export/')).toBe(true);
+  });
+
+  it('should match the path the router sees, not the raw percent-encoded one', () => {
+    expect(requiresCommissioner('GET', '/api/%65xport')).toBe(true);
+    expect(requiresCommissioner('GET', '/%63onfig')).toBe(true);
+    expect(requiresCommissioner('GET', '/api/auth/%74okens')).toBe(true);
+    expect(requiresCommissioner('GET', '//api//export//')).toBe(true);
+    expect(requiresCommissioner('GET', '/api/%E0%A4%A')).toBe(true);
+  });
+
+  it('should only redirect to paths on this site after login', () => {
+    expect(safeRedirectPath('/config?tab=teams')).toBe('/config?tab=teams');
+    expect(safeRedirectPath('//evil.test')).toBe('/');
+    expect(safeRedirectPath('/\\evil.test')).toBe('/');
+    expect(safeRedirectPath('https://evil.test')).toBe('/');
+    expect(safeRedirectPath(null)).toBe('/');
+  });
+});
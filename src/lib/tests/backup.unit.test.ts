@@ -0,0 +1,313 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import {
+  BACKUP_FORMAT,
+  BACKUP_VERSION,
+  createBackup,
+  parseBackup,
+  previewImport,
+  readUploadedLogos,
+} from '../backup';
+import { CURRENT_SCHEMA_VERSION } from '../migrations';
+import type { DatabaseSchema, DraftConfig, DraftLottery } from '../../types';
+
+const config: DraftConfig = {
+  numberOfTeams: 4,
+  numberOfRounds: 1,
+  teams: [
+    { id: 'team-1', name: 'Team 1', logoUrl: 'https://example.com/1.png', logoType: 'url' },
+    { id: 'team-2', name: 'Team 2', logoUrl: '/logos/team-2.png', logoType: 'upload' },
+    { id: 'team-3', name: 'Team 3', logoUrl: '', logoType: 'upload' },
+    { id: 'team-4', name: 'Team 4', logoUrl: '/../secrets.png', logoType: 'upload' },
+  ],
+  weightedSystem: [
+    { position: 4, percentage: 40.0 },
+    { position: 3, percentage: 30.0 },
+    { position: 2, percentage: 20.0 },
+    { position: 1, percentage: 10.0 },
+  ],
+  pickDelaySeconds: 3,
+  currentYear: 2025,
+  initialOrder: [1, 2, 3, 4],
+  lotteryFormat: { type: 'bounded-movement', maxMovement: 2 },
+  roundOrderMode: 'independent',
+};
+
+const lottery = (year: number, extra: Partial<DraftLottery> = {}): DraftLottery => ({
+  id: `lottery-${year}`,
+  year,
+  date: `${year}-06-15T23:00:00.000Z`,
+  picks: [{ round: 1, pickNumber: 1, teamId: 'team-2', originalPosition: 2, movement: -1 }],
+  config,
+  ...extra,
+});
+
+const database: DatabaseSchema = {
+  schemaVersion: CURRENT_SCHEMA_VERSION,
+  config,
+  lotteries: [lottery(2024), lottery(2025)],
+};
+
+const bundle = (data: unknown, logos: Record<string, string> = {}) => ({
+  format: BACKUP_FORMAT,
+  version: BACKUP_VERSION,
+  exportedAt: '2025-07-01T00:00:00.000Z',
+  schemaVersion: CURRENT_SCHEMA_VERSION,
+  data,
+  logos,
+});
+
+describe('[UNIT] Backup - Uploaded Logos', () => {
+  let tempDir: string;
+  let publicDir: string;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'lottery-backup-'));
+    publicDir = path.join(tempDir, 'public');
+    await fs.mkdir(path.join(publicDir, 'logos'), { recursive: true });
+    await fs.writeFile(path.join(publicDir, 'logos', 'team-2.png'), 'png-bytes');
+    await fs.writeFile(path.join(tempDir, 'secrets.png'), 'secret');
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should embed uploaded logo files as data URLs', async () => {
+    const logos = await readUploadedLogos(database, publicDir);
+
+    expect(logos).toEqual({
+      '/logos/team-2.png': `data:image/png;base64,${Buffer.from('png-bytes').toString('base64')}`,
+    });
+  });
+
+  it('should skip URL logos, missing files and paths outside the public directory', async () => {
+    const logos = await readUploadedLogos(database, publicDir);
+
+    expect(Object.keys(logos)).toEqual(['/logos/team-2.png']);
+  });
+});
+
+describe('[UNIT] Backup - Parsing', () => {
+  it('should round-trip an exported bundle', () => {
+    const { data, errors } = parseBackup(JSON.parse(JSON.stringify(createBackup(database, {}))));
+
+    expect(errors).toEqual([]);
+    expect(data).toEqual(database);
+  });
+
+  it('should point uploaded logos at their embedded copies', () => {
+    const { data } = parseBackup(
+      bundle(database, { '/logos/team-2.png': 'data:image/png;base64,AAAA' })
+    );
+
+    expect(data?.config.teams[1].logoUrl).toBe('data:image/png;base64,AAAA');
+    expect(data?.lotteries[0].config.teams[1].logoUrl).toBe('data:image/png;base64,AAAA');
+    expect(data?.config.teams[0].logoUrl).toBe('https://example.com/1.png');
+  });
+
+  it('should reject files that are not backups', () => {
+    expect(parseBackup({ config, lotteries: [] }).errors).toEqual([
+      { field: 'format', message: 'Not a draft lottery backup file' },
+    ]);
+    expect(parseBackup({ ...bundle(database), version: BACKUP_VERSION + 1 }).errors[0].field).toBe(
+      'version'
+    );
+  });
+
+  it('should upgrade data exported at an older schema version', () => {
+    const { schemaVersion, ...unversioned } = database;
+    const legacy = { ...unversioned, config: { ...config, roundOrderMode: undefined } };
+
+    const { data, errors } = parseBackup(bundle(legacy));
+
+    expect(errors).toEqual([]);
+    expect(data?.schemaVersion).toBe(CURRENT_SCHEMA_VERSION);
+    expect(data?.config.roundOrderMode).toBe('independent');
+  });
+
+  it('should reject data from a newer schema version', () => {
+    const { errors } = parseBackup(
+      bundle({ ...database, schemaVersion: CURRENT_SCHEMA_VERSION + 1 })
+    );
+
+    expect(errors[0].field).toBe('data.schemaVersion');
+  });
+
+  it('should report invalid lotteries with their path in the bundle', () => {
+    const broken = lottery(2025, {
+      picks: [{ round: 3, pickNumber: 1, teamId: 'team-2', originalPosition: 2, movement: -1 }],
+    });
+
+    const { data, errors } = parseBackup(
+      bundle({ ...database, lotteries: [lottery(2024), broken] })
+    );
+
+    expect(data).toBeUndefined();
+    expect(errors).toEqual([
+      { field: 'data.lotteries[1].picks[0].round', message: 'Round must be between 1 and 1' },
+    ]);
+  });
+
+  it('should reject two lotteries for the same year', () => {
+    const { errors } = parseBackup(
+      bundle({ ...database, lotteries: [lottery(2024), lottery(2024)] })
+    );
+
+    expect(errors).toEqual([
+      { field: 'data.lotteries[1].year', message: 'Duplicate year: 2024' },
+    ]);
+  });
+
+  it('should reject logos that are not data URLs', () => {
+    const { errors } = parseBackup(bundle(database, { '/logos/team-2.png': 'https://evil.test' }));
+
+    expect(errors[0].field).toBe('logos');
+  });
+});
+
+describe('[UNIT] Backup - Trades and History', () => {
+  const ownership = { year: 2025, round: 1, originalTeamId: 'team-1', ownerTeamId: 'team-2' };
+  const trade = {
+    id: 'trade-1',
+    year: 2025,
+    round: 1,
+    originalTeamId: 'team-1',
+    fromTeamId: 'team-1',
+    toTeamId: 'team-2',
+    date: '2025-03-01T12:00:00.000Z',
+  };
+  const revision = { version: 1, savedAt: '2025-01-01T00:00:00.000Z', config };
+
+  const errorsFor = (data: Partial<DatabaseSchema> | Record<string, unknown>) =>
+    parseBackup(bundle({ ...database, ...data })).errors;
+
+  it('should accept well-formed trades, ownership and config history', () => {
+    const { data, errors } = parseBackup(
+      bundle({
+        ...database,
+        pickOwnership: [ownership],
+        trades: [{ ...trade, note: 'Deadline deal', reversedAt: '2025-03-02T12:00:00.000Z' }],
+        configHistory: [{ ...revision, author: 'Commissioner', comment: 'Initial setup' }],
+      })
+    );
+
+    expect(errors).toEqual([]);
+    expect(data?.trades).toHaveLength(1);
+  });
+
+  it('should reject entries that are not objects', () => {
+    expect(errorsFor({ trades: [trade, null] })).toEqual([
+      { field: 'data.trades[1]', message: 'Must be an object' },
+    ]);
+  });
+
+  it('should reject a year that is not a whole number', () => {
+    expect(errorsFor({ pickOwnership: [{ ...ownership, year: '2025' }] })).toEqual([
+      { field: 'data.pickOwnership[0].year', message: 'Year must be a whole number' },
+    ]);
+  });
+
+  it('should reject a round that is not a whole number from 1', () => {
+    expect(errorsFor({ trades: [{ ...trade, round: 1.5 }] })).toEqual([
+      { field: 'data.trades[0].round', message: 'Round must be a whole number from 1' },
+    ]);
+    expect(errorsFor({ pickOwnership: [{ ...ownership, round: 0 }] })).toEqual([
+      { field: 'data.pickOwnership[0].round', message: 'Round must be a whole number from 1' },
+    ]);
+  });
+
+  it('should reject team IDs that are not in the imported config', () => {
+    expect(errorsFor({ pickOwnership: [{ ...ownership, ownerTeamId: 'team-9' }] })).toEqual([
+      { field: 'data.pickOwnership[0].ownerTeamId', message: 'Unknown team: team-9' },
+    ]);
+    expect(errorsFor({ trades: [{ ...trade, toTeamId: 'team-9' }] })).toEqual([
+      { field: 'data.trades[0].toTeamId', message: 'Unknown team: team-9' },
+    ]);
+  });
+
+  it('should reject trades missing required fields', () => {
+    const { id, fromTeamId, date, ...partial } = trade;
+
+    expect(errorsFor({ trades: [partial] })).toEqual([
+      { field: 'data.trades[0].id', message: 'Trade ID is required' },
+      { field: 'data.trades[0].fromTeamId', message: 'Team ID is required' },
+      { field: 'data.trades[0].date', message: 'Date must be an ISO date string' },
+    ]);
+  });
+
+  it('should reject trade notes and reversal dates of the wrong type', () => {
+    expect(errorsFor({ trades: [{ ...trade, note: 5, reversedAt: 'yesterday' }] })).toEqual([
+      { field: 'data.trades[0].note', message: 'note must be text' },
+      { field: 'data.trades[0].reversedAt', message: 'Date must be an ISO date string' },
+    ]);
+  });
+
+  it('should reject config history entries without a version or save date', () => {
+    const { savedAt, ...undated } = revision;
+
+    expect(errorsFor({ configHistory: [{ ...undated, version: 0 }] })).toEqual([
+      { field: 'data.configHistory[0].version', message: 'Version must be a whole number from 1' },
+      { field: 'data.configHistory[0].savedAt', message: 'Date must be an ISO date string' },
+    ]);
+  });
+
+  it('should reject config history entries with an invalid config', () => {
+    expect(
+      errorsFor({ configHistory: [{ ...revision, config: { ...config, numberOfRounds: 0 } }] })
+    ).toEqual([
+      {
+        field: 'data.configHistory[0].config.numberOfRounds',
+        message: expect.stringContaining('Number of rounds'),
+      },
+    ]);
+  });
+
+  it('should reject lists that are not lists', () => {
+    expect(errorsFor({ configHistory: {} })).toEqual([
+      { field: 'data.configHistory', message: 'Must be a list' },
+    ]);
+  });
+});
+
+describe('[UNIT] Backup - Import Preview', () => {
+  const current: DatabaseSchema = {
+    config,
+    lotteries: [
+      lottery(2023, { finalized: true }),
+      lottery(2024, { finalized: true }),
+      lottery(2025),
+    ],
+  };
+  const incoming: DatabaseSchema = {
+    config: { ...config, pickDelaySeconds: 5 },
+    lotteries: [lottery(2024, { finalized: true }), lottery(2025, { seed: 'new' }), lottery(2026)],
+    trades: [],
+  };
+
+  it('should sort years into added, replaced, unchanged and kept for a merge', () => {
+    const preview = previewImport(current, incoming, 'merge');
+
+    expect(preview.lotteries).toEqual({
+      added: [2026],
+      replaced: [2025],
+      unchanged: [2024],
+      kept: [2023],
+      removed: [],
+      finalized: [],
+    });
+    expect(preview.configChanges).toEqual([
+      { field: 'pickDelaySeconds', before: 3, after: 5 },
+    ]);
+  });
+
+  it('should list removed years and the finalized ones among them for a replace', () => {
+    const preview = previewImport(current, incoming, 'replace');
+
+    expect(preview.lotteries.kept).toEqual([]);
+    expect(preview.lotteries.removed).toEqual([2023]);
+    expect(preview.lotteries.finalized).toEqual([2023]);
+  });
+});
@@ -0,0 +1,141 @@
+import { describe, it, expect } from 'vitest';
+import {
+  assignCombinations,
+  drawBalls,
+  drawPickOrder,
+  getCombinationIndex,
+  ASSIGNED_COMBINATIONS,
+  BALL_COUNT,
+  BALLS_DRAWN,
+  TOTAL_COMBINATIONS,
+} from '../ball-draw';
+import { createSeededRng } from '../rng';
+import type { WeightedOdds } from '../../types';
+
+const mockWeightedSystem: WeightedOdds[] = [
+  { position: 10, percentage: 25.0 },
+  { position: 9, percentage: 18.8 },
+  { position: 8, percentage: 14.1 },
+  { position: 7, percentage: 10.5 },
+  { position: 6, percentage: 7.9 },
+  { position: 5, percentage: 6.2 },
+  { position: 4, percentage: 6.2 },
+  { position: 3, percentage: 4.7 },
+  { position: 2, percentage: 3.5 },
+  { position: 1, percentage: 3.1 },
+];
+
+describe('[UNIT] getCombinationIndex', () => {
+  it('should have 1001 combinations for 14 choose 4', () => {
+    expect(TOTAL_COMBINATIONS).toBe(1001);
+  });
+
+  it('should map every combination to a distinct index in range', () => {
+    const indexes = new Set<number>();
+
+    for (let a = 1; a <= BALL_COUNT; a++) {
+      for (let b = a + 1; b <= BALL_COUNT; b++) {
+        for (let c = b + 1; c <= BALL_COUNT; c++) {
+          for (let d = c + 1; d <= BALL_COUNT; d++) {
+            indexes.add(getCombinationIndex([a, b, c, d]));
+          }
+        }
+      }
+    }
+
+    expect(indexes.size).toBe(TOTAL_COMBINATIONS);
+    expect(Math.min(...indexes)).toBe(0);
+    expect(Math.max(...indexes)).toBe(TOTAL_COMBINATIONS - 1);
+  });
+
+  it('should ignore the order the balls were drawn in', () => {
+    expect(getCombinationIndex([9, 2, 14, 5])).toBe(getCombinationIndex([2, 5, 9, 14]));
+  });
+});
+
+describe('[UNIT] drawBalls', () => {
+  it('should draw distinct balls from the machine', () => {
+    const rng = createSeededRng('balls');
+
+    for (let i = 0; i < 100; i++) {
+      const balls = drawBalls(rng);
+      expect(balls).toHaveLength(BALLS_DRAWN);
+      expect(new Set(balls).size).toBe(BALLS_DRAWN);
+      balls.forEach((ball) => {
+        expect(ball).toBeGreaterThanOrEqual(1);
+        expect(ball).toBeLessThanOrEqual(BALL_COUNT);
+      });
+    }
+  });
+});
+
+describe('[UNIT] assignCombinations', () => {
+  it('should give each position combinations in proportion to its percentage', () => {
+    const owners = assignCombinations(mockWeightedSystem);
+    const count = (position: number) => owners.filter((owner) => owner === position).length;
+
+    expect(count(10)).toBe(250);
+    expect(count(9)).toBe(188);
+    expect(count(1)).toBe(31);
+    expect(owners.filter((owner) => owner !== null)).toHaveLength(ASSIGNED_COMBINATIONS);
+    expect(owners.filter((owner) => owner === null)).toHaveLength(1);
+  });
+
+  it('should scale percentages that do not total 100', () => {
+    const owners = assignCombinations([
+      { position: 1, percentage: 1 },
+      { position: 2, percentage: 1 },
+      { position: 3, percentage: 1 },
+    ]);
+    const counts = [1, 2, 3].map((position) => owners.filter((owner) => owner === position).length);
+
+    expect(counts.reduce((sum, value) => sum + value, 0)).toBe(ASSIGNED_COMBINATIONS);
+    counts.forEach((value) => expect(value === 333 || value === 334).toBe(true));
+  });
+
+  it('should leave every combination unassigned when there are no balls', () => {
+    const owners = assignCombinations([{ position: 1, percentage: 0 }]);
+
+    expect(owners.every((owner) => owner === null)).toBe(true);
+  });
+});
+
+describe('[UNIT] drawPickOrder', () => {
+  it('should return every original position exactly once', () => {
+    const order = drawPickOrder(mockWeightedSystem, 10, createSeededRng('order'));
+
+    expect([...order].sort((a, b) => a - b)).toEqual([1, 2, 3, 4, 5, 6, 7, 8, 9, 10]);
+  });
+
+  it('should give the first pick in proportion to ball counts', () => {
+    const rng = createSeededRng('first-pick');
+    let worstTeamFirst = 0;
+
+    for (let i = 0; i < 2000; i++) {
+      if (drawPickOrder(mockWeightedSystem, 10, rng)[0] === 10) {
+        worstTeamFirst++;
+      }
+    }
+
+    // Position 10 holds 250 of the 1000 assigned combinations
+    expect(worstTeamFirst / 2000).toBeGreaterThan(0.22);
+    expect(worstTeamFirst / 2000).toBeLessThan(0.28);
+  });
+
+  it('should keep every team within the movement guard', () => {
+    const rng = createSeededRng('guarded');
+
+    for (let i = 0; i < 200; i++) {
+      const order = drawPickOrder(mockWeightedSystem, 10, rng, 2);
+      order.forEach((position, index) => {
+        expect(Math.abs(index + 1 - position)).toBeLessThanOrEqual(2);
+      });
+    }
+  });
+
+  it('should fall back to original order when no team holds a combination', () => {
+    const zeroOdds = mockWeightedSystem.map((odds) => ({ ...odds, percentage: 0 }));
+
+    expect(drawPickOrder(zeroOdds, 4, createSeededRng('empty'))).toEqual([1, 2, 3, 4]);
+  });
+});
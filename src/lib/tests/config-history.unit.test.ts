@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest';
+import { diffConfigs } from '../config-history';
+import type { DraftConfig } from '../../types';
+
+const config: DraftConfig = {
+  numberOfTeams: 4,
+  numberOfRounds: 2,
+  teams: [
+    { id: 'team-1', name: 'Team 1', logoUrl: '', logoType: 'url' },
+    { id: 'team-2', name: 'Team 2', logoUrl: '', logoType: 'url' },
+    { id: 'team-3', name: 'Team 3', logoUrl: '', logoType: 'url' },
+    { id: 'team-4', name: 'Team 4', logoUrl: '', logoType: 'url' },
+  ],
+  weightedSystem: [
+    { position: 4, percentage: 40.0 },
+    { position: 3, percentage: 30.0 },
+    { position: 2, percentage: 20.0 },
+    { position: 1, percentage: 10.0 },
+  ],
+  pickDelaySeconds: 3,
+  currentYear: 2025,
+};
+
+describe('[UNIT] diffConfigs', () => {
+  it('should find no changes between identical configs', () => {
+    expect(diffConfigs(config, structuredClone(config))).toEqual([]);
+  });
+
+  it('should list changed settings by field path', () => {
+    const after: DraftConfig = {
+      ...config,
+      numberOfRounds: 3,
+      teams: config.teams.map((team, i) => (i === 1 ? { ...team, name: 'Renamed' } : team)),
+      weightedSystem: config.weightedSystem.map((odds, i) =>
+        i === 0 ? { ...odds, percentage: 35.0 } : i === 3 ? { ...odds, percentage: 15.0 } : odds
+      ),
+    };
+
+    expect(diffConfigs(config, after)).toEqual([
+      { field: 'numberOfRounds', before: 2, after: 3 },
+      { field: 'teams[1].name', before: 'Team 2', after: 'Renamed' },
+      { field: 'weightedSystem[0].percentage', before: 40, after: 35 },
+      { field: 'weightedSystem[3].percentage', before: 10, after: 15 },
+    ]);
+  });
+
+  it('should report settings that were added or removed', () => {
+    const after: DraftConfig = {
+      ...config,
+      lotteryFormat: { type: 'bounded-movement', maxMovement: 2 },
+      teams: config.teams.slice(0, 3),
+    };
+
+    const changes = diffConfigs(config, after);
+
+    expect(changes).toContainEqual({ field: 'teams[3].name', before: 'Team 4', after: undefined });
+    expect(changes).toContainEqual({
+      field: 'lotteryFormat.type',
+      before: undefined,
+      after: 'bounded-movement',
+    });
+  });
+});
@@ -0,0 +1,104 @@
+import { describe, it, expect } from 'vitest';
+import { LOTTERY_CSV_COLUMNS, lotteriesToCsv, parseCsv, toCsv } from '../csv';
+import type { DraftConfig, DraftLottery } from '../../types';
+
+const config = {
+  numberOfTeams: 3,
+  numberOfRounds: 2,
+  teams: [
+    { id: 'team-1', name: 'Knockout Kings', logoUrl: '', logoType: 'url' },
+    { id: 'team-2', name: 'Smith, Jones & Co', logoUrl: '', logoType: 'url' },
+    { id: 'team-3', name: '=HYPERLINK("x")', logoUrl: '', logoType: 'url' },
+  ],
+} as DraftConfig;
+
+const lottery = (year: number, picks: DraftLottery['picks']): DraftLottery => ({
+  id: `lottery-${year}`,
+  year,
+  date: `${year}-06-15T23:00:00.000Z`,
+  picks,
+  config,
+});
+
+describe('[UNIT] CSV - Formatting', () => {
+  it('should quote fields with commas, quotes and line breaks', () => {
+    expect(toCsv([['a,b', 'say "hi"', 'two\nlines', 4]])).toBe(
+      '"a,b","say ""hi""","two\nlines",4\r\n'
+    );
+  });
+
+  it('should keep spreadsheets from evaluating text as a formula', () => {
+    expect(toCsv([['=SUM(A1)', '+1', '@x', -2]])).toBe("'=SUM(A1),'+1,'@x,-2\r\n");
+  });
+});
+
+describe('[UNIT] CSV - Lottery Results', () => {
+  it('should write one row per pick with the overall pick and team names', () => {
+    const csv = lotteriesToCsv([
+      lottery(2025, [
+        { round: 2, pickNumber: 1, teamId: 'team-1', originalPosition: 1, movement: 0 },
+        { round: 1, pickNumber: 2, teamId: 'team-1', originalPosition: 1, movement: 1 },
+        {
+          round: 1,
+          pickNumber: 1,
+          teamId: 'team-2',
+          ownerTeamId: 'team-3',
+          originalPosition: 2,
+          movement: -1,
+        },
+      ]),
+    ]);
+
+    expect(csv.split('\r\n')).toEqual([
+      LOTTERY_CSV_COLUMNS.join(','),
+      `2025,1,1,1,"Smith, Jones & Co","'=HYPERLINK(""x"")",2,-1`,
+      '2025,1,2,2,Knockout Kings,,1,1',
+      '2025,2,1,4,Knockout Kings,,1,0',
+      '',
+    ]);
+  });
+
+  it('should list years oldest first and fall back to the team ID', () => {
+    const pick = { round: 1, pickNumber: 1, originalPosition: 1, movement: 0 };
+    const csv = lotteriesToCsv([
+      lottery(2025, [{ ...pick, teamId: 'team-1' }]),
+      lottery(2024, [{ ...pick, teamId: 'team-9' }]),
+    ]);
+
+    const rows = csv.trim().split('\r\n').slice(1);
+    expect(rows).toEqual(['2024,1,1,1,team-9,,1,0', '2025,1,1,1,Knockout Kings,,1,0']);
+  });
+
+  it('should write only the header when there are no lotteries', () => {
+    expect(lotteriesToCsv([])).toBe(`${LOTTERY_CSV_COLUMNS.join(',')}\r\n`);
+  });
+});
+
+describe('[UNIT] CSV - Parsing', () => {
+  it('should read quoted fields with commas, doubled quotes and line breaks', () => {
+    expect(parseCsv('a,"b,c","say ""hi""","two\nlines"\r\n1,2,3,4\r\n')).toEqual([
+      ['a', 'b,c', 'say "hi"', 'two\nlines'],
+      ['1', '2', '3', '4'],
+    ]);
+  });
+
+  it('should accept LF endings, a byte order mark and a missing final newline', () => {
+    expect(parseCsv('﻿Year,Team\n2019,Lobos')).toEqual([
+      ['Year', 'Team'],
+      ['2019', 'Lobos'],
+    ]);
+  });
+
+  it('should skip blank lines', () => {
+    expect(parseCsv('a,b\n\n,\n1,2\n\n')).toEqual([
+      ['a', 'b'],
+      ['1', '2'],
+    ]);
+  });
+
+  it('should read back what toCsv writes', () => {
+    const rows = [LOTTERY_CSV_COLUMNS, [2025, 1, 1, 1, 'Smith, Jones & Co', '', 2, -1]];
+
+    expect(parseCsv(toCsv(rows))).toEqual(rows.map((row) => row.map(String)));
+  });
+});
@@ -1,5 +1,12 @@
 import { describe, it, expect, beforeEach, vi } from 'vitest';
-import type { DraftLottery, DraftConfig, DatabaseSchema } from '../../types';
+import type {
+  ApiToken,
+  DraftLottery,
+  DraftConfig,
+  DatabaseSchema,
+  LiveSession,
+  PickTrade,
+} from '../../types';
 
 // Mock fs/promises
 vi.mock('fs/promises', () => ({
@@ -9,11 +16,22 @@ vi.mock('fs/promises', () => ({
     writeFile: vi.fn(),
     readFile: vi.fn(),
     unlink: vi.fn(),
+    rename: vi.fn(),
+    copyFile: vi.fn(),
   },
 }));
 
 import fs from 'fs/promises';
-import { Database } from '../database';
+import path from 'path';
+import {
+  ConfigRejectedError,
+  Database,
+  LotteryFinalizedError,
+  TradeRejectedError,
+} from '../database';
+import { JsonStorage } from '../json-storage';
+import { generateWeightedOdds } from '../league';
+import { CURRENT_SCHEMA_VERSION } from '../migrations';
 
 describe('[UNIT] Database - File Creation', () => {
   beforeEach(() => {
@@ -269,6 +287,128 @@ describe('[UNIT] Database - Save Lottery', () => {
   });
 });
 
+describe('[UNIT] Database - Finalized Lotteries', () => {
+  const finalizedLottery: DraftLottery = {
+    id: 'lottery-2024',
+    year: 2024,
+    date: '2024-01-01',
+    picks: [],
+    config: {} as DraftConfig,
+    finalized: true,
+    finalizedAt: '2024-01-02T00:00:00.000Z',
+  };
+
+  const rerun: DraftLottery = {
+    id: 'lottery-2024',
+    year: 2024,
+    date: '2024-06-01',
+    picks: [],
+    config: {} as DraftConfig,
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should refuse to overwrite a finalized year without the override flag', async () => {
+    vi.mocked(fs.access).mockResolvedValue(undefined);
+    vi.mocked(fs.readFile).mockResolvedValue(
+      JSON.stringify({ config: {}, lotteries: [finalizedLottery] })
+    );
+
+    await expect(Database.saveLottery(rerun)).rejects.toThrow('The 2024 lottery is finalized');
+    expect(fs.writeFile).not.toHaveBeenCalled();
+  });
+
+  it('should archive the finalized result when overriding', async () => {
+    vi.mocked(fs.access).mockResolvedValue(undefined);
+    vi.mocked(fs.readFile).mockResolvedValue(
+      JSON.stringify({ config: {}, lotteries: [finalizedLottery] })
+    );
+    vi.mocked(fs.writeFile).mockResolvedValue(undefined);
+
+    await Database.saveLottery(rerun, true);
+
+    const writtenData = JSON.parse(
+      vi.mocked(fs.writeFile).mock.calls[0][1] as string
+    ) as DatabaseSchema;
+
+    expect(writtenData.lotteries).toEqual([rerun]);
+    expect(writtenData.supersededLotteries).toHaveLength(1);
+    expect(writtenData.supersededLotteries?.[0]).toMatchObject(finalizedLottery);
+    expect(writtenData.supersededLotteries?.[0].supersededAt).toBeDefined();
+  });
+
+  it('should archive a replaced result that was not finalized', async () => {
+    vi.mocked(fs.access).mockResolvedValue(undefined);
+    vi.mocked(fs.readFile).mockResolvedValue(
+      JSON.stringify({ config: {}, lotteries: [{ ...finalizedLottery, finalized: false }] })
+    );
+    vi.mocked(fs.writeFile).mockResolvedValue(undefined);
+
+    await Database.saveLottery(rerun);
+
+    const writtenData = JSON.parse(
+      vi.mocked(fs.writeFile).mock.calls[0][1] as string
+    ) as DatabaseSchema;
+
+    expect(writtenData.supersededLotteries).toHaveLength(1);
+  });
+
+  it('should finalize a saved lottery', async () => {
+    vi.mocked(fs.access).mockResolvedValue(undefined);
+    vi.mocked(fs.readFile).mockResolvedValue(JSON.stringify({ config: {}, lotteries: [rerun] }));
+    vi.mocked(fs.writeFile).mockResolvedValue(undefined);
+
+    const lottery = await Database.finalizeLottery(2024);
+
+    const writtenData = JSON.parse(
+      vi.mocked(fs.writeFile).mock.calls[0][1] as string
+    ) as DatabaseSchema;
+
+    expect(lottery?.finalized).toBe(true);
+    expect(lottery?.finalizedAt).toBeDefined();
+    expect(writtenData.lotteries[0].finalized).toBe(true);
+  });
+
+  it('should keep the original finalized date when finalizing again', async () => {
+    vi.mocked(fs.access).mockResolvedValue(undefined);
+    vi.mocked(fs.readFile).mockResolvedValue(
+      JSON.stringify({ config: {}, lotteries: [finalizedLottery] })
+    );
+
+    const lottery = await Database.finalizeLottery(2024);
+
+    expect(lottery?.finalizedAt).toBe('2024-01-02T00:00:00.000Z');
+    expect(fs.writeFile).not.toHaveBeenCalled();
+  });
+
+  it('should return undefined when finalizing a missing year', async () => {
+    vi.mocked(fs.access).mockResolvedValue(undefined);
+    vi.mocked(fs.readFile).mockResolvedValue(JSON.stringify({ config: {}, lotteries: [] }));
+
+    expect(await Database.finalizeLottery(2030)).toBeUndefined();
+    expect(fs.writeFile).not.toHaveBeenCalled();
+  });
+
+  it('should return superseded revisions filtered by year', async () => {
+    vi.mocked(fs.access).mockResolvedValue(undefined);
+    vi.mocked(fs.readFile).mockResolvedValue(
+      JSON.stringify({
+        config: {},
+        lotteries: [],
+        supersededLotteries: [
+          { ...finalizedLottery, supersededAt: '2024-06-01T00:00:00.000Z' },
+          { ...finalizedLottery, year: 2023, supersededAt: '2023-06-01T00:00:00.000Z' },
+        ],
+      })
+    );
+
+    expect(await Database.getSupersededLotteries(2024)).toHaveLength(1);
+    expect(await Database.getSupersededLotteries()).toHaveLength(2);
+  });
+});
+
 describe('[UNIT] Database - Delete Lottery', () => {
   beforeEach(() => {
     vi.clearAllMocks();
@@ -348,6 +488,58 @@ describe('[UNIT] Database - Delete Lottery', () => {
 
     expect(writtenData.lotteries).toEqual([]);
   });
+
+  it('should refuse to delete a finalized year', async () => {
+    const mockData: DatabaseSchema = {
+      config: {} as DraftConfig,
+      lotteries: [
+        {
+          id: 'lottery-2024',
+          year: 2024,
+          date: '2024-01-01',
+          picks: [],
+          config: {} as DraftConfig,
+          finalized: true,
+        },
+      ],
+    };
+
+    vi.mocked(fs.access).mockResolvedValue(undefined);
+    vi.mocked(fs.readFile).mockResolvedValue(JSON.stringify(mockData));
+    vi.mocked(fs.writeFile).mockResolvedValue(undefined);
+
+    await expect(Database.deleteLottery(2024)).rejects.toBeInstanceOf(LotteryFinalizedError);
+    expect(fs.writeFile).not.toHaveBeenCalled();
+  });
+
+  it('should archive a finalized year deleted with the override', async () => {
+    const finalized: DraftLottery = {
+      id: 'lottery-2024',
+      year: 2024,
+      date: '2024-01-01',
+      picks: [],
+      config: {} as DraftConfig,
+      finalized: true,
+    };
+
+    vi.mocked(fs.access).mockResolvedValue(undefined);
+    vi.mocked(fs.readFile).mockResolvedValue(
+      JSON.stringify({ config: {} as DraftConfig, lotteries: [finalized] })
+    );
+    vi.mocked(fs.writeFile).mockResolvedValue(undefined);
+
+    const removed = await Database.deleteLottery(2024, true);
+
+    const writtenData = JSON.parse(
+      vi.mocked(fs.writeFile).mock.calls[0][1] as string
+    ) as DatabaseSchema;
+
+    expect(removed).toMatchObject(finalized);
+    expect(writtenData.lotteries).toEqual([]);
+    expect(writtenData.supersededLotteries).toEqual([
+      expect.objectContaining({ id: 'lottery-2024', supersededAt: expect.any(String) }),
+    ]);
+  });
 });
 
 describe('[UNIT] Database - Initialize Method', () => {
@@ -355,8 +547,7 @@ describe('[UNIT] Database - Initialize Method', () => {
     vi.clearAllMocks();
   });
 
-  it('should call ensureDbExists when initializing', async () => {
-    // This tests lines 96-97: initialize method
+  it('should check for the database when initializing', async () => {
     vi.mocked(fs.access).mockResolvedValue(undefined);
 
     await Database.initialize();
@@ -377,6 +568,15 @@ describe('[UNIT] Database - Initialize Method', () => {
 });
 
 describe('[UNIT] Database - Config Methods', () => {
+  const baseConfig: DraftConfig = {
+    numberOfTeams: 10,
+    numberOfRounds: 3,
+    teams: [],
+    weightedSystem: [],
+    pickDelaySeconds: 3,
+    currentYear: 2025,
+  };
+
   beforeEach(() => {
     vi.clearAllMocks();
   });
@@ -461,4 +661,1085 @@ describe('[UNIT] Database - Config Methods', () => {
     expect(writtenData.config.pickDelaySeconds).toBe(5);
     expect(writtenData.config.teams).toHaveLength(1);
   });
+
+  it('should not add a revision when the config is saved unchanged', async () => {
+    vi.mocked(fs.access).mockResolvedValue(undefined);
+    vi.mocked(fs.readFile).mockResolvedValue(
+      JSON.stringify({
+        config: baseConfig,
+        lotteries: [],
+        configHistory: [{ version: 1, savedAt: '2025-01-01T00:00:00.000Z', config: baseConfig }],
+      })
+    );
+
+    const current = await Database.getConfig();
+    await Database.updateConfig({ ...current }, { comment: 'Saved initial order' });
+
+    expect(fs.writeFile).not.toHaveBeenCalled();
+  });
+
+  it('should snapshot the previous and new config when history is empty', async () => {
+    const mockData: DatabaseSchema = {
+      config: { ...baseConfig, numberOfRounds: 5 },
+      lotteries: [],
+    };
+
+    vi.mocked(fs.access).mockResolvedValue(undefined);
+    vi.mocked(fs.readFile).mockResolvedValue(JSON.stringify(mockData));
+    vi.mocked(fs.writeFile).mockResolvedValue(undefined);
+
+    await Database.updateConfig(baseConfig, { author: ' Sam ', comment: 'Fewer rounds' });
+
+    const writtenData = JSON.parse(
+      vi.mocked(fs.writeFile).mock.calls[0][1] as string
+    ) as DatabaseSchema;
+
+    expect(writtenData.configHistory).toHaveLength(2);
+    expect(writtenData.configHistory?.[0]).toMatchObject({
+      version: 1,
+      comment: 'Config before revision history',
+      config: { numberOfRounds: 5 },
+    });
+    expect(writtenData.configHistory?.[1]).toMatchObject({
+      version: 2,
+      author: 'Sam',
+      comment: 'Fewer rounds',
+      config: baseConfig,
+    });
+  });
+
+  it('should append a new version on every save', async () => {
+    const mockData: DatabaseSchema = {
+      config: baseConfig,
+      lotteries: [],
+      configHistory: [{ version: 4, savedAt: '2025-01-01T00:00:00.000Z', config: baseConfig }],
+    };
+
+    vi.mocked(fs.access).mockResolvedValue(undefined);
+    vi.mocked(fs.readFile).mockResolvedValue(JSON.stringify(mockData));
+    vi.mocked(fs.writeFile).mockResolvedValue(undefined);
+
+    await Database.updateConfig({ ...baseConfig, pickDelaySeconds: 5 });
+
+    const writtenData = JSON.parse(
+      vi.mocked(fs.writeFile).mock.calls[0][1] as string
+    ) as DatabaseSchema;
+
+    expect(writtenData.configHistory).toHaveLength(2);
+    expect(writtenData.configHistory?.[1].version).toBe(5);
+    expect(writtenData.configHistory?.[1].author).toBeUndefined();
+  });
+
+  it('should return config history most recent first', async () => {
+    vi.mocked(fs.access).mockResolvedValue(undefined);
+    vi.mocked(fs.readFile).mockResolvedValue(
+      JSON.stringify({
+        config: baseConfig,
+        lotteries: [],
+        configHistory: [
+          { version: 1, savedAt: '2025-01-01T00:00:00.000Z', config: baseConfig },
+          { version: 2, savedAt: '2025-02-01T00:00:00.000Z', config: baseConfig },
+        ],
+      })
+    );
+
+    const history = await Database.getConfigHistory();
+
+    expect(history.map((revision) => revision.version)).toEqual([2, 1]);
+  });
+
+  it('should restore an earlier version as a new version', async () => {
+    const oldConfig = { ...baseConfig, numberOfRounds: 5 };
+    vi.mocked(fs.access).mockResolvedValue(undefined);
+    vi.mocked(fs.readFile).mockResolvedValue(
+      JSON.stringify({
+        config: baseConfig,
+        lotteries: [],
+        configHistory: [
+          { version: 1, savedAt: '2025-01-01T00:00:00.000Z', config: oldConfig },
+          { version: 2, savedAt: '2025-02-01T00:00:00.000Z', config: baseConfig },
+        ],
+      })
+    );
+    vi.mocked(fs.writeFile).mockResolvedValue(undefined);
+
+    const restored = await Database.restoreConfigRevision(1, { author: 'Sam' });
+
+    const writtenData = JSON.parse(
+      vi.mocked(fs.writeFile).mock.calls[0][1] as string
+    ) as DatabaseSchema;
+
+    expect(restored).toMatchObject({
+      version: 3,
+      author: 'Sam',
+      comment: 'Restored version 1',
+      config: oldConfig,
+    });
+    expect(writtenData.config).toEqual(oldConfig);
+    expect(writtenData.configHistory).toHaveLength(3);
+  });
+
+  it('should return undefined when restoring an unknown version', async () => {
+    vi.mocked(fs.access).mockResolvedValue(undefined);
+    vi.mocked(fs.readFile).mockResolvedValue(JSON.stringify({ config: baseConfig, lotteries: [] }));
+
+    expect(await Database.restoreConfigRevision(7)).toBeUndefined();
+    expect(fs.writeFile).not.toHaveBeenCalled();
+  });
+});
+
+describe('[UNIT] Database - Teams', () => {
+  const makeConfig = (numberOfTeams: number): DraftConfig => ({
+    numberOfTeams,
+    numberOfRounds: 3,
+    teams: Array.from({ length: numberOfTeams }, (_, i) => ({
+      id: `team-${i + 1}`,
+      name: `Team ${i + 1}`,
+      logoUrl: '',
+      logoType: 'url' as const,
+    })),
+    weightedSystem: generateWeightedOdds(numberOfTeams),
+    pickDelaySeconds: 3,
+    currentYear: 2025,
+  });
+
+  let saved: string;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    saved = JSON.stringify({ config: makeConfig(10), lotteries: [] });
+    vi.mocked(fs.access).mockResolvedValue(undefined);
+    vi.mocked(fs.readFile).mockImplementation(async () => saved);
+    vi.mocked(fs.writeFile).mockImplementation(async (_path, data) => {
+      saved = data as string;
+    });
+  });
+
+  it('should add a team and record the change', async () => {
+    const config = await Database.addTeam({ name: 'Expansion Club' });
+
+    const db = JSON.parse(saved) as DatabaseSchema;
+    expect(config.teams[10]).toMatchObject({ id: 'team-11', name: 'Expansion Club' });
+    expect(db.config).toEqual(config);
+    expect(db.configHistory?.[db.configHistory.length - 1].comment).toBe('Added Expansion Club');
+  });
+
+  it('should give teams added at once their own ids and keep every resize', async () => {
+    await Promise.all([Database.addTeam(), Database.addTeam(), Database.removeTeam('team-2')]);
+
+    const { config } = JSON.parse(saved) as DatabaseSchema;
+    const ids = config.teams.map((team) => team.id);
+    expect(config.numberOfTeams).toBe(11);
+    expect(new Set(ids).size).toBe(11);
+    expect(ids).toEqual(expect.arrayContaining(['team-11', 'team-12']));
+    expect(config.weightedSystem).toHaveLength(11);
+  });
+
+  it('should refuse an invalid team and keep the league size limits', async () => {
+    await expect(Database.addTeam({ logoUrl: 5 as unknown as string })).rejects.toBeInstanceOf(
+      ConfigRejectedError
+    );
+
+    saved = JSON.stringify({ config: makeConfig(4), lotteries: [] });
+    await expect(Database.removeTeam('team-1')).rejects.toThrow('A league needs at least 4 teams');
+    expect(fs.writeFile).not.toHaveBeenCalled();
+  });
+
+  it('should keep max movement within the league when removing teams', async () => {
+    const config: DraftConfig = {
+      ...makeConfig(5),
+      lotteryFormat: { type: 'bounded-movement', maxMovement: 4 },
+    };
+    saved = JSON.stringify({ config, lotteries: [] });
+
+    const updated = await Database.removeTeam('team-5');
+
+    expect(updated?.lotteryFormat).toEqual({ type: 'bounded-movement', maxMovement: 3 });
+    expect((JSON.parse(saved) as DatabaseSchema).config).toEqual(updated);
+  });
+
+  it('should refuse a resize that leaves the config invalid', async () => {
+    const config = { ...makeConfig(10), pickDelaySeconds: 0 };
+    saved = JSON.stringify({ config, lotteries: [] });
+
+    const error = await Database.addTeam().catch((e) => e);
+
+    expect(error).toBeInstanceOf(ConfigRejectedError);
+    expect(error.errors).toEqual([
+      { field: 'pickDelaySeconds', message: 'Pick delay must be a positive number' },
+    ]);
+    expect(fs.writeFile).not.toHaveBeenCalled();
+  });
+
+  it('should return undefined when removing an unknown team', async () => {
+    expect(await Database.removeTeam('team-99')).toBeUndefined();
+    expect(fs.writeFile).not.toHaveBeenCalled();
+  });
+});
+
+describe('[UNIT] Database - Pending Lottery', () => {
+  const pendingLottery: DraftLottery = {
+    id: 'lottery-2025',
+    year: 2025,
+    date: '2025-06-15T23:00:00.000Z',
+    picks: [
+      {
+        round: 1,
+        pickNumber: 1,
+        teamId: 'team-2',
+        originalPosition: 2,
+        movement: -1,
+      },
+    ],
+    config: {} as DraftConfig,
+    seed: 'pending-seed',
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should store a pending lottery without touching saved lotteries', async () => {
+    const mockData: DatabaseSchema = {
+      config: {} as DraftConfig,
+      lotteries: [],
+    };
+
+    vi.mocked(fs.access).mockResolvedValue(undefined);
+    vi.mocked(fs.readFile).mockResolvedValue(JSON.stringify(mockData));
+    vi.mocked(fs.writeFile).mockResolvedValue(undefined);
+
+    await Database.savePendingLottery(pendingLottery);
+
+    const writtenData = JSON.parse(
+      vi.mocked(fs.writeFile).mock.calls[0][1] as string
+    ) as DatabaseSchema;
+
+    expect(writtenData.pendingLottery).toEqual(pendingLottery);
+    expect(writtenData.lotteries).toEqual([]);
+  });
+
+  it('should return the pending lottery', async () => {
+    vi.mocked(fs.access).mockResolvedValue(undefined);
+    vi.mocked(fs.readFile).mockResolvedValue(
+      JSON.stringify({
+        schemaVersion: CURRENT_SCHEMA_VERSION,
+        config: {},
+        lotteries: [],
+        pendingLottery,
+      })
+    );
+
+    const lottery = await Database.getPendingLottery();
+
+    expect(lottery).toEqual(pendingLottery);
+  });
+
+  it('should move the pending lottery into history on confirm', async () => {
+    const mockData: DatabaseSchema = {
+      config: {} as DraftConfig,
+      lotteries: [
+        { id: 'lottery-2025', year: 2025, date: '2025-01-01', picks: [], config: {} as DraftConfig },
+      ],
+      pendingLottery,
+    };
+
+    vi.mocked(fs.access).mockResolvedValue(undefined);
+    vi.mocked(fs.readFile).mockResolvedValue(JSON.stringify(mockData));
+    vi.mocked(fs.writeFile).mockResolvedValue(undefined);
+
+    const confirmed = await Database.confirmPendingLottery();
+
+    const writtenData = JSON.parse(
+      vi.mocked(fs.writeFile).mock.calls[0][1] as string
+    ) as DatabaseSchema;
+
+    expect(confirmed).toMatchObject({ ...pendingLottery, finalized: true });
+    expect(confirmed?.finalizedAt).toBeDefined();
+    expect(writtenData.pendingLottery).toBeUndefined();
+    expect(writtenData.lotteries).toEqual([confirmed]);
+    expect(writtenData.supersededLotteries).toHaveLength(1);
+  });
+
+  it('should refuse to confirm over a finalized year without the override flag', async () => {
+    const mockData: DatabaseSchema = {
+      config: {} as DraftConfig,
+      lotteries: [
+        {
+          id: 'lottery-2025',
+          year: 2025,
+          date: '2025-01-01',
+          picks: [],
+          config: {} as DraftConfig,
+          finalized: true,
+        },
+      ],
+      pendingLottery,
+    };
+
+    vi.mocked(fs.access).mockResolvedValue(undefined);
+    vi.mocked(fs.readFile).mockResolvedValue(JSON.stringify(mockData));
+
+    await expect(Database.confirmPendingLottery()).rejects.toThrow(LotteryFinalizedError);
+    expect(fs.writeFile).not.toHaveBeenCalled();
+  });
+
+  it('should return undefined and not write when nothing is pending', async () => {
+    vi.mocked(fs.access).mockResolvedValue(undefined);
+    vi.mocked(fs.readFile).mockResolvedValue(JSON.stringify({ config: {}, lotteries: [] }));
+
+    const confirmed = await Database.confirmPendingLottery();
+
+    expect(confirmed).toBeUndefined();
+    expect(fs.writeFile).not.toHaveBeenCalled();
+  });
+});
+
+describe('[UNIT] Database - Pick Ownership', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should filter the ledger by year', async () => {
+    const mockData: DatabaseSchema = {
+      config: {} as DraftConfig,
+      lotteries: [],
+      pickOwnership: [
+        { year: 2025, round: 1, originalTeamId: 'team-1', ownerTeamId: 'team-2' },
+        { year: 2026, round: 1, originalTeamId: 'team-1', ownerTeamId: 'team-3' },
+      ],
+    };
+
+    vi.mocked(fs.access).mockResolvedValue(undefined);
+    vi.mocked(fs.readFile).mockResolvedValue(JSON.stringify(mockData));
+
+    const ledger = await Database.getPickOwnership(2026);
+
+    expect(ledger).toEqual([mockData.pickOwnership![1]]);
+  });
+
+  it('should return an empty ledger for databases without one', async () => {
+    vi.mocked(fs.access).mockResolvedValue(undefined);
+    vi.mocked(fs.readFile).mockResolvedValue(JSON.stringify({ config: {}, lotteries: [] }));
+
+    const ledger = await Database.getPickOwnership();
+
+    expect(ledger).toEqual([]);
+  });
+});
+
+describe('[UNIT] Database - Trades', () => {
+  const trade: PickTrade = {
+    id: 'trade-1',
+    year: 2025,
+    round: 1,
+    originalTeamId: 'team-1',
+    fromTeamId: 'team-1',
+    toTeamId: 'team-2',
+    date: '2025-03-01T12:00:00.000Z',
+    note: 'For a 2026 second',
+  };
+
+  const config = {
+    numberOfRounds: 2,
+    teams: ['team-1', 'team-2', 'team-3'].map((id) => ({
+      id,
+      name: id,
+      logoUrl: '',
+      logoType: 'url',
+    })),
+  } as DraftConfig;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should log the trade and move the pick to the receiving team', async () => {
+    vi.mocked(fs.access).mockResolvedValue(undefined);
+    vi.mocked(fs.readFile).mockResolvedValue(JSON.stringify({ config, lotteries: [] }));
+    vi.mocked(fs.writeFile).mockResolvedValue(undefined);
+
+    await Database.saveTrade(trade);
+
+    const writtenData = JSON.parse(
+      vi.mocked(fs.writeFile).mock.calls[0][1] as string
+    ) as DatabaseSchema;
+
+    expect(writtenData.trades).toEqual([trade]);
+    expect(writtenData.pickOwnership).toEqual([
+      { year: 2025, round: 1, originalTeamId: 'team-1', ownerTeamId: 'team-2' },
+    ]);
+  });
+
+  it('should reject a trade from a team that does not own the pick', async () => {
+    vi.mocked(fs.access).mockResolvedValue(undefined);
+    vi.mocked(fs.readFile).mockResolvedValue(
+      JSON.stringify({
+        config,
+        lotteries: [],
+        pickOwnership: [{ year: 2025, round: 1, originalTeamId: 'team-1', ownerTeamId: 'team-3' }],
+      })
+    );
+
+    await expect(Database.saveTrade(trade)).rejects.toThrow(TradeRejectedError);
+    expect(fs.writeFile).not.toHaveBeenCalled();
+  });
+
+  it('should let only one of two concurrent trades of the same pick through', async () => {
+    let saved = JSON.stringify({ config, lotteries: [] });
+    vi.mocked(fs.access).mockResolvedValue(undefined);
+    vi.mocked(fs.readFile).mockImplementation(async () => saved);
+    vi.mocked(fs.writeFile).mockImplementation(async (_path, data) => {
+      saved = data as string;
+    });
+
+    const results = await Promise.allSettled([
+      Database.saveTrade(trade),
+      Database.saveTrade({ ...trade, id: 'trade-2', toTeamId: 'team-3' }),
+    ]);
+
+    expect(results.map((result) => result.status)).toEqual(['fulfilled', 'rejected']);
+    expect((JSON.parse(saved) as DatabaseSchema).trades).toEqual([trade]);
+  });
+
+  it('should not reverse a trade twice', async () => {
+    vi.mocked(fs.access).mockResolvedValue(undefined);
+    vi.mocked(fs.readFile).mockResolvedValue(
+      JSON.stringify({
+        config,
+        lotteries: [],
+        trades: [{ ...trade, reversedAt: '2025-03-02T12:00:00.000Z' }],
+      })
+    );
+
+    await expect(Database.reverseTrade('trade-1', '2025-03-03T12:00:00.000Z')).rejects.toThrow(
+      'Trade has already been reversed'
+    );
+    expect(fs.writeFile).not.toHaveBeenCalled();
+  });
+
+  it('should mark a reversed trade and hand the pick back', async () => {
+    const mockData: DatabaseSchema = {
+      config,
+      lotteries: [],
+      trades: [trade],
+      pickOwnership: [{ year: 2025, round: 1, originalTeamId: 'team-1', ownerTeamId: 'team-2' }],
+    };
+
+    vi.mocked(fs.access).mockResolvedValue(undefined);
+    vi.mocked(fs.readFile).mockResolvedValue(JSON.stringify(mockData));
+    vi.mocked(fs.writeFile).mockResolvedValue(undefined);
+
+    const reversed = await Database.reverseTrade('trade-1', '2025-03-02T12:00:00.000Z');
+
+    const writtenData = JSON.parse(
+      vi.mocked(fs.writeFile).mock.calls[0][1] as string
+    ) as DatabaseSchema;
+
+    expect(reversed?.reversedAt).toBe('2025-03-02T12:00:00.000Z');
+    expect(writtenData.trades?.[0].reversedAt).toBe('2025-03-02T12:00:00.000Z');
+    expect(writtenData.pickOwnership).toEqual([]);
+  });
+
+  it('should return undefined when reversing an unknown trade', async () => {
+    vi.mocked(fs.access).mockResolvedValue(undefined);
+    vi.mocked(fs.readFile).mockResolvedValue(JSON.stringify({ config: {}, lotteries: [] }));
+
+    const reversed = await Database.reverseTrade('missing', '2025-03-02T12:00:00.000Z');
+
+    expect(reversed).toBeUndefined();
+    expect(fs.writeFile).not.toHaveBeenCalled();
+  });
+});
+
+describe('[UNIT] Database - Atomic Writes', () => {
+  const DB_PATH = path.join(process.cwd(), 'src', 'data', 'database.json');
+  let files: Map<string, string>;
+
+  // Yield for a random moment so concurrent calls interleave
+  const tick = () => new Promise((resolve) => setTimeout(resolve, Math.random() * 3));
+
+  const lottery = (year: number): DraftLottery => ({
+    id: `lottery-${year}`,
+    year,
+    date: `${year}-06-01`,
+    picks: [],
+    config: {} as DraftConfig,
+  });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    files = new Map([[DB_PATH, JSON.stringify({ config: {}, lotteries: [] })]]);
+
+    // An in-memory file system with async gaps between every step
+    vi.mocked(fs.access).mockImplementation(async (file) => {
+      if (!files.has(String(file))) throw new Error('ENOENT');
+    });
+    vi.mocked(fs.readFile).mockImplementation((async (file: string) => {
+      await tick();
+      const data = files.get(String(file));
+      if (data === undefined) throw new Error('ENOENT');
+      return data;
+    }) as any);
+    vi.mocked(fs.writeFile).mockImplementation(async (file, data) => {
+      await tick();
+      files.set(String(file), String(data));
+    });
+    vi.mocked(fs.rename).mockImplementation(async (from, to) => {
+      await tick();
+      files.set(String(to), files.get(String(from)) as string);
+      files.delete(String(from));
+    });
+    vi.mocked(fs.copyFile).mockImplementation(async (from, to) => {
+      files.set(String(to), files.get(String(from)) as string);
+    });
+  });
+
+  it('should keep every lottery when many are saved at once', async () => {
+    const years = Array.from({ length: 25 }, (_, i) => 2000 + i);
+
+    await Promise.all(years.map((year) => Database.saveLottery(lottery(year))));
+
+    const saved = await Database.getAllLotteries();
+    expect(saved.map((l) => l.year).sort()).toEqual(years);
+  });
+
+  it('should keep every change when different mutations run at once', async () => {
+    await Promise.all([
+      Database.saveLottery(lottery(2024)),
+      Database.saveApiToken({
+        id: 'token-1',
+        name: 'Scoreboard',
+        tokenHash: 'hash',
+        createdAt: '2025-06-01T00:00:00.000Z',
+      }),
+      Database.saveLottery(lottery(2025)),
+      Database.savePendingLottery(lottery(2026)),
+    ]);
+
+    const db = JSON.parse(files.get(DB_PATH) as string) as DatabaseSchema;
+    expect(db.lotteries).toHaveLength(2);
+    expect(db.apiTokens).toHaveLength(1);
+    expect(db.pendingLottery?.year).toBe(2026);
+  });
+
+  it('should keep processing mutations after one fails', async () => {
+    files.set(
+      DB_PATH,
+      JSON.stringify({ config: {}, lotteries: [{ ...lottery(2024), finalized: true }] })
+    );
+
+    const results = await Promise.allSettled([
+      Database.saveLottery(lottery(2024)),
+      Database.saveLottery(lottery(2025)),
+    ]);
+
+    expect(results[0].status).toBe('rejected');
+    expect(results[1].status).toBe('fulfilled');
+    expect((await Database.getAllLotteries()).map((l) => l.year)).toEqual([2025, 2024]);
+  });
+
+  it('should write to a temp file, rename it into place and refresh the backup', async () => {
+    await Database.saveLottery(lottery(2025));
+
+    const tempPath = vi.mocked(fs.writeFile).mock.calls[0][0] as string;
+    expect(tempPath).toMatch(/^.*database\.json\.[\w-]+\.tmp$/);
+    expect(fs.rename).toHaveBeenCalledWith(tempPath, DB_PATH);
+    expect(files.has(tempPath)).toBe(false);
+    expect(files.get(`${DB_PATH}.bak`)).toBe(files.get(DB_PATH));
+  });
+
+  it('should not write anything when reading before the database exists', async () => {
+    files.clear();
+
+    const config = await Database.getConfig();
+
+    expect(config.teams).toHaveLength(10);
+    expect(fs.writeFile).not.toHaveBeenCalled();
+    expect(files.has(DB_PATH)).toBe(false);
+  });
+
+  it('should keep the first change when reads run alongside it on a new database', async () => {
+    files.clear();
+
+    await Promise.all([
+      Database.getAllLotteries(),
+      Database.saveLottery(lottery(2025)),
+      Database.getConfig(),
+      Database.getAllLotteries(),
+    ]);
+
+    const db = JSON.parse(files.get(DB_PATH) as string) as DatabaseSchema;
+    expect(db.lotteries.map((l) => l.year)).toEqual([2025]);
+  });
+
+  it('should give writers in different processes their own temp files', async () => {
+    await Promise.all([
+      new JsonStorage(DB_PATH).write({ config: {} as DraftConfig, lotteries: [lottery(2024)] }),
+      new JsonStorage(DB_PATH).write({ config: {} as DraftConfig, lotteries: [lottery(2025)] }),
+    ]);
+
+    const tempPaths = vi.mocked(fs.writeFile).mock.calls.map(([file]) => file);
+    expect(new Set(tempPaths).size).toBe(2);
+    expect(fs.rename).toHaveBeenCalledTimes(2);
+  });
+
+  it('should fall back to the backup when the database file is corrupt', async () => {
+    files.set(DB_PATH, '{"config": {}, "lotteries": [');
+    files.set(`${DB_PATH}.bak`, JSON.stringify({ config: {}, lotteries: [lottery(2023)] }));
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    const lotteries = await Database.getAllLotteries();
+
+    expect(lotteries.map((l) => l.year)).toEqual([2023]);
+    expect(warn).toHaveBeenCalled();
+    warn.mockRestore();
+  });
+
+  it('should repair the database file on the next write after a fallback', async () => {
+    files.set(DB_PATH, 'not json');
+    files.set(`${DB_PATH}.bak`, JSON.stringify({ config: {}, lotteries: [lottery(2023)] }));
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    await Database.saveLottery(lottery(2024));
+
+    const db = JSON.parse(files.get(DB_PATH) as string) as DatabaseSchema;
+    expect(db.lotteries.map((l) => l.year)).toEqual([2023, 2024]);
+    warn.mockRestore();
+  });
+
+  it('should fail when neither the database nor the backup can be read', async () => {
+    files.set(DB_PATH, 'not json');
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    await expect(Database.getAllLotteries()).rejects.toThrow('no valid backup exists');
+    warn.mockRestore();
+  });
+});
+
+describe('[UNIT] Database - Schema Migrations', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should upgrade an unversioned file on load', async () => {
+    vi.mocked(fs.access).mockResolvedValue(undefined);
+    vi.mocked(fs.readFile).mockResolvedValue(
+      JSON.stringify({
+        config: { numberOfTeams: 3, numberOfRounds: 1, teams: [], weightedSystem: [] },
+        lotteries: [],
+      })
+    );
+
+    const config = await Database.getConfig();
+
+    expect(config.initialOrder).toEqual([1, 2, 3]);
+    expect(config.roundOrderMode).toBe('independent');
+  });
+
+  it('should save the upgraded file at the current version on the next write', async () => {
+    vi.mocked(fs.access).mockResolvedValue(undefined);
+    vi.mocked(fs.readFile).mockResolvedValue(JSON.stringify({ config: {}, lotteries: [] }));
+    vi.mocked(fs.writeFile).mockResolvedValue(undefined);
+
+    await Database.deleteLottery(2020);
+
+    const writtenData = JSON.parse(
+      vi.mocked(fs.writeFile).mock.calls[0][1] as string
+    ) as DatabaseSchema;
+
+    expect(writtenData.schemaVersion).toBe(CURRENT_SCHEMA_VERSION);
+    expect(writtenData.config.lotteryFormat).toBeDefined();
+  });
+
+  it('should refuse to load a file from a newer version of the app', async () => {
+    vi.mocked(fs.access).mockResolvedValue(undefined);
+    vi.mocked(fs.readFile).mockResolvedValue(
+      JSON.stringify({ schemaVersion: CURRENT_SCHEMA_VERSION + 1, config: {}, lotteries: [] })
+    );
+
+    await expect(Database.getConfig()).rejects.toThrow('newer than this app supports');
+  });
+});
+
+describe('[UNIT] Database - Import', () => {
+  const lottery = (year: number, extra: Partial<DraftLottery> = {}): DraftLottery => ({
+    id: `lottery-${year}`,
+    year,
+    date: `${year}-01-01`,
+    picks: [],
+    config: {} as DraftConfig,
+    ...extra,
+  });
+
+  const current = {
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+    config: { currentYear: 2025 },
+    lotteries: [lottery(2023), lottery(2024)],
+    trades: [{ id: 'trade-old' }],
+  };
+
+  const backup = {
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+    config: { currentYear: 2026 },
+    lotteries: [lottery(2024, { seed: 'restored' }), lottery(2025)],
+    trades: [],
+  } as unknown as DatabaseSchema;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(fs.access).mockResolvedValue(undefined);
+    vi.mocked(fs.writeFile).mockResolvedValue(undefined);
+  });
+
+  it('should keep years missing from the backup and archive replaced ones when merging', async () => {
+    vi.mocked(fs.readFile).mockResolvedValue(JSON.stringify(current));
+
+    const preview = await Database.importData(backup, 'merge');
+
+    const writtenData = JSON.parse(
+      vi.mocked(fs.writeFile).mock.calls[0][1] as string
+    ) as DatabaseSchema;
+
+    expect(preview.lotteries.replaced).toEqual([2024]);
+    expect(writtenData.config).toEqual(backup.config);
+    expect(writtenData.trades).toEqual([]);
+    expect(writtenData.lotteries.map((l) => [l.year, l.seed])).toEqual([
+      [2023, undefined],
+      [2024, 'restored'],
+      [2025, undefined],
+    ]);
+    expect(writtenData.supersededLotteries).toHaveLength(1);
+    expect(writtenData.supersededLotteries?.[0]).toMatchObject(lottery(2024));
+  });
+
+  it('should take the backup as is when replacing', async () => {
+    vi.mocked(fs.readFile).mockResolvedValue(JSON.stringify(current));
+
+    const preview = await Database.importData(backup, 'replace');
+
+    const writtenData = JSON.parse(
+      vi.mocked(fs.writeFile).mock.calls[0][1] as string
+    ) as DatabaseSchema;
+
+    expect(preview.lotteries.removed).toEqual([2023]);
+    expect(writtenData).toEqual(backup);
+  });
+
+  it('should refuse to replace a finalized year without the override flag', async () => {
+    vi.mocked(fs.readFile).mockResolvedValue(
+      JSON.stringify({ ...current, lotteries: [lottery(2023), lottery(2024, { finalized: true })] })
+    );
+
+    await expect(Database.importData(backup, 'merge')).rejects.toThrow(LotteryFinalizedError);
+    expect(fs.writeFile).not.toHaveBeenCalled();
+
+    await Database.importData(backup, 'merge', true);
+    expect(fs.writeFile).toHaveBeenCalled();
+  });
+});
+
+describe('[UNIT] Database - Save Several Lotteries', () => {
+  const lottery = (year: number, extra: Partial<DraftLottery> = {}): DraftLottery => ({
+    id: `lottery-${year}`,
+    year,
+    date: `${year}-01-01`,
+    picks: [],
+    config: {} as DraftConfig,
+    ...extra,
+  });
+
+  const current = {
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+    config: { currentYear: 2025 },
+    lotteries: [lottery(2019), lottery(2020, { finalized: true })],
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(fs.access).mockResolvedValue(undefined);
+    vi.mocked(fs.writeFile).mockResolvedValue(undefined);
+    vi.mocked(fs.readFile).mockResolvedValue(JSON.stringify(current));
+  });
+
+  it('should save every year in one write', async () => {
+    await Database.saveLotteries([
+      lottery(2018, { imported: true }),
+      lottery(2019, { seed: 'csv' }),
+    ]);
+
+    const writtenData = JSON.parse(
+      vi.mocked(fs.writeFile).mock.calls[0][1] as string
+    ) as DatabaseSchema;
+
+    expect(fs.writeFile).toHaveBeenCalledTimes(1);
+    expect(writtenData.lotteries.map((l) => l.year).sort()).toEqual([2018, 2019, 2020]);
+    expect(writtenData.lotteries.find((l) => l.year === 2019)?.seed).toBe('csv');
+    expect(writtenData.supersededLotteries).toHaveLength(1);
+  });
+
+  it('should save nothing when one of the years is finalized', async () => {
+    await expect(Database.saveLotteries([lottery(2018), lottery(2020)])).rejects.toThrow(
+      LotteryFinalizedError
+    );
+    expect(fs.writeFile).not.toHaveBeenCalled();
+
+    await Database.saveLotteries([lottery(2018), lottery(2020)], true);
+    expect(fs.writeFile).toHaveBeenCalled();
+  });
+});
+
+describe('[UNIT] Database - API Tokens', () => {
+  const token = (id: string): ApiToken => ({
+    id,
+    name: `Script ${id}`,
+    tokenHash: `hash-${id}`,
+    createdAt: '2025-06-15T12:00:00.000Z',
+  });
+
+  const current = {
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+    config: { currentYear: 2025 },
+    lotteries: [],
+    apiTokens: [token('token-1')],
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(fs.access).mockResolvedValue(undefined);
+    vi.mocked(fs.writeFile).mockResolvedValue(undefined);
+    vi.mocked(fs.readFile).mockResolvedValue(JSON.stringify(current));
+  });
+
+  const written = () =>
+    JSON.parse(vi.mocked(fs.writeFile).mock.calls[0][1] as string) as DatabaseSchema;
+
+  it('should find tokens by their hash', async () => {
+    expect(await Database.findApiToken('hash-token-1')).toEqual(token('token-1'));
+    expect(await Database.findApiToken('hash-token-9')).toBeUndefined();
+  });
+
+  it('should add and delete tokens', async () => {
+    await Database.saveApiToken(token('token-2'));
+    expect(written().apiTokens?.map((t) => t.id)).toEqual(['token-1', 'token-2']);
+
+    vi.mocked(fs.writeFile).mockClear();
+    expect(await Database.deleteApiToken('token-1')).toBe(true);
+    expect(written().apiTokens).toEqual([]);
+
+    vi.mocked(fs.writeFile).mockClear();
+    expect(await Database.deleteApiToken('token-9')).toBe(false);
+    expect(fs.writeFile).not.toHaveBeenCalled();
+  });
+
+  it('should leave tokens out of exports and keep them through imports', async () => {
+    expect((await Database.exportData()).apiTokens).toBeUndefined();
+
+    const backup = {
+      ...current,
+      apiTokens: [token('token-from-backup')],
+    } as unknown as DatabaseSchema;
+    await Database.importData(backup, 'replace');
+
+    expect(written().apiTokens).toEqual([token('token-1')]);
+  });
+});
+
+describe('[UNIT] Database - Live Session', () => {
+  const pendingLottery: DraftLottery = {
+    id: 'lottery-2025',
+    year: 2025,
+    date: '2025-06-15T23:00:00.000Z',
+    picks: [
+      { round: 1, pickNumber: 1, teamId: 'team-2', originalPosition: 2, movement: -1 },
+      { round: 1, pickNumber: 2, teamId: 'team-1', originalPosition: 1, movement: 1 },
+    ],
+    config: {} as DraftConfig,
+  };
+
+  const liveSession: LiveSession = {
+    lotteryId: 'lottery-2025',
+    revealed: [{ round: 1, pickNumber: 1 }],
+    startedAt: '2025-06-15T23:00:00.000Z',
+    updatedAt: '2025-06-15T23:01:00.000Z',
+  };
+
+  const stored = (data: Partial<DatabaseSchema>) =>
+    vi.mocked(fs.readFile).mockResolvedValue(
+      JSON.stringify({
+        schemaVersion: CURRENT_SCHEMA_VERSION,
+        config: { currentYear: 2025 },
+        lotteries: [],
+        ...data,
+      })
+    );
+
+  const written = () =>
+    JSON.parse(vi.mocked(fs.writeFile).mock.calls[0][1] as string) as DatabaseSchema;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(fs.access).mockResolvedValue(undefined);
+    vi.mocked(fs.writeFile).mockResolvedValue(undefined);
+  });
+
+  it('should start a new session with every new draw', async () => {
+    stored({ pendingLottery: { ...pendingLottery, id: 'lottery-older' }, liveSession });
+
+    await Database.savePendingLottery(pendingLottery);
+
+    expect(written().liveSession).toMatchObject({ lotteryId: 'lottery-2025', revealed: [] });
+  });
+
+  it('should return the pending lottery with its session', async () => {
+    stored({ pendingLottery, liveSession });
+
+    expect(await Database.getLiveSession()).toEqual({
+      lottery: pendingLottery,
+      session: liveSession,
+    });
+  });
+
+  it('should ignore a session left over from another draw', async () => {
+    stored({ pendingLottery, liveSession: { ...liveSession, lotteryId: 'lottery-older' } });
+
+    const live = await Database.getLiveSession();
+
+    expect(live?.session).toMatchObject({ lotteryId: 'lottery-2025', revealed: [] });
+  });
+
+  it('should return undefined when no lottery is in progress', async () => {
+    stored({ liveSession });
+
+    expect(await Database.getLiveSession()).toBeUndefined();
+  });
+
+  it('should record each reveal once', async () => {
+    stored({ pendingLottery, liveSession });
+
+    const session = await Database.recordReveal('lottery-2025', 1, 2);
+    expect(session?.revealed).toEqual([
+      { round: 1, pickNumber: 1 },
+      { round: 1, pickNumber: 2 },
+    ]);
+    expect(written().liveSession).toEqual(session);
+
+    vi.mocked(fs.writeFile).mockClear();
+    const again = await Database.recordReveal('lottery-2025', 1, 1);
+    expect(again?.revealed).toEqual([{ round: 1, pickNumber: 1 }]);
+  });
+
+  it('should not record reveals for another lottery or unknown picks', async () => {
+    stored({ pendingLottery, liveSession });
+
+    expect(await Database.recordReveal('lottery-older', 1, 2)).toBeUndefined();
+    expect(await Database.recordReveal('lottery-2025', 2, 1)).toBeUndefined();
+    expect(fs.writeFile).not.toHaveBeenCalled();
+  });
+
+  it('should record several reveals in one write', async () => {
+    stored({ pendingLottery, liveSession });
+
+    const session = await Database.recordReveals('lottery-2025', [
+      { round: 1, pickNumber: 1 },
+      { round: 1, pickNumber: 2 },
+    ]);
+
+    expect(session?.revealed).toEqual([
+      { round: 1, pickNumber: 1 },
+      { round: 1, pickNumber: 2 },
+    ]);
+    expect(fs.writeFile).toHaveBeenCalledTimes(1);
+  });
+
+  it('should record none of the reveals when one is not a pick of the lottery', async () => {
+    stored({ pendingLottery, liveSession });
+
+    const session = await Database.recordReveals('lottery-2025', [
+      { round: 1, pickNumber: 2 },
+      { round: 2, pickNumber: 1 },
+    ]);
+
+    expect(session).toBeUndefined();
+    expect(fs.writeFile).not.toHaveBeenCalled();
+  });
+
+  it('should refuse reveals for an earlier draw of the same year after a redraw', async () => {
+    let saved = JSON.stringify({
+      schemaVersion: CURRENT_SCHEMA_VERSION,
+      config: { currentYear: 2025 },
+      lotteries: [],
+      pendingLottery: { ...pendingLottery, id: 'lottery-2025-first' },
+      liveSession: { ...liveSession, lotteryId: 'lottery-2025-first' },
+    });
+    vi.mocked(fs.readFile).mockImplementation(async () => saved);
+    vi.mocked(fs.writeFile).mockImplementation(async (_path, data) => {
+      saved = data as string;
+    });
+
+    await Database.savePendingLottery({ ...pendingLottery, id: 'lottery-2025-second' });
+
+    expect(await Database.recordReveal('lottery-2025-first', 1, 2)).toBeUndefined();
+    const live = await Database.getLiveSession();
+    expect(live?.lottery.id).toBe('lottery-2025-second');
+    expect(live?.session).toMatchObject({ lotteryId: 'lottery-2025-second', revealed: [] });
+  });
+
+  it('should discard the pending lottery with its session', async () => {
+    stored({ pendingLottery, liveSession });
+
+    expect(await Database.discardPendingLottery()).toBe(true);
+    expect(written().pendingLottery).toBeUndefined();
+    expect(written().liveSession).toBeUndefined();
+
+    vi.mocked(fs.writeFile).mockClear();
+    stored({});
+    expect(await Database.discardPendingLottery()).toBe(false);
+    expect(fs.writeFile).not.toHaveBeenCalled();
+  });
+
+  it('should end the session when the lottery is confirmed', async () => {
+    stored({ pendingLottery, liveSession });
+
+    await Database.confirmPendingLottery();
+
+    expect(written().liveSession).toBeUndefined();
+  });
+
+  it('should leave the session out of exports and keep it through imports', async () => {
+    stored({ pendingLottery, liveSession });
+    expect((await Database.exportData()).liveSession).toBeUndefined();
+
+    const backup = {
+      config: { currentYear: 2025 },
+      lotteries: [],
+      pendingLottery,
+      liveSession: { ...liveSession, revealed: [] },
+    } as unknown as DatabaseSchema;
+    await Database.importData(backup, 'replace');
+
+    expect(written().liveSession).toEqual(liveSession);
+  });
+
+  it('should drop the session when the import brings a different pending lottery', async () => {
+    const backups = [
+      { pendingLottery: { ...pendingLottery, id: 'lottery-2025-other' } },
+      {}, // No lottery in progress in the backup
+    ];
+
+    for (const mode of ['replace', 'merge'] as const) {
+      for (const extra of backups) {
+        vi.mocked(fs.writeFile).mockClear();
+        stored({ pendingLottery, liveSession });
+
+        await Database.importData(
+          { config: { currentYear: 2025 }, lotteries: [], ...extra } as unknown as DatabaseSchema,
+          mode
+        );
+
+        expect(written().pendingLottery).toEqual(extra.pendingLottery);
+        expect(written().liveSession).toBeUndefined();
+      }
+    }
+  });
 });
@@ -0,0 +1,125 @@
+import { describe, it, expect } from 'vitest';
+import { buildDraftBoard, escapeHtml, renderDraftBoardHtml } from '../draft-board';
+import type { DraftConfig, DraftLottery } from '../../types';
+
+const config: DraftConfig = {
+  numberOfTeams: 4,
+  numberOfRounds: 2,
+  teams: [
+    { id: 'team-1', name: 'Knockout Kings', logoUrl: '/logos/kings.png', logoType: 'upload' },
+    { id: 'team-2', name: 'Rhino <BR>', logoUrl: 'https://example.com/rhino.png', logoType: 'url' },
+    { id: 'team-3', name: 'Loco Lobos', logoUrl: '', logoType: 'url' },
+    { id: 'team-4', name: 'Buck Hunters', logoUrl: '', logoType: 'url' },
+  ],
+  weightedSystem: [
+    { position: 4, percentage: 40.0 },
+    { position: 3, percentage: 30.0 },
+    { position: 2, percentage: 20.0 },
+    { position: 1, percentage: 10.0 },
+  ],
+  pickDelaySeconds: 3,
+  currentYear: 2025,
+};
+
+// Stored out of order; the Lobos' round 2 pick was traded to the Kings
+const lottery: DraftLottery = {
+  id: 'lottery-2025',
+  year: 2025,
+  date: '2025-06-15T12:00:00.000Z',
+  picks: [
+    { round: 2, pickNumber: 2, teamId: 'team-2', originalPosition: 2, movement: 0 },
+    { round: 2, pickNumber: 1, teamId: 'team-1', originalPosition: 1, movement: 0 },
+    {
+      round: 2,
+      pickNumber: 3,
+      teamId: 'team-3',
+      ownerTeamId: 'team-1',
+      originalPosition: 3,
+      movement: 0,
+    },
+    { round: 2, pickNumber: 4, teamId: 'team-4', originalPosition: 4, movement: 0 },
+    { round: 1, pickNumber: 1, teamId: 'team-4', originalPosition: 4, movement: -3 },
+    { round: 1, pickNumber: 2, teamId: 'team-1', originalPosition: 1, movement: 1 },
+    { round: 1, pickNumber: 3, teamId: 'team-2', originalPosition: 2, movement: 1 },
+    { round: 1, pickNumber: 4, teamId: 'team-3', originalPosition: 3, movement: 1 },
+  ],
+  config,
+  finalized: true,
+};
+
+describe('[UNIT] Draft Board - Layout', () => {
+  it('should order rounds and picks and number picks overall', () => {
+    const board = buildDraftBoard(lottery);
+
+    expect(board.map((round) => round.round)).toEqual([1, 2]);
+    expect(board[0].picks.map((pick) => pick.team.id)).toEqual([
+      'team-4',
+      'team-1',
+      'team-2',
+      'team-3',
+    ]);
+    expect(board[1].picks.map((pick) => pick.overallPick)).toEqual([5, 6, 7, 8]);
+  });
+
+  it('should show the owner of a traded pick with the original team as via', () => {
+    const traded = buildDraftBoard(lottery)[1].picks[2];
+
+    expect(traded.team.name).toBe('Knockout Kings');
+    expect(traded.via?.name).toBe('Loco Lobos');
+    expect(buildDraftBoard(lottery)[1].picks[0].via).toBeUndefined();
+  });
+
+  it('should fall back to the team ID for teams missing from the config', () => {
+    const board = buildDraftBoard({
+      ...lottery,
+      picks: [{ round: 1, pickNumber: 1, teamId: 'team-9', originalPosition: 1, movement: 0 }],
+    });
+
+    expect(board[0].picks[0].team).toMatchObject({ id: 'team-9', name: 'team-9' });
+  });
+});
+
+describe('[UNIT] Draft Board - HTML', () => {
+  const html = renderDraftBoardHtml(lottery, { generatedAt: '2025-06-16T00:00:00.000Z' });
+
+  it('should render a league header and one section per round with page breaks', () => {
+    expect(html).toContain('<h2>2025 Draft Board</h2>');
+    expect(html).toContain('4 teams · 2 rounds · Lottery held June 15, 2025 · Finalized');
+    expect(html.match(/<section class="round">/g)).toHaveLength(2);
+    expect(html).toContain('.round + .round { break-before: page; }');
+  });
+
+  it('should show overall pick numbers, via notes and movement', () => {
+    expect(html).toContain('#7');
+    expect(html).toContain('2.03');
+    expect(html).toContain('<div class="via">via Loco Lobos</div>');
+    expect(html).toContain('▲ 3 spots');
+    expect(html).toContain('▼ 1 spot');
+  });
+
+  it('should escape team names', () => {
+    expect(html).toContain('Rhino &lt;BR&gt;');
+    expect(html).not.toContain('Rhino <BR>');
+    expect(escapeHtml(`"a" & 'b'`)).toBe('&quot;a&quot; &amp; &#39;b&#39;');
+  });
+
+  it('should use embedded logos when given and initials for teams without one', () => {
+    const archived = renderDraftBoardHtml(lottery, {
+      logos: { '/logos/kings.png': 'data:image/png;base64,AAAA' },
+    });
+
+    expect(archived).toContain('src="data:image/png;base64,AAAA"');
+    expect(archived).not.toContain('src="/logos/kings.png"');
+    expect(archived).toContain('src="https://example.com/rhino.png"');
+    expect(archived).toContain('<div class="logo placeholder">LO</div>');
+  });
+
+  it('should only show the extra toolbar links that are passed in', () => {
+    const withLinks = renderDraftBoardHtml(lottery, {
+      links: [{ label: 'Back to History', href: '/history' }],
+    });
+
+    expect(withLinks).toContain('<a href="/history">Back to History</a>');
+    expect(html).not.toContain('Back to History');
+  });
+});
@@ -0,0 +1,236 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildImportedLotteries,
+  matchTeamNames,
+  parseHistoryCsv,
+  type HistoryCsvRow,
+} from '../history-import';
+import type { DraftConfig } from '../../types';
+
+const config: DraftConfig = {
+  numberOfTeams: 5,
+  numberOfRounds: 2,
+  teams: [
+    { id: 'team-1', name: 'Knockout Kings', logoUrl: '', logoType: 'url' },
+    { id: 'team-2', name: 'Operation BlackRhino', logoUrl: '', logoType: 'url' },
+    { id: 'team-3', name: 'Loco Lobos', logoUrl: '', logoType: 'url' },
+    { id: 'team-4', name: 'Buck Hunters', logoUrl: '', logoType: 'url' },
+    { id: 'team-5', name: 'Chieftains', logoUrl: '', logoType: 'url' },
+  ],
+  weightedSystem: [
+    { position: 5, percentage: 30.0 },
+    { position: 4, percentage: 25.0 },
+    { position: 3, percentage: 20.0 },
+    { position: 2, percentage: 15.0 },
+    { position: 1, percentage: 10.0 },
+  ],
+  pickDelaySeconds: 3,
+  currentYear: 2025,
+  initialOrder: [1, 2, 3, 4, 5],
+  lotteryFormat: { type: 'bounded-movement', maxMovement: 1 },
+  roundOrderMode: 'independent',
+};
+
+const teamIds = {
+  Kings: 'team-1',
+  Rhino: 'team-2',
+  Lobos: 'team-3',
+  Hunters: 'team-4',
+};
+
+// Round 1: Rhino (position 2) jumps to pick 1; round 2 keeps the original order
+const rows = (year: number, firstLine = 2): HistoryCsvRow[] =>
+  [
+    [1, 1, 'Rhino', 2],
+    [1, 2, 'Kings', 1],
+    [1, 3, 'Lobos', 3],
+    [1, 4, 'Hunters', 4],
+    [2, 1, 'Kings', 1],
+    [2, 2, 'Rhino', 2],
+    [2, 3, 'Lobos', 3],
+    [2, 4, 'Hunters', 4],
+  ].map(([round, pickNumber, teamName, originalPosition], index) => ({
+    line: firstLine + index,
+    year,
+    round: round as number,
+    pickNumber: pickNumber as number,
+    teamName: teamName as string,
+    originalPosition: originalPosition as number,
+  }));
+
+describe('[UNIT] History Import - Team Matching', () => {
+  it('should match names exactly regardless of case and punctuation', () => {
+    expect(matchTeamNames(['loco lobos!', 'team-4'], config.teams)).toEqual([
+      { name: 'loco lobos!', teamId: 'team-3', score: 1, exact: true },
+      { name: 'team-4', teamId: 'team-4', score: 1, exact: true },
+    ]);
+  });
+
+  it('should suggest the closest team for typos and shortened names', () => {
+    const [typo, shortened] = matchTeamNames(['Knockout Kngs', 'Lobos'], config.teams);
+
+    expect(typo).toMatchObject({ teamId: 'team-1', exact: false });
+    expect(shortened).toMatchObject({ teamId: 'team-3', exact: false });
+    expect(shortened.score).toBeLessThan(1);
+  });
+
+  it('should not suggest a team for a name that is nothing alike', () => {
+    const [match] = matchTeamNames(['Zebras'], config.teams);
+
+    expect(match.teamId).toBeUndefined();
+    expect(match.exact).toBe(false);
+  });
+
+  it('should list each name once', () => {
+    expect(matchTeamNames(['Lobos', 'Lobos'], config.teams)).toHaveLength(1);
+  });
+});
+
+describe('[UNIT] History Import - CSV Parsing', () => {
+  it('should find columns by name in any order', () => {
+    const { rows, errors } = parseHistoryCsv(
+      'Team Name,Original Position,Season,Rd,Pick #,Date\nLobos,3,2019,1,2,2019-05-01\n'
+    );
+
+    expect(errors).toEqual([]);
+    expect(rows).toEqual([
+      {
+        line: 2,
+        year: 2019,
+        round: 1,
+        pickNumber: 2,
+        teamName: 'Lobos',
+        originalPosition: 3,
+        date: '2019-05-01',
+      },
+    ]);
+  });
+
+  it('should read files exported by the app', () => {
+    const { rows, errors } = parseHistoryCsv(
+      'Year,Round,Pick,Overall Pick,Team,Owner,Original Position,Movement\r\n' +
+        '2025,2,1,5,Loco Lobos,,3,-2\r\n'
+    );
+
+    expect(errors).toEqual([]);
+    expect(rows[0]).toMatchObject({ round: 2, pickNumber: 1, originalPosition: 3 });
+  });
+
+  it('should report missing columns', () => {
+    expect(parseHistoryCsv('Year,Team\n2019,Lobos').errors).toEqual([
+      { field: 'header', message: 'Missing column: round' },
+      { field: 'header', message: 'Missing column: pick' },
+      { field: 'header', message: 'Missing column: original position' },
+    ]);
+  });
+
+  it('should report bad values with their line number', () => {
+    const { errors } = parseHistoryCsv(
+      'Year,Round,Pick,Team,Original Position\n2019,1,1,Lobos,3\n2019,one,2,,4\n'
+    );
+
+    expect(errors).toEqual([
+      { field: 'line 3', message: 'Round must be a whole number' },
+      { field: 'line 3', message: 'Team is required' },
+    ]);
+  });
+
+  it('should report a file without picks', () => {
+    expect(parseHistoryCsv('Year,Round,Pick,Team,Original Position\n').errors).toEqual([
+      { field: 'csv', message: 'The file has no picks' },
+    ]);
+    expect(parseHistoryCsv('').errors[0].message).toBe('The file is empty');
+  });
+});
+
+describe('[UNIT] History Import - Building Lotteries', () => {
+  it('should build one imported lottery per year with computed movement', () => {
+    const { lotteries, errors, warnings } = buildImportedLotteries(
+      [...rows(2019), ...rows(2018)],
+      config,
+      teamIds,
+      '2025-01-01T00:00:00.000Z'
+    );
+
+    expect(errors).toEqual([]);
+    expect(warnings).toEqual([]);
+    expect(lotteries.map((lottery) => lottery.year)).toEqual([2018, 2019]);
+
+    const [lottery] = lotteries;
+    expect(lottery).toMatchObject({
+      id: 'lottery-2018',
+      date: '2018-01-01T00:00:00.000Z',
+      imported: true,
+      finalized: true,
+      finalizedAt: '2025-01-01T00:00:00.000Z',
+      initialOrder: [1, 2, 3, 4],
+    });
+    expect(lottery.config.numberOfRounds).toBe(2);
+    expect(lottery.picks.slice(0, 2)).toEqual([
+      { round: 1, pickNumber: 1, teamId: 'team-2', originalPosition: 2, movement: -1 },
+      { round: 1, pickNumber: 2, teamId: 'team-1', originalPosition: 1, movement: 1 },
+    ]);
+  });
+
+  it('should narrow the league to the teams in that year', () => {
+    const { lotteries } = buildImportedLotteries(rows(2017), config, teamIds);
+
+    expect(lotteries[0].config.numberOfTeams).toBe(4);
+    expect(lotteries[0].config.teams.map((team) => team.id)).not.toContain('team-5');
+    expect(lotteries[0].config.weightedSystem).toHaveLength(4);
+  });
+
+  it('should only warn when a year breaks the current lottery format', () => {
+    // Hunters jump from 4th to the first pick, further than the 1-spot limit
+    const roundOne: Record<string, number> = { Hunters: 1, Rhino: 2, Kings: 3, Lobos: 4 };
+    const bigJump = rows(2019).map((row) =>
+      row.round === 1 ? { ...row, pickNumber: roundOne[row.teamName] } : row
+    );
+
+    const { lotteries, errors, warnings } = buildImportedLotteries(bigJump, config, teamIds);
+
+    expect(errors).toEqual([]);
+    expect(lotteries).toHaveLength(1);
+    expect(lotteries[0].picks[3].movement).toBe(-3);
+    expect(warnings.length).toBeGreaterThan(0);
+    expect(warnings.every((warning) => warning.startsWith('2019: '))).toBe(true);
+  });
+
+  it('should reject a year whose picks are not a consistent draft order', () => {
+    const duplicatePick = rows(2019).map((row) =>
+      row.line === 3 ? { ...row, pickNumber: 1 } : row
+    );
+
+    const { lotteries, errors } = buildImportedLotteries(duplicatePick, config, teamIds);
+
+    expect(lotteries).toEqual([]);
+    expect(errors).toContainEqual({
+      field: 'lotteries[2019].picks',
+      message: 'Round 1 pick numbers must be 1 to 4, each once',
+    });
+  });
+
+  it('should reject a team in a different original position than in round 1', () => {
+    const swapped = rows(2019).map((row) =>
+      row.round === 2 && row.teamName === 'Kings'
+        ? { ...row, teamName: 'Rhino' }
+        : row.round === 2 && row.teamName === 'Rhino'
+          ? { ...row, teamName: 'Kings' }
+          : row
+    );
+
+    const { errors } = buildImportedLotteries(swapped, config, teamIds);
+
+    expect(errors[0].message).toBe('Original position 1 belongs to team-1, not team-2');
+  });
+
+  it('should refuse names without a chosen team', () => {
+    const { lotteries, errors } = buildImportedLotteries(rows(2019), config, {
+      ...teamIds,
+      Lobos: '',
+    });
+
+    expect(lotteries).toEqual([]);
+    expect(errors).toEqual([{ field: 'teams', message: 'No team chosen for "Lobos"' }]);
+  });
+});
@@ -0,0 +1,143 @@
+import { describe, it, expect } from 'vitest';
+import {
+  addTeam,
+  createTeam,
+  DEFAULT_WEIGHTED_ODDS,
+  generateWeightedOdds,
+  removeTeam,
+  resizeWeightedOdds,
+  setNumberOfTeams,
+} from '../league';
+import { validateDraftConfig } from '../validation';
+import type { DraftConfig, WeightedOdds } from '../../types';
+
+const total = (odds: WeightedOdds[]) =>
+  Math.round(odds.reduce((sum, o) => sum + o.percentage, 0) * 10) / 10;
+
+const percentageAt = (odds: WeightedOdds[], position: number) =>
+  odds.find((o) => o.position === position)!.percentage;
+
+const makeConfig = (numberOfTeams: number): DraftConfig => ({
+  numberOfTeams,
+  numberOfRounds: 3,
+  teams: Array.from({ length: numberOfTeams }, (_, i) => ({
+    id: `team-${i + 1}`,
+    name: `Team ${i + 1}`,
+    logoUrl: '',
+    logoType: 'url' as const,
+  })),
+  weightedSystem: generateWeightedOdds(numberOfTeams),
+  pickDelaySeconds: 3,
+  currentYear: 2025,
+});
+
+describe('[UNIT] resizeWeightedOdds', () => {
+  it('should return the table unchanged when the size matches', () => {
+    expect(resizeWeightedOdds(DEFAULT_WEIGHTED_ODDS, 10)).toEqual(DEFAULT_WEIGHTED_ODDS);
+  });
+
+  it.each([4, 12, 14, 32])('should cover every position and total 100%% for %i teams', (n) => {
+    const odds = resizeWeightedOdds(DEFAULT_WEIGHTED_ODDS, n);
+
+    expect(odds).toHaveLength(n);
+    expect(odds.map((o) => o.position).sort((a, b) => a - b)).toEqual(
+      Array.from({ length: n }, (_, i) => i + 1)
+    );
+    expect(total(odds)).toBe(100);
+  });
+
+  it('should keep the worst team with the best odds', () => {
+    const odds = resizeWeightedOdds(DEFAULT_WEIGHTED_ODDS, 14);
+
+    expect(percentageAt(odds, 14)).toBe(Math.max(...odds.map((o) => o.percentage)));
+    expect(percentageAt(odds, 1)).toBe(Math.min(...odds.map((o) => o.percentage)));
+  });
+
+  it('should keep the shape of a custom table', () => {
+    const flat = Array.from({ length: 10 }, (_, i) => ({ position: i + 1, percentage: 10 }));
+
+    const odds = resizeWeightedOdds(flat, 8);
+
+    expect(odds.every((o) => o.percentage === 12.5)).toBe(true);
+  });
+
+  it('should fall back to the default curve for an empty table', () => {
+    expect(resizeWeightedOdds([], 10)).toEqual(DEFAULT_WEIGHTED_ODDS);
+  });
+});
+
+describe('[UNIT] League size changes', () => {
+  it('should create a team with an unused id', () => {
+    const teams = makeConfig(4).teams.filter((team) => team.id !== 'team-2');
+
+    expect(createTeam(teams).id).toBe('team-5');
+  });
+
+  it('should add a team at the worst position of the saved order', () => {
+    const config = { ...makeConfig(4), initialOrder: [2, 1, 4, 3] };
+
+    const result = addTeam(config);
+
+    expect(result.numberOfTeams).toBe(5);
+    expect(result.teams[4].id).toBe('team-5');
+    expect(result.initialOrder).toEqual([2, 1, 4, 3, 5]);
+    expect(result.weightedSystem).toHaveLength(5);
+  });
+
+  it('should remove a team and renumber the saved order', () => {
+    const config = { ...makeConfig(5), initialOrder: [5, 2, 1, 4, 3] };
+
+    const result = removeTeam(config, 'team-2');
+
+    expect(result.numberOfTeams).toBe(4);
+    expect(result.teams.map((team) => team.id)).toEqual(['team-1', 'team-3', 'team-4', 'team-5']);
+    // team-5 (now team number 4) keeps position 1, team-1 keeps its place before team-4
+    expect(result.initialOrder).toEqual([4, 1, 3, 2]);
+    expect(total(result.weightedSystem)).toBe(100);
+  });
+
+  it('should keep format settings within the smaller league', () => {
+    const config: DraftConfig = {
+      ...makeConfig(6),
+      lotteryFormat: { type: 'non-playoff', playoffTeams: 5, maxMovement: 2 },
+    };
+
+    const result = removeTeam(config, 'team-6');
+
+    expect(result.lotteryFormat).toEqual({ type: 'non-playoff', playoffTeams: 4, maxMovement: 2 });
+  });
+
+  it('should keep max movement within the smaller league', () => {
+    const formats: DraftConfig['lotteryFormat'][] = [
+      { type: 'bounded-movement', maxMovement: 5 },
+      { type: 'ball-draw', maxMovement: 5 },
+      { type: 'non-playoff', playoffTeams: 2, maxMovement: 5 },
+    ];
+
+    formats.forEach((lotteryFormat) => {
+      const result = removeTeam({ ...makeConfig(6), lotteryFormat }, 'team-6');
+
+      expect(result.lotteryFormat).toMatchObject({ maxMovement: 4 });
+      expect(validateDraftConfig(result)).toEqual([]);
+    });
+    expect(
+      removeTeam({ ...makeConfig(6), lotteryFormat: { type: 'ball-draw' } }, 'team-6').lotteryFormat
+    ).toEqual({ type: 'ball-draw' });
+  });
+
+  it('should ignore an unknown team', () => {
+    const config = makeConfig(4);
+
+    expect(removeTeam(config, 'team-9')).toBe(config);
+  });
+
+  it('should grow and shrink to a given size', () => {
+    const grown = setNumberOfTeams(makeConfig(10), 14);
+    const shrunk = setNumberOfTeams(grown, 12);
+
+    expect(grown.teams).toHaveLength(14);
+    expect(grown.numberOfTeams).toBe(14);
+    expect(shrunk.teams.map((team) => team.id)).toEqual(grown.teams.slice(0, 12).map((t) => t.id));
+    expect(total(shrunk.weightedSystem)).toBe(100);
+  });
+});
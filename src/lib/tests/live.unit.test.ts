@@ -0,0 +1,300 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import {
+  LiveBroadcast,
+  formatServerSentEvent,
+  getRevealCursor,
+  getRevealedPicks,
+} from '../live';
+import type { LiveEvent } from '../live';
+import type { DraftConfig, DraftLottery, LiveSession } from '../../types';
+
+const config: DraftConfig = {
+  numberOfTeams: 4,
+  numberOfRounds: 1,
+  teams: [
+    { id: 'team-1', name: 'Team 1', logoUrl: '', logoType: 'url' },
+    { id: 'team-2', name: 'Team 2', logoUrl: '', logoType: 'url' },
+    { id: 'team-3', name: 'Team 3', logoUrl: '', logoType: 'url' },
+    { id: 'team-4', name: 'Team 4', logoUrl: '', logoType: 'url' },
+  ],
+  weightedSystem: [
+    { position: 4, percentage: 40.0 },
+    { position: 3, percentage: 30.0 },
+    { position: 2, percentage: 20.0 },
+    { position: 1, percentage: 10.0 },
+  ],
+  pickDelaySeconds: 3,
+  currentYear: 2025,
+};
+
+const lottery: DraftLottery = {
+  id: 'lottery-2025',
+  year: 2025,
+  date: '2025-06-15T12:00:00.000Z',
+  picks: [
+    { round: 1, pickNumber: 1, teamId: 'team-4', originalPosition: 4, movement: -3 },
+    { round: 1, pickNumber: 2, teamId: 'team-3', originalPosition: 3, movement: -1 },
+    { round: 1, pickNumber: 3, teamId: 'team-1', originalPosition: 1, movement: 2 },
+    { round: 1, pickNumber: 4, teamId: 'team-2', originalPosition: 2, movement: 2 },
+  ],
+  config,
+};
+
+describe('[UNIT] LiveBroadcast', () => {
+  let live: LiveBroadcast;
+
+  beforeEach(() => {
+    live = new LiveBroadcast();
+  });
+
+  it('should start idle', () => {
+    expect(live.getState()).toEqual({ reveals: [], complete: false });
+  });
+
+  it('should not share the draw when a lottery starts', () => {
+    const events: LiveEvent[] = [];
+    live.subscribe((event) => events.push(event));
+
+    live.start(lottery);
+
+    expect(events).toEqual([
+      {
+        type: 'start',
+        state: { lotteryId: 'lottery-2025', year: 2025, config, reveals: [], complete: false },
+      },
+    ]);
+    expect(JSON.stringify(events)).not.toContain('movement');
+  });
+
+  it('should send each reveal to every watcher', () => {
+    const first = vi.fn();
+    const second = vi.fn();
+    live.start(lottery);
+    live.subscribe(first);
+    live.subscribe(second);
+
+    expect(live.reveal(lottery.picks[0])).toBe(true);
+
+    expect(first).toHaveBeenCalledWith({ type: 'reveal', pick: lottery.picks[0] });
+    expect(second).toHaveBeenCalledWith({ type: 'reveal', pick: lottery.picks[0] });
+  });
+
+  it('should keep every reveal so far for late joiners', () => {
+    live.start(lottery);
+    live.reveal(lottery.picks[0]);
+    live.reveal(lottery.picks[1]);
+
+    expect(live.getState().reveals).toEqual([lottery.picks[0], lottery.picks[1]]);
+  });
+
+  it('should ignore a pick that was already revealed', () => {
+    const listener = vi.fn();
+    live.start(lottery);
+    live.reveal(lottery.picks[0]);
+    live.subscribe(listener);
+
+    expect(live.reveal({ ...lottery.picks[0] })).toBe(false);
+    expect(listener).not.toHaveBeenCalled();
+    expect(live.getState().reveals).toHaveLength(1);
+  });
+
+  it('should send picks revealed at once as a single event', () => {
+    const listener = vi.fn();
+    live.start(lottery);
+    live.reveal(lottery.picks[0]);
+    live.subscribe(listener);
+
+    const added = live.revealAll(lottery.picks);
+
+    expect(added).toEqual(lottery.picks.slice(1));
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledWith({ type: 'reveals', picks: lottery.picks.slice(1) });
+    expect(live.getState().reveals).toEqual(lottery.picks);
+  });
+
+  it('should not send anything when every pick was already revealed', () => {
+    const listener = vi.fn();
+    live.start(lottery);
+    live.revealAll(lottery.picks);
+    live.subscribe(listener);
+
+    expect(live.revealAll(lottery.picks)).toEqual([]);
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  it('should clear the reveals when a new lottery starts', () => {
+    live.start(lottery);
+    live.reveal(lottery.picks[0]);
+    live.complete(2025);
+
+    live.start({ ...lottery, id: 'lottery-2025-redraw' });
+
+    expect(live.getState()).toMatchObject({
+      lotteryId: 'lottery-2025-redraw',
+      reveals: [],
+      complete: false,
+    });
+  });
+
+  it('should pick a lottery back up with its earlier reveals', () => {
+    const listener = vi.fn();
+    live.subscribe(listener);
+
+    live.start(lottery, [lottery.picks[0], lottery.picks[1]]);
+
+    expect(live.getState().reveals).toEqual([lottery.picks[0], lottery.picks[1]]);
+    expect(listener).toHaveBeenCalledWith({ type: 'start', state: live.getState() });
+  });
+
+  it('should send watchers back to waiting when the lottery is discarded', () => {
+    const listener = vi.fn();
+    live.start(lottery);
+    live.reveal(lottery.picks[0]);
+    live.subscribe(listener);
+
+    live.reset();
+
+    expect(live.getState()).toEqual({ reveals: [], complete: false });
+    expect(listener).toHaveBeenCalledWith({
+      type: 'state',
+      state: { reveals: [], complete: false },
+    });
+  });
+
+  it('should mark the lottery complete', () => {
+    const listener = vi.fn();
+    live.start(lottery);
+    live.subscribe(listener);
+
+    live.complete(2025);
+
+    expect(live.getState().complete).toBe(true);
+    expect(listener).toHaveBeenCalledWith({ type: 'complete', year: 2025 });
+  });
+
+  it('should stop sending to a watcher that unsubscribed', () => {
+    const listener = vi.fn();
+    const unsubscribe = live.subscribe(listener);
+    expect(live.watcherCount).toBe(1);
+
+    unsubscribe();
+    live.start(lottery);
+
+    expect(listener).not.toHaveBeenCalled();
+    expect(live.watcherCount).toBe(0);
+  });
+
+  it('should drop a watcher whose stream fails without stopping the others', () => {
+    const listener = vi.fn();
+    live.subscribe(() => {
+      throw new Error('Stream closed');
+    });
+    live.subscribe(listener);
+
+    live.start(lottery);
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(live.watcherCount).toBe(1);
+  });
+
+  it('should not let callers change the stored reveals', () => {
+    live.start(lottery);
+    live.getState().reveals.push(lottery.picks[0]);
+
+    expect(live.getState().reveals).toEqual([]);
+  });
+});
+
+describe('[UNIT] formatServerSentEvent', () => {
+  it('should name the event and send it as JSON', () => {
+    const event: LiveEvent = { type: 'complete', year: 2025 };
+
+    expect(formatServerSentEvent(event)).toBe(
+      'event: complete\ndata: {"type":"complete","year":2025}\n\n'
+    );
+  });
+});
+
+describe('[UNIT] Reveal Cursor', () => {
+  // Two rounds of two picks
+  const twoRounds: DraftLottery = {
+    ...lottery,
+    config: { ...config, numberOfTeams: 2, numberOfRounds: 2 },
+    picks: [
+      { round: 1, pickNumber: 1, teamId: 'team-2', originalPosition: 2, movement: -1 },
+      { round: 1, pickNumber: 2, teamId: 'team-1', originalPosition: 1, movement: 1 },
+      { round: 2, pickNumber: 1, teamId: 'team-1', originalPosition: 1, movement: 0 },
+      { round: 2, pickNumber: 2, teamId: 'team-2', originalPosition: 2, movement: 0 },
+    ],
+  };
+
+  function session(revealed: LiveSession['revealed']): LiveSession {
+    return {
+      lotteryId: 'lottery-2025',
+      revealed,
+      startedAt: '2025-06-15T12:00:00.000Z',
+      updatedAt: '2025-06-15T12:05:00.000Z',
+    };
+  }
+
+  it('should start at the first pick when nothing is revealed', () => {
+    expect(getRevealCursor(twoRounds, session([]))).toEqual({
+      round: 1,
+      revealedInRound: 0,
+      complete: false,
+    });
+  });
+
+  it('should resume partway through a round', () => {
+    const cursor = getRevealCursor(twoRounds, session([{ round: 1, pickNumber: 1 }]));
+
+    expect(cursor).toEqual({ round: 1, revealedInRound: 1, complete: false });
+  });
+
+  it('should move on to the next round once a round is revealed', () => {
+    const cursor = getRevealCursor(
+      twoRounds,
+      session([
+        { round: 1, pickNumber: 1 },
+        { round: 1, pickNumber: 2 },
+      ])
+    );
+
+    expect(cursor).toEqual({ round: 2, revealedInRound: 0, complete: false });
+  });
+
+  it('should be complete once every pick is revealed', () => {
+    const all = twoRounds.picks.map(({ round, pickNumber }) => ({ round, pickNumber }));
+
+    expect(getRevealCursor(twoRounds, session(all))).toEqual({
+      round: 2,
+      revealedInRound: 2,
+      complete: true,
+    });
+  });
+
+  it('should ignore saved reveals that are not picks of the lottery', () => {
+    const cursor = getRevealCursor(
+      twoRounds,
+      session([
+        { round: 1, pickNumber: 1 },
+        { round: 3, pickNumber: 1 },
+      ])
+    );
+
+    expect(cursor).toEqual({ round: 1, revealedInRound: 1, complete: false });
+    expect(getRevealedPicks(twoRounds, session([{ round: 3, pickNumber: 1 }]))).toEqual([]);
+  });
+
+  it('should return the revealed picks in the order they were revealed', () => {
+    const picks = getRevealedPicks(
+      twoRounds,
+      session([
+        { round: 1, pickNumber: 2 },
+        { round: 1, pickNumber: 1 },
+      ])
+    );
+
+    expect(picks).toEqual([twoRounds.picks[1], twoRounds.picks[0]]);
+  });
+});
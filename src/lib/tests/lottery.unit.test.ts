@@ -5,8 +5,22 @@ import {
   weightedRandomSelection,
   runLotteryRound,
   runCompleteLottery,
+  runSeededLottery,
+  verifyLottery,
+  getLotteryFormat,
+  isRoundReversed,
+  deriveRoundPicks,
+  LOTTERY_ALGORITHM_VERSION,
 } from '../lottery';
-import type { DraftConfig, DraftPick, WeightedOdds } from '../../types';
+import { generateWeightedOdds } from '../league';
+import { createSeededRng } from '../rng';
+import type {
+  DraftConfig,
+  DraftLottery,
+  DraftPick,
+  LotteryFormatConfig,
+  WeightedOdds,
+} from '../../types';
 
 const mockWeightedSystem: WeightedOdds[] = [
   { position: 10, percentage: 25.0 },
@@ -514,3 +528,499 @@ describe('[UNIT] runCompleteLottery - Validation Error', () => {
     expect(round3Picks).toHaveLength(4);
   });
 });
+
+describe('[UNIT] Seeded lottery draws', () => {
+  const initialOrder = [1, 2, 3, 4, 5, 6, 7, 8, 9, 10];
+
+  it('should reproduce the exact same picks for the same seed', () => {
+    const first = runCompleteLottery(mockConfig, initialOrder, createSeededRng('audit-seed'));
+    const second = runCompleteLottery(mockConfig, initialOrder, createSeededRng('audit-seed'));
+
+    expect(second).toEqual(first);
+  });
+
+  it('should not call Math.random when a random source is injected', () => {
+    const mathRandomSpy = vi.spyOn(Math, 'random');
+
+    runCompleteLottery(mockConfig, initialOrder, createSeededRng('no-math-random'));
+
+    expect(mathRandomSpy).not.toHaveBeenCalled();
+    mathRandomSpy.mockRestore();
+  });
+
+  it('should produce different draws for different seeds', () => {
+    const draws = new Set(
+      ['a', 'b', 'c', 'd', 'e'].map((seed) =>
+        JSON.stringify(runCompleteLottery(mockConfig, initialOrder, createSeededRng(seed)))
+      )
+    );
+
+    expect(draws.size).toBeGreaterThan(1);
+  });
+});
+
+describe('[UNIT] verifyLottery', () => {
+  const initialOrder = [1, 2, 3, 4, 5, 6, 7, 8, 9, 10];
+
+  function createLottery(seed: string): DraftLottery {
+    return {
+      id: 'lottery-2024',
+      year: 2024,
+      date: '2024-06-15T23:00:00.000Z',
+      picks: runCompleteLottery(mockConfig, initialOrder, createSeededRng(seed)),
+      config: mockConfig,
+      initialOrder,
+      seed,
+      algorithmVersion: LOTTERY_ALGORITHM_VERSION,
+    };
+  }
+
+  it('should verify a lottery that matches its seed', () => {
+    const result = verifyLottery(createLottery('verified'));
+
+    expect(result.valid).toBe(true);
+    expect(result.errors).toHaveLength(0);
+  });
+
+  it('should detect picks that were altered after the draw', () => {
+    const lottery = createLottery('tampered');
+    const [first, second] = lottery.picks;
+    lottery.picks[0] = { ...first, teamId: second.teamId };
+
+    const result = verifyLottery(lottery);
+
+    expect(result.valid).toBe(false);
+    expect(result.errors[0]).toContain('Round 1 pick 1');
+  });
+
+  it('should report lotteries without a seed', () => {
+    const lottery = createLottery('missing');
+    delete lottery.seed;
+
+    const result = verifyLottery(lottery);
+
+    expect(result.valid).toBe(false);
+    expect(result.errors[0]).toContain('not recorded with a seed');
+  });
+
+  it('should refuse to replay a different algorithm version', () => {
+    const lottery = { ...createLottery('old'), algorithmVersion: '0' };
+
+    const result = verifyLottery(lottery);
+
+    expect(result.valid).toBe(false);
+    expect(result.errors[0]).toContain('algorithm version 0');
+  });
+});
+
+describe('[UNIT] Initial order mapping', () => {
+  it('should assign each position the team saved at that position', () => {
+    // Team 10 was dragged to position 8
+    const initialOrder = [1, 2, 3, 4, 5, 6, 7, 10, 8, 9];
+    const picks = runLotteryRound(mockConfig, 1, initialOrder, createSeededRng('mapping'));
+
+    const teamAtPosition = (position: number) =>
+      picks.find((pick) => pick.originalPosition === position)?.teamId;
+
+    expect(teamAtPosition(8)).toBe('10');
+    expect(teamAtPosition(9)).toBe('8');
+    expect(teamAtPosition(10)).toBe('9');
+    expect(teamAtPosition(1)).toBe('1');
+  });
+});
+
+describe('[UNIT] runSeededLottery', () => {
+  it('should package a verifiable lottery record for the current year', () => {
+    const initialOrder = [1, 2, 3, 4, 5, 6, 7, 8, 9, 10];
+    const lottery = runSeededLottery(mockConfig, initialOrder, 'packaged-seed');
+
+    expect(lottery.id).toMatch(/^lottery-2024-/);
+    expect(lottery.year).toBe(2024);
+    expect(lottery.seed).toBe('packaged-seed');
+    expect(lottery.algorithmVersion).toBe(LOTTERY_ALGORITHM_VERSION);
+    expect(lottery.picks).toHaveLength(50);
+    expect(verifyLottery(lottery).valid).toBe(true);
+  });
+
+  it('should give every draw its own id, even with the same seed', () => {
+    const initialOrder = [1, 2, 3, 4, 5, 6, 7, 8, 9, 10];
+    const first = runSeededLottery(mockConfig, initialOrder, 'same-seed');
+    const second = runSeededLottery(mockConfig, initialOrder, 'same-seed');
+
+    expect(first.id).not.toBe(second.id);
+    expect(first.picks).toEqual(second.picks);
+  });
+
+  it('should generate a seed when none is given', () => {
+    const lottery = runSeededLottery(mockConfig, [1, 2, 3, 4, 5, 6, 7, 8, 9, 10]);
+
+    expect(lottery.seed).toMatch(/^[0-9a-f]{32}$/);
+  });
+});
+
+describe('[UNIT] Lottery formats', () => {
+  const initialOrder = [1, 2, 3, 4, 5, 6, 7, 8, 9, 10];
+
+  it('should default to bounded movement with a 2-spot limit', () => {
+    const picks = runCompleteLottery(mockConfig, initialOrder, createSeededRng('default-format'));
+
+    expect(validateDraftResults(picks, mockConfig).valid).toBe(true);
+    picks.forEach((pick) => expect(Math.abs(pick.movement)).toBeLessThanOrEqual(2));
+  });
+
+  it('should honour a configurable max movement', () => {
+    const config: DraftConfig = {
+      ...mockConfig,
+      lotteryFormat: { type: 'bounded-movement', maxMovement: 1 },
+    };
+
+    for (let i = 0; i < 10; i++) {
+      const picks = runCompleteLottery(config, initialOrder, createSeededRng(`max-1-${i}`));
+      picks.forEach((pick) => expect(Math.abs(pick.movement)).toBeLessThanOrEqual(1));
+    }
+  });
+
+  it('should allow larger movement when configured', () => {
+    const config: DraftConfig = {
+      ...mockConfig,
+      lotteryFormat: { type: 'bounded-movement', maxMovement: 4 },
+    };
+
+    const movements = Array.from({ length: 20 }, (_, i) =>
+      runCompleteLottery(config, initialOrder, createSeededRng(`max-4-${i}`))
+    )
+      .flat()
+      .map((pick) => Math.abs(pick.movement));
+
+    expect(Math.max(...movements)).toBeGreaterThan(2);
+    expect(Math.max(...movements)).toBeLessThanOrEqual(4);
+  });
+
+  it('should keep the original order in the reverse-standings format', () => {
+    const config: DraftConfig = { ...mockConfig, lotteryFormat: { type: 'reverse-standings' } };
+    const picks = runCompleteLottery(config, initialOrder, createSeededRng('no-lottery'));
+
+    expect(picks).toHaveLength(50);
+    picks.forEach((pick) => expect(pick.movement).toBe(0));
+  });
+
+  it('should draw only the top picks and fill the rest in original order', () => {
+    const config: DraftConfig = {
+      ...mockConfig,
+      lotteryFormat: { type: 'top-picks-draw', lotteryPicks: 4 },
+    };
+
+    for (let i = 0; i < 10; i++) {
+      const picks = runLotteryRound(config, 1, initialOrder, createSeededRng(`top-${i}`));
+      const undrawn = picks.filter((pick) => pick.pickNumber > 4);
+
+      expect(picks.map((pick) => pick.pickNumber)).toEqual(initialOrder);
+      for (let j = 1; j < undrawn.length; j++) {
+        expect(undrawn[j].originalPosition).toBeGreaterThan(undrawn[j - 1].originalPosition);
+      }
+      expect(validateDraftResults(picks, config).valid).toBe(true);
+    }
+  });
+
+  it('should favour positions with more balls for the first pick', () => {
+    const config: DraftConfig = {
+      ...mockConfig,
+      lotteryFormat: { type: 'top-picks-draw', lotteryPicks: 1 },
+    };
+    const rng = createSeededRng('ball-counts');
+    const firstPickCounts: Record<number, number> = {};
+
+    for (let i = 0; i < 2000; i++) {
+      const [first] = runLotteryRound(config, 1, initialOrder, rng);
+      firstPickCounts[first.originalPosition] = (firstPickCounts[first.originalPosition] || 0) + 1;
+    }
+
+    // Position 10 has 25% of the balls, position 1 has 3.1%
+    expect(firstPickCounts[10]).toBeGreaterThan(400);
+    expect(firstPickCounts[1]).toBeLessThan(120);
+  });
+
+  it('should keep playoff teams in place in the non-playoff format', () => {
+    const config: DraftConfig = {
+      ...mockConfig,
+      lotteryFormat: { type: 'non-playoff', playoffTeams: 6, maxMovement: 2 },
+    };
+
+    for (let i = 0; i < 10; i++) {
+      const picks = runLotteryRound(config, 1, initialOrder, createSeededRng(`playoff-${i}`));
+
+      picks
+        .filter((pick) => pick.originalPosition <= 6)
+        .forEach((pick) => expect(pick.movement).toBe(0));
+      picks
+        .filter((pick) => pick.originalPosition > 6)
+        .forEach((pick) => expect(pick.pickNumber).toBeGreaterThan(6));
+      expect(validateDraftResults(picks, config).valid).toBe(true);
+    }
+  });
+
+  it('should draw every pick from the ball machine in the ball-draw format', () => {
+    const config: DraftConfig = { ...mockConfig, lotteryFormat: { type: 'ball-draw' } };
+    const picks = runLotteryRound(config, 1, initialOrder, createSeededRng('machine'));
+
+    expect(picks.map((pick) => pick.pickNumber)).toEqual(initialOrder);
+    expect(new Set(picks.map((pick) => pick.teamId)).size).toBe(10);
+    picks.forEach((pick) => expect(pick.movement).toBe(pick.pickNumber - pick.originalPosition));
+  });
+
+  it('should let the worst team jump far without a guard', () => {
+    const config: DraftConfig = { ...mockConfig, lotteryFormat: { type: 'ball-draw' } };
+    const rng = createSeededRng('unguarded');
+
+    const biggestJump = Math.min(
+      ...Array.from({ length: 50 }, () => runLotteryRound(config, 1, initialOrder, rng))
+        .flat()
+        .map((pick) => pick.movement)
+    );
+
+    expect(biggestJump).toBeLessThan(-2);
+  });
+
+  it('should enforce the movement guard in the ball-draw format', () => {
+    const config: DraftConfig = {
+      ...mockConfig,
+      lotteryFormat: { type: 'ball-draw', maxMovement: 2 },
+    };
+
+    for (let i = 0; i < 10; i++) {
+      const picks = runCompleteLottery(config, initialOrder, createSeededRng(`guard-${i}`));
+      expect(validateDraftResults(picks, config).valid).toBe(true);
+    }
+
+    const invalid = [{ round: 1, pickNumber: 1, teamId: '5', originalPosition: 5, movement: -4 }];
+    expect(validateDraftResults(invalid, config).valid).toBe(false);
+    expect(
+      validateDraftResults(invalid, { ...config, lotteryFormat: { type: 'ball-draw' } }).valid
+    ).toBe(true);
+  });
+
+  it('should throw for an unknown format', () => {
+    expect(() => getLotteryFormat({ type: 'coin-flip' } as any)).toThrow(
+      'Unknown lottery format: coin-flip'
+    );
+  });
+});
+
+describe('[UNIT] validateDraftResults - format dispatch', () => {
+  const pick = (pickNumber: number, originalPosition: number): DraftPick => ({
+    round: 1,
+    pickNumber,
+    teamId: String(originalPosition),
+    originalPosition,
+    movement: pickNumber - originalPosition,
+  });
+
+  it('should reject any movement in the reverse-standings format', () => {
+    const config: DraftConfig = { ...mockConfig, lotteryFormat: { type: 'reverse-standings' } };
+
+    const result = validateDraftResults([pick(1, 2), pick(2, 1)], config);
+
+    expect(result.valid).toBe(false);
+    expect(result.errors[0]).toContain('max allowed: 0');
+  });
+
+  it('should reject undrawn picks out of original order in the top-picks format', () => {
+    const config: DraftConfig = {
+      ...mockConfig,
+      lotteryFormat: { type: 'top-picks-draw', lotteryPicks: 1 },
+    };
+
+    const result = validateDraftResults([pick(1, 3), pick(2, 2), pick(3, 1)], config);
+
+    expect(result.valid).toBe(false);
+    expect(result.errors.some((error) => error.includes('out of original order'))).toBe(true);
+  });
+
+  it('should reject teams dropping further than the drawn picks', () => {
+    const config: DraftConfig = {
+      ...mockConfig,
+      lotteryFormat: { type: 'top-picks-draw', lotteryPicks: 1 },
+    };
+
+    const result = validateDraftResults([pick(3, 1)], config);
+
+    expect(result.errors[0]).toContain('dropped 2 spots (max allowed: 1)');
+  });
+
+  it('should reject a moved playoff team in the non-playoff format', () => {
+    const config: DraftConfig = {
+      ...mockConfig,
+      lotteryFormat: { type: 'non-playoff', playoffTeams: 2, maxMovement: 2 },
+    };
+
+    const result = validateDraftResults([pick(1, 2), pick(2, 1), pick(3, 4), pick(4, 3)], config);
+
+    expect(result.valid).toBe(false);
+    expect(result.errors).toContain('Playoff team at original position 2 moved 1 spots');
+  });
+
+  it('should reject a lottery team taking a playoff pick', () => {
+    const config: DraftConfig = {
+      ...mockConfig,
+      lotteryFormat: { type: 'non-playoff', playoffTeams: 2, maxMovement: 2 },
+    };
+
+    const result = validateDraftResults([pick(2, 3)], config);
+
+    expect(result.errors).toContain('Non-playoff team at original position 3 took playoff pick 2');
+  });
+});
+
+describe('[UNIT] Round order modes', () => {
+  const initialOrder = Array.from({ length: 10 }, (_, i) => i + 1);
+
+  const roundTeams = (picks: DraftPick[], round: number) =>
+    picks.filter((pick) => pick.round === round).map((pick) => pick.teamId);
+
+  it('should reverse even rounds in snake mode', () => {
+    expect([1, 2, 3, 4].map((round) => isRoundReversed(round, 'snake'))).toEqual([
+      false,
+      true,
+      false,
+      true,
+    ]);
+  });
+
+  it('should reverse rounds 2 and 3 in third-round-reversal mode', () => {
+    expect(
+      [1, 2, 3, 4, 5].map((round) => isRoundReversed(round, 'third-round-reversal'))
+    ).toEqual([false, true, true, false, true]);
+  });
+
+  it('should never reverse linear or independent rounds', () => {
+    expect(isRoundReversed(2, 'linear')).toBe(false);
+    expect(isRoundReversed(2, 'independent')).toBe(false);
+  });
+
+  it('should mirror pick numbers and original positions in a reversed round', () => {
+    const roundOne: DraftPick[] = [
+      { round: 1, pickNumber: 1, teamId: 'b', originalPosition: 2, movement: -1 },
+      { round: 1, pickNumber: 2, teamId: 'a', originalPosition: 1, movement: 1 },
+      { round: 1, pickNumber: 3, teamId: 'c', originalPosition: 3, movement: 0 },
+    ];
+
+    const roundTwo = deriveRoundPicks(roundOne, 2, 'snake', 3);
+
+    expect(roundTwo.map((pick) => pick.teamId)).toEqual(['c', 'a', 'b']);
+    expect(roundTwo[1]).toEqual({
+      round: 2,
+      pickNumber: 2,
+      teamId: 'a',
+      originalPosition: 3,
+      movement: -1,
+    });
+  });
+
+  it('should repeat the round 1 order in linear mode', () => {
+    const config: DraftConfig = { ...mockConfig, roundOrderMode: 'linear' };
+
+    const picks = runCompleteLottery(config, initialOrder, createSeededRng('linear'));
+
+    for (let round = 2; round <= config.numberOfRounds; round++) {
+      expect(roundTeams(picks, round)).toEqual(roundTeams(picks, 1));
+    }
+  });
+
+  it('should derive every later round from round 1 in snake and third-round-reversal modes', () => {
+    for (const mode of ['snake', 'third-round-reversal'] as const) {
+      const config: DraftConfig = { ...mockConfig, roundOrderMode: mode };
+
+      const picks = runCompleteLottery(config, initialOrder, createSeededRng(mode));
+      const roundOne = roundTeams(picks, 1);
+
+      for (let round = 2; round <= config.numberOfRounds; round++) {
+        const expected = isRoundReversed(round, mode) ? [...roundOne].reverse() : roundOne;
+        expect(roundTeams(picks, round)).toEqual(expected);
+      }
+      expect(validateDraftResults(picks, config).valid).toBe(true);
+    }
+  });
+
+  it('should keep the independent draws unchanged when no mode is set', () => {
+    const independent = runCompleteLottery(
+      { ...mockConfig, roundOrderMode: 'independent' },
+      initialOrder,
+      createSeededRng('same-seed')
+    );
+    const unset = runCompleteLottery(mockConfig, initialOrder, createSeededRng('same-seed'));
+
+    expect(independent).toEqual(unset);
+  });
+
+  it('should reject a later round that does not follow the mode', () => {
+    const config: DraftConfig = { ...mockConfig, roundOrderMode: 'snake' };
+    const picks = runCompleteLottery(config, initialOrder, createSeededRng('tampered'));
+
+    const roundTwo = picks.filter((pick) => pick.round === 2);
+    [roundTwo[0].teamId, roundTwo[1].teamId] = [roundTwo[1].teamId, roundTwo[0].teamId];
+
+    const result = validateDraftResults(picks, config);
+
+    expect(result.valid).toBe(false);
+    expect(result.errors).toContain('Round 2 does not follow the Snake order');
+  });
+});
+
+describe('[UNIT] League sizes', () => {
+  const makeConfig = (numberOfTeams: number, lotteryFormat?: LotteryFormatConfig): DraftConfig => ({
+    ...mockConfig,
+    numberOfTeams,
+    numberOfRounds: 2,
+    teams: Array.from({ length: numberOfTeams }, (_, i) => ({
+      id: `team-${i + 1}`,
+      name: `Team ${i + 1}`,
+      logoUrl: '',
+      logoType: 'url' as const,
+    })),
+    weightedSystem: generateWeightedOdds(numberOfTeams),
+    lotteryFormat,
+  });
+
+  const formats: LotteryFormatConfig[] = [
+    { type: 'bounded-movement', maxMovement: 2 },
+    { type: 'top-picks-draw', lotteryPicks: 4 },
+    { type: 'ball-draw', maxMovement: 3 },
+    { type: 'ball-draw' },
+    { type: 'non-playoff', playoffTeams: 2, maxMovement: 2 },
+    { type: 'reverse-standings' },
+  ];
+
+  it.each([4, 5, 8, 12, 14, 16, 20, 24, 32])(
+    'should draw a valid permutation every round with %i teams',
+    (numberOfTeams) => {
+      for (const format of formats) {
+        const config = makeConfig(numberOfTeams, format);
+        const initialOrder = Array.from({ length: numberOfTeams }, (_, i) => numberOfTeams - i);
+
+        const picks = runCompleteLottery(
+          config,
+          initialOrder,
+          createSeededRng(`${numberOfTeams}-${format.type}`)
+        );
+
+        for (let round = 1; round <= config.numberOfRounds; round++) {
+          const roundPicks = picks.filter((pick) => pick.round === round);
+          expect(roundPicks.map((pick) => pick.pickNumber).sort((a, b) => a - b)).toEqual(
+            Array.from({ length: numberOfTeams }, (_, i) => i + 1)
+          );
+          expect(new Set(roundPicks.map((pick) => pick.teamId)).size).toBe(numberOfTeams);
+        }
+        expect(validateDraftResults(picks, config).valid).toBe(true);
+      }
+    }
+  );
+
+  it('should replay a 32-team seeded lottery', () => {
+    const config = makeConfig(32);
+    const initialOrder = Array.from({ length: 32 }, (_, i) => i + 1);
+
+    const lottery = runSeededLottery(config, initialOrder, 'thirty-two');
+
+    expect(verifyLottery(lottery).valid).toBe(true);
+  });
+});
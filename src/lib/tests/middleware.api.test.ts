@@ -0,0 +1,130 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { onRequest } from '../../middleware';
+import { Database } from '../database';
+import { SESSION_COOKIE, createSessionToken, hashApiToken, hashPassword } from '../auth';
+import type { ApiToken } from '../../types';
+
+// Mock the Database module
+vi.mock('../database', () => ({
+  Database: {
+    findApiToken: vi.fn(),
+  },
+}));
+
+const passwordHash = hashPassword('draft-night', 'salt');
+
+function middlewareContext(
+  method: string,
+  path: string,
+  options: { session?: string; authorization?: string } = {}
+) {
+  const url = new URL(`http://localhost${path}`);
+  return {
+    request: new Request(url, {
+      method,
+      headers: options.authorization ? { Authorization: options.authorization } : {},
+    }),
+    url,
+    cookies: {
+      get: (name: string) =>
+        name === SESSION_COOKIE && options.session ? { value: options.session } : undefined,
+    },
+    locals: {} as App.Locals,
+    redirect: (location: string) =>
+      new Response(null, { status: 302, headers: { Location: location } }),
+  } as any;
+}
+
+describe('[API] Middleware - Commissioner Access', () => {
+  const next = vi.fn(async () => new Response('ok'));
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.stubEnv('COMMISSIONER_PASSWORD_HASH', passwordHash);
+    vi.mocked(Database.findApiToken).mockResolvedValue(undefined);
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('should reject changes from owners with 401', async () => {
+    const response = await onRequest(middlewareContext('POST', '/api/config'), next);
+
+    expect(response?.status).toBe(401);
+    expect(await response?.json()).toEqual({ error: 'Commissioner login required' });
+    expect(next).not.toHaveBeenCalled();
+  });
+
+  it('should let owners read the history', async () => {
+    const context = middlewareContext('GET', '/api/lottery/2025');
+
+    await onRequest(context, next);
+
+    expect(next).toHaveBeenCalled();
+    expect(context.locals).toEqual({ role: 'owner', authEnabled: true });
+  });
+
+  it('should send owners to the login page for the configuration page', async () => {
+    const response = await onRequest(middlewareContext('GET', '/config?tab=teams'), next);
+
+    expect(response?.status).toBe(302);
+    expect(response?.headers.get('Location')).toBe('/login?redirect=%2Fconfig%3Ftab%3Dteams');
+  });
+
+  it('should not let percent-encoded paths past the check', async () => {
+    for (const path of ['/api/%65xport', '/api/auth/%74okens', '/api//export/']) {
+      const response = await onRequest(middlewareContext('GET', path), next);
+
+      expect(response?.status).toBe(401);
+    }
+
+    const response = await onRequest(middlewareContext('GET', '/%63onfig'), next);
+
+    expect(response?.status).toBe(302);
+    expect(next).not.toHaveBeenCalled();
+  });
+
+  it('should let a logged-in commissioner make changes', async () => {
+    const context = middlewareContext('POST', '/api/config', {
+      session: createSessionToken(passwordHash),
+    });
+
+    await onRequest(context, next);
+
+    expect(next).toHaveBeenCalled();
+    expect(context.locals.role).toBe('commissioner');
+  });
+
+  it('should accept API tokens and ignore forged sessions', async () => {
+    vi.mocked(Database.findApiToken).mockResolvedValue({ id: 'token-1' } as ApiToken);
+
+    const context = middlewareContext('POST', '/api/lottery', {
+      session: createSessionToken(hashPassword('guess', 'salt')),
+      authorization: 'Bearer ddl_script',
+    });
+    await onRequest(context, next);
+
+    expect(Database.findApiToken).toHaveBeenCalledWith(hashApiToken('ddl_script'));
+    expect(context.locals.role).toBe('commissioner');
+  });
+
+  it('should reject unknown API tokens', async () => {
+    const context = middlewareContext('POST', '/api/lottery', { authorization: 'Bearer nope' });
+
+    const response = await onRequest(context, next);
+
+    expect(response?.status).toBe(401);
+  });
+
+  it('should treat everyone as the commissioner when no password is set', async () => {
+    vi.stubEnv('COMMISSIONER_PASSWORD_HASH', '');
+    const context = middlewareContext('POST', '/api/config');
+
+    await onRequest(context, next);
+
+    expect(next).toHaveBeenCalled();
+    expect(context.locals).toEqual({ role: 'commissioner', authEnabled: false });
+    expect(Database.findApiToken).not.toHaveBeenCalled();
+  });
+});
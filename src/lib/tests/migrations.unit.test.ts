@@ -0,0 +1,104 @@
+import { describe, it, expect } from 'vitest';
+import { CURRENT_SCHEMA_VERSION, MIGRATIONS, migrateDatabase } from '../migrations';
+import type { DatabaseSchema, DraftConfig } from '../../types';
+
+const legacyConfig = {
+  numberOfTeams: 4,
+  numberOfRounds: 2,
+  teams: [],
+  weightedSystem: [],
+  pickDelaySeconds: 3,
+  currentYear: 2023,
+} as DraftConfig;
+
+const legacyDatabase: DatabaseSchema = {
+  config: legacyConfig,
+  lotteries: [
+    { id: 'lottery-2023', year: 2023, date: '2023-06-15', picks: [], config: { ...legacyConfig } },
+  ],
+};
+
+describe('[UNIT] MIGRATIONS', () => {
+  it('should number migrations consecutively from 1', () => {
+    expect(MIGRATIONS.map((migration) => migration.version)).toEqual(
+      Array.from({ length: MIGRATIONS.length }, (_, i) => i + 1)
+    );
+    expect(CURRENT_SCHEMA_VERSION).toBe(MIGRATIONS.length);
+  });
+});
+
+describe('[UNIT] migrateDatabase', () => {
+  it('should upgrade an unversioned database to the current version', () => {
+    const result = migrateDatabase(legacyDatabase);
+
+    expect(result.fromVersion).toBe(0);
+    expect(result.applied.map((migration) => migration.version)).toEqual([1, 2]);
+    expect(result.db.schemaVersion).toBe(CURRENT_SCHEMA_VERSION);
+    expect(result.db.config).toMatchObject({
+      initialOrder: [1, 2, 3, 4],
+      lotteryFormat: { type: 'bounded-movement', maxMovement: 2 },
+      roundOrderMode: 'independent',
+    });
+    expect(result.db.lotteries[0].config.lotteryFormat).toEqual({
+      type: 'bounded-movement',
+      maxMovement: 2,
+    });
+  });
+
+  it('should describe every change it makes', () => {
+    const [configMigration, lotteryMigration] = migrateDatabase(legacyDatabase).applied;
+
+    expect(configMigration.changes).toEqual([
+      'config.initialOrder: set to 1..4',
+      'config.lotteryFormat: set to bounded-movement',
+      'config.roundOrderMode: set to independent',
+    ]);
+    expect(lotteryMigration.changes).toEqual([
+      'lotteries[2023].config.lotteryFormat: set to bounded-movement',
+      'lotteries[2023].config.roundOrderMode: set to independent',
+    ]);
+  });
+
+  it('should keep settings that are already present', () => {
+    const db: DatabaseSchema = {
+      config: { ...legacyConfig, initialOrder: [4, 3, 2, 1], roundOrderMode: 'snake' },
+      lotteries: [],
+    };
+
+    const result = migrateDatabase(db);
+
+    expect(result.db.config.initialOrder).toEqual([4, 3, 2, 1]);
+    expect(result.db.config.roundOrderMode).toBe('snake');
+    expect(result.applied[0].changes).toEqual(['config.lotteryFormat: set to bounded-movement']);
+  });
+
+  it('should not modify the input', () => {
+    const input = structuredClone(legacyDatabase);
+
+    migrateDatabase(input);
+
+    expect(input).toEqual(legacyDatabase);
+  });
+
+  it('should only run migrations newer than the file', () => {
+    const result = migrateDatabase({ ...legacyDatabase, schemaVersion: 1 });
+
+    expect(result.applied.map((migration) => migration.version)).toEqual([2]);
+    expect(result.db.config.initialOrder).toBeUndefined();
+  });
+
+  it('should return a current database unchanged', () => {
+    const db = { ...legacyDatabase, schemaVersion: CURRENT_SCHEMA_VERSION };
+
+    const result = migrateDatabase(db);
+
+    expect(result.db).toBe(db);
+    expect(result.applied).toEqual([]);
+  });
+
+  it('should reject a database from a newer version of the app', () => {
+    expect(() =>
+      migrateDatabase({ ...legacyDatabase, schemaVersion: CURRENT_SCHEMA_VERSION + 1 })
+    ).toThrow(`Database schema version ${CURRENT_SCHEMA_VERSION + 1} is newer`);
+  });
+});
@@ -0,0 +1,185 @@
+import { describe, it, expect } from 'vitest';
+import {
+  applyPickOwnership,
+  getPickingTeamId,
+  getPickOwner,
+  setPickOwner,
+  validateTrade,
+  validateTradeReversal,
+} from '../ownership';
+import type { DraftConfig, DraftPick, PickOwnership, PickTrade } from '../../types';
+
+const ledger: PickOwnership[] = [
+  { year: 2025, round: 1, originalTeamId: 'team-1', ownerTeamId: 'team-3' },
+  { year: 2025, round: 2, originalTeamId: 'team-2', ownerTeamId: 'team-1' },
+  { year: 2026, round: 1, originalTeamId: 'team-1', ownerTeamId: 'team-2' },
+];
+
+describe('[UNIT] getPickOwner', () => {
+  it('should return the recorded owner of a traded pick', () => {
+    expect(getPickOwner(ledger, 2025, 1, 'team-1')).toBe('team-3');
+    expect(getPickOwner(ledger, 2026, 1, 'team-1')).toBe('team-2');
+  });
+
+  it('should default to the original team', () => {
+    expect(getPickOwner(ledger, 2025, 2, 'team-1')).toBe('team-1');
+    expect(getPickOwner([], 2025, 1, 'team-4')).toBe('team-4');
+  });
+});
+
+describe('[UNIT] setPickOwner', () => {
+  it('should replace the existing entry for the same pick', () => {
+    const result = setPickOwner(ledger, {
+      year: 2025,
+      round: 1,
+      originalTeamId: 'team-1',
+      ownerTeamId: 'team-4',
+    });
+
+    expect(result).toHaveLength(3);
+    expect(getPickOwner(result, 2025, 1, 'team-1')).toBe('team-4');
+  });
+
+  it('should remove the entry when a pick goes back to its original team', () => {
+    const result = setPickOwner(ledger, {
+      year: 2025,
+      round: 2,
+      originalTeamId: 'team-2',
+      ownerTeamId: 'team-2',
+    });
+
+    expect(result).toHaveLength(2);
+    expect(getPickOwner(result, 2025, 2, 'team-2')).toBe('team-2');
+  });
+
+  it('should not modify the given ledger', () => {
+    const original = [...ledger];
+
+    setPickOwner(ledger, { year: 2027, round: 1, originalTeamId: 'team-1', ownerTeamId: 'team-2' });
+
+    expect(ledger).toEqual(original);
+  });
+});
+
+describe('[UNIT] applyPickOwnership', () => {
+  const picks: DraftPick[] = [
+    { round: 1, pickNumber: 1, teamId: 'team-2', originalPosition: 2, movement: -1 },
+    { round: 1, pickNumber: 2, teamId: 'team-1', originalPosition: 1, movement: 1 },
+    { round: 2, pickNumber: 1, teamId: 'team-2', originalPosition: 2, movement: -1 },
+    { round: 2, pickNumber: 2, teamId: 'team-1', originalPosition: 1, movement: 1 },
+  ];
+
+  it('should record the owner on traded picks only', () => {
+    const result = applyPickOwnership(picks, ledger, 2025);
+
+    expect(result.map((pick) => pick.ownerTeamId)).toEqual([
+      undefined,
+      'team-3',
+      'team-1',
+      undefined,
+    ]);
+  });
+
+  it('should keep the drawn slot and original team', () => {
+    const result = applyPickOwnership(picks, ledger, 2025);
+
+    result.forEach((pick, index) => {
+      expect(pick.teamId).toBe(picks[index].teamId);
+      expect(pick.pickNumber).toBe(picks[index].pickNumber);
+      expect(pick.movement).toBe(picks[index].movement);
+    });
+  });
+
+  it('should clear a previous owner that is no longer in the ledger', () => {
+    const result = applyPickOwnership(
+      [{ ...picks[0], ownerTeamId: 'team-4' }],
+      ledger,
+      2025
+    );
+
+    expect(result[0].ownerTeamId).toBeUndefined();
+  });
+
+  it('should pick with the owner when traded', () => {
+    const [untraded, traded] = applyPickOwnership(picks, ledger, 2025);
+
+    expect(getPickingTeamId(untraded)).toBe('team-2');
+    expect(getPickingTeamId(traded)).toBe('team-3');
+  });
+});
+
+describe('[UNIT] validateTrade', () => {
+  const config = {
+    numberOfRounds: 3,
+    teams: ['team-1', 'team-2', 'team-3', 'team-4'].map((id) => ({
+      id,
+      name: id,
+      logoUrl: '',
+      logoType: 'url',
+    })),
+  } as DraftConfig;
+
+  const trade = {
+    year: 2025,
+    round: 1,
+    originalTeamId: 'team-1',
+    fromTeamId: 'team-3',
+    toTeamId: 'team-4',
+  };
+
+  it('should accept a trade from the current owner', () => {
+    expect(validateTrade(trade, config, ledger)).toBeUndefined();
+  });
+
+  it('should accept an untraded pick from its original team', () => {
+    const untraded = { ...trade, originalTeamId: 'team-4', fromTeamId: 'team-4', toTeamId: 'team-1' };
+
+    expect(validateTrade(untraded, config, ledger)).toBeUndefined();
+  });
+
+  it('should reject a sender that does not own the pick', () => {
+    expect(validateTrade({ ...trade, fromTeamId: 'team-1' }, config, ledger)).toBe(
+      'team-1 does not own the 2025 round 1 pick of team-1'
+    );
+  });
+
+  it('should reject unknown teams, bad rounds and self trades', () => {
+    expect(validateTrade({ ...trade, toTeamId: 'team-9' }, config, ledger)).toBe(
+      'Unknown team: team-9'
+    );
+    expect(validateTrade({ ...trade, round: 4 }, config, ledger)).toBe(
+      'Round must be between 1 and 3'
+    );
+    expect(validateTrade({ ...trade, toTeamId: 'team-3' }, config, ledger)).toBe(
+      'A team cannot trade a pick to itself'
+    );
+  });
+});
+
+describe('[UNIT] validateTradeReversal', () => {
+  const trade: PickTrade = {
+    id: 'trade-1',
+    year: 2025,
+    round: 1,
+    originalTeamId: 'team-1',
+    fromTeamId: 'team-1',
+    toTeamId: 'team-3',
+    date: '2025-03-01T12:00:00.000Z',
+  };
+
+  it('should allow reversing while the receiver still owns the pick', () => {
+    expect(validateTradeReversal(trade, ledger)).toBeUndefined();
+  });
+
+  it('should reject a trade that was already reversed', () => {
+    expect(validateTradeReversal({ ...trade, reversedAt: '2025-03-02' }, ledger)).toBe(
+      'Trade has already been reversed'
+    );
+  });
+
+  it('should reject a pick that was traded on since', () => {
+    expect(validateTradeReversal({ ...trade, toTeamId: 'team-2' }, ledger)).toContain(
+      'traded again'
+    );
+  });
+});
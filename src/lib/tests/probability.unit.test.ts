@@ -0,0 +1,184 @@
+import { describe, it, expect } from 'vitest';
+import {
+  calculatePickProbabilities,
+  computeExactProbabilities,
+  DEFAULT_ITERATIONS,
+  estimateProbabilities,
+  ExactProbabilitiesUnavailableError,
+  getMaxExactTeams,
+  getMaxIterations,
+  MAX_EXACT_TEAMS,
+} from '../probability';
+import type { DraftConfig } from '../../types';
+
+function createConfig(numberOfTeams: number): DraftConfig {
+  return {
+    numberOfTeams,
+    numberOfRounds: 1,
+    teams: Array.from({ length: numberOfTeams }, (_, i) => ({
+      id: `team-${i + 1}`,
+      name: `Team ${i + 1}`,
+      logoUrl: '',
+      logoType: 'url' as const,
+    })),
+    weightedSystem: Array.from({ length: numberOfTeams }, (_, i) => ({
+      position: i + 1,
+      percentage: i + 1,
+    })),
+    pickDelaySeconds: 1,
+    currentYear: 2024,
+  };
+}
+
+const sum = (values: number[]) => values.reduce((total, value) => total + value, 0);
+
+describe('[UNIT] computeExactProbabilities', () => {
+  it('should give every position and every pick a total probability of 1', () => {
+    const matrix = computeExactProbabilities(createConfig(10));
+
+    matrix.forEach((row) => expect(sum(row)).toBeCloseTo(1, 10));
+    matrix[0].forEach((_, pick) => {
+      expect(sum(matrix.map((row) => row[pick]))).toBeCloseTo(1, 10);
+    });
+  });
+
+  it('should give zero probability to moves beyond 2 spots', () => {
+    const matrix = computeExactProbabilities(createConfig(10));
+
+    matrix.forEach((row, position) => {
+      row.forEach((probability, pick) => {
+        if (Math.abs(pick - position) > 2) {
+          expect(probability).toBe(0);
+        }
+      });
+    });
+  });
+
+  it('should match a hand-computed 2-team league', () => {
+    // Position 1 has weight 1 (stay) and 0.8 (drop); position 2 has 2.4 (move up) and 2 (stay).
+    // Whichever team is processed first decides the outcome, each with probability 1/2.
+    const matrix = computeExactProbabilities(createConfig(2));
+    const firstStays = 0.5 * (1 / 1.8) + 0.5 * (2 / 4.4);
+
+    expect(matrix[0][0]).toBeCloseTo(firstStays, 10);
+    expect(matrix[0][1]).toBeCloseTo(1 - firstStays, 10);
+    expect(matrix[1][1]).toBeCloseTo(firstStays, 10);
+  });
+
+  it('should agree with a Monte Carlo estimate', () => {
+    const config = createConfig(6);
+    const exact = computeExactProbabilities(config);
+    const estimate = estimateProbabilities(config, 20000, 'agreement');
+
+    exact.forEach((row, position) => {
+      row.forEach((probability, pick) => {
+        expect(Math.abs(probability - estimate[position][pick])).toBeLessThan(0.02);
+      });
+    });
+  });
+
+  it('should reject leagues too large for the exact calculation', () => {
+    expect(() => computeExactProbabilities(createConfig(MAX_EXACT_TEAMS + 1))).toThrow(
+      ExactProbabilitiesUnavailableError
+    );
+  });
+
+  it('should allow fewer teams the further teams can move', () => {
+    expect(getMaxExactTeams(1)).toBe(MAX_EXACT_TEAMS + 1);
+    expect(getMaxExactTeams(2)).toBe(MAX_EXACT_TEAMS);
+    expect(getMaxExactTeams(3)).toBe(MAX_EXACT_TEAMS - 1);
+    expect(getMaxExactTeams(9)).toBe(MAX_EXACT_TEAMS - 1);
+
+    const config: DraftConfig = {
+      ...createConfig(MAX_EXACT_TEAMS),
+      lotteryFormat: { type: 'bounded-movement', maxMovement: 4 },
+    };
+    expect(() => computeExactProbabilities(config)).toThrow('up to 9 teams');
+  });
+
+  it('should throw when a position has no weighted odds', () => {
+    const config = createConfig(4);
+    config.weightedSystem = config.weightedSystem.filter((odds) => odds.position !== 3);
+
+    expect(() => computeExactProbabilities(config)).toThrow('No weighted odds found for position 3');
+  });
+
+  it('should mirror the first-valid-position fallback when all odds are zero', () => {
+    const config = createConfig(3);
+    config.weightedSystem = config.weightedSystem.map((odds) => ({ ...odds, percentage: 0 }));
+
+    const matrix = computeExactProbabilities(config);
+
+    matrix.forEach((row) => expect(sum(row)).toBeCloseTo(1, 10));
+  });
+});
+
+describe('[UNIT] estimateProbabilities', () => {
+  it('should be reproducible for the same seed', () => {
+    const config = createConfig(5);
+
+    expect(estimateProbabilities(config, 500, 'same')).toEqual(
+      estimateProbabilities(config, 500, 'same')
+    );
+  });
+});
+
+describe('[UNIT] calculatePickProbabilities', () => {
+  it('should use the exact method for small leagues', () => {
+    const result = calculatePickProbabilities(createConfig(4));
+
+    expect(result.method).toBe('exact');
+    expect(result.iterations).toBeUndefined();
+    expect(result.probabilities).toHaveLength(4);
+  });
+
+  it('should fall back to Monte Carlo for large leagues', () => {
+    const result = calculatePickProbabilities(createConfig(MAX_EXACT_TEAMS + 2), {
+      iterations: 200,
+    });
+
+    expect(result.method).toBe('monte-carlo');
+    expect(result.iterations).toBe(200);
+    expect(result.probabilities).toHaveLength(MAX_EXACT_TEAMS + 2);
+  });
+
+  it('should use Monte Carlo for formats without an exact calculation', () => {
+    const config: DraftConfig = {
+      ...createConfig(4),
+      lotteryFormat: { type: 'top-picks-draw', lotteryPicks: 2 },
+    };
+
+    const result = calculatePickProbabilities(config, { iterations: 500 });
+
+    expect(result.method).toBe('monte-carlo');
+    expect(() => computeExactProbabilities(config)).toThrow('bounded-movement format');
+  });
+
+  it('should respect the configured max movement in the exact calculation', () => {
+    const config: DraftConfig = {
+      ...createConfig(6),
+      lotteryFormat: { type: 'bounded-movement', maxMovement: 1 },
+    };
+
+    const matrix = computeExactProbabilities(config);
+
+    expect(matrix[5][3]).toBe(0);
+    expect(matrix[5][4]).toBeGreaterThan(0);
+  });
+
+  it('should allow fewer iterations for larger leagues', () => {
+    expect(getMaxIterations(10)).toBe(DEFAULT_ITERATIONS);
+    expect(getMaxIterations(32)).toBe(15625);
+    expect(getMaxIterations(1000)).toBe(1000);
+  });
+
+  it('should honour an explicit Monte Carlo request', () => {
+    const result = calculatePickProbabilities(createConfig(4), {
+      method: 'monte-carlo',
+      iterations: 1000,
+    });
+
+    expect(result.method).toBe('monte-carlo');
+    result.probabilities.forEach((row) => expect(sum(row)).toBeCloseTo(1, 10));
+  });
+});
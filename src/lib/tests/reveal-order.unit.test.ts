@@ -0,0 +1,143 @@
+import { describe, it, expect } from 'vitest';
+import { getAnimatedRounds, getRevealSequence } from '../reveal-order';
+import type { DraftConfig, DraftLottery, DraftPick, RevealOrder } from '../../types';
+
+const config: DraftConfig = {
+  numberOfTeams: 4,
+  numberOfRounds: 2,
+  teams: [
+    { id: 'team-1', name: 'Team 1', logoUrl: '', logoType: 'url' },
+    { id: 'team-2', name: 'Team 2', logoUrl: '', logoType: 'url' },
+    { id: 'team-3', name: 'Team 3', logoUrl: '', logoType: 'url' },
+    { id: 'team-4', name: 'Team 4', logoUrl: '', logoType: 'url' },
+  ],
+  weightedSystem: [
+    { position: 4, percentage: 40.0 },
+    { position: 3, percentage: 30.0 },
+    { position: 2, percentage: 20.0 },
+    { position: 1, percentage: 10.0 },
+  ],
+  pickDelaySeconds: 3,
+  currentYear: 2025,
+};
+
+// Stored out of order to check the sequence doesn't depend on it
+const lottery: DraftLottery = {
+  id: 'lottery-2025',
+  year: 2025,
+  date: '2025-06-15T12:00:00.000Z',
+  seed: 'reveal-seed',
+  picks: [
+    { round: 2, pickNumber: 1, teamId: 'team-4', originalPosition: 4, movement: -3 },
+    { round: 1, pickNumber: 1, teamId: 'team-3', originalPosition: 3, movement: -2 },
+    { round: 1, pickNumber: 2, teamId: 'team-4', originalPosition: 4, movement: -2 },
+    { round: 1, pickNumber: 3, teamId: 'team-1', originalPosition: 1, movement: 2 },
+    { round: 1, pickNumber: 4, teamId: 'team-2', originalPosition: 2, movement: 2 },
+    { round: 2, pickNumber: 2, teamId: 'team-3', originalPosition: 3, movement: -1 },
+    { round: 2, pickNumber: 3, teamId: 'team-2', originalPosition: 2, movement: 1 },
+    { round: 2, pickNumber: 4, teamId: 'team-1', originalPosition: 1, movement: 3 },
+  ],
+  config,
+};
+
+function sequence(revealOrder?: RevealOrder, headToHeadReveal?: boolean, seed?: string) {
+  return getRevealSequence({
+    ...lottery,
+    seed,
+    config: { ...config, revealOrder, headToHeadReveal },
+  });
+}
+
+const labels = (picks: DraftPick[]) => picks.map((pick) => `${pick.round}.${pick.pickNumber}`);
+
+describe('[UNIT] getRevealSequence', () => {
+  it('should reveal from the first pick to the last by default', () => {
+    expect(labels(sequence())).toEqual(['1.1', '1.2', '1.3', '1.4', '2.1', '2.2', '2.3', '2.4']);
+  });
+
+  it('should count down from the last pick', () => {
+    expect(labels(sequence('last-to-first'))).toEqual([
+      '1.4',
+      '1.3',
+      '1.2',
+      '1.1',
+      '2.4',
+      '2.3',
+      '2.2',
+      '2.1',
+    ]);
+  });
+
+  it('should go through the original positions, worst first', () => {
+    const picks = sequence('by-team');
+
+    expect(picks.filter((pick) => pick.round === 1).map((pick) => pick.originalPosition)).toEqual([
+      4, 3, 2, 1,
+    ]);
+    expect(labels(picks)).toEqual(['1.2', '1.1', '1.4', '1.3', '2.1', '2.2', '2.3', '2.4']);
+  });
+
+  it('should shuffle each round the same way every time for a lottery', () => {
+    const picks = sequence('random', false, 'reveal-seed');
+
+    expect(sequence('random', false, 'reveal-seed')).toEqual(picks);
+    expect(labels(picks.slice(0, 4)).sort()).toEqual(['1.1', '1.2', '1.3', '1.4']);
+    expect(labels(picks.slice(4)).sort()).toEqual(['2.1', '2.2', '2.3', '2.4']);
+  });
+
+  it('should shuffle differently for another seed', () => {
+    const orders = new Set(
+      Array.from({ length: 10 }, (_, i) => labels(sequence('random', false, `seed-${i}`)).join())
+    );
+
+    expect(orders.size).toBeGreaterThan(1);
+  });
+
+  it('should end each round with picks 2 and 1 for the head-to-head reveal', () => {
+    expect(labels(sequence('first-to-last', true))).toEqual([
+      '1.3',
+      '1.4',
+      '1.2',
+      '1.1',
+      '2.3',
+      '2.4',
+      '2.2',
+      '2.1',
+    ]);
+    expect(labels(sequence('random', true, 'reveal-seed')).slice(2, 4)).toEqual(['1.2', '1.1']);
+  });
+
+  it('should skip the head-to-head reveal for a round with a single pick', () => {
+    const single = getRevealSequence({
+      ...lottery,
+      picks: [lottery.picks[1]],
+      config: { ...config, headToHeadReveal: true },
+    });
+
+    expect(labels(single)).toEqual(['1.1']);
+  });
+});
+
+describe('[UNIT] getAnimatedRounds', () => {
+  it('should animate every round by default', () => {
+    expect(getAnimatedRounds(lottery)).toEqual([1, 2]);
+  });
+
+  it('should animate only the selected rounds, in order', () => {
+    const animated = (animatedRounds: number[]) =>
+      getAnimatedRounds({ ...lottery, config: { ...config, animatedRounds } });
+
+    expect(animated([2, 1])).toEqual([1, 2]);
+    expect(animated([1])).toEqual([1]);
+    expect(animated([])).toEqual([]);
+  });
+
+  it('should ignore rounds the lottery does not have', () => {
+    const animated = getAnimatedRounds({
+      ...lottery,
+      config: { ...config, animatedRounds: [1, 5] },
+    });
+
+    expect(animated).toEqual([1]);
+  });
+});
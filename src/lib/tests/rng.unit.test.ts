@@ -0,0 +1,108 @@
+import { describe, it, expect } from 'vitest';
+import { createSeededRng, generateSeed, pickWeightedIndex, shuffle } from '../rng';
+
+describe('[UNIT] createSeededRng', () => {
+  it('should produce the same sequence for the same seed', () => {
+    const a = createSeededRng('league-2024');
+    const b = createSeededRng('league-2024');
+
+    const sequenceA = Array.from({ length: 20 }, () => a());
+    const sequenceB = Array.from({ length: 20 }, () => b());
+
+    expect(sequenceA).toEqual(sequenceB);
+  });
+
+  it('should produce different sequences for different seeds', () => {
+    const a = createSeededRng('seed-a');
+    const b = createSeededRng('seed-b');
+
+    expect(a()).not.toBe(b());
+  });
+
+  it('should return numbers in [0, 1)', () => {
+    const rng = createSeededRng('range-check');
+
+    for (let i = 0; i < 1000; i++) {
+      const value = rng();
+      expect(value).toBeGreaterThanOrEqual(0);
+      expect(value).toBeLessThan(1);
+    }
+  });
+});
+
+describe('[UNIT] generateSeed', () => {
+  it('should return a 32-character hex string', () => {
+    expect(generateSeed()).toMatch(/^[0-9a-f]{32}$/);
+  });
+
+  it('should return a different seed each call', () => {
+    expect(generateSeed()).not.toBe(generateSeed());
+  });
+});
+
+describe('[UNIT] shuffle', () => {
+  it('should return a permutation without mutating the input', () => {
+    const items = [1, 2, 3, 4, 5, 6, 7, 8, 9, 10];
+    const result = shuffle(items, createSeededRng('perm'));
+
+    expect(items).toEqual([1, 2, 3, 4, 5, 6, 7, 8, 9, 10]);
+    expect([...result].sort((a, b) => a - b)).toEqual(items);
+  });
+
+  it('should be reproducible with a seeded random source', () => {
+    const items = ['a', 'b', 'c', 'd', 'e'];
+
+    expect(shuffle(items, createSeededRng('same'))).toEqual(
+      shuffle(items, createSeededRng('same'))
+    );
+  });
+
+  it('should place every item in every slot with roughly equal frequency', () => {
+    const rng = createSeededRng('uniformity');
+    const counts = [0, 0, 0];
+
+    for (let i = 0; i < 3000; i++) {
+      const result = shuffle([0, 1, 2], rng);
+      counts[result[0]]++;
+    }
+
+    counts.forEach((count) => {
+      expect(count).toBeGreaterThan(850);
+      expect(count).toBeLessThan(1150);
+    });
+  });
+});
+
+describe('[UNIT] pickWeightedIndex', () => {
+  it('should pick indexes in proportion to their weights', () => {
+    const rng = createSeededRng('weights');
+    const counts = [0, 0, 0];
+
+    for (let i = 0; i < 6000; i++) {
+      counts[pickWeightedIndex([1, 2, 3], rng)]++;
+    }
+
+    expect(counts[0]).toBeGreaterThan(850);
+    expect(counts[0]).toBeLessThan(1150);
+    expect(counts[2]).toBeGreaterThan(2800);
+    expect(counts[2]).toBeLessThan(3200);
+  });
+
+  it('should never pick an index with zero weight', () => {
+    const rng = createSeededRng('zero');
+
+    for (let i = 0; i < 500; i++) {
+      expect(pickWeightedIndex([0, 5, 0], rng)).toBe(1);
+    }
+  });
+
+  it('should pick uniformly when no weight is positive', () => {
+    const index = pickWeightedIndex([0, 0, 0, 0], () => 0.6);
+
+    expect(index).toBe(2);
+  });
+
+  it('should return the last positive weight when rounding overshoots', () => {
+    expect(pickWeightedIndex([1, 1, 0], () => 0.9999999999999999)).toBe(1);
+  });
+});
@@ -0,0 +1,144 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { SqliteStorage } from '../sqlite-storage';
+import type { DatabaseSchema, DraftConfig, DraftLottery } from '../../types';
+
+const config: DraftConfig = {
+  numberOfTeams: 4,
+  numberOfRounds: 2,
+  teams: [
+    { id: 'team-1', name: 'Team 1', logoUrl: 'https://example.com/1.png', logoType: 'url' },
+    { id: 'team-2', name: 'Team 2', logoUrl: '', logoType: 'url' },
+    { id: 'team-3', name: 'Team 3', logoUrl: '', logoType: 'upload' },
+    { id: 'team-4', name: 'Team 4', logoUrl: '', logoType: 'url' },
+  ],
+  weightedSystem: [
+    { position: 4, percentage: 40.0 },
+    { position: 3, percentage: 30.0 },
+    { position: 2, percentage: 20.0 },
+    { position: 1, percentage: 10.0 },
+  ],
+  pickDelaySeconds: 3,
+  currentYear: 2025,
+  initialOrder: [2, 1, 3, 4],
+  lotteryFormat: { type: 'bounded-movement', maxMovement: 2 },
+};
+
+const lottery = (year: number, extra: Partial<DraftLottery> = {}): DraftLottery => ({
+  id: `lottery-${year}`,
+  year,
+  date: `${year}-06-15T23:00:00.000Z`,
+  picks: [
+    { round: 1, pickNumber: 1, teamId: 'team-2', originalPosition: 2, movement: -1 },
+    {
+      round: 1,
+      pickNumber: 2,
+      teamId: 'team-1',
+      ownerTeamId: 'team-3',
+      originalPosition: 1,
+      movement: 1,
+    },
+  ],
+  config,
+  ...extra,
+});
+
+const fullDatabase: DatabaseSchema = {
+  config,
+  lotteries: [
+    lottery(2024, { seed: 'abc', algorithmVersion: '2', finalized: true, finalizedAt: '2024-06-16' }),
+    lottery(2025, { initialOrder: [1, 2, 3, 4], finalized: false }),
+    lottery(2019, { imported: true, finalized: true }),
+  ],
+  pendingLottery: lottery(2026, { seed: 'pending' }),
+  supersededLotteries: [lottery(2024, { supersededAt: '2024-07-01' })],
+  pickOwnership: [{ year: 2026, round: 1, originalTeamId: 'team-1', ownerTeamId: 'team-3' }],
+  trades: [
+    {
+      id: 'trade-1',
+      year: 2026,
+      round: 1,
+      originalTeamId: 'team-1',
+      fromTeamId: 'team-1',
+      toTeamId: 'team-3',
+      date: '2025-09-01',
+    },
+  ],
+  configHistory: [{ version: 1, savedAt: '2025-01-01', comment: 'Initial', config }],
+};
+
+describe('[UNIT] SqliteStorage', () => {
+  let dir: string;
+  let storage: SqliteStorage;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'lottery-sqlite-'));
+    storage = new SqliteStorage(path.join(dir, 'nested', 'database.sqlite'));
+  });
+
+  afterEach(async () => {
+    storage.close();
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('should report an empty database as not existing', async () => {
+    expect(await storage.exists()).toBe(false);
+    await expect(storage.read()).rejects.toThrow('never initialized');
+  });
+
+  it('should read back exactly what was written', async () => {
+    await storage.write(fullDatabase);
+
+    expect(await storage.exists()).toBe(true);
+    expect(await storage.read()).toEqual(fullDatabase);
+  });
+
+  it('should keep the data after reopening the file', async () => {
+    await storage.write(fullDatabase);
+    storage.close();
+
+    const reopened = new SqliteStorage(path.join(dir, 'nested', 'database.sqlite'));
+    expect(await reopened.read()).toEqual(fullDatabase);
+    reopened.close();
+  });
+
+  it('should replace the previous contents on every write', async () => {
+    await storage.write(fullDatabase);
+    await storage.write({ config: { ...config, teams: config.teams.slice(0, 2) }, lotteries: [] });
+
+    const db = await storage.read();
+    expect(db.config.teams).toHaveLength(2);
+    expect(db.lotteries).toEqual([]);
+    expect(db.pendingLottery).toBeUndefined();
+    expect(db.trades).toBeUndefined();
+  });
+
+  it('should add columns missing from a file created by an older release', async () => {
+    const filePath = path.join(dir, 'nested', 'database.sqlite');
+    await storage.write(fullDatabase);
+    storage.close();
+
+    const { default: Sqlite } = await import('better-sqlite3');
+    const older = new Sqlite(filePath);
+    older.exec('ALTER TABLE lotteries DROP COLUMN imported');
+    older.close();
+
+    const reopened = new SqliteStorage(filePath);
+    await reopened.write(fullDatabase);
+    expect(await reopened.read()).toEqual(fullDatabase);
+    reopened.close();
+  });
+
+  it('should leave the previous data in place when a write fails', async () => {
+    await storage.write(fullDatabase);
+
+    // Two saved lotteries for the same year violate the unique index
+    await expect(
+      storage.write({ config, lotteries: [lottery(2024), lottery(2024)] })
+    ).rejects.toThrow();
+
+    expect(await storage.read()).toEqual(fullDatabase);
+  });
+});
@@ -0,0 +1,33 @@
+import { describe, it, expect } from 'vitest';
+import path from 'path';
+import { createStorage, DEFAULT_JSON_PATH, DEFAULT_SQLITE_PATH } from '../storage';
+import { JsonStorage } from '../json-storage';
+import { SqliteStorage } from '../sqlite-storage';
+
+describe('[UNIT] createStorage', () => {
+  it('should use the JSON file under src/data by default', () => {
+    const storage = createStorage({});
+
+    expect(storage).toBeInstanceOf(JsonStorage);
+    expect((storage as any).filePath).toBe(DEFAULT_JSON_PATH);
+  });
+
+  it('should select SQLite from the environment', () => {
+    const storage = createStorage({ DATABASE_BACKEND: 'sqlite' });
+
+    expect(storage).toBeInstanceOf(SqliteStorage);
+    expect((storage as any).filePath).toBe(DEFAULT_SQLITE_PATH);
+  });
+
+  it('should resolve DATABASE_PATH against the working directory', () => {
+    const storage = createStorage({ DATABASE_BACKEND: 'json', DATABASE_PATH: 'data/league.json' });
+
+    expect((storage as any).filePath).toBe(path.resolve('data/league.json'));
+  });
+
+  it('should reject an unknown backend', () => {
+    expect(() => createStorage({ DATABASE_BACKEND: 'postgres' })).toThrow(
+      'Unknown DATABASE_BACKEND "postgres"'
+    );
+  });
+});
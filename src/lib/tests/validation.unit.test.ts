@@ -0,0 +1,310 @@
+import { describe, it, expect } from 'vitest';
+import { generateWeightedOdds } from '../league';
+import {
+  isPermutation,
+  validateDraftConfig,
+  validateDraftLottery,
+  validateLotteryResults,
+  validateTeam,
+  validateWeightedOdds,
+} from '../validation';
+import { runSeededLottery } from '../lottery';
+import type { DraftConfig, DraftLottery, DraftPick } from '../../types';
+
+const validConfig: DraftConfig = {
+  numberOfTeams: 4,
+  numberOfRounds: 2,
+  teams: Array.from({ length: 4 }, (_, i) => ({
+    id: `team-${i + 1}`,
+    name: `Team ${i + 1}`,
+    logoUrl: '',
+    logoType: 'url' as const,
+  })),
+  weightedSystem: generateWeightedOdds(4),
+  pickDelaySeconds: 3,
+  currentYear: 2025,
+};
+
+const fields = (errors: { field: string }[]) => errors.map((error) => error.field);
+
+describe('[UNIT] isPermutation', () => {
+  it('should accept every number from 1 to n exactly once', () => {
+    expect(isPermutation([3, 1, 4, 2], 4)).toBe(true);
+  });
+
+  it('should reject duplicates, gaps and wrong lengths', () => {
+    expect(isPermutation([1, 1, 3, 4], 4)).toBe(false);
+    expect(isPermutation([1, 2, 3, 5], 4)).toBe(false);
+    expect(isPermutation([1, 2, 3], 4)).toBe(false);
+    expect(isPermutation('1234', 4)).toBe(false);
+  });
+});
+
+describe('[UNIT] validateTeam', () => {
+  it('should accept a complete team', () => {
+    expect(validateTeam(validConfig.teams[0])).toEqual([]);
+  });
+
+  it('should report every missing field', () => {
+    expect(fields(validateTeam({ id: '', name: ' ', logoType: 'svg' }, 'teams[1]'))).toEqual([
+      'teams[1].id',
+      'teams[1].name',
+      'teams[1].logoUrl',
+      'teams[1].logoType',
+    ]);
+  });
+});
+
+describe('[UNIT] validateWeightedOdds', () => {
+  it('should reject odds that do not total 100%', () => {
+    const odds = validConfig.weightedSystem.map((o) => ({ ...o, percentage: 20 }));
+
+    expect(validateWeightedOdds(odds, 4)).toEqual([
+      { field: 'weightedSystem', message: 'Odds must total 100% (currently 80.0%)' },
+    ]);
+  });
+
+  it('should reject duplicate positions and negative percentages', () => {
+    const odds = [
+      { position: 1, percentage: 50 },
+      { position: 1, percentage: 60 },
+      { position: 3, percentage: -10 },
+      { position: 4, percentage: 0 },
+    ];
+
+    expect(fields(validateWeightedOdds(odds, 4))).toEqual([
+      'weightedSystem[1].position',
+      'weightedSystem[2].percentage',
+    ]);
+  });
+});
+
+describe('[UNIT] validateDraftConfig', () => {
+  it('should accept a valid config', () => {
+    expect(validateDraftConfig(validConfig)).toEqual([]);
+  });
+
+  it('should reject a non-object body', () => {
+    expect(validateDraftConfig(null)).toEqual([
+      { field: 'config', message: 'Config must be an object' },
+    ]);
+  });
+
+  it('should reject a team count that does not match', () => {
+    const errors = validateDraftConfig({ ...validConfig, teams: validConfig.teams.slice(0, 3) });
+
+    expect(errors).toContainEqual({ field: 'teams', message: 'Expected 4 teams but got 3' });
+  });
+
+  it('should reject duplicate team IDs', () => {
+    const teams = validConfig.teams.map((team, i) => (i === 2 ? { ...team, id: 'team-1' } : team));
+
+    expect(validateDraftConfig({ ...validConfig, teams })).toEqual([
+      { field: 'teams[2].id', message: 'Duplicate team ID: team-1' },
+    ]);
+  });
+
+  it('should reject an initial order that is not a permutation', () => {
+    expect(fields(validateDraftConfig({ ...validConfig, initialOrder: [1, 2, 2, 4] }))).toEqual([
+      'initialOrder',
+    ]);
+  });
+
+  it('should reject out-of-range league settings', () => {
+    const errors = validateDraftConfig({
+      ...validConfig,
+      numberOfTeams: 40,
+      numberOfRounds: 0,
+      pickDelaySeconds: -1,
+    });
+
+    expect(fields(errors)).toEqual(['numberOfTeams', 'numberOfRounds', 'pickDelaySeconds']);
+  });
+
+  it('should check format settings against the league size', () => {
+    const errors = validateDraftConfig({
+      ...validConfig,
+      lotteryFormat: { type: 'non-playoff', playoffTeams: 4, maxMovement: 5 },
+      roundOrderMode: 'zigzag' as DraftConfig['roundOrderMode'],
+    });
+
+    expect(fields(errors)).toEqual([
+      'lotteryFormat.maxMovement',
+      'lotteryFormat.playoffTeams',
+      'roundOrderMode',
+    ]);
+  });
+
+  it('should accept every reveal order and reject unknown ones', () => {
+    expect(validateDraftConfig({ ...validConfig, revealOrder: 'by-team' })).toEqual([]);
+    expect(validateDraftConfig({ ...validConfig, headToHeadReveal: true })).toEqual([]);
+
+    const errors = validateDraftConfig({
+      ...validConfig,
+      revealOrder: 'alphabetical' as DraftConfig['revealOrder'],
+      headToHeadReveal: 'yes' as unknown as boolean,
+    });
+
+    expect(fields(errors)).toEqual(['revealOrder', 'headToHeadReveal']);
+  });
+
+  it('should accept animated rounds within the draft', () => {
+    expect(validateDraftConfig({ ...validConfig, animatedRounds: [1] })).toEqual([]);
+    expect(validateDraftConfig({ ...validConfig, animatedRounds: [] })).toEqual([]);
+  });
+
+  it('should reject animated rounds that are not in the draft', () => {
+    const outOfRange = validateDraftConfig({
+      ...validConfig,
+      animatedRounds: [0, validConfig.numberOfRounds + 1],
+    });
+    const notNumbers = validateDraftConfig({
+      ...validConfig,
+      animatedRounds: [1, NaN],
+    });
+
+    expect(fields(outOfRange)).toEqual(['animatedRounds', 'animatedRounds']);
+    expect(outOfRange[0].message).toBe('Round 0 is not in the draft');
+    expect(notNumbers).toEqual([
+      { field: 'animatedRounds', message: 'Animated rounds must be a list of round numbers' },
+    ]);
+  });
+
+  it('should prefix fields for nested configs', () => {
+    expect(fields(validateDraftConfig({ ...validConfig, numberOfRounds: 11 }, 'config'))).toEqual([
+      'config.numberOfRounds',
+    ]);
+  });
+});
+
+describe('[UNIT] validateDraftLottery', () => {
+  const validLottery: DraftLottery = {
+    id: 'lottery-2025',
+    year: 2025,
+    date: '2025-06-15T23:00:00.000Z',
+    picks: [{ round: 1, pickNumber: 1, teamId: 'team-2', originalPosition: 2, movement: -1 }],
+    config: validConfig,
+    seed: 'abc',
+  };
+
+  it('should accept a valid lottery', () => {
+    expect(validateDraftLottery(validLottery)).toEqual([]);
+  });
+
+  it('should report problems with the lottery record', () => {
+    const errors = validateDraftLottery({
+      ...validLottery,
+      id: '',
+      year: '2025',
+      date: 'yesterday',
+      finalized: 'yes',
+    });
+
+    expect(fields(errors)).toEqual(['id', 'year', 'date', 'finalized']);
+  });
+
+  it('should report config problems under the config field', () => {
+    const errors = validateDraftLottery({ ...validLottery, config: { ...validConfig, teams: [] } });
+
+    expect(fields(errors)).toContain('config.teams');
+  });
+
+  it('should check picks against the league', () => {
+    const errors = validateDraftLottery({
+      ...validLottery,
+      picks: [
+        { round: 3, pickNumber: 5, teamId: 'team-9', originalPosition: 1, movement: 4 },
+        {
+          round: 1,
+          pickNumber: 1,
+          teamId: 'team-1',
+          ownerTeamId: 'team-7',
+          originalPosition: 1,
+          movement: 0,
+        },
+      ],
+    });
+
+    expect(fields(errors)).toEqual(['picks[0].round', 'picks[0].pickNumber']);
+  });
+});
+
+describe('[UNIT] validateLotteryResults', () => {
+  const initialOrder = [2, 1, 4, 3];
+  const validLottery = runSeededLottery(validConfig, initialOrder, 'validation');
+
+  const withPick = (index: number, changes: Partial<DraftPick>): DraftLottery => ({
+    ...validLottery,
+    picks: validLottery.picks.map((pick, i) => (i === index ? { ...pick, ...changes } : pick)),
+  });
+
+  it('should accept a lottery drawn by the engine', () => {
+    expect(validateLotteryResults(validLottery)).toEqual([]);
+  });
+
+  it('should reject teams that are not in the config', () => {
+    expect(validateLotteryResults(withPick(0, { ownerTeamId: 'team-9' }))).toEqual([
+      { field: 'picks[0].ownerTeamId', message: 'Unknown team: team-9' },
+    ]);
+    expect(fields(validateLotteryResults(withPick(1, { teamId: 'team-9' })))).toContain(
+      'picks[1].teamId'
+    );
+  });
+
+  it('should reject a team that does not hold the original position', () => {
+    const pick = validLottery.picks[0];
+    const otherTeam = validConfig.teams.find((team) => team.id !== pick.teamId)!.id;
+
+    expect(fields(validateLotteryResults(withPick(0, { teamId: otherTeam })))).toContain(
+      'picks[0].teamId'
+    );
+  });
+
+  it('should reject movement that does not match the pick', () => {
+    const pick = validLottery.picks[2];
+
+    expect(validateLotteryResults(withPick(2, { movement: pick.movement + 2 }))).toEqual([
+      {
+        field: 'picks[2].movement',
+        message: `Movement must be pickNumber - originalPosition (${pick.movement})`,
+      },
+    ]);
+  });
+
+  it('should reject missing rounds and duplicated picks', () => {
+    const roundOne = validLottery.picks.filter((pick) => pick.round === 1);
+    const duplicated = {
+      ...roundOne[1],
+      pickNumber: 1,
+      movement: 1 - roundOne[1].originalPosition,
+    };
+
+    const errors = validateLotteryResults({
+      ...validLottery,
+      picks: [roundOne[0], duplicated, roundOne[2], roundOne[3]],
+    });
+
+    expect(errors.map((error) => error.message)).toEqual([
+      'Round 1 pick numbers must be 1 to 4, each once',
+      'Round 2 has no picks',
+    ]);
+  });
+
+  it('should apply the lottery format rules once the rounds are consistent', () => {
+    const picks: DraftPick[] = [1, 2].flatMap((round) =>
+      [4, 1, 2, 3].map((originalPosition, index) => ({
+        round,
+        pickNumber: index + 1,
+        teamId: validConfig.teams[initialOrder[originalPosition - 1] - 1].id,
+        originalPosition,
+        movement: index + 1 - originalPosition,
+      }))
+    );
+
+    const errors = validateLotteryResults({ ...validLottery, picks });
+
+    expect(errors.length).toBeGreaterThan(0);
+    expect(errors.every((error) => error.field === 'picks')).toBe(true);
+    expect(errors[0].message).toContain('moved 3 spots');
+  });
+});
@@ -0,0 +1,471 @@
+import type { DraftConfig, DraftLottery, Team, WeightedOdds } from '../types';
+import { MAX_TEAMS, MIN_TEAMS } from './league';
+import { isRoundReversed, ROUND_ORDER_MODE_LABELS, validateDraftResults } from './lottery';
+import { REVEAL_ORDER_LABELS } from './reveal-order';
+
+/**
+ * A validation problem with the field it belongs to, e.g. `teams[2].name`
+ */
+export interface FieldError {
+  field: string;
+  message: string;
+}
+
+/**
+ * Most rounds a draft can have
+ */
+export const MAX_ROUNDS = 10;
+
+/**
+ * How far the odds may be from 100% before they are rejected
+ */
+const ODDS_TOTAL_TOLERANCE = 0.1;
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isInteger(value: unknown, min: number, max: number): value is number {
+  return Number.isInteger(value) && (value as number) >= min && (value as number) <= max;
+}
+
+function isNonEmptyString(value: unknown): value is string {
+  return typeof value === 'string' && value.trim().length > 0;
+}
+
+/**
+ * Checks that an order lists every team number from 1 to numberOfTeams exactly once
+ */
+export function isPermutation(order: unknown, numberOfTeams: number): boolean {
+  if (!Array.isArray(order) || order.length !== numberOfTeams) {
+    return false;
+  }
+
+  const sorted = [...order].sort((a, b) => a - b);
+  return sorted.every((value, index) => value === index + 1);
+}
+
+export function validateTeam(team: unknown, field = 'team'): FieldError[] {
+  if (!isObject(team)) {
+    return [{ field, message: 'Must be a team object' }];
+  }
+
+  const errors: FieldError[] = [];
+
+  if (!isNonEmptyString(team.id)) {
+    errors.push({ field: `${field}.id`, message: 'Team ID is required' });
+  }
+  if (!isNonEmptyString(team.name)) {
+    errors.push({ field: `${field}.name`, message: 'Team name is required' });
+  }
+  if (typeof team.logoUrl !== 'string') {
+    errors.push({ field: `${field}.logoUrl`, message: 'Logo URL must be text' });
+  }
+  if (team.logoType !== 'url' && team.logoType !== 'upload') {
+    errors.push({ field: `${field}.logoType`, message: 'Logo type must be "url" or "upload"' });
+  }
+
+  return errors;
+}
+
+/**
+ * Checks an odds table: one entry per position 1..numberOfTeams with percentages
+ * totalling 100
+ */
+export function validateWeightedOdds(
+  weightedSystem: unknown,
+  numberOfTeams: number,
+  field = 'weightedSystem'
+): FieldError[] {
+  if (!Array.isArray(weightedSystem)) {
+    return [{ field, message: 'Weighted odds must be a list' }];
+  }
+
+  const errors: FieldError[] = [];
+  const positions = new Set<number>();
+
+  (weightedSystem as WeightedOdds[]).forEach((odds, index) => {
+    const entryField = `${field}[${index}]`;
+
+    if (!isObject(odds)) {
+      errors.push({ field: entryField, message: 'Must be an odds entry' });
+      return;
+    }
+    if (!isInteger(odds.position, 1, numberOfTeams)) {
+      errors.push({
+        field: `${entryField}.position`,
+        message: `Position must be between 1 and ${numberOfTeams}`,
+      });
+    } else if (positions.has(odds.position)) {
+      errors.push({
+        field: `${entryField}.position`,
+        message: `Position ${odds.position} has more than one entry`,
+      });
+    } else {
+      positions.add(odds.position);
+    }
+    if (typeof odds.percentage !== 'number' || !isFinite(odds.percentage) || odds.percentage < 0) {
+      errors.push({ field: `${entryField}.percentage`, message: 'Must be 0% or more' });
+    }
+  });
+
+  if (weightedSystem.length !== numberOfTeams) {
+    errors.push({ field, message: `Expected odds for ${numberOfTeams} positions` });
+  }
+
+  if (errors.length === 0) {
+    const total = (weightedSystem as WeightedOdds[]).reduce((sum, odds) => sum + odds.percentage, 0);
+    if (Math.abs(total - 100) > ODDS_TOTAL_TOLERANCE) {
+      errors.push({ field, message: `Odds must total 100% (currently ${total.toFixed(1)}%)` });
+    }
+  }
+
+  return errors;
+}
+
+function validateLotteryFormat(
+  format: unknown,
+  numberOfTeams: number,
+  field = 'lotteryFormat'
+): FieldError[] {
+  if (!isObject(format)) {
+    return [{ field, message: 'Must be a lottery format' }];
+  }
+
+  const errors: FieldError[] = [];
+  const checkMaxMovement = () => {
+    if (!isInteger(format.maxMovement, 0, numberOfTeams - 1)) {
+      errors.push({
+        field: `${field}.maxMovement`,
+        message: `Max movement must be between 0 and ${numberOfTeams - 1}`,
+      });
+    }
+  };
+
+  switch (format.type) {
+    case 'bounded-movement':
+      checkMaxMovement();
+      break;
+    case 'ball-draw':
+      if (format.maxMovement !== undefined) checkMaxMovement();
+      break;
+    case 'top-picks-draw':
+      if (!isInteger(format.lotteryPicks, 1, numberOfTeams)) {
+        errors.push({
+          field: `${field}.lotteryPicks`,
+          message: `Picks drawn must be between 1 and ${numberOfTeams}`,
+        });
+      }
+      break;
+    case 'non-playoff':
+      checkMaxMovement();
+      if (!isInteger(format.playoffTeams, 0, numberOfTeams - 1)) {
+        errors.push({
+          field: `${field}.playoffTeams`,
+          message: `Playoff teams must be between 0 and ${numberOfTeams - 1}`,
+        });
+      }
+      break;
+    case 'reverse-standings':
+      break;
+    default:
+      errors.push({ field: `${field}.type`, message: `Unknown lottery format: ${format.type}` });
+  }
+
+  return errors;
+}
+
+/**
+ * Validates a league config. Returns an empty list when it is safe to save.
+ */
+export function validateDraftConfig(config: unknown, field = ''): FieldError[] {
+  const path = (name: string) => (field ? `${field}.${name}` : name);
+
+  if (!isObject(config)) {
+    return [{ field: field || 'config', message: 'Config must be an object' }];
+  }
+
+  const errors: FieldError[] = [];
+  const numberOfTeams = config.numberOfTeams;
+  const validTeamCount = isInteger(numberOfTeams, MIN_TEAMS, MAX_TEAMS);
+
+  if (!validTeamCount) {
+    errors.push({
+      field: path('numberOfTeams'),
+      message: `Number of teams must be between ${MIN_TEAMS} and ${MAX_TEAMS}`,
+    });
+  }
+  if (!isInteger(config.numberOfRounds, 1, MAX_ROUNDS)) {
+    errors.push({
+      field: path('numberOfRounds'),
+      message: `Number of rounds must be between 1 and ${MAX_ROUNDS}`,
+    });
+  }
+  if (
+    typeof config.pickDelaySeconds !== 'number' ||
+    !isFinite(config.pickDelaySeconds) ||
+    config.pickDelaySeconds <= 0
+  ) {
+    errors.push({ field: path('pickDelaySeconds'), message: 'Pick delay must be a positive number' });
+  }
+  if (!Number.isInteger(config.currentYear)) {
+    errors.push({ field: path('currentYear'), message: 'Current year must be a whole number' });
+  }
+
+  if (!Array.isArray(config.teams)) {
+    errors.push({ field: path('teams'), message: 'Teams must be a list' });
+  } else {
+    const ids = new Set<string>();
+    (config.teams as Team[]).forEach((team, index) => {
+      const teamField = path(`teams[${index}]`);
+      errors.push(...validateTeam(team, teamField));
+
+      if (isObject(team) && isNonEmptyString(team.id)) {
+        if (ids.has(team.id)) {
+          errors.push({ field: `${teamField}.id`, message: `Duplicate team ID: ${team.id}` });
+        }
+        ids.add(team.id);
+      }
+    });
+
+    if (validTeamCount && config.teams.length !== numberOfTeams) {
+      errors.push({
+        field: path('teams'),
+        message: `Expected ${numberOfTeams} teams but got ${config.teams.length}`,
+      });
+    }
+  }
+
+  if (validTeamCount) {
+    errors.push(...validateWeightedOdds(config.weightedSystem, numberOfTeams, path('weightedSystem')));
+
+    if (config.initialOrder !== undefined && !isPermutation(config.initialOrder, numberOfTeams)) {
+      errors.push({
+        field: path('initialOrder'),
+        message: `Initial order must list each team number from 1 to ${numberOfTeams} once`,
+      });
+    }
+    if (config.lotteryFormat !== undefined) {
+      errors.push(...validateLotteryFormat(config.lotteryFormat, numberOfTeams, path('lotteryFormat')));
+    }
+  }
+
+  if (
+    config.roundOrderMode !== undefined &&
+    !Object.keys(ROUND_ORDER_MODE_LABELS).includes(config.roundOrderMode as string)
+  ) {
+    errors.push({
+      field: path('roundOrderMode'),
+      message: `Unknown round order mode: ${config.roundOrderMode}`,
+    });
+  }
+  if (
+    config.revealOrder !== undefined &&
+    !Object.keys(REVEAL_ORDER_LABELS).includes(config.revealOrder as string)
+  ) {
+    errors.push({
+      field: path('revealOrder'),
+      message: `Unknown reveal order: ${config.revealOrder}`,
+    });
+  }
+  if (config.headToHeadReveal !== undefined && typeof config.headToHeadReveal !== 'boolean') {
+    errors.push({
+      field: path('headToHeadReveal'),
+      message: 'Head-to-head reveal must be true or false',
+    });
+  }
+  if (config.animatedRounds !== undefined) {
+    const rounds = config.animatedRounds;
+    if (!Array.isArray(rounds) || !rounds.every((round) => Number.isInteger(round))) {
+      errors.push({
+        field: path('animatedRounds'),
+        message: 'Animated rounds must be a list of round numbers',
+      });
+    } else {
+      const numberOfRounds = isInteger(config.numberOfRounds, 1, MAX_ROUNDS)
+        ? (config.numberOfRounds as number)
+        : MAX_ROUNDS;
+      rounds
+        .filter((round) => round < 1 || round > numberOfRounds)
+        .forEach((round) =>
+          errors.push({
+            field: path('animatedRounds'),
+            message: `Round ${round} is not in the draft`,
+          })
+        );
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Validates the shape of a lottery record and the config saved with it
+ */
+export function validateDraftLottery(lottery: unknown): FieldError[] {
+  if (!isObject(lottery)) {
+    return [{ field: 'lottery', message: 'Lottery must be an object' }];
+  }
+
+  const errors: FieldError[] = [];
+
+  if (!isNonEmptyString(lottery.id)) {
+    errors.push({ field: 'id', message: 'Lottery ID is required' });
+  }
+  if (!Number.isInteger(lottery.year)) {
+    errors.push({ field: 'year', message: 'Year must be a whole number' });
+  }
+  if (typeof lottery.date !== 'string' || isNaN(Date.parse(lottery.date))) {
+    errors.push({ field: 'date', message: 'Date must be an ISO date string' });
+  }
+  for (const key of ['seed', 'algorithmVersion'] as const) {
+    if (lottery[key] !== undefined && typeof lottery[key] !== 'string') {
+      errors.push({ field: key, message: `${key} must be text` });
+    }
+  }
+  for (const key of ['finalized', 'imported'] as const) {
+    if (lottery[key] !== undefined && typeof lottery[key] !== 'boolean') {
+      errors.push({ field: key, message: `${key} must be true or false` });
+    }
+  }
+
+  const configErrors = validateDraftConfig(lottery.config, 'config');
+  errors.push(...configErrors);
+
+  if (!Array.isArray(lottery.picks)) {
+    errors.push({ field: 'picks', message: 'Picks must be a list' });
+    return errors;
+  }
+
+  // Picks can only be checked against the league once its config is valid
+  if (configErrors.length > 0) {
+    return errors;
+  }
+
+  const config = lottery.config as DraftConfig;
+
+  if (lottery.initialOrder !== undefined && !isPermutation(lottery.initialOrder, config.numberOfTeams)) {
+    errors.push({
+      field: 'initialOrder',
+      message: `Initial order must list each team number from 1 to ${config.numberOfTeams} once`,
+    });
+  }
+
+  lottery.picks.forEach((pick: unknown, index: number) => {
+    const pickField = `picks[${index}]`;
+
+    if (!isObject(pick)) {
+      errors.push({ field: pickField, message: 'Must be a pick' });
+      return;
+    }
+    if (!isInteger(pick.round, 1, config.numberOfRounds)) {
+      errors.push({
+        field: `${pickField}.round`,
+        message: `Round must be between 1 and ${config.numberOfRounds}`,
+      });
+    }
+    for (const key of ['pickNumber', 'originalPosition'] as const) {
+      if (!isInteger(pick[key], 1, config.numberOfTeams)) {
+        errors.push({
+          field: `${pickField}.${key}`,
+          message: `Must be between 1 and ${config.numberOfTeams}`,
+        });
+      }
+    }
+    if (!Number.isInteger(pick.movement)) {
+      errors.push({ field: `${pickField}.movement`, message: 'Movement must be a whole number' });
+    }
+    if (!isNonEmptyString(pick.teamId)) {
+      errors.push({ field: `${pickField}.teamId`, message: 'Team ID is required' });
+    }
+    if (pick.ownerTeamId !== undefined && !isNonEmptyString(pick.ownerTeamId)) {
+      errors.push({ field: `${pickField}.ownerTeamId`, message: 'Owner team ID must be text' });
+    }
+  });
+
+  return errors;
+}
+
+/**
+ * Checks that a well-formed lottery is a consistent draft order: the right number of
+ * rounds, every round a permutation of the league's picks and teams, and movements
+ * that add up. Run validateDraftLottery first; this assumes the shape is valid.
+ */
+export function validateLotteryStructure(lottery: DraftLottery): FieldError[] {
+  const { config, picks } = lottery;
+  const errors: FieldError[] = [];
+  const teamIds = new Set(config.teams.map((team) => team.id));
+
+  picks.forEach((pick, index) => {
+    const pickField = `picks[${index}]`;
+
+    if (!teamIds.has(pick.teamId)) {
+      errors.push({ field: `${pickField}.teamId`, message: `Unknown team: ${pick.teamId}` });
+    } else if (lottery.initialOrder) {
+      // Reversed rounds count original positions from the other end of the round 1 order
+      const slot = isRoundReversed(pick.round, config.roundOrderMode ?? 'independent')
+        ? config.numberOfTeams + 1 - pick.originalPosition
+        : pick.originalPosition;
+      const expectedTeam = config.teams[lottery.initialOrder[slot - 1] - 1];
+      if (expectedTeam.id !== pick.teamId) {
+        errors.push({
+          field: `${pickField}.teamId`,
+          message: `Original position ${pick.originalPosition} belongs to ${expectedTeam.id}, not ${pick.teamId}`,
+        });
+      }
+    }
+    if (pick.ownerTeamId !== undefined && !teamIds.has(pick.ownerTeamId)) {
+      errors.push({ field: `${pickField}.ownerTeamId`, message: `Unknown team: ${pick.ownerTeamId}` });
+    }
+    if (pick.movement !== pick.pickNumber - pick.originalPosition) {
+      errors.push({
+        field: `${pickField}.movement`,
+        message: `Movement must be pickNumber - originalPosition (${pick.pickNumber - pick.originalPosition})`,
+      });
+    }
+  });
+
+  const rounds = new Set(picks.map((pick) => pick.round));
+  for (let round = 1; round <= config.numberOfRounds; round++) {
+    if (!rounds.has(round)) {
+      errors.push({ field: 'picks', message: `Round ${round} has no picks` });
+      continue;
+    }
+
+    const roundPicks = picks.filter((pick) => pick.round === round);
+    if (!isPermutation(roundPicks.map((pick) => pick.pickNumber), config.numberOfTeams)) {
+      errors.push({
+        field: 'picks',
+        message: `Round ${round} pick numbers must be 1 to ${config.numberOfTeams}, each once`,
+      });
+    }
+    if (!isPermutation(roundPicks.map((pick) => pick.originalPosition), config.numberOfTeams)) {
+      errors.push({
+        field: 'picks',
+        message: `Round ${round} original positions must be 1 to ${config.numberOfTeams}, each once`,
+      });
+    }
+    if (new Set(roundPicks.map((pick) => pick.teamId)).size !== roundPicks.length) {
+      errors.push({ field: 'picks', message: `Round ${round} lists a team more than once` });
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Checks that a well-formed lottery is a consistent draw that also passes the lottery
+ * format's own validation
+ */
+export function validateLotteryResults(lottery: DraftLottery): FieldError[] {
+  const errors = validateLotteryStructure(lottery);
+
+  // The format's own rules only make sense once the rounds themselves are consistent
+  if (errors.length === 0) {
+    validateDraftResults(lottery.picks, lottery.config).errors.forEach((message) => {
+      errors.push({ field: 'picks', message });
+    });
+  }
+
+  return errors;
+}
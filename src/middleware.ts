@@ -0,0 +1,54 @@
+import type { MiddlewareHandler } from 'astro';
+import {
+  SESSION_COOKIE,
+  getBearerToken,
+  getPasswordHash,
+  hashApiToken,
+  normalizePathname,
+  requiresCommissioner,
+  verifySessionToken,
+  type Role,
+} from './lib/auth';
+import { Database } from './lib/database';
+
+/**
+ * Works out who is calling (session cookie or API token) and keeps owners out of
+ * commissioner-only routes: API calls get 401, pages redirect to the login page.
+ */
+export const onRequest: MiddlewareHandler = async (context, next) => {
+  const passwordHash = await getPasswordHash();
+  let role: Role = 'owner';
+
+  if (!passwordHash) {
+    role = 'commissioner';
+  } else {
+    const session = context.cookies.get(SESSION_COOKIE)?.value;
+    const bearerToken = getBearerToken(context.request);
+
+    if (session && verifySessionToken(session, passwordHash)) {
+      role = 'commissioner';
+    } else if (bearerToken && (await Database.findApiToken(hashApiToken(bearerToken)))) {
+      role = 'commissioner';
+    }
+  }
+
+  context.locals.role = role;
+  context.locals.authEnabled = passwordHash !== undefined;
+
+  const { pathname, search } = context.url;
+  if (role !== 'commissioner' && requiresCommissioner(context.request.method, pathname)) {
+    if ((normalizePathname(pathname) ?? pathname).startsWith('/api/')) {
+      return new Response(JSON.stringify({ error: 'Commissioner login required' }), {
+        status: 401,
+        headers: {
+          'Content-Type': 'application/json',
+        },
+      });
+    }
+
+    const redirect = encodeURIComponent(pathname + search);
+    return context.redirect(`/login?redirect=${redirect}`);
+  }
+
+  return next();
+};
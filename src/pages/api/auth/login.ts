@@ -0,0 +1,54 @@
+import type { APIRoute } from 'astro';
+import {
+  SESSION_COOKIE,
+  SESSION_MAX_AGE_SECONDS,
+  createSessionToken,
+  getPasswordHash,
+  verifyPassword,
+} from '../../../lib/auth';
+
+// Log in as the commissioner with { password }; sets the session cookie
+export const POST: APIRoute = async ({ request, cookies, url }) => {
+  try {
+    const passwordHash = await getPasswordHash();
+    if (!passwordHash) {
+      return new Response(JSON.stringify({ error: 'Commissioner login is not set up' }), {
+        status: 400,
+        headers: {
+          'Content-Type': 'application/json',
+        },
+      });
+    }
+
+    const body = await request.json().catch(() => ({}));
+    if (typeof body.password !== 'string' || !verifyPassword(body.password, passwordHash)) {
+      return new Response(JSON.stringify({ error: 'Invalid password' }), {
+        status: 401,
+        headers: {
+          'Content-Type': 'application/json',
+        },
+      });
+    }
+
+    cookies.set(SESSION_COOKIE, createSessionToken(passwordHash), {
+      path: '/',
+      httpOnly: true,
+      sameSite: 'strict',
+      secure: url.protocol === 'https:',
+      maxAge: SESSION_MAX_AGE_SECONDS,
+    });
+    return new Response(JSON.stringify({ role: 'commissioner' }), {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/json',
+      },
+    });
+  } catch (error) {
+    return new Response(JSON.stringify({ error: 'Failed to log in' }), {
+      status: 500,
+      headers: {
+        'Content-Type': 'application/json',
+      },
+    });
+  }
+};
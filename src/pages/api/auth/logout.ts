@@ -0,0 +1,13 @@
+import type { APIRoute } from 'astro';
+import { SESSION_COOKIE } from '../../../lib/auth';
+
+// Clear the commissioner session cookie
+export const POST: APIRoute = async ({ cookies }) => {
+  cookies.delete(SESSION_COOKIE, { path: '/' });
+  return new Response(JSON.stringify({ role: 'owner' }), {
+    status: 200,
+    headers: {
+      'Content-Type': 'application/json',
+    },
+  });
+};
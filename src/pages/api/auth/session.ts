@@ -0,0 +1,11 @@
+import type { APIRoute } from 'astro';
+
+// Who the caller is, as worked out by the middleware
+export const GET: APIRoute = async ({ locals }) => {
+  return new Response(JSON.stringify({ role: locals.role, authEnabled: locals.authEnabled }), {
+    status: 200,
+    headers: {
+      'Content-Type': 'application/json',
+    },
+  });
+};
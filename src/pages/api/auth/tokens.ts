@@ -0,0 +1,64 @@
+import type { APIRoute } from 'astro';
+import { generateApiToken, hashApiToken } from '../../../lib/auth';
+import { Database } from '../../../lib/database';
+import type { ApiToken } from '../../../types';
+
+// API tokens for scripts, without their hashes
+export const GET: APIRoute = async () => {
+  try {
+    const tokens = await Database.getApiTokens();
+    return new Response(JSON.stringify(tokens.map(({ tokenHash, ...token }) => token)), {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/json',
+      },
+    });
+  } catch (error) {
+    return new Response(JSON.stringify({ error: 'Failed to fetch API tokens' }), {
+      status: 500,
+      headers: {
+        'Content-Type': 'application/json',
+      },
+    });
+  }
+};
+
+// Create a token with { name }. The token itself is only returned here, once.
+export const POST: APIRoute = async ({ request }) => {
+  try {
+    const body = await request.json().catch(() => ({}));
+    const name = typeof body.name === 'string' ? body.name.trim() : '';
+    if (!name) {
+      return new Response(JSON.stringify({ error: 'Token name is required' }), {
+        status: 400,
+        headers: {
+          'Content-Type': 'application/json',
+        },
+      });
+    }
+
+    const token = generateApiToken();
+    const record: ApiToken = {
+      id: `token-${globalThis.crypto.randomUUID()}`,
+      name,
+      tokenHash: hashApiToken(token),
+      createdAt: new Date().toISOString(),
+    };
+
+    await Database.saveApiToken(record);
+    const { tokenHash, ...created } = record;
+    return new Response(JSON.stringify({ ...created, token }), {
+      status: 201,
+      headers: {
+        'Content-Type': 'application/json',
+      },
+    });
+  } catch (error) {
+    return new Response(JSON.stringify({ error: 'Failed to create API token' }), {
+      status: 500,
+      headers: {
+        'Content-Type': 'application/json',
+      },
+    });
+  }
+};
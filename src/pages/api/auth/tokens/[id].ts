@@ -0,0 +1,32 @@
+import type { APIRoute } from 'astro';
+import { Database } from '../../../../lib/database';
+
+// Revoke an API token
+export const DELETE: APIRoute = async ({ params }) => {
+  try {
+    const deleted = await Database.deleteApiToken(params.id || '');
+
+    if (!deleted) {
+      return new Response(JSON.stringify({ error: 'API token not found' }), {
+        status: 404,
+        headers: {
+          'Content-Type': 'application/json',
+        },
+      });
+    }
+
+    return new Response(JSON.stringify({ success: true }), {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/json',
+      },
+    });
+  } catch (error) {
+    return new Response(JSON.stringify({ error: 'Failed to revoke API token' }), {
+      status: 500,
+      headers: {
+        'Content-Type': 'application/json',
+      },
+    });
+  }
+};
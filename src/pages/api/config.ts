@@ -1,5 +1,6 @@
 import type { APIRoute } from 'astro';
 import { Database } from '../../lib/database';
+import { validateDraftConfig } from '../../lib/validation';
 
 export const GET: APIRoute = async () => {
   try {
@@ -20,10 +21,25 @@ export const GET: APIRoute = async () => {
   }
 };
 
-export const POST: APIRoute = async ({ request }) => {
+// The optional ?author= and ?comment= query params are recorded with the config revision
+export const POST: APIRoute = async ({ request, url }) => {
   try {
     const config = await request.json();
-    await Database.updateConfig(config);
+
+    const errors = validateDraftConfig(config);
+    if (errors.length > 0) {
+      return new Response(JSON.stringify({ error: 'Invalid config', errors }), {
+        status: 400,
+        headers: {
+          'Content-Type': 'application/json',
+        },
+      });
+    }
+
+    await Database.updateConfig(config, {
+      author: url.searchParams.get('author') ?? undefined,
+      comment: url.searchParams.get('comment') ?? undefined,
+    });
     return new Response(JSON.stringify({ success: true }), {
       status: 200,
       headers: {
@@ -0,0 +1,22 @@
+import type { APIRoute } from 'astro';
+import { Database } from '../../../lib/database';
+
+// Saved config versions, most recent first
+export const GET: APIRoute = async () => {
+  try {
+    const history = await Database.getConfigHistory();
+    return new Response(JSON.stringify(history), {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/json',
+      },
+    });
+  } catch (error) {
+    return new Response(JSON.stringify({ error: 'Failed to fetch config history' }), {
+      status: 500,
+      headers: {
+        'Content-Type': 'application/json',
+      },
+    });
+  }
+};
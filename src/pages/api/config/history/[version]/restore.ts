@@ -0,0 +1,46 @@
+import type { APIRoute } from 'astro';
+import { Database } from '../../../../../lib/database';
+
+// Make an earlier config version current again. The body may carry an author and comment.
+export const POST: APIRoute = async ({ params, request }) => {
+  try {
+    const version = parseInt(params.version || '');
+    if (isNaN(version)) {
+      return new Response(JSON.stringify({ error: 'Invalid version' }), {
+        status: 400,
+        headers: {
+          'Content-Type': 'application/json',
+        },
+      });
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const revision = await Database.restoreConfigRevision(version, {
+      author: typeof body.author === 'string' ? body.author : undefined,
+      comment: typeof body.comment === 'string' ? body.comment : undefined,
+    });
+
+    if (!revision) {
+      return new Response(JSON.stringify({ error: 'Config version not found' }), {
+        status: 404,
+        headers: {
+          'Content-Type': 'application/json',
+        },
+      });
+    }
+
+    return new Response(JSON.stringify(revision), {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/json',
+      },
+    });
+  } catch (error) {
+    return new Response(JSON.stringify({ error: 'Failed to restore config' }), {
+      status: 500,
+      headers: {
+        'Content-Type': 'application/json',
+      },
+    });
+  }
+};
@@ -0,0 +1,39 @@
+import type { APIRoute } from 'astro';
+import { ConfigRejectedError, Database } from '../../../lib/database';
+import type { Team } from '../../../types';
+
+// Add a team to the league; the odds table is interpolated to the new size
+export const POST: APIRoute = async ({ request }) => {
+  try {
+    const body = await request.json().catch(() => ({}));
+
+    const details: Partial<Pick<Team, 'name' | 'logoUrl'>> = {};
+    if (typeof body?.name === 'string' && body.name.trim()) details.name = body.name.trim();
+    if (body?.logoUrl !== undefined) details.logoUrl = body.logoUrl;
+
+    const updated = await Database.addTeam(details);
+
+    return new Response(JSON.stringify(updated), {
+      status: 201,
+      headers: {
+        'Content-Type': 'application/json',
+      },
+    });
+  } catch (error) {
+    if (error instanceof ConfigRejectedError) {
+      return new Response(JSON.stringify({ error: error.message, errors: error.errors }), {
+        status: 400,
+        headers: {
+          'Content-Type': 'application/json',
+        },
+      });
+    }
+
+    return new Response(JSON.stringify({ error: 'Failed to add team' }), {
+      status: 500,
+      headers: {
+        'Content-Type': 'application/json',
+      },
+    });
+  }
+};
@@ -0,0 +1,40 @@
+import type { APIRoute } from 'astro';
+import { ConfigRejectedError, Database } from '../../../../lib/database';
+
+// Remove a team from the league; the odds table is interpolated to the new size
+export const DELETE: APIRoute = async ({ params }) => {
+  try {
+    const updated = await Database.removeTeam(params.id || '');
+    if (!updated) {
+      return new Response(JSON.stringify({ error: 'Team not found' }), {
+        status: 404,
+        headers: {
+          'Content-Type': 'application/json',
+        },
+      });
+    }
+
+    return new Response(JSON.stringify(updated), {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/json',
+      },
+    });
+  } catch (error) {
+    if (error instanceof ConfigRejectedError) {
+      return new Response(JSON.stringify({ error: error.message, errors: error.errors }), {
+        status: 400,
+        headers: {
+          'Content-Type': 'application/json',
+        },
+      });
+    }
+
+    return new Response(JSON.stringify({ error: 'Failed to remove team' }), {
+      status: 500,
+      headers: {
+        'Content-Type': 'application/json',
+      },
+    });
+  }
+};
@@ -0,0 +1,27 @@
+import type { APIRoute } from 'astro';
+import { createBackup, readUploadedLogos } from '../../lib/backup';
+import { Database } from '../../lib/database';
+
+// Download the whole database as a backup bundle with uploaded logos embedded
+export const GET: APIRoute = async () => {
+  try {
+    const data = await Database.exportData();
+    const bundle = createBackup(data, await readUploadedLogos(data));
+    const date = bundle.exportedAt.slice(0, 10);
+
+    return new Response(JSON.stringify(bundle, null, 2), {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/json',
+        'Content-Disposition': `attachment; filename="draft-lottery-backup-${date}.json"`,
+      },
+    });
+  } catch (error) {
+    return new Response(JSON.stringify({ error: 'Failed to export database' }), {
+      status: 500,
+      headers: {
+        'Content-Type': 'application/json',
+      },
+    });
+  }
+};
@@ -0,0 +1,76 @@
+import type { APIRoute } from 'astro';
+import { parseBackup, type ImportMode } from '../../lib/backup';
+import { Database, LotteryFinalizedError } from '../../lib/database';
+import { liveBroadcast } from '../../lib/live';
+
+const IMPORT_MODES: ImportMode[] = ['merge', 'replace'];
+
+// Restore a backup bundle. ?mode=merge (default) or replace decides what happens to
+// lotteries not in the backup; ?preview=true only reports what would change, and
+// ?override=true allows replacing or removing finalized years.
+export const POST: APIRoute = async ({ request, url }) => {
+  try {
+    const mode = (url.searchParams.get('mode') ?? 'merge') as ImportMode;
+    if (!IMPORT_MODES.includes(mode)) {
+      return new Response(JSON.stringify({ error: 'Mode must be "merge" or "replace"' }), {
+        status: 400,
+        headers: {
+          'Content-Type': 'application/json',
+        },
+      });
+    }
+
+    const bundle = await request.json().catch(() => undefined);
+    const { data, errors } = parseBackup(bundle);
+    if (!data) {
+      return new Response(JSON.stringify({ error: 'Invalid backup', errors }), {
+        status: 400,
+        headers: {
+          'Content-Type': 'application/json',
+        },
+      });
+    }
+
+    if (url.searchParams.get('preview') === 'true') {
+      const preview = await Database.getImportPreview(data, mode);
+      return new Response(JSON.stringify({ imported: false, preview }), {
+        status: 200,
+        headers: {
+          'Content-Type': 'application/json',
+        },
+      });
+    }
+
+    const override = url.searchParams.get('override') === 'true';
+    const preview = await Database.importData(data, mode, override);
+
+    // Watchers of a lottery the backup doesn't have in progress go back to waiting
+    const { lotteryId } = liveBroadcast.getState();
+    if (lotteryId && lotteryId !== data.pendingLottery?.id) {
+      liveBroadcast.reset();
+    }
+
+    return new Response(JSON.stringify({ imported: true, preview }), {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/json',
+      },
+    });
+  } catch (error) {
+    if (error instanceof LotteryFinalizedError) {
+      return new Response(JSON.stringify({ error: error.message, finalized: true }), {
+        status: 409,
+        headers: {
+          'Content-Type': 'application/json',
+        },
+      });
+    }
+
+    return new Response(JSON.stringify({ error: 'Failed to import database' }), {
+      status: 500,
+      headers: {
+        'Content-Type': 'application/json',
+      },
+    });
+  }
+};
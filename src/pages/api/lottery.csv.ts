@@ -0,0 +1,25 @@
+import type { APIRoute } from 'astro';
+import { Database } from '../../lib/database';
+import { lotteriesToCsv } from '../../lib/csv';
+
+// Download every saved year's picks as one CSV
+export const GET: APIRoute = async () => {
+  try {
+    const lotteries = await Database.getAllLotteries();
+
+    return new Response(lotteriesToCsv(lotteries), {
+      status: 200,
+      headers: {
+        'Content-Type': 'text/csv; charset=utf-8',
+        'Content-Disposition': 'attachment; filename="draft-lottery-all-years.csv"',
+      },
+    });
+  } catch (error) {
+    return new Response(JSON.stringify({ error: 'Failed to export lotteries' }), {
+      status: 500,
+      headers: {
+        'Content-Type': 'application/json',
+      },
+    });
+  }
+};
@@ -1,5 +1,6 @@
 import type { APIRoute } from 'astro';
-import { Database } from '../../lib/database';
+import { Database, LotteryFinalizedError } from '../../lib/database';
+import { validateDraftLottery, validateLotteryResults } from '../../lib/validation';
 
 export const GET: APIRoute = async () => {
   try {
@@ -20,10 +21,35 @@ export const GET: APIRoute = async () => {
   }
 };
 
-export const POST: APIRoute = async ({ request }) => {
+// Saving over a finalized year needs ?override=true
+export const POST: APIRoute = async ({ request, url }) => {
   try {
     const lottery = await request.json();
-    await Database.saveLottery(lottery);
+
+    const errors = validateDraftLottery(lottery);
+    if (errors.length > 0) {
+      return new Response(JSON.stringify({ error: 'Invalid lottery', errors }), {
+        status: 400,
+        headers: {
+          'Content-Type': 'application/json',
+        },
+      });
+    }
+
+    const resultErrors = validateLotteryResults(lottery);
+    if (resultErrors.length > 0) {
+      return new Response(
+        JSON.stringify({ error: 'Lottery results failed validation', errors: resultErrors }),
+        {
+          status: 422,
+          headers: {
+            'Content-Type': 'application/json',
+          },
+        }
+      );
+    }
+
+    await Database.saveLottery(lottery, url.searchParams.get('override') === 'true');
     return new Response(JSON.stringify({ success: true }), {
       status: 200,
       headers: {
@@ -31,6 +57,15 @@ export const POST: APIRoute = async ({ request }) => {
       },
     });
   } catch (error) {
+    if (error instanceof LotteryFinalizedError) {
+      return new Response(JSON.stringify({ error: error.message, finalized: true }), {
+        status: 409,
+        headers: {
+          'Content-Type': 'application/json',
+        },
+      });
+    }
+
     return new Response(JSON.stringify({ error: 'Failed to save lottery' }), {
       status: 500,
       headers: {
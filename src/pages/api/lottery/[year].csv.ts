@@ -0,0 +1,44 @@
+import type { APIRoute } from 'astro';
+import { Database } from '../../../lib/database';
+import { lotteriesToCsv } from '../../../lib/csv';
+
+// Download one year's picks as CSV
+export const GET: APIRoute = async ({ params }) => {
+  try {
+    const year = parseInt(params.year || '');
+    if (isNaN(year)) {
+      return new Response(JSON.stringify({ error: 'Invalid year' }), {
+        status: 400,
+        headers: {
+          'Content-Type': 'application/json',
+        },
+      });
+    }
+
+    const lottery = await Database.getLotteryByYear(year);
+
+    if (!lottery) {
+      return new Response(JSON.stringify({ error: 'Lottery not found' }), {
+        status: 404,
+        headers: {
+          'Content-Type': 'application/json',
+        },
+      });
+    }
+
+    return new Response(lotteriesToCsv([lottery]), {
+      status: 200,
+      headers: {
+        'Content-Type': 'text/csv; charset=utf-8',
+        'Content-Disposition': `attachment; filename="draft-lottery-${year}.csv"`,
+      },
+    });
+  } catch (error) {
+    return new Response(JSON.stringify({ error: 'Failed to export lottery' }), {
+      status: 500,
+      headers: {
+        'Content-Type': 'application/json',
+      },
+    });
+  }
+};
@@ -0,0 +1,32 @@
+import type { APIRoute } from 'astro';
+import { Database } from '../../../../lib/database';
+
+// Earlier results for a year that were replaced by a newer one
+export const GET: APIRoute = async ({ params }) => {
+  try {
+    const year = parseInt(params.year || '');
+    if (isNaN(year)) {
+      return new Response(JSON.stringify({ error: 'Invalid year' }), {
+        status: 400,
+        headers: {
+          'Content-Type': 'application/json',
+        },
+      });
+    }
+
+    const revisions = await Database.getSupersededLotteries(year);
+    return new Response(JSON.stringify(revisions), {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/json',
+      },
+    });
+  } catch (error) {
+    return new Response(JSON.stringify({ error: 'Failed to fetch lottery revisions' }), {
+      status: 500,
+      headers: {
+        'Content-Type': 'application/json',
+      },
+    });
+  }
+};
@@ -0,0 +1,52 @@
+import type { APIRoute } from 'astro';
+import { Database } from '../../../../lib/database';
+import { verifyLottery } from '../../../../lib/lottery';
+
+export const GET: APIRoute = async ({ params }) => {
+  try {
+    const year = parseInt(params.year || '');
+    if (isNaN(year)) {
+      return new Response(JSON.stringify({ error: 'Invalid year' }), {
+        status: 400,
+        headers: {
+          'Content-Type': 'application/json',
+        },
+      });
+    }
+
+    const lottery = await Database.getLotteryByYear(year);
+
+    if (!lottery) {
+      return new Response(JSON.stringify({ error: 'Lottery not found' }), {
+        status: 404,
+        headers: {
+          'Content-Type': 'application/json',
+        },
+      });
+    }
+
+    const result = verifyLottery(lottery);
+
+    return new Response(
+      JSON.stringify({
+        year: lottery.year,
+        seed: lottery.seed ?? null,
+        algorithmVersion: lottery.algorithmVersion ?? null,
+        ...result,
+      }),
+      {
+        status: 200,
+        headers: {
+          'Content-Type': 'application/json',
+        },
+      }
+    );
+  } catch (error) {
+    return new Response(JSON.stringify({ error: 'Failed to verify lottery' }), {
+      status: 500,
+      headers: {
+        'Content-Type': 'application/json',
+      },
+    });
+  }
+};
@@ -0,0 +1,44 @@
+import type { APIRoute } from 'astro';
+import { Database, LotteryFinalizedError } from '../../../lib/database';
+import { liveBroadcast } from '../../../lib/live';
+
+// Confirming over a finalized year needs ?override=true
+export const POST: APIRoute = async ({ url }) => {
+  try {
+    const lottery = await Database.confirmPendingLottery(url.searchParams.get('override') === 'true');
+
+    if (!lottery) {
+      return new Response(JSON.stringify({ error: 'No pending lottery to confirm' }), {
+        status: 404,
+        headers: {
+          'Content-Type': 'application/json',
+        },
+      });
+    }
+
+    liveBroadcast.complete(lottery.year);
+
+    return new Response(JSON.stringify({ success: true, year: lottery.year }), {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/json',
+      },
+    });
+  } catch (error) {
+    if (error instanceof LotteryFinalizedError) {
+      return new Response(JSON.stringify({ error: error.message, finalized: true }), {
+        status: 409,
+        headers: {
+          'Content-Type': 'application/json',
+        },
+      });
+    }
+
+    return new Response(JSON.stringify({ error: 'Failed to confirm lottery' }), {
+      status: 500,
+      headers: {
+        'Content-Type': 'application/json',
+      },
+    });
+  }
+};
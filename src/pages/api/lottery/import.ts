@@ -0,0 +1,107 @@
+import type { APIRoute } from 'astro';
+import { Database, LotteryFinalizedError } from '../../../lib/database';
+import {
+  buildImportedLotteries,
+  matchTeamNames,
+  parseHistoryCsv,
+} from '../../../lib/history-import';
+
+// Import past lotteries from CSV. The body is { csv, teams } where teams maps CSV team
+// names to team IDs; exact name matches don't need to be listed. ?preview=true reports
+// the matches and the years that would be saved, using the suggested teams for names
+// not in the mapping. ?override=true allows replacing finalized years.
+export const POST: APIRoute = async ({ request, url }) => {
+  try {
+    const body = await request.json().catch(() => ({}));
+    if (typeof body.csv !== 'string') {
+      return new Response(JSON.stringify({ error: 'CSV text is required' }), {
+        status: 400,
+        headers: {
+          'Content-Type': 'application/json',
+        },
+      });
+    }
+
+    const { rows, errors: csvErrors } = parseHistoryCsv(body.csv);
+    if (csvErrors.length > 0) {
+      return new Response(JSON.stringify({ error: 'Invalid CSV', errors: csvErrors }), {
+        status: 400,
+        headers: {
+          'Content-Type': 'application/json',
+        },
+      });
+    }
+
+    const preview = url.searchParams.get('preview') === 'true';
+    const config = await Database.getConfig();
+    const matches = matchTeamNames(rows.map((row) => row.teamName), config.teams);
+
+    // Fuzzy matches only count once they are confirmed in the mapping
+    const teamIds: Record<string, string> = Object.fromEntries(
+      matches
+        .filter((match) => match.teamId && (match.exact || preview))
+        .map((match) => [match.name, match.teamId as string])
+    );
+    if (body.teams && typeof body.teams === 'object') {
+      Object.entries(body.teams).forEach(([name, teamId]) => {
+        if (typeof teamId === 'string' && teamId) teamIds[name] = teamId;
+      });
+    }
+
+    const { lotteries, errors, warnings } = buildImportedLotteries(rows, config, teamIds);
+    const years = lotteries.map((lottery) => lottery.year);
+
+    if (preview) {
+      const savedYears = new Set((await Database.getAllLotteries()).map((l) => l.year));
+      return new Response(
+        JSON.stringify({
+          imported: false,
+          matches,
+          years,
+          replacing: years.filter((year) => savedYears.has(year)),
+          errors,
+          warnings,
+        }),
+        {
+          status: 200,
+          headers: {
+            'Content-Type': 'application/json',
+          },
+        }
+      );
+    }
+
+    if (errors.length > 0) {
+      return new Response(JSON.stringify({ error: 'Invalid lotteries', errors, matches }), {
+        status: 400,
+        headers: {
+          'Content-Type': 'application/json',
+        },
+      });
+    }
+
+    await Database.saveLotteries(lotteries, url.searchParams.get('override') === 'true');
+    return new Response(JSON.stringify({ imported: true, years, warnings }), {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/json',
+      },
+    });
+  } catch (error) {
+    if (error instanceof LotteryFinalizedError) {
+      return new Response(JSON.stringify({ error: error.message, finalized: true }), {
+        status: 409,
+        headers: {
+          'Content-Type': 'application/json',
+        },
+      });
+    }
+
+    return new Response(JSON.stringify({ error: 'Failed to import lotteries' }), {
+      status: 500,
+      headers: {
+        'Content-Type': 'application/json',
+      },
+    });
+  }
+};
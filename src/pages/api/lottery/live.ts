@@ -0,0 +1,142 @@
+import type { APIRoute } from 'astro';
+import { Database } from '../../../lib/database';
+import { formatServerSentEvent, liveBroadcast, resumeBroadcast } from '../../../lib/live';
+
+// Comment lines keep proxies from closing an idle stream between reveals
+const KEEP_ALIVE_MS = 25_000;
+
+// Server-Sent Events stream for the /watch page. Starts with a "state" snapshot of the
+// reveals so far, then relays each reveal as it happens.
+export const GET: APIRoute = async ({ request }) => {
+  const live = await Database.getLiveSession().catch(() => undefined);
+  if (live) {
+    resumeBroadcast(live.lottery, live.session);
+  }
+
+  const encoder = new TextEncoder();
+  let cleanup = () => {};
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      const send = (text: string) => {
+        try {
+          controller.enqueue(encoder.encode(text));
+        } catch (error) {
+          cleanup();
+        }
+      };
+
+      send(formatServerSentEvent({ type: 'state', state: liveBroadcast.getState() }));
+      const unsubscribe = liveBroadcast.subscribe((event) => send(formatServerSentEvent(event)));
+      const keepAlive = setInterval(() => send(': keep-alive\n\n'), KEEP_ALIVE_MS);
+
+      cleanup = () => {
+        clearInterval(keepAlive);
+        unsubscribe();
+      };
+      request.signal?.addEventListener('abort', () => cleanup());
+    },
+    cancel() {
+      cleanup();
+    },
+  });
+
+  return new Response(stream, {
+    status: 200,
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive',
+    },
+  });
+};
+
+// Record and broadcast a reveal: { lotteryId, round, pickNumber }. The pick is looked up
+// in the pending lottery, so only picks the server actually drew can be shown to watchers.
+export const POST: APIRoute = async ({ request }) => {
+  try {
+    const body = await request.json().catch(() => ({}));
+    const { lotteryId, round, pickNumber } = body;
+    const validPick = Number.isInteger(round) && Number.isInteger(pickNumber);
+    if (typeof lotteryId !== 'string' || !validPick) {
+      return new Response(
+        JSON.stringify({ error: 'lotteryId, round and pickNumber are required' }),
+        {
+          status: 400,
+          headers: {
+            'Content-Type': 'application/json',
+          },
+        }
+      );
+    }
+
+    const pending = await Database.getPendingLottery();
+    if (!pending) {
+      return new Response(JSON.stringify({ error: 'No lottery in progress' }), {
+        status: 404,
+        headers: {
+          'Content-Type': 'application/json',
+        },
+      });
+    }
+
+    if (pending.id !== lotteryId) {
+      return new Response(JSON.stringify({ error: 'A different lottery is in progress' }), {
+        status: 409,
+        headers: {
+          'Content-Type': 'application/json',
+        },
+      });
+    }
+
+    const pick = pending.picks.find((p) => p.round === round && p.pickNumber === pickNumber);
+    if (!pick) {
+      return new Response(
+        JSON.stringify({ error: `No pick ${round}.${pickNumber} in this lottery` }),
+        {
+          status: 400,
+          headers: {
+            'Content-Type': 'application/json',
+          },
+        }
+      );
+    }
+
+    const session = await Database.recordReveal(pending.id, round, pickNumber);
+    if (!session) {
+      // Replaced or confirmed in the meantime
+      return new Response(JSON.stringify({ error: 'A different lottery is in progress' }), {
+        status: 409,
+        headers: {
+          'Content-Type': 'application/json',
+        },
+      });
+    }
+
+    if (liveBroadcast.getState().lotteryId === pending.id) {
+      liveBroadcast.reveal(pick);
+    } else {
+      resumeBroadcast(pending, session);
+    }
+
+    return new Response(
+      JSON.stringify({
+        revealed: session.revealed.length,
+        watchers: liveBroadcast.watcherCount,
+      }),
+      {
+        status: 200,
+        headers: {
+          'Content-Type': 'application/json',
+        },
+      }
+    );
+  } catch (error) {
+    return new Response(JSON.stringify({ error: 'Failed to broadcast reveal' }), {
+      status: 500,
+      headers: {
+        'Content-Type': 'application/json',
+      },
+    });
+  }
+};
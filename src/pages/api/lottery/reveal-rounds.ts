@@ -0,0 +1,96 @@
+import type { APIRoute } from 'astro';
+import { Database } from '../../../lib/database';
+import { liveBroadcast, resumeBroadcast } from '../../../lib/live';
+
+// Reveal whole rounds at once: { lotteryId, rounds }. Used for rounds that aren't
+// animated and to skip to the end. Picks already revealed are left as they are.
+export const POST: APIRoute = async ({ request }) => {
+  try {
+    const body = await request.json().catch(() => ({}));
+    const { lotteryId, rounds } = body;
+    const validRounds =
+      Array.isArray(rounds) && rounds.length > 0 && rounds.every(Number.isInteger);
+    if (typeof lotteryId !== 'string' || !validRounds) {
+      return new Response(JSON.stringify({ error: 'lotteryId and rounds are required' }), {
+        status: 400,
+        headers: {
+          'Content-Type': 'application/json',
+        },
+      });
+    }
+
+    const pending = await Database.getPendingLottery();
+    if (!pending) {
+      return new Response(JSON.stringify({ error: 'No lottery in progress' }), {
+        status: 404,
+        headers: {
+          'Content-Type': 'application/json',
+        },
+      });
+    }
+
+    if (pending.id !== lotteryId) {
+      return new Response(JSON.stringify({ error: 'A different lottery is in progress' }), {
+        status: 409,
+        headers: {
+          'Content-Type': 'application/json',
+        },
+      });
+    }
+
+    const missing = (rounds as number[]).find(
+      (round) => !pending.picks.some((pick) => pick.round === round)
+    );
+    if (missing !== undefined) {
+      return new Response(JSON.stringify({ error: `No round ${missing} in this lottery` }), {
+        status: 400,
+        headers: {
+          'Content-Type': 'application/json',
+        },
+      });
+    }
+
+    const picks = pending.picks
+      .filter((pick) => rounds.includes(pick.round))
+      .sort((a, b) => a.round - b.round || a.pickNumber - b.pickNumber);
+    const session = await Database.recordReveals(
+      pending.id,
+      picks.map(({ round, pickNumber }) => ({ round, pickNumber }))
+    );
+    if (!session) {
+      // Replaced or confirmed in the meantime
+      return new Response(JSON.stringify({ error: 'A different lottery is in progress' }), {
+        status: 409,
+        headers: {
+          'Content-Type': 'application/json',
+        },
+      });
+    }
+
+    if (liveBroadcast.getState().lotteryId === pending.id) {
+      liveBroadcast.revealAll(picks);
+    } else {
+      resumeBroadcast(pending, session);
+    }
+
+    return new Response(
+      JSON.stringify({
+        revealed: session.revealed.length,
+        watchers: liveBroadcast.watcherCount,
+      }),
+      {
+        status: 200,
+        headers: {
+          'Content-Type': 'application/json',
+        },
+      }
+    );
+  } catch (error) {
+    return new Response(JSON.stringify({ error: 'Failed to reveal rounds' }), {
+      status: 500,
+      headers: {
+        'Content-Type': 'application/json',
+      },
+    });
+  }
+};
@@ -0,0 +1,47 @@
+import type { APIRoute } from 'astro';
+import { Database } from '../../../lib/database';
+import { liveBroadcast } from '../../../lib/live';
+import { runSeededLottery } from '../../../lib/lottery';
+import { applyPickOwnership } from '../../../lib/ownership';
+import { getAnimatedRounds, getRevealSequence } from '../../../lib/reveal-order';
+
+export const POST: APIRoute = async () => {
+  try {
+    const config = await Database.getConfig();
+    const initialOrder =
+      config.initialOrder || Array.from({ length: config.numberOfTeams }, (_, i) => i + 1);
+
+    const lottery = runSeededLottery(config, initialOrder);
+
+    // The draw runs on the original slots; traded picks then go to their current owners
+    const ledger = await Database.getPickOwnership(lottery.year);
+    lottery.picks = applyPickOwnership(lottery.picks, ledger, lottery.year);
+    await Database.savePendingLottery(lottery);
+    liveBroadcast.start(lottery);
+
+    // Only the reveal sequence goes back to the browser (the picks in the order they are
+    // revealed); the pending record stays on the server
+    return new Response(
+      JSON.stringify({
+        id: lottery.id,
+        year: lottery.year,
+        reveal: getRevealSequence(lottery),
+        headToHead: !!lottery.config.headToHeadReveal,
+        animatedRounds: getAnimatedRounds(lottery),
+      }),
+      {
+        status: 200,
+        headers: {
+          'Content-Type': 'application/json',
+        },
+      }
+    );
+  } catch (error) {
+    return new Response(JSON.stringify({ error: 'Failed to run lottery' }), {
+      status: 500,
+      headers: {
+        'Content-Type': 'application/json',
+      },
+    });
+  }
+};
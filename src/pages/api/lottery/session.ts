@@ -0,0 +1,81 @@
+import type { APIRoute } from 'astro';
+import { Database } from '../../../lib/database';
+import { getRevealCursor, liveBroadcast } from '../../../lib/live';
+import { getAnimatedRounds, getRevealSequence } from '../../../lib/reveal-order';
+
+// The lottery being revealed and where the commissioner left off, to resume after a
+// reload. Includes picks not yet revealed, so it is commissioner-only (see auth.ts).
+export const GET: APIRoute = async () => {
+  try {
+    const live = await Database.getLiveSession();
+
+    if (!live) {
+      return new Response(JSON.stringify({ error: 'No lottery in progress' }), {
+        status: 404,
+        headers: {
+          'Content-Type': 'application/json',
+        },
+      });
+    }
+
+    const { lottery, session } = live;
+    return new Response(
+      JSON.stringify({
+        id: lottery.id,
+        year: lottery.year,
+        reveal: getRevealSequence(lottery),
+        headToHead: !!lottery.config.headToHeadReveal,
+        animatedRounds: getAnimatedRounds(lottery),
+        revealed: session.revealed,
+        cursor: getRevealCursor(lottery, session),
+        startedAt: session.startedAt,
+        updatedAt: session.updatedAt,
+      }),
+      {
+        status: 200,
+        headers: {
+          'Content-Type': 'application/json',
+        },
+      }
+    );
+  } catch (error) {
+    return new Response(JSON.stringify({ error: 'Failed to fetch live session' }), {
+      status: 500,
+      headers: {
+        'Content-Type': 'application/json',
+      },
+    });
+  }
+};
+
+// Discard the lottery in progress instead of resuming it
+export const DELETE: APIRoute = async () => {
+  try {
+    const discarded = await Database.discardPendingLottery();
+
+    if (!discarded) {
+      return new Response(JSON.stringify({ error: 'No lottery in progress' }), {
+        status: 404,
+        headers: {
+          'Content-Type': 'application/json',
+        },
+      });
+    }
+
+    liveBroadcast.reset();
+
+    return new Response(JSON.stringify({ success: true }), {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/json',
+      },
+    });
+  } catch (error) {
+    return new Response(JSON.stringify({ error: 'Failed to discard lottery' }), {
+      status: 500,
+      headers: {
+        'Content-Type': 'application/json',
+      },
+    });
+  }
+};
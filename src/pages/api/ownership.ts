@@ -0,0 +1,23 @@
+import type { APIRoute } from 'astro';
+import { Database } from '../../lib/database';
+
+// Traded picks, optionally for a single year (?year=). Owners change through /api/trades.
+export const GET: APIRoute = async ({ url }) => {
+  try {
+    const year = parseInt(url.searchParams.get('year') || '');
+    const ledger = await Database.getPickOwnership(isNaN(year) ? undefined : year);
+    return new Response(JSON.stringify(ledger), {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/json',
+      },
+    });
+  } catch (error) {
+    return new Response(JSON.stringify({ error: 'Failed to fetch pick ownership' }), {
+      status: 500,
+      headers: {
+        'Content-Type': 'application/json',
+      },
+    });
+  }
+};
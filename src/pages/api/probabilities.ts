@@ -0,0 +1,88 @@
+import type { APIRoute } from 'astro';
+import { Database } from '../../lib/database';
+import {
+  calculatePickProbabilities,
+  ExactProbabilitiesUnavailableError,
+  type ProbabilityOptions,
+} from '../../lib/probability';
+import { validateDraftConfig } from '../../lib/validation';
+
+function getOptions(url: URL): ProbabilityOptions {
+  const method = url.searchParams.get('method');
+  const iterations = parseInt(url.searchParams.get('iterations') || '');
+
+  return {
+    method: method === 'exact' || method === 'monte-carlo' ? method : 'auto',
+    // The library caps iterations further by league size
+    iterations: isNaN(iterations) ? undefined : Math.min(Math.max(iterations, 1000), 100000),
+  };
+}
+
+// Probabilities for the saved config
+export const GET: APIRoute = async ({ url }) => {
+  try {
+    const config = await Database.getConfig();
+    const matrix = calculatePickProbabilities(config, getOptions(url));
+    return new Response(JSON.stringify(matrix), {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/json',
+      },
+    });
+  } catch (error) {
+    if (error instanceof ExactProbabilitiesUnavailableError) {
+      return new Response(JSON.stringify({ error: error.message }), {
+        status: 400,
+        headers: {
+          'Content-Type': 'application/json',
+        },
+      });
+    }
+    return new Response(JSON.stringify({ error: 'Failed to calculate probabilities' }), {
+      status: 500,
+      headers: {
+        'Content-Type': 'application/json',
+      },
+    });
+  }
+};
+
+// Probabilities for an unsaved config (e.g. a proposed weightedSystem change)
+export const POST: APIRoute = async ({ request, url }) => {
+  try {
+    const config = await request.json();
+
+    const errors = validateDraftConfig(config);
+    if (errors.length > 0) {
+      return new Response(JSON.stringify({ error: 'Invalid config', errors }), {
+        status: 400,
+        headers: {
+          'Content-Type': 'application/json',
+        },
+      });
+    }
+
+    const matrix = calculatePickProbabilities(config, getOptions(url));
+    return new Response(JSON.stringify(matrix), {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/json',
+      },
+    });
+  } catch (error) {
+    if (error instanceof ExactProbabilitiesUnavailableError) {
+      return new Response(JSON.stringify({ error: error.message }), {
+        status: 400,
+        headers: {
+          'Content-Type': 'application/json',
+        },
+      });
+    }
+    return new Response(JSON.stringify({ error: 'Failed to calculate probabilities' }), {
+      status: 500,
+      headers: {
+        'Content-Type': 'application/json',
+      },
+    });
+  }
+};
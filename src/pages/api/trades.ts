@@ -0,0 +1,74 @@
+import type { APIRoute } from 'astro';
+import { Database, TradeRejectedError } from '../../lib/database';
+import type { PickTrade } from '../../types';
+
+// Trade log, optionally for a single year (?year=)
+export const GET: APIRoute = async ({ url }) => {
+  try {
+    const year = parseInt(url.searchParams.get('year') || '');
+    const trades = await Database.getTrades(isNaN(year) ? undefined : year);
+    return new Response(JSON.stringify(trades), {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/json',
+      },
+    });
+  } catch (error) {
+    return new Response(JSON.stringify({ error: 'Failed to fetch trades' }), {
+      status: 500,
+      headers: {
+        'Content-Type': 'application/json',
+      },
+    });
+  }
+};
+
+// Trade a pick from its current owner to another team
+export const POST: APIRoute = async ({ request }) => {
+  try {
+    const body = await request.json().catch(() => null);
+    if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+      return new Response(JSON.stringify({ error: 'Trade must be an object' }), {
+        status: 400,
+        headers: {
+          'Content-Type': 'application/json',
+        },
+      });
+    }
+
+    const trade: PickTrade = {
+      id: `trade-${globalThis.crypto.randomUUID()}`,
+      year: body.year,
+      round: body.round,
+      originalTeamId: body.originalTeamId,
+      fromTeamId: body.fromTeamId,
+      toTeamId: body.toTeamId,
+      date: new Date().toISOString(),
+      ...(typeof body.note === 'string' && body.note.trim() ? { note: body.note.trim() } : {}),
+    };
+
+    await Database.saveTrade(trade);
+    return new Response(JSON.stringify(trade), {
+      status: 201,
+      headers: {
+        'Content-Type': 'application/json',
+      },
+    });
+  } catch (error) {
+    // Checked against the current ownership by saveTrade
+    if (error instanceof TradeRejectedError) {
+      return new Response(JSON.stringify({ error: error.message }), {
+        status: 400,
+        headers: {
+          'Content-Type': 'application/json',
+        },
+      });
+    }
+    return new Response(JSON.stringify({ error: 'Failed to create trade' }), {
+      status: 500,
+      headers: {
+        'Content-Type': 'application/json',
+      },
+    });
+  }
+};
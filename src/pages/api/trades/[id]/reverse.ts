@@ -0,0 +1,41 @@
+import type { APIRoute } from 'astro';
+import { Database, TradeRejectedError } from '../../../../lib/database';
+
+// Undo a trade, handing the pick back to the sending team
+export const POST: APIRoute = async ({ params }) => {
+  try {
+    const reversed = await Database.reverseTrade(params.id || '', new Date().toISOString());
+
+    if (!reversed) {
+      return new Response(JSON.stringify({ error: 'Trade not found' }), {
+        status: 404,
+        headers: {
+          'Content-Type': 'application/json',
+        },
+      });
+    }
+
+    return new Response(JSON.stringify(reversed), {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/json',
+      },
+    });
+  } catch (error) {
+    // Already reversed, or the pick has moved on since
+    if (error instanceof TradeRejectedError) {
+      return new Response(JSON.stringify({ error: error.message }), {
+        status: 409,
+        headers: {
+          'Content-Type': 'application/json',
+        },
+      });
+    }
+    return new Response(JSON.stringify({ error: 'Failed to reverse trade' }), {
+      status: 500,
+      headers: {
+        'Content-Type': 'application/json',
+      },
+    });
+  }
+};
@@ -0,0 +1,64 @@
+import type { APIRoute } from 'astro';
+import { readTeamLogos } from '../../../lib/backup';
+import { Database } from '../../../lib/database';
+import { renderDraftBoardHtml } from '../../../lib/draft-board';
+
+// Print-ready draft board for one year. ?download=true saves it as a standalone HTML
+// file with uploaded logos embedded, for archiving.
+export const GET: APIRoute = async ({ params, url }) => {
+  try {
+    const year = parseInt(params.year || '');
+    if (isNaN(year)) {
+      return new Response('Invalid year', {
+        status: 400,
+        headers: {
+          'Content-Type': 'text/plain; charset=utf-8',
+        },
+      });
+    }
+
+    const lottery = await Database.getLotteryByYear(year);
+
+    if (!lottery) {
+      return new Response('Lottery not found', {
+        status: 404,
+        headers: {
+          'Content-Type': 'text/plain; charset=utf-8',
+        },
+      });
+    }
+
+    if (url.searchParams.get('download') === 'true') {
+      const html = renderDraftBoardHtml(lottery, {
+        logos: await readTeamLogos(lottery.config.teams),
+      });
+      return new Response(html, {
+        status: 200,
+        headers: {
+          'Content-Type': 'text/html; charset=utf-8',
+          'Content-Disposition': `attachment; filename="draft-board-${year}.html"`,
+        },
+      });
+    }
+
+    const html = renderDraftBoardHtml(lottery, {
+      links: [
+        { label: 'Download HTML', href: `/history/${year}/print?download=true` },
+        { label: 'Back to History', href: '/history' },
+      ],
+    });
+    return new Response(html, {
+      status: 200,
+      headers: {
+        'Content-Type': 'text/html; charset=utf-8',
+      },
+    });
+  } catch (error) {
+    return new Response('Failed to render draft board', {
+      status: 500,
+      headers: {
+        'Content-Type': 'text/plain; charset=utf-8',
+      },
+    });
+  }
+};
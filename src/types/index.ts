@@ -13,8 +13,46 @@ export interface DraftConfig {
   pickDelaySeconds: number;
   currentYear: number;
   initialOrder?: number[]; // Saved initial draft order (optional)
+  lotteryFormat?: LotteryFormatConfig; // Defaults to bounded movement with a 2-spot limit
+  roundOrderMode?: RoundOrderMode; // Defaults to independent
+  revealOrder?: RevealOrder; // Defaults to first-to-last
+  headToHeadReveal?: boolean; // End each round with a face-off for pick 1 between picks 1 and 2
+  animatedRounds?: number[]; // Rounds revealed card by card, the rest at once; defaults to all
 }
 
+/**
+ * The order the picks of a round are revealed in during the live lottery:
+ * - first-to-last: pick 1 first
+ * - last-to-first: a countdown from the last pick to pick 1
+ * - random: shuffled, but fixed for a given lottery
+ * - by-team: the original positions take turns, worst first, each learning its pick
+ */
+export type RevealOrder = 'first-to-last' | 'last-to-first' | 'random' | 'by-team';
+
+/**
+ * How rounds after the first are ordered:
+ * - independent: every round runs its own lottery
+ * - linear: every round repeats the round 1 order
+ * - snake: even rounds reverse the round 1 order
+ * - third-round-reversal: like snake, but round 3 repeats the reversed round 2 order
+ */
+export type RoundOrderMode = 'independent' | 'linear' | 'snake' | 'third-round-reversal';
+
+/**
+ * How a lottery round is drawn:
+ * - bounded-movement: every team moves at most maxMovement spots from its original position
+ * - top-picks-draw: the first lotteryPicks picks are drawn by ball count, the rest follow the original order
+ * - ball-draw: every pick is drawn from a 14-ball machine, optionally guarded by maxMovement
+ * - reverse-standings: no lottery, every team keeps its original position
+ * - non-playoff: positions 1..playoffTeams keep their picks, the rest draw with bounded movement
+ */
+export type LotteryFormatConfig =
+  | { type: 'bounded-movement'; maxMovement: number }
+  | { type: 'top-picks-draw'; lotteryPicks: number }
+  | { type: 'ball-draw'; maxMovement?: number }
+  | { type: 'reverse-standings' }
+  | { type: 'non-playoff'; playoffTeams: number; maxMovement: number };
+
 export interface WeightedOdds {
   position: number; // Original position (1-10, where 10 is worst team)
   percentage: number; // Percentage out of 1000 "balls"
@@ -23,20 +61,102 @@ export interface WeightedOdds {
 export interface DraftPick {
   round: number;
   pickNumber: number;
-  teamId: string;
+  teamId: string; // Original team whose slot the pick was drawn for
+  ownerTeamId?: string; // Team that owns the pick, when it was traded away
   originalPosition: number;
   movement: number; // Negative means moved up, positive means moved down, 0 means stayed
 }
 
+/**
+ * Current owner of a pick that changed hands, keyed by (year, round, original team)
+ */
+export interface PickOwnership {
+  year: number;
+  round: number;
+  originalTeamId: string;
+  ownerTeamId: string;
+}
+
 export interface DraftLottery {
   id: string;
   year: number;
   date: string;
   picks: DraftPick[];
   config: DraftConfig;
+  initialOrder?: number[]; // Initial order the draw was run with
+  seed?: string; // Seed for the random source, used to reproduce the draw
+  algorithmVersion?: string; // Version of the lottery algorithm that produced the picks
+  finalized?: boolean; // Official result; replacing it needs an explicit override
+  finalizedAt?: string;
+  supersededAt?: string; // Set on archived revisions that were replaced by a newer result
+  imported?: boolean; // Entered from records kept before the app, e.g. a CSV of paper draws
+}
+
+export interface PickProbabilityMatrix {
+  method: 'exact' | 'monte-carlo';
+  iterations?: number; // Simulated rounds (Monte Carlo only)
+  probabilities: number[][]; // probabilities[originalPosition - 1][pickNumber - 1]
+}
+
+/**
+ * A pick changing hands. Trades are kept as a log; creating or reversing one updates
+ * the pick ownership ledger.
+ */
+export interface PickTrade {
+  id: string;
+  year: number;
+  round: number;
+  originalTeamId: string; // Team whose draft slot the pick is for
+  fromTeamId: string;
+  toTeamId: string;
+  date: string;
+  note?: string;
+  reversedAt?: string; // Set when the trade was undone
+}
+
+/**
+ * A saved version of the config. Every save adds one, so earlier settings can be
+ * compared and restored.
+ */
+export interface ConfigRevision {
+  version: number; // Starts at 1 and increases with every save
+  savedAt: string;
+  author?: string;
+  comment?: string;
+  config: DraftConfig;
+}
+
+/**
+ * A token that lets a script call the API as the commissioner, sent as
+ * "Authorization: Bearer <token>". Only a hash of the token is stored.
+ */
+export interface ApiToken {
+  id: string;
+  name: string;
+  tokenHash: string; // SHA-256 of the token, hex
+  createdAt: string;
+}
+
+/**
+ * How far the commissioner got revealing the pending lottery, so a reload can resume
+ * at the same pick
+ */
+export interface LiveSession {
+  lotteryId: string; // The pending lottery being revealed
+  revealed: { round: number; pickNumber: number }[]; // In the order they were revealed
+  startedAt: string;
+  updatedAt: string;
 }
 
 export interface DatabaseSchema {
+  schemaVersion?: number; // Missing in files written before versioning (version 0)
   config: DraftConfig;
   lotteries: DraftLottery[];
+  pendingLottery?: DraftLottery; // Drawn on the server but not yet confirmed
+  liveSession?: LiveSession; // Reveal progress of the pending lottery; kept out of backups
+  pickOwnership?: PickOwnership[]; // Traded picks; untraded picks are owned by their original team
+  trades?: PickTrade[]; // Trade log, oldest first
+  supersededLotteries?: DraftLottery[]; // Replaced results, kept for the record
+  configHistory?: ConfigRevision[]; // Config versions, oldest first
+  apiTokens?: ApiToken[]; // Kept out of backups
 }